@@ -15,7 +15,7 @@ export interface TATPaymentConfig {
   acceptedIssuers: string[];
 
   /** Token types accepted (TAT, FUNGIBLE, or both) */
-  acceptedTokenTypes: ("TAT" | "FUNGIBLE")[];
+  acceptedTokenTypes: ("TAT" | "FUNGIBLE" | "SEMI_FUNGIBLE")[];
 
   /** Pubkey to receive TAT payments */
   receiverPubkey: string;
@@ -170,46 +170,7 @@ export type PaymentSubmission =
     };
 
 /**
- * Forge authorization data (per spec section 6.2)
+ * Forge authorization (kind 30130) and mint request shapes are shared with the
+ * forge, so they live in @tat-protocol/types.
  */
-export interface ForgeAuthorization {
-  eventId: string; // Kind 30130 event ID
-  boxOfficePubkey: string;
-  catalogItemIds: string[]; // Authorized items
-  maxFee: number; // Maximum fee rate
-  expiresAt?: number; // Authorization expiry
-  restrictions?: {
-    regions?: string[]; // ISO country codes
-    paymentMethods?: string[]; // Allowed methods
-    maxPerDay?: number; // Rate limit
-    maxTotal?: number; // Total cap
-  };
-  settlement: {
-    currency: string;
-    frequency: "instant" | "daily" | "weekly";
-    minimumAmount?: number;
-  };
-}
-
-/**
- * Mint request to Forge (per spec section 6.3)
- */
-export interface ForgeMintRequest {
-  authorizationEventId?: string; // Reference to kind 30130 event (if using Booth)
-  catalogItemId: string;
-  buyerPubkey: string;
-
-  payment: {
-    type: string;
-    amount: number;
-    referenceId: string;
-    details?: Record<string, unknown>;
-  };
-
-  fees?: {
-    boxOffice: number;
-    platform: number;
-  };
-
-  invoiceId: string;
-}
+export type { ForgeAuthorization, ForgeMintRequest } from "@tat-protocol/types";
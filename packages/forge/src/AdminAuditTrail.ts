@@ -0,0 +1,75 @@
+import type { StorageInterface } from "@tat-protocol/storage";
+import type { AdminAuditEntry } from "./Types.js";
+
+/**
+ * Append-only record of the admin actions taken on a forge.
+ *
+ * Each entry is written to its own `<prefix>:<n>` key before `<prefix>:head`
+ * is advanced, so an entry counts only once it is fully written. Entries are
+ * read back from storage on demand; only the head is cached.
+ */
+export class AdminAuditTrail {
+  private head?: number;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageInterface,
+    private readonly prefix: string = "admin-audit",
+  ) {}
+
+  /**
+   * Appends one entry.
+   */
+  async append(entry: AdminAuditEntry): Promise<void> {
+    await this.exclusive(async () => {
+      const head = await this.loadHead();
+      await this.storage.setItem(
+        `${this.prefix}:${head}`,
+        JSON.stringify(entry),
+      );
+      await this.storage.setItem(`${this.prefix}:head`, String(head + 1));
+      this.head = head + 1;
+    });
+  }
+
+  /**
+   * Number of entries in the trail.
+   */
+  async size(): Promise<number> {
+    return this.exclusive(() => this.loadHead());
+  }
+
+  /**
+   * Entries `start` (inclusive) to `end` (exclusive).
+   */
+  async getEntries(start: number, end: number): Promise<AdminAuditEntry[]> {
+    const size = await this.size();
+    const entries: AdminAuditEntry[] = [];
+    for (let i = Math.max(0, start); i < Math.min(end, size); i++) {
+      const entry = await this.storage.getItem(`${this.prefix}:${i}`);
+      if (!entry) {
+        throw new Error(`Admin audit entry ${this.prefix}:${i} is missing`);
+      }
+      entries.push(JSON.parse(entry) as AdminAuditEntry);
+    }
+    return entries;
+  }
+
+  private async loadHead(): Promise<number> {
+    if (this.head === undefined) {
+      this.head = Number(
+        (await this.storage.getItem(`${this.prefix}:head`)) ?? 0,
+      );
+    }
+    return this.head;
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+}
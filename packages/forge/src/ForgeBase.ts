@@ -1,35 +1,179 @@
 import { ForgeConfig } from "./ForgeConfig.js";
 import { ForgeState } from "./ForgeState.js";
-import { Token } from "@tat-protocol/token";
+import { Token, TokenType, receiptDigest } from "@tat-protocol/token";
 import { TokenValidator } from "@tat-protocol/token";
+import type { Receipt, ReceiptToken } from "@tat-protocol/token";
 import {
   NWPCServer,
   NWPCRequest,
   NWPCContext,
   NWPCResponseObject,
   NWPCResponse,
+  NWPCState,
   NWPC_SPEC_ERRORS,
 } from "@tat-protocol/nwpc";
 import {
   signMessage,
   verifySignature,
   spendAuthDigest,
+  swapSpendOuts,
   postToFeed,
+  postHTLCClaim,
+  postLogRoot,
+  logRootDigest,
+  signForgeAuthorization,
+  signKeyRotation,
+  postTokenRevocation,
+  isRevocationActive,
+  REVOCATION_REASONS,
+  htlcHashlock,
+  transferabilityError,
   DebugLogger,
+  type BlindSignature,
+  type LogEntry,
+  type LogRoot,
+  type RevocationReason,
+  type TokenRevocation,
+  type Transferability,
 } from "@tat-protocol/utils";
-import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { bytesToHex, hexToBytes, randomBytes } from "@noble/hashes/utils";
+import { sha256 } from "@noble/hashes/sha256";
 import { generateSecretKey, getPublicKey } from "nostr-tools";
-import { StorageInterface } from "@tat-protocol/storage";
+import {
+  AppendOnlySpentTokenStore,
+  SpentTokenStore,
+  StorageInterface,
+} from "@tat-protocol/storage";
+import type { ForgeAuthorization, ForgeMintRequest } from "@tat-protocol/types";
+import type { KeyPair } from "@tat-protocol/hdkeys";
+import { TransparencyLog } from "./TransparencyLog.js";
+import { AdminAuditTrail } from "./AdminAuditTrail.js";
+import { RecordStore } from "./RecordStore.js";
+import type { TransferPolicy } from "./TransferPolicy.js";
+import type {
+  AdminAuditEntry,
+  AuthorizationRecord,
+  BatchMintRecipient,
+  Recipient,
+  BatchMintResult,
+  ForgerPolicy,
+  ForgerUsage,
+  IdempotentResult,
+  KeyRotationRecord,
+  PauseScope,
+  PendingTx,
+  SetSupply,
+  SwapLeg,
+  TATMetadata,
+  Witness,
+} from "./Types.js";
 
 const Debug = DebugLogger.getInstance();
 
+// How long idempotent results are kept by default (24 hours, in seconds).
+const DEFAULT_IDEMPOTENCY_WINDOW = 24 * 60 * 60;
+
+// Default interval between published log roots (1 hour, in seconds).
+const DEFAULT_LOG_ROOT_INTERVAL = 60 * 60;
+
+// Most entries returned by one `log.entries` request.
+const MAX_LOG_ENTRIES_PER_REQUEST = 1000;
+
+// Most recipients in one `forge.batch` request. Larger airdrops are split
+// across requests.
+const MAX_BATCH_RECIPIENTS = 1000;
+
+// Bounds on TAT metadata, which every transfer re-signs and every holder
+// stores: the data URI's length and the serialized `ext` object's length.
+const MAX_DATA_URI_LENGTH = 2048;
+const MAX_EXT_LENGTH = 4096;
+
+// Most entries returned by one `admin.audit` request.
+const MAX_AUDIT_ENTRIES_PER_REQUEST = 1000;
+
+const PAUSE_SCOPES: PauseScope[] = ["minting", "transfers"];
+
+// Upper bound on the pubkeys of one multisig lock, which bounds the
+// signatures the forge verifies per input.
+const MAX_MULTISIG_KEYS = 16;
+
+// The set a token belongs to when its payload carries no setID.
+const DEFAULT_SET_ID = "-";
+
+// Seeds per-set supply accounting from ForgeConfig.sets.
+function forgeSets(sets: ForgeConfig["sets"]): Map<string, SetSupply> {
+  return new Map(
+    Object.entries(sets ?? {}).map(([setID, { totalSupply }]) => [
+      setID,
+      { totalSupply: totalSupply ?? 0, circulatingSupply: 0, burnedSupply: 0 },
+    ]),
+  );
+}
+
+// Returns why `policy` is not a valid ForgerPolicy, or null if it is.
+function forgerPolicyError(policy: unknown): string | null {
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+    return "policy must be an object";
+  }
+  const { maxPerMint, maxPerDay, maxTotal, tokenTypes, setIDs } =
+    policy as Record<string, unknown>;
+  for (const [name, limit] of Object.entries({
+    maxPerMint,
+    maxPerDay,
+    maxTotal,
+  })) {
+    if (
+      limit !== undefined &&
+      (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0)
+    ) {
+      return `${name} must be a non-negative number`;
+    }
+  }
+  const types = Object.values(TokenType) as unknown[];
+  if (
+    tokenTypes !== undefined &&
+    (!Array.isArray(tokenTypes) || !tokenTypes.every((t) => types.includes(t)))
+  ) {
+    return `tokenTypes must be a list of: ${types.join(", ")}`;
+  }
+  if (
+    setIDs !== undefined &&
+    (!Array.isArray(setIDs) || !setIDs.every((id) => typeof id === "string"))
+  ) {
+    return "setIDs must be a list of strings";
+  }
+  return null;
+}
+
+// Returns why `leg` is not a well-formed swap leg, or null if it is.
+function swapLegError(leg: unknown): string | null {
+  if (!leg || typeof leg !== "object" || Array.isArray(leg)) {
+    return "Each swap leg must be an object";
+  }
+  const { from, ins, outs, witnessData } = leg as Record<string, unknown>;
+  if (!from || typeof from !== "string") {
+    return "Each swap leg needs a 'from' key";
+  }
+  if (!Array.isArray(ins) || ins.length === 0) {
+    return "Each swap leg needs at least one input";
+  }
+  if (!Array.isArray(outs) || outs.length === 0) {
+    return "Each swap leg needs at least one output";
+  }
+  if (witnessData !== undefined && !Array.isArray(witnessData)) {
+    return "witnessData must be a list";
+  }
+  return null;
+}
+
 /**
  * Transaction data structure
  */
 interface TransactionData {
   ins?: string[];
   outs?: string[];
-  witnessData?: string[];
+  witnessData?: Witness[];
+  txId?: string;
   [key: string]: unknown;
 }
 
@@ -71,6 +215,17 @@ export abstract class ForgeBase extends NWPCServer {
   // check before either marks it spent — a double-spend.
   private spendLock: Promise<unknown> = Promise.resolve();
 
+  private _spentTokenStore?: SpentTokenStore;
+  private _issuedTokenStore?: SpentTokenStore;
+
+  private _transparencyLog?: TransparencyLog;
+  private _auditTrail?: AdminAuditTrail;
+  private _journal?: RecordStore<PendingTx>;
+  private _txResults?: RecordStore<IdempotentResult>;
+  private transferPolicies: TransferPolicy[];
+  private logRootTimer?: ReturnType<typeof setInterval>;
+  private lastPublishedLogSize = 0;
+
   /**
    * Creates a new ForgeBase instance.
    *
@@ -89,22 +244,37 @@ export abstract class ForgeBase extends NWPCServer {
     this.config = config;
     this.state = {
       owner: this.config.owner || "",
-      version: 1,
-      spentTokens: new Set(),
+      version: 2,
       pendingTxs: new Map(),
+      htlcLocks: new Map(),
+      authorizations: new Map(),
+      keyRotations: [],
+      paused: { minting: false, transfers: false },
+      revocations: new Map(),
+      grants: new Map(),
       totalSupply: this.config.totalSupply || 0,
       lastAssetId: 0,
       authorizedForgers: new Set(this.config.authorizedForgers || []),
+      forgerPolicies: new Map(Object.entries(this.config.forgerPolicies ?? {})),
+      forgerUsage: new Map(),
       tokenUsage: new Map(),
       circulatingSupply: 0,
+      burnedSupply: 0,
+      sets: forgeSets(this.config.sets),
       relays: new Set(),
     };
     if (config.keys) this.keys = config.keys;
+    if (config.keys?.publicKey) {
+      this.stateKey = `forge-state-${config.keys.publicKey}`;
+    }
     if (!config.storage)
       throw new Error(
         "A StorageInterface implementation must be provided in config.storage",
       );
     this.storage = config.storage;
+    this._spentTokenStore = config.spentTokenStore;
+    this._issuedTokenStore = config.issuedTokenStore;
+    this.transferPolicies = [...(config.transferPolicies ?? [])];
     this.setupDefaultHandlers();
   }
 
@@ -161,6 +331,26 @@ export abstract class ForgeBase extends NWPCServer {
     res: NWPCResponseObject,
   ): Promise<NWPCResponse | void>;
 
+  /**
+   * Abstract method checking one `swap` leg against its validated inputs.
+   *
+   * Implementations should apply the same rules as a transfer of their token
+   * type (amounts, fees, transfer policies and restrictions, with `from` as
+   * the sender) and sign the leg's outputs, including any change or fee
+   * tokens, without committing anything: `handleSwap` journals and spends
+   * both legs together once each has been prepared.
+   *
+   * @param inputs - The leg's input tokens, already checked by validateTXInputs
+   * @param outs - The leg's outputs
+   * @param from - The party giving up the inputs
+   * @returns Tuple of [signed outputs, error message, error code]
+   */
+  protected abstract prepareSwapLeg(
+    inputs: Token[],
+    outs: Recipient[],
+    from: string,
+  ): Promise<[PendingTx["outputs"] | null, string | null, number | null]>;
+
   setupDefaultHandlers() {
     // Minting is privileged: only the forge owner or an explicitly authorized
     // forger may create new tokens. `transfer`/`burn` stay open because they are
@@ -168,11 +358,156 @@ export abstract class ForgeBase extends NWPCServer {
     this.use(
       "forge",
       this.onlyAuthorized.bind(this),
+      this.unlessPaused("minting"),
       this.forgeToken.bind(this),
     );
-    this.use("transfer", this.transferToken.bind(this));
-    this.use("burn", this.burnToken.bind(this));
+    // A `txId` in the params makes transfer/burn safe to retry: a repeat with
+    // the same inputs is answered from the stored result.
+    this.use(
+      "transfer",
+      { idempotent: true },
+      this.unlessPaused("transfers"),
+      this.idempotent.bind(this),
+      this.transferToken.bind(this),
+    );
+    this.use(
+      "burn",
+      { idempotent: true },
+      this.unlessPaused("transfers"),
+      this.idempotent.bind(this),
+      this.burnToken.bind(this),
+    );
+    // Like `transfer`, a swap is gated per-input by witnesses, which here sign
+    // both legs.
+    this.use(
+      "swap",
+      { idempotent: true },
+      this.unlessPaused("transfers"),
+      this.idempotent.bind(this),
+      this.handleSwap.bind(this),
+    );
     this.use("verify", this.handleVerify.bind(this));
+    this.use("getSupply", this.handleGetSupply.bind(this));
+    // Creating an HTLC mints a new output, so it carries the same privilege
+    // as `forge`. Claim and refund check the caller against the lock itself.
+    this.use(
+      "htlc.create",
+      this.onlyAuthorized.bind(this),
+      this.unlessPaused("minting"),
+      this.handleHTLCCreate.bind(this),
+    );
+    this.use(
+      "forge.batch",
+      this.onlyAuthorized.bind(this),
+      this.unlessPaused("minting"),
+      this.handleBatchForge.bind(this),
+    );
+    this.use(
+      "htlc.claim",
+      this.unlessPaused("transfers"),
+      this.handleHTLCClaim.bind(this),
+    );
+    this.use(
+      "htlc.refund",
+      this.unlessPaused("transfers"),
+      this.handleHTLCRefund.bind(this),
+    );
+    // Booth mints are checked against the caller's kind-30130 authorization
+    // rather than authorizedForgers.
+    this.use(
+      "forge.mint_request",
+      this.unlessPaused("minting"),
+      this.handleMintRequest.bind(this),
+    );
+    // Transparency log: signed roots plus proofs auditors check them with.
+    this.use("log.root", this.handleLogRoot.bind(this));
+    this.use("log.inclusion", this.handleLogInclusion.bind(this));
+    this.use("log.consistency", this.handleLogConsistency.bind(this));
+    this.use("log.entries", this.handleLogEntries.bind(this));
+    // Remote administration, owner only. Every change goes to the audit trail.
+    const owner = this.onlyOwner.bind(this);
+    const audited = this.audited.bind(this);
+    this.use(
+      "admin.forgers.list",
+      { auth: "admin", description: "List authorized forgers" },
+      owner,
+      this.handleAdminListForgers.bind(this),
+    );
+    this.use(
+      "admin.forgers.add",
+      { auth: "admin", description: "Authorize a forger to mint" },
+      owner,
+      audited,
+      this.handleAdminAddForger.bind(this),
+    );
+    this.use(
+      "admin.forgers.remove",
+      { auth: "admin", description: "Revoke a forger's minting rights" },
+      owner,
+      audited,
+      this.handleAdminRemoveForger.bind(this),
+    );
+    this.use(
+      "admin.forgers.policy",
+      { auth: "admin", description: "Set or clear a forger's minting limits" },
+      owner,
+      audited,
+      this.handleAdminForgerPolicy.bind(this),
+    );
+    this.use(
+      "admin.supply.set",
+      { auth: "admin", description: "Change the supply cap of a token set" },
+      owner,
+      audited,
+      this.handleAdminSetSupply.bind(this),
+    );
+    this.use(
+      "admin.pause",
+      { auth: "admin", description: "Pause minting and/or transfers" },
+      owner,
+      audited,
+      this.handleAdminPause.bind(this),
+    );
+    this.use(
+      "admin.resume",
+      { auth: "admin", description: "Resume minting and/or transfers" },
+      owner,
+      audited,
+      this.handleAdminResume.bind(this),
+    );
+    this.use(
+      "admin.tokens.revoke",
+      { auth: "admin", description: "Revoke a token" },
+      owner,
+      audited,
+      this.handleAdminRevokeToken.bind(this),
+    );
+    this.use(
+      "admin.tokens.freeze",
+      { auth: "admin", description: "Freeze a token pending review" },
+      owner,
+      audited,
+      this.handleAdminFreezeToken.bind(this),
+    );
+    this.use(
+      "admin.tokens.reinstate",
+      { auth: "admin", description: "Lift a token's revocation or freeze" },
+      owner,
+      audited,
+      this.handleAdminReinstateToken.bind(this),
+    );
+    this.use(
+      "admin.stats",
+      { auth: "admin", description: "Read forge statistics" },
+      owner,
+      this.handleAdminStats.bind(this),
+    );
+    this.use(
+      "admin.audit",
+      { auth: "admin", description: "Read the admin audit trail" },
+      owner,
+      this.handleAdminAudit.bind(this),
+    );
   }
 
   public onlyAuthorized(
@@ -209,6 +544,155 @@ export abstract class ForgeBase extends NWPCServer {
     );
   }
 
+  /**
+   * Middleware rejecting requests while `scope` is paused by the owner.
+   */
+  public unlessPaused(scope: PauseScope) {
+    return (
+      _req: NWPCRequest,
+      _context: NWPCContext,
+      res: NWPCResponseObject,
+      next: () => Promise<void>,
+    ): Promise<NWPCResponse | void> => {
+      if (this.state.paused[scope]) {
+        return res.error(
+          NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+          `Forge ${scope} is paused`,
+        );
+      }
+      return next();
+    };
+  }
+
+  /**
+   * Middleware recording an admin request in the audit trail once handled,
+   * with the error message if the handler rejected it.
+   */
+  public async audited(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+    next: () => Promise<void>,
+  ): Promise<NWPCResponse | void> {
+    let params: unknown = req.params;
+    try {
+      params = JSON.parse(req.params);
+    } catch {
+      // Keep the raw string; the handler reports the parse error.
+    }
+    let rejection: string | undefined;
+    const error = res.error.bind(res);
+    res.error = async (...args: Parameters<NWPCResponseObject["error"]>) => {
+      rejection = args[1];
+      return error(...args);
+    };
+    try {
+      await next();
+    } finally {
+      const entry: AdminAuditEntry = {
+        method: req.method,
+        sender: context.sender,
+        params,
+        timestamp: Math.floor(Date.now() / 1000),
+      };
+      if (rejection !== undefined) entry.error = rejection;
+      await this.auditTrail.append(entry);
+    }
+  }
+
+  /**
+   * Middleware for routes marked `idempotent`. When the params carry a client
+   * `txId`, the responses of the first successful request are stored per
+   * sender and `txId`; a repeat with identical inputs (`ins`, `token` and
+   * ecash `proofs`, together) gets them re-sent instead of being processed again, and a
+   * repeat with other inputs is rejected. Requests without a `txId` pass
+   * straight through.
+   */
+  public async idempotent(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+    next: () => Promise<void>,
+  ): Promise<NWPCResponse | void> {
+    let params: {
+      txId?: unknown;
+      ins?: unknown;
+      token?: unknown;
+      proofs?: unknown;
+    };
+    try {
+      params = JSON.parse(req.params) ?? {};
+    } catch {
+      return next();
+    }
+    const { txId } = params;
+    if (txId === undefined) {
+      return next();
+    }
+    if (typeof txId !== "string" || !txId || txId.length > 128) {
+      return res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "txId must be a non-empty string of at most 128 characters",
+      );
+    }
+
+    const key = `${context.sender}:${txId}`;
+    const inputsHash = bytesToHex(
+      sha256(
+        JSON.stringify([
+          params.ins ?? null,
+          params.token ?? null,
+          params.proofs ?? null,
+        ]),
+      ),
+    );
+    const now = () => Math.floor(Date.now() / 1000);
+    const window = this.config.idempotencyWindow ?? DEFAULT_IDEMPOTENCY_WINDOW;
+    const expired = (r: IdempotentResult) => r.createdAt + window <= now();
+    const previous = await this.txResults.get(key);
+    if (previous && !expired(previous)) {
+      if (
+        previous.method !== req.method ||
+        previous.inputsHash !== inputsHash
+      ) {
+        return res.error(
+          NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+          `txId ${txId} was already used for a different request`,
+        );
+      }
+      Debug.log(`Replaying result for txId ${txId}`, "ForgeBase");
+      for (const { to, result } of previous.responses) {
+        await res.send(result, to);
+      }
+      return;
+    }
+
+    // Record what the handler sends; an error means nothing is stored and a
+    // retry is processed afresh.
+    const responses: IdempotentResult["responses"] = [];
+    let failed = false;
+    const send = res.send.bind(res);
+    const error = res.error.bind(res);
+    res.send = async (result: unknown, to?: string | string[]) => {
+      responses.push({ to, result });
+      return send(result, to);
+    };
+    res.error = async (...args: Parameters<NWPCResponseObject["error"]>) => {
+      failed = true;
+      return error(...args);
+    };
+    await next();
+    if (failed || responses.length === 0) return;
+
+    await this.txResults.prune(expired);
+    await this.txResults.set(key, {
+      method: req.method,
+      inputsHash,
+      responses,
+      createdAt: now(),
+    });
+  }
+
   /**
    * Initializes the forge instance.
    *
@@ -268,11 +752,14 @@ export abstract class ForgeBase extends NWPCServer {
           this.stateKey = `forge-state-${this.keys.publicKey}`;
         }
         await this._loadState();
+        await this.recoverPendingTxs();
         this.isInitialized = true;
       }
 
       // Connect + subscribe only now that spent-set and replay state are loaded.
       await super.init();
+      await this.redeliverPendingTxs();
+      this.startLogRootPublishing();
     } catch (error) {
       Debug.error("Failed to initialize Forge:" + error, "Forge");
       throw error;
@@ -299,9 +786,13 @@ export abstract class ForgeBase extends NWPCServer {
     timeWindow?: number,
     currentTime?: number,
   ): Promise<boolean> {
-    if (this.state.spentTokens.has(tokenHash)) {
+    if (await this.spentTokenStore.has(tokenHash)) {
       throw new Error("Token is already spent");
     }
+    const revoked = this.revocationError(tokenHash);
+    if (revoked) {
+      throw new Error(revoked);
+    }
     const dataToSign = new TextEncoder().encode(tokenHash);
     const isValid = verifySignature(
       dataToSign,
@@ -389,170 +880,2842 @@ export abstract class ForgeBase extends NWPCServer {
     return Array.from(this.state.authorizedForgers ?? []);
   }
 
-  public async _saveState(): Promise<void> {
-    // Await the write: the spent-set must be durable before the transfer
-    // response releases newly signed tokens, otherwise a crash after the
-    // response leaves the spent input replayable on restart.
-    await this.saveState(this.stateKey, this.state);
+  /**
+   * Limits what an authorized forger may mint: per mint, per UTC day and in
+   * total, and which token types and sets. Passing no policy lifts the
+   * limits. The owner is never limited.
+   *
+   * @param pubkey - The forger's public key
+   * @param policy - The limits to apply, or undefined to remove them
+   * @throws {Error} If the forge is not initialized or the policy is invalid
+   *
+   * @example
+   * ```typescript
+   * await forge.setForgerPolicy('delegatePubkey', { maxPerMint: 100, maxPerDay: 1000 });
+   * ```
+   */
+  public async setForgerPolicy(
+    pubkey: string,
+    policy?: ForgerPolicy,
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    if (policy === undefined) {
+      this.state.forgerPolicies.delete(pubkey);
+    } else {
+      const error = forgerPolicyError(policy);
+      if (error) throw new Error(error);
+      this.state.forgerPolicies.set(pubkey, policy);
+    }
+    await this._saveState();
   }
 
   /**
-   * Runs a spent-set-mutating operation (transfer/burn) under a per-forge lock
-   * so that check-then-mark sequences cannot interleave across concurrent
-   * requests. Callbacks are chained regardless of prior success/failure, and a
-   * failing callback never poisons the lock for the next caller.
+   * The minting limits of a forger, if it has any.
    */
-  protected async runExclusive<T>(fn: () => Promise<T>): Promise<T> {
-    const result = this.spendLock.then(fn, fn);
-    // Advance the lock even if fn rejects, swallowing the settled value so the
-    // chain itself never becomes a rejected promise (which would reject the
-    // next caller). The real result/rejection is still returned to this caller.
-    this.spendLock = result.then(
-      () => undefined,
-      () => undefined,
-    );
-    return result;
+  public getForgerPolicy(pubkey: string): ForgerPolicy | undefined {
+    return this.state.forgerPolicies.get(pubkey);
   }
 
-  public async _loadState(): Promise<void> {
-    const savedState = await this.loadState(this.stateKey);
-    if (savedState !== null) {
-      // Cast to ForgeState to access forge-specific properties
-      const forgeState = savedState as any;
-      this.state = {
-        ...this.state,
-        ...savedState,
-        spentTokens: new Set(forgeState.spentTokens || []),
-        pendingTxs: new Map(forgeState.pendingTxs || []),
-        authorizedForgers: new Set(forgeState.authorizedForgers || []),
-        tokenUsage: new Map(forgeState.tokenUsage || []),
-      };
-    } else {
-      this.state = {
-        ...this.state,
-        owner: this.config.owner || "",
-        version: 1,
-        spentTokens: new Set(),
-        pendingTxs: new Map(),
-        totalSupply: this.config.totalSupply || 0,
-        lastAssetId: 0,
-        authorizedForgers: new Set(this.config.authorizedForgers || []),
-        tokenUsage: new Map(),
-        circulatingSupply: 0,
-      };
-      await this._saveState();
+  /**
+   * What a forger has minted so far, if anything.
+   */
+  public getForgerUsage(pubkey: string): ForgerUsage | undefined {
+    return this.state.forgerUsage.get(pubkey);
+  }
+
+  /**
+   * Checks a mint of `value` into `setID` by `sender` against its forger
+   * policy and, if allowed, counts it towards the forger's usage. Returns the
+   * error message and code if the policy forbids it, otherwise null. Mints by
+   * the owner are neither limited nor counted.
+   *
+   * The check and the count happen without awaiting, so concurrent mints by
+   * the same forger cannot both pass a limit only one of them fits.
+   */
+  protected chargeForgerQuota(
+    sender: string,
+    value: number,
+    setID?: string,
+  ): [string, number] | null {
+    if (sender === this.state.owner) return null;
+    const now = Math.floor(Date.now() / 1000);
+    const dayStart = now - (now % 86400);
+    const usage: ForgerUsage = this.state.forgerUsage.get(sender) ?? {
+      mints: 0,
+      total: 0,
+      day: dayStart,
+      dayTotal: 0,
+    };
+    const dayTotal = usage.day === dayStart ? usage.dayTotal : 0;
+    const policy = this.state.forgerPolicies.get(sender);
+    if (policy) {
+      const tokenType = this.config.tokenType ?? TokenType.FUNGIBLE;
+      const set = setID ?? DEFAULT_SET_ID;
+      if (policy.tokenTypes && !policy.tokenTypes.includes(tokenType)) {
+        return [
+          `Forger may not mint ${tokenType} tokens`,
+          NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+        ];
+      }
+      if (policy.setIDs && !policy.setIDs.includes(set)) {
+        return [
+          `Forger may not mint into set ${set}`,
+          NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+        ];
+      }
+      if (policy.maxPerMint !== undefined && value > policy.maxPerMint) {
+        return [
+          `Forging ${value} exceeds the forger's maxPerMint (${policy.maxPerMint})`,
+          NWPC_SPEC_ERRORS.RATE_LIMITED.code,
+        ];
+      }
+      if (
+        policy.maxPerDay !== undefined &&
+        dayTotal + value > policy.maxPerDay
+      ) {
+        return [
+          `Forging ${value} exceeds the forger's maxPerDay (${policy.maxPerDay}). Remaining today: ${policy.maxPerDay - dayTotal}`,
+          NWPC_SPEC_ERRORS.RATE_LIMITED.code,
+        ];
+      }
+      if (
+        policy.maxTotal !== undefined &&
+        usage.total + value > policy.maxTotal
+      ) {
+        return [
+          `Forging ${value} exceeds the forger's maxTotal (${policy.maxTotal}). Remaining: ${policy.maxTotal - usage.total}`,
+          NWPC_SPEC_ERRORS.RATE_LIMITED.code,
+        ];
+      }
     }
+    this.state.forgerUsage.set(sender, {
+      mints: usage.mints + 1,
+      total: usage.total + value,
+      day: dayStart,
+      dayTotal: dayTotal + value,
+      lastMintAt: now,
+    });
+    return null;
   }
 
-  public async publishSpentToken(tokenHash: string) {
-    // Mark spent in state first so subsequent validation sees it immediately
-    this.state.spentTokens.add(tokenHash);
-    await this._saveState();
+  /**
+   * Adds a policy checked before the outputs of every transfer are signed,
+   * after those already installed.
+   */
+  public addTransferPolicy(policy: TransferPolicy): void {
+    this.transferPolicies.push(policy);
+  }
 
-    // Fire-and-forget relay publication — don't block the transfer response
-    if (this.keys.publicKey && this.keys.secretKey) {
-      postToFeed(this.ndk, `spent:${tokenHash}`, this.keys, [
-        ["t", tokenHash],
-        ["p", this.keys.publicKey!],
-      ]).catch((err) =>
-        Debug.error("publishSpentToken relay error: " + err, "ForgeBase"),
-      );
-    }
+  /**
+   * Removes a policy added with `addTransferPolicy` or `config.transferPolicies`.
+   * @returns Whether the policy was installed
+   */
+  public removeTransferPolicy(policy: TransferPolicy): boolean {
+    const index = this.transferPolicies.indexOf(policy);
+    if (index === -1) return false;
+    this.transferPolicies.splice(index, 1);
+    return true;
   }
 
-  public async handleBurn(
-    req: NWPCRequest,
-    context: NWPCContext,
-    res: NWPCResponseObject,
-  ) {
-    // Share the spent-set lock with transfers: a burn and a transfer of the
-    // same token must not both mark it spent from an unspent starting state.
-    return await this.runExclusive(async () => {
-      let parsed: { token?: string };
+  /**
+   * Runs the transfer policies in order and returns the first denial's
+   * message and code, or null if all allow the transfer. A policy that throws
+   * denies it with INTERNAL_ERROR, and an unknown code becomes UNAUTHORIZED.
+   * Callers hold the spend lock, so no other transfer of the inputs can settle
+   * while a policy is evaluated.
+   */
+  protected async transferPolicyError(
+    inputs: Token[],
+    outs: Recipient[],
+    sender: string,
+  ): Promise<[string, number] | null> {
+    const codes = Object.values(NWPC_SPEC_ERRORS).map(
+      ({ code }) => code as number,
+    );
+    for (const policy of this.transferPolicies) {
+      const name = policy.name ?? "transfer policy";
+      let result;
       try {
-        parsed = JSON.parse(req.params);
+        result = await policy.evaluate({ inputs, outs, sender });
       } catch (error) {
-        return await res.error(
-          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
-          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
-        );
+        return [
+          `Transfer denied: ${name} failed: ${error instanceof Error ? error.message : String(error)}`,
+          NWPC_SPEC_ERRORS.INTERNAL_ERROR.code,
+        ];
       }
-      const { token } = parsed;
-      if (!token) {
-        return await res.error(
+      if (!result?.allowed) {
+        return [
+          `Transfer denied by ${name}: ${result?.reason ?? "no reason given"}`,
+          result?.code !== undefined && codes.includes(result.code)
+            ? result.code
+            : NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+        ];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Authorizes a booth to sell catalog items on this forge's behalf by
+   * publishing a FORGE_AUTHORIZATION (kind 30130) event (TAT_Protocol_Extensions.md §7.2).
+   *
+   * The booth may then call `forge.mint_request` for the listed items until the
+   * authorization expires, is revoked, or hits its `maxPerDay`/`maxTotal` limits.
+   *
+   * @param grant - The authorization without its event ID
+   * @returns The stored authorization, including the signed event's ID
+   * @throws {Error} If the forge is not initialized or has no secret key to sign with
+   *
+   * @example
+   * ```typescript
+   * const auth = await forge.authorizeBooth({
+   *   boxOfficePubkey: boothPubkey,
+   *   catalogItemIds: ['vip-pass'],
+   *   maxFee: 0.03,
+   *   restrictions: { maxPerDay: 100 },
+   *   settlement: { currency: 'USD', frequency: 'daily' },
+   * });
+   * ```
+   */
+  public async authorizeBooth(
+    grant: Omit<ForgeAuthorization, "eventId">,
+  ): Promise<ForgeAuthorization> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    if (!this.keys.secretKey) {
+      throw new Error("Forge keys are required to sign authorizations");
+    }
+    const d = bytesToHex(randomBytes(16));
+    const event = await signForgeAuthorization(this.ndk, this.keys, {
+      id: d,
+      pubkey: grant.boxOfficePubkey,
+      catalogItemIds: grant.catalogItemIds,
+      maxFee: grant.maxFee,
+      expiresAt: grant.expiresAt,
+      content: {
+        restrictions: grant.restrictions,
+        settlement: grant.settlement,
+      },
+    });
+    const authorization: ForgeAuthorization = { ...grant, eventId: event.id };
+    this.state.authorizations.set(event.id, { authorization, d, mints: [] });
+    await this._saveState();
+    event
+      .publish()
+      .catch((err) =>
+        Debug.error("authorizeBooth relay error: " + err, "ForgeBase"),
+      );
+    return authorization;
+  }
+
+  /**
+   * Revokes a booth authorization by publishing the replacement kind-30130
+   * event with a `revoked` tag (§7.4). Mints already made stay valid and
+   * remain in the usage record for settlement.
+   *
+   * @param eventId - The authorization's event ID
+   * @throws {Error} If the forge is not initialized or the authorization is unknown
+   */
+  public async revokeAuthorization(eventId: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    const record = this.state.authorizations.get(eventId);
+    if (!record) {
+      throw new Error(`Unknown authorization: ${eventId}`);
+    }
+    if (record.revokedAt) return;
+    record.revokedAt = Math.floor(Date.now() / 1000);
+    await this._saveState();
+    if (this.keys.secretKey) {
+      signForgeAuthorization(this.ndk, this.keys, {
+        id: record.d,
+        pubkey: record.authorization.boxOfficePubkey,
+        revoked: true,
+      })
+        .then((event) => event.publish())
+        .catch((err) =>
+          Debug.error("revokeAuthorization relay error: " + err, "ForgeBase"),
+        );
+    }
+  }
+
+  /**
+   * Retrieves a booth authorization and the mints made under it.
+   *
+   * @param eventId - The authorization's event ID
+   * @returns The authorization record, or undefined if unknown
+   */
+  public getAuthorization(eventId: string): AuthorizationRecord | undefined {
+    return this.state.authorizations.get(eventId);
+  }
+
+  /**
+   * Rotates the forge's issuer key.
+   *
+   * The current key signs a KEY_ROTATION (kind 30150) event naming `newKeys`
+   * as its successor. From then on outputs are signed with the new key, while
+   * tokens signed under any retired key before its rotation stay spendable.
+   * Only tokens the forge recorded signing count: a leaked retired key cannot
+   * mint backdated ones. If the retiring key leaked, pass `compromised` and
+   * none of its tokens are accepted any more.
+   * State moves to the new key's state key; the old one is left pointing at
+   * it, so starting the forge with the retired key fails instead of forking
+   * its state. The spent set and transparency log are shared across keys.
+   *
+   * @param newKeys - The key pair to issue under from now on
+   * @param options - `compromised` marks the retiring key as leaked
+   * @returns The recorded rotation, including the signed announcement
+   * @throws {Error} If the forge is not initialized, has no secret key to sign with, or `newKeys` is invalid or was used before
+   *
+   * @example
+   * ```typescript
+   * const rotation = await forge.rotateKey(newKeys);
+   * // Restart the forge with `newKeys` in its config from now on
+   * ```
+   */
+  public async rotateKey(
+    newKeys: KeyPair,
+    options: { compromised?: boolean } = {},
+  ): Promise<KeyRotationRecord> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    if (!this.keys.secretKey) {
+      throw new Error("Forge keys are required to sign a key rotation");
+    }
+    let derived: string | undefined;
+    try {
+      derived = getPublicKey(hexToBytes(newKeys.secretKey ?? ""));
+    } catch {
+      derived = undefined;
+    }
+    if (!newKeys.publicKey || derived !== newKeys.publicKey) {
+      throw new Error("New forge keys are invalid");
+    }
+    if (
+      newKeys.publicKey === this.keys.publicKey ||
+      this.state.keyRotations.some((r) => r.oldPubkey === newKeys.publicKey)
+    ) {
+      throw new Error("New forge key was already used by this forge");
+    }
+
+    // Hold the spent-set lock so no transfer signs outputs mid-switch.
+    return this.runExclusive(async () => {
+      const oldKeys = this.keys;
+      const oldStateKey = this.stateKey;
+      const event = await signKeyRotation(
+        this.ndk,
+        oldKeys,
+        newKeys,
+        options.compromised,
+      );
+      const rotation: KeyRotationRecord = {
+        oldPubkey: oldKeys.publicKey!,
+        newPubkey: newKeys.publicKey!,
+        rotatedAt: event.created_at!,
+        ...(options.compromised ? { compromised: true } : {}),
+        event: JSON.stringify(event.rawEvent()),
+      };
+      // Resolve the store namespaces before the state key changes.
+      void this.spentTokenStore;
+      void this.issuedTokenStore;
+      void this.transparencyLog;
+      void this.journal;
+      void this.txResults;
+      this.state.keyRotations.push(rotation);
+
+      await this.storage.setItem(
+        `forge-keys-${newKeys.publicKey}`,
+        JSON.stringify(newKeys),
+      );
+      this.keys = newKeys;
+      this.stateKey = `forge-state-${newKeys.publicKey}`;
+      await this._saveState();
+      const tombstone = {
+        relays: new Set<string>(),
+        rotatedTo: newKeys.publicKey,
+      };
+      await this.saveState(oldStateKey, tombstone);
+
+      // Requests are addressed to the forge's key; listen on the new one.
+      if (this.publicKey) {
+        await this.unsubscribe(oldKeys.publicKey!);
+        this.publicKey = newKeys.publicKey;
+        await this.subscribe(this.publicKey!, this.handleEvent.bind(this));
+      }
+      event
+        .publish()
+        .catch((err) =>
+          Debug.error("rotateKey relay error: " + err, "ForgeBase"),
+        );
+      return rotation;
+    });
+  }
+
+  /**
+   * Keys this forge issued under before its current one, oldest first.
+   */
+  public getKeyRotations(): KeyRotationRecord[] {
+    return [...this.state.keyRotations];
+  }
+
+  /**
+   * Marks a retired key as leaked, after its rotation. None of its tokens are
+   * accepted from then on. If the retired key is still in storage, its
+   * announcement is re-signed with the `compromised` tag and republished so
+   * gates stop accepting its tokens too.
+   *
+   * @param oldPubkey - The retired key
+   * @returns The updated rotation
+   * @throws {Error} If `oldPubkey` is not a key this forge rotated out
+   */
+  public async markKeyCompromised(
+    oldPubkey: string,
+  ): Promise<KeyRotationRecord> {
+    return this.runExclusive(async () => {
+      const rotation = this.state.keyRotations.find(
+        (r) => r.oldPubkey === oldPubkey,
+      );
+      if (!rotation) {
+        throw new Error(`Key ${oldPubkey} was not rotated out of this forge`);
+      }
+      if (rotation.compromised) return rotation;
+      rotation.compromised = true;
+
+      // Both keys sign the announcement; they were stored when rotated.
+      const [oldKeys, newKeys] = await Promise.all(
+        [oldPubkey, rotation.newPubkey].map(async (pubkey) => {
+          const stored = await this.storage.getItem(`forge-keys-${pubkey}`);
+          return stored ? (JSON.parse(stored) as KeyPair) : undefined;
+        }),
+      );
+      let event: Awaited<ReturnType<typeof signKeyRotation>> | undefined;
+      if (oldKeys?.secretKey && newKeys?.secretKey) {
+        event = await signKeyRotation(this.ndk, oldKeys, newKeys, true);
+        rotation.event = JSON.stringify(event.rawEvent());
+      }
+      await this._saveState();
+      event
+        ?.publish()
+        .catch((err) =>
+          Debug.error("markKeyCompromised relay error: " + err, "ForgeBase"),
+        );
+      return rotation;
+    });
+  }
+
+  /**
+   * Whether `token` was issued by this forge: under its current key, or under
+   * a retired key that signed it before being rotated out. `iat` is chosen by
+   * whoever holds the key, so a retired key's token must be in the issued
+   * token store; a compromised key's tokens are refused outright. Tokens
+   * signed before the forge kept the store (`state.issuedRecordedSince`) are
+   * judged by `iat` alone.
+   */
+  protected async isIssuedHere(token: Token): Promise<boolean> {
+    const iss = token.payload.iss;
+    if (iss === this.keys.publicKey) return true;
+    const rotation = this.state.keyRotations.find((r) => r.oldPubkey === iss);
+    if (!rotation || rotation.compromised) return false;
+    if (await this.issuedTokenStore.has(token.header.token_hash)) return true;
+    const since = this.state.issuedRecordedSince ?? 0;
+    const iat = token.payload.iat;
+    return since > 0 && iat <= since && iat <= rotation.rotatedAt;
+  }
+
+  /**
+   * Revokes a token this forge issued, e.g. a refunded or fraudulent ticket.
+   *
+   * Unlike marking it spent, a revocation is recorded with its reason, can
+   * lapse at `expiresAt` and can be lifted with `reinstateToken`. `verify`
+   * reports the token as revoked and transfers, burns and HTLC settlements of
+   * it are rejected. A TOKEN_REVOCATION (kind 30160) notice is published so
+   * pockets and gates learn of it.
+   *
+   * @param tokenHash - Hash of the token to revoke
+   * @param reason - Why the token is revoked
+   * @param expiresAt - Optional Unix time (seconds) at which the revocation lapses
+   * @returns The recorded revocation
+   * @throws {Error} If the forge is not initialized, the arguments are invalid or the token is already spent
+   *
+   * @example
+   * ```typescript
+   * await forge.revokeToken(ticketHash, 'refunded');
+   * ```
+   */
+  public async revokeToken(
+    tokenHash: string,
+    reason: RevocationReason,
+    expiresAt?: number,
+  ): Promise<TokenRevocation> {
+    return this.setRevocation(tokenHash, "revoked", reason, expiresAt);
+  }
+
+  /**
+   * Freezes a token pending review. It behaves like `revokeToken`, but the
+   * notice tells holders the hold may be lifted.
+   *
+   * @param tokenHash - Hash of the token to freeze
+   * @param reason - Why the token is frozen
+   * @param expiresAt - Optional Unix time (seconds) at which the freeze lapses
+   * @returns The recorded freeze
+   * @throws {Error} If the forge is not initialized, the arguments are invalid or the token is already spent
+   */
+  public async freezeToken(
+    tokenHash: string,
+    reason: RevocationReason,
+    expiresAt?: number,
+  ): Promise<TokenRevocation> {
+    return this.setRevocation(tokenHash, "frozen", reason, expiresAt);
+  }
+
+  /**
+   * Lifts a revocation or freeze, making the token spendable again, and
+   * publishes an `active` notice replacing the earlier one.
+   *
+   * @param tokenHash - Hash of the revoked or frozen token
+   * @throws {Error} If the forge is not initialized or the token is not revoked or frozen
+   */
+  public async reinstateToken(tokenHash: string): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    await this.runExclusive(async () => {
+      if (!this.getRevocation(tokenHash)) {
+        throw new Error(`Token ${tokenHash} is not revoked or frozen`);
+      }
+      this.state.revocations.delete(tokenHash);
+      await this._saveState();
+    });
+    this.publishRevocation({
+      tokenHash,
+      status: "active",
+      createdAt: Math.floor(Date.now() / 1000),
+    });
+  }
+
+  /**
+   * The revocation or freeze currently in force for a token, if any. Lapsed
+   * entries are not returned.
+   */
+  public getRevocation(tokenHash: string): TokenRevocation | undefined {
+    const revocation = this.state.revocations.get(tokenHash);
+    return revocation && isRevocationActive(revocation)
+      ? revocation
+      : undefined;
+  }
+
+  private async setRevocation(
+    tokenHash: string,
+    status: "revoked" | "frozen",
+    reason: RevocationReason,
+    expiresAt?: number,
+  ): Promise<TokenRevocation> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    if (typeof tokenHash !== "string" || !/^[0-9a-f]{64}$/.test(tokenHash)) {
+      throw new Error("tokenHash must be a 64-character hex token hash");
+    }
+    if (!REVOCATION_REASONS.includes(reason)) {
+      throw new Error(
+        `reason must be one of: ${REVOCATION_REASONS.join(", ")}`,
+      );
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      expiresAt !== undefined &&
+      (!Number.isInteger(expiresAt) || expiresAt <= now)
+    ) {
+      throw new Error("expiresAt must be a future Unix time in seconds");
+    }
+    // Under the spend lock, so a transfer already past its checks finishes
+    // before the token is listed and none starts after.
+    const revocation = await this.runExclusive(async () => {
+      if (await this.spentTokenStore.has(tokenHash)) {
+        throw new Error(`Token ${tokenHash} is already spent`);
+      }
+      const revocation: TokenRevocation = {
+        issuer: this.keys.publicKey!,
+        tokenHash,
+        status,
+        reason,
+        ...(expiresAt !== undefined ? { expiresAt } : {}),
+        createdAt: now,
+      };
+      // Lapsed entries no longer block anything; drop them while saving.
+      for (const [hash, entry] of this.state.revocations) {
+        if (!isRevocationActive(entry, now)) {
+          this.state.revocations.delete(hash);
+        }
+      }
+      this.state.revocations.set(tokenHash, revocation);
+      await this._saveState();
+      return revocation;
+    });
+    this.publishRevocation(revocation);
+    return revocation;
+  }
+
+  private publishRevocation(revocation: Omit<TokenRevocation, "issuer">) {
+    // Fire-and-forget, like spent notes: the forge enforces its own list.
+    if (this.keys.publicKey && this.keys.secretKey) {
+      const { tokenHash, status, reason, expiresAt, createdAt } = revocation;
+      postTokenRevocation(this.ndk, this.keys, {
+        tokenHash,
+        status,
+        reason,
+        expiresAt,
+        createdAt,
+      }).catch((err) =>
+        Debug.error("publishRevocation relay error: " + err, "ForgeBase"),
+      );
+    }
+  }
+
+  /**
+   * Returns why a token may not be spent if it is revoked or frozen,
+   * otherwise null.
+   */
+  protected revocationError(tokenHash: string): string | null {
+    const revocation = this.getRevocation(tokenHash);
+    if (!revocation) return null;
+    return `Token is ${revocation.status} (${revocation.reason ?? "other"})`;
+  }
+
+  public async _saveState(): Promise<void> {
+    // Await the write: the spent-set must be durable before the transfer
+    // response releases newly signed tokens, otherwise a crash after the
+    // response leaves the spent input replayable on restart.
+    await this.saveState(this.stateKey, this.state);
+  }
+
+  // Every save of the state blob, including the ones NWPCBase makes after
+  // each event, leaves out the journal: it is written to its own records.
+  public async saveState(key: string, state: NWPCState): Promise<void> {
+    const { pendingTxs: _pendingTxs, ...rest } = state as ForgeState;
+    await super.saveState(key, rest);
+  }
+
+  /**
+   * Runs a spent-set-mutating operation (transfer/burn) under a per-forge lock
+   * so that check-then-mark sequences cannot interleave across concurrent
+   * requests. Callbacks are chained regardless of prior success/failure, and a
+   * failing callback never poisons the lock for the next caller.
+   */
+  protected async runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.spendLock.then(fn, fn);
+    // Advance the lock even if fn rejects, swallowing the settled value so the
+    // chain itself never becomes a rejected promise (which would reject the
+    // next caller). The real result/rejection is still returned to this caller.
+    this.spendLock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  // The spent set and log outlive key rotations: they stay under the state
+  // key of the forge's first key.
+  private get storeKey(): string {
+    const first = this.state.keyRotations[0]?.oldPubkey;
+    return first ? `forge-state-${first}` : this.stateKey;
+  }
+
+  /**
+   * The store holding this forge's spent token hashes. Defaults to an
+   * append-only log in the forge's storage, keyed by its (first) state key,
+   * unless `config.spentTokenStore` is set.
+   */
+  public get spentTokenStore(): SpentTokenStore {
+    if (!this._spentTokenStore) {
+      this._spentTokenStore = new AppendOnlySpentTokenStore(
+        this.storage,
+        `${this.storeKey}-spent`,
+      );
+    }
+    return this._spentTokenStore;
+  }
+
+  /**
+   * The store holding the hashes of the tokens this forge signed, so tokens
+   * of a retired key can be told from ones forged with it. Defaults to an
+   * append-only log next to the spent token store, unless
+   * `config.issuedTokenStore` is set.
+   */
+  public get issuedTokenStore(): SpentTokenStore {
+    if (!this._issuedTokenStore) {
+      this._issuedTokenStore = new AppendOnlySpentTokenStore(
+        this.storage,
+        `${this.storeKey}-issued`,
+      );
+    }
+    return this._issuedTokenStore;
+  }
+
+  /**
+   * Records of the write-ahead journal (`state.pendingTxs`), kept next to the
+   * spent token store so writing one does not rewrite the forge's state.
+   */
+  public get journal(): RecordStore<PendingTx> {
+    if (!this._journal) {
+      this._journal = new RecordStore(this.storage, `${this.storeKey}-journal`);
+    }
+    return this._journal;
+  }
+
+  /**
+   * Results of idempotent requests by `${sender}:${txId}`, kept next to the
+   * spent token store and pruned after `config.idempotencyWindow` seconds.
+   */
+  public get txResults(): RecordStore<IdempotentResult> {
+    if (!this._txResults) {
+      this._txResults = new RecordStore(
+        this.storage,
+        `${this.storeKey}-results`,
+      );
+    }
+    return this._txResults;
+  }
+
+  /**
+   * Merkle log of every mint and spend, kept in the forge's storage next to
+   * the spent token store.
+   */
+  public get transparencyLog(): TransparencyLog {
+    if (!this._transparencyLog) {
+      this._transparencyLog = new TransparencyLog(
+        this.storage,
+        `${this.storeKey}-log`,
+      );
+    }
+    return this._transparencyLog;
+  }
+
+  /**
+   * Record of the admin actions taken over NWPC, kept in the forge's storage
+   * next to the spent token store.
+   */
+  public get auditTrail(): AdminAuditTrail {
+    if (!this._auditTrail) {
+      this._auditTrail = new AdminAuditTrail(
+        this.storage,
+        `${this.storeKey}-audit`,
+      );
+    }
+    return this._auditTrail;
+  }
+
+  /**
+   * Signs the current root of the transparency log.
+   */
+  public async signedLogRoot(): Promise<LogRoot> {
+    const size = await this.transparencyLog.size();
+    const root = await this.transparencyLog.root(size);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = bytesToHex(
+      await this.sign(logRootDigest(size, root, timestamp)),
+    );
+    return { size, root, timestamp, signature };
+  }
+
+  /**
+   * Publishes the signed log root as a kind-30140 event if the log grew since
+   * the last one.
+   */
+  public async publishLogRoot(): Promise<LogRoot | undefined> {
+    const head = await this.signedLogRoot();
+    if (head.size === this.lastPublishedLogSize) return undefined;
+    if (this.keys.publicKey && this.keys.secretKey) {
+      await postLogRoot(this.ndk, this.keys, head);
+      this.lastPublishedLogSize = head.size;
+    }
+    return head;
+  }
+
+  /**
+   * Starts publishing log roots every `config.logRootInterval` seconds
+   * (default 1 hour; 0 disables it).
+   */
+  protected startLogRootPublishing(): void {
+    const interval = this.config.logRootInterval ?? DEFAULT_LOG_ROOT_INTERVAL;
+    if (interval <= 0 || this.logRootTimer) return;
+    this.logRootTimer = setInterval(() => {
+      this.publishLogRoot().catch((err) =>
+        Debug.error("publishLogRoot relay error: " + err, "ForgeBase"),
+      );
+    }, interval * 1000);
+    // Never keep the process alive just to publish roots.
+    this.logRootTimer.unref?.();
+  }
+
+  public async disconnect(): Promise<void> {
+    if (this.logRootTimer) {
+      clearInterval(this.logRootTimer);
+      this.logRootTimer = undefined;
+    }
+    await super.disconnect();
+  }
+
+  public async _loadState(): Promise<void> {
+    const savedState = await this.loadState(this.stateKey);
+    if (savedState !== null) {
+      // Cast to ForgeState to access forge-specific properties
+      const forgeState = savedState as any;
+      if (forgeState.rotatedTo) {
+        throw new Error(
+          `Forge key was rotated to ${forgeState.rotatedTo}; start the forge with that key`,
+        );
+      }
+      // Version 1 kept the spent set inside the state blob; move it into the
+      // spent token store before the blob is re-saved without it.
+      const legacySpent: string[] = [...(forgeState.spentTokens || [])];
+      delete forgeState.spentTokens;
+      if (legacySpent.length > 0) {
+        await this.spentTokenStore.addMany(legacySpent);
+      }
+      const legacyTxs: [string, PendingTx][] = [
+        ...(forgeState.pendingTxs || []),
+      ];
+      const legacyResults: [string, IdempotentResult][] = [
+        ...(forgeState.txResults || []),
+      ];
+      delete forgeState.pendingTxs;
+      delete forgeState.txResults;
+      this.state = {
+        ...this.state,
+        ...savedState,
+        version: Math.max(forgeState.version ?? 1, 2),
+        // Saved before the issued token store existed: the tokens signed
+        // until now are not in it.
+        issuedRecordedSince:
+          forgeState.issuedRecordedSince ?? Math.floor(Date.now() / 1000),
+        pendingTxs: new Map(),
+        htlcLocks: new Map(forgeState.htlcLocks || []),
+        authorizations: new Map(forgeState.authorizations || []),
+        keyRotations: forgeState.keyRotations || [],
+        paused: { minting: false, transfers: false, ...forgeState.paused },
+        revocations: new Map(forgeState.revocations || []),
+        grants: new Map(forgeState.grants || []),
+        authorizedForgers: new Set(forgeState.authorizedForgers || []),
+        // Policies set at runtime win over the config they started from.
+        forgerPolicies: new Map([
+          ...Object.entries(this.config.forgerPolicies ?? {}),
+          ...(forgeState.forgerPolicies || []),
+        ]),
+        forgerUsage: new Map(forgeState.forgerUsage || []),
+        tokenUsage: new Map(forgeState.tokenUsage || []),
+        // Sets added to the config since the last save start at zero.
+        sets: new Map([
+          ...forgeSets(this.config.sets),
+          ...(forgeState.sets || []),
+        ]),
+      };
+      // The journal and idempotent results moved to their own records too,
+      // named once the key rotations are known.
+      for (const [txId, tx] of legacyTxs) {
+        await this.journal.set(txId, tx);
+      }
+      for (const [key, result] of legacyResults) {
+        await this.txResults.set(key, result);
+      }
+      this.state.pendingTxs = new Map(await this.journal.entries());
+      if (
+        legacySpent.length > 0 ||
+        legacyTxs.length > 0 ||
+        legacyResults.length > 0 ||
+        forgeState.issuedRecordedSince === undefined
+      ) {
+        await this._saveState();
+      }
+    } else {
+      this.state = {
+        ...this.state,
+        owner: this.config.owner || "",
+        version: 2,
+        issuedRecordedSince: 0,
+        pendingTxs: new Map(),
+        htlcLocks: new Map(),
+        authorizations: new Map(),
+        keyRotations: [],
+        paused: { minting: false, transfers: false },
+        revocations: new Map(),
+        grants: new Map(),
+        totalSupply: this.config.totalSupply || 0,
+        lastAssetId: 0,
+        authorizedForgers: new Set(this.config.authorizedForgers || []),
+        forgerPolicies: new Map(
+          Object.entries(this.config.forgerPolicies ?? {}),
+        ),
+        forgerUsage: new Map(),
+        tokenUsage: new Map(),
+        circulatingSupply: 0,
+        burnedSupply: 0,
+        sets: forgeSets(this.config.sets),
+      };
+      await this._saveState();
+    }
+  }
+
+  /**
+   * Records a transaction's input hashes and signed outputs in the write-ahead
+   * journal before its inputs are marked spent, so a crash at any later step
+   * can be recovered on restart. Returns the journal id.
+   */
+  protected async journalTx(
+    inputs: string[],
+    outputs: PendingTx["outputs"],
+    sender?: string,
+    signatures?: BlindSignature[],
+  ): Promise<string> {
+    const txId = bytesToHex(randomBytes(16));
+    const tx: PendingTx = {
+      inputs,
+      outputs,
+      sender,
+      ...(signatures ? { signatures } : {}),
+      createdAt: Math.floor(Date.now() / 1000),
+    };
+    await this.journal.set(txId, tx);
+    this.state.pendingTxs.set(txId, tx);
+    return txId;
+  }
+
+  /**
+   * Drops a journaled transaction once its outputs have been delivered.
+   */
+  protected async completeTx(txId: string): Promise<void> {
+    this.state.pendingTxs.delete(txId);
+    await this.journal.delete(txId);
+    await this.journal.prune(() => false);
+  }
+
+  /**
+   * Resolves transactions a crash left in the journal. If any input is spent
+   * the commit had started, so it is finished and the outputs are queued for
+   * redelivery; otherwise nothing was delivered and the entry is discarded,
+   * leaving the inputs spendable. Runs before the forge starts serving.
+   */
+  protected async recoverPendingTxs(): Promise<void> {
+    if (this.state.pendingTxs.size === 0) return;
+    for (const [txId, tx] of this.state.pendingTxs) {
+      const spent = await Promise.all(
+        tx.inputs.map((hash) => this.spentTokenStore.has(hash)),
+      );
+      if (spent.some(Boolean)) {
+        await this.spentTokenStore.addMany(tx.inputs);
+        await this.transparencyLog.append(
+          tx.inputs.map((tokenHash) => ({ type: "spent", tokenHash })),
+        );
+      } else {
+        Debug.log(`Rolling back journaled tx ${txId}`, "ForgeBase");
+        await this.completeTx(txId);
+      }
+    }
+  }
+
+  /**
+   * Re-sends the outputs (blind signatures, and spent notices) of recovered
+   * transactions to their recipients. Entries whose delivery fails stay in the journal and
+   * are retried on the next start.
+   */
+  protected async redeliverPendingTxs(): Promise<void> {
+    if (this.state.pendingTxs.size === 0) return;
+    for (const [txId, tx] of this.state.pendingTxs) {
+      try {
+        for (const { to, token } of tx.outputs) {
+          await this.sendResponse(
+            { id: txId, timestamp: Date.now(), result: { token } },
+            to,
+          );
+        }
+        if (tx.sender) {
+          if (tx.signatures) {
+            await this.sendResponse(
+              {
+                id: txId,
+                timestamp: Date.now(),
+                result: { signatures: tx.signatures },
+              },
+              tx.sender,
+            );
+          }
+          for (const spent of tx.inputs) {
+            await this.sendResponse(
+              {
+                id: txId,
+                timestamp: Date.now(),
+                result: { spent, issuer: this.keys.publicKey! },
+              },
+              tx.sender,
+            );
+          }
+        }
+        await this.completeTx(txId);
+      } catch (error) {
+        Debug.error(
+          `Redelivery of journaled tx ${txId} failed: ${error}`,
+          "ForgeBase",
+        );
+      }
+    }
+  }
+
+  /**
+   * Signs a receipt for a settled burn or transfer of request `requestId`:
+   * the tokens it spent and the outputs it issued, with their amounts or
+   * tokenIDs. The sender can show it to anyone, who checks it offline with
+   * `verifyReceipt` against this forge's key.
+   */
+  protected async signReceipt(
+    type: Receipt["type"],
+    requestId: string,
+    inputs: Token[],
+    outputs: PendingTx["outputs"],
+  ): Promise<Receipt> {
+    const entry = ({ header, payload }: Token, to?: string): ReceiptToken => ({
+      tokenHash: header.token_hash!,
+      ...(payload.amount !== undefined ? { amount: payload.amount } : {}),
+      ...(payload.tokenID !== undefined ? { tokenID: payload.tokenID } : {}),
+      ...(to !== undefined ? { to } : {}),
+    });
+    const issued = await Promise.all(
+      outputs.map(async ({ to, token }) =>
+        entry(await new Token().restore(token), to),
+      ),
+    );
+    const receipt = {
+      type,
+      issuer: this.keys.publicKey!,
+      requestId,
+      timestamp: Math.floor(Date.now() / 1000),
+      inputs: inputs.map((token) => entry(token)),
+      outputs: issued,
+    };
+    return {
+      ...receipt,
+      sig: bytesToHex(await this.sign(receiptDigest(receipt))),
+    };
+  }
+
+  public async publishSpentToken(tokenHash: string) {
+    await this.publishSpentTokens([tokenHash]);
+  }
+
+  /**
+   * Marks every input of a transaction spent in one atomic write to the spent
+   * token store, then announces each hash on the forge's feed.
+   */
+  public async publishSpentTokens(tokenHashes: string[]) {
+    // Mark spent first so subsequent validation sees it immediately
+    await this.spentTokenStore.addMany(tokenHashes);
+    await this.transparencyLog.append(
+      tokenHashes.map((tokenHash) => ({ type: "spent", tokenHash })),
+    );
+
+    // Fire-and-forget relay publication — don't block the transfer response
+    if (this.keys.publicKey && this.keys.secretKey) {
+      for (const tokenHash of tokenHashes) {
+        postToFeed(this.ndk, `spent:${tokenHash}`, this.keys, [
+          ["t", tokenHash],
+          ["p", this.keys.publicKey!],
+        ]).catch((err) =>
+          Debug.error("publishSpentToken relay error: " + err, "ForgeBase"),
+        );
+      }
+    }
+  }
+
+  /**
+   * Announces a redeemed HTLC as a public HTLC_CLAIM (kind 30120) event so
+   * parties holding locks on the same hash can learn the secret (§6.4).
+   */
+  public publishHTLCClaim(hash: string, secret: string, tokenHash: string) {
+    // Fire-and-forget, like spent notes: the claim is already settled.
+    if (this.keys.publicKey && this.keys.secretKey) {
+      postHTLCClaim(this.ndk, this.keys, {
+        hash,
+        secret,
+        tokenHash,
+        issuer: this.keys.publicKey,
+      }).catch((err) =>
+        Debug.error("publishHTLCClaim relay error: " + err, "ForgeBase"),
+      );
+    }
+  }
+
+  public async handleBurn(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    // Share the spent-set lock with transfers: a burn and a transfer of the
+    // same token must not both mark it spent from an unspent starting state.
+    return await this.runExclusive(async () => {
+      let parsed: { token?: string };
+      try {
+        parsed = JSON.parse(req.params);
+      } catch (error) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const { token } = parsed;
+      if (!token) {
+        return await res.error(
           NWPC_SPEC_ERRORS.TOKEN_REQUIRED.code,
           NWPC_SPEC_ERRORS.TOKEN_REQUIRED.message,
         );
       }
-      try {
-        const restoredToken = await new Token().restore(token);
+      try {
+        const restoredToken = await new Token().restore(token);
+
+        // Verify token integrity before accepting burn
+        if (!(await restoredToken.verifyTokenHash())) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
+            "Token hash does not match payload",
+          );
+        }
+        if (!(await restoredToken.verifyTokenSignature())) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
+            "Invalid token signature",
+          );
+        }
+
+        // Only tokens this forge issued count against its supply; burning a
+        // foreign token would otherwise deflate our circulating figure.
+        if (!(await this.isIssuedHere(restoredToken))) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+            "Input token issuer mismatch",
+          );
+        }
+
+        const tokenHash = restoredToken.header.token_hash;
+        if (await this.spentTokenStore.has(tokenHash)) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.TOKEN_SPENT.code,
+            NWPC_SPEC_ERRORS.TOKEN_SPENT.message,
+          );
+        }
+        const revoked = this.revocationError(tokenHash);
+        if (revoked) {
+          return await res.error(NWPC_SPEC_ERRORS.TOKEN_INVALID.code, revoked);
+        }
+        // Mark spent before persisting the supply counters: a crash in
+        // between leaves the burn uncounted (circulating overstated) rather
+        // than a counted burn whose token can still be spent.
+        this.recordBurn(restoredToken);
+        await this.publishSpentToken(tokenHash);
+        await this._saveState();
+        const receipt = await this.signReceipt(
+          "burn",
+          req.id,
+          [restoredToken],
+          [],
+        );
+        return await res.send({ success: true, receipt }, context.sender);
+      } catch (error: unknown) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error occurred";
+        return await res.error(NWPC_SPEC_ERRORS.INTERNAL_ERROR.code, message);
+      }
+    });
+  }
+
+  /**
+   * Settles a two-party swap (`swap`) atomically.
+   *
+   * Params are `{ legs: [SwapLeg, SwapLeg] }`: each leg's inputs pay for its
+   * own outputs, e.g. a ticket for one party's key against credits for the
+   * other's. Every witness, on either leg, signs
+   * `spendAuthDigest(tokenHash, swapSpendOuts(legs))`, so a party's offer
+   * only settles together with the counterparty's leg. Both legs are
+   * validated and their outputs signed under one spend lock, then all inputs
+   * are marked spent in one write: either both legs commit or neither does.
+   */
+  public async handleSwap(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.runExclusive(async () => {
+      let parsed: { legs?: unknown };
+      try {
+        parsed = JSON.parse(req.params) ?? {};
+      } catch {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const { legs } = parsed;
+      const legError =
+        Array.isArray(legs) && legs.length === 2
+          ? (legs.map(swapLegError).find(Boolean) ?? null)
+          : "swap takes exactly two legs";
+      if (legError) {
+        return await res.error(NWPC_SPEC_ERRORS.INVALID_PARAMS.code, legError);
+      }
+      const swapLegs = legs as SwapLeg[];
+      let legOuts: Recipient[][];
+      try {
+        legOuts = swapLegs.map((leg) =>
+          leg.outs.map((out) =>
+            typeof out === "string" ? JSON.parse(out) : out,
+          ),
+        );
+      } catch {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const signedOuts = swapSpendOuts(
+        swapLegs.map((leg, i) => ({ from: leg.from, outs: legOuts[i] })),
+      );
+
+      const inputHashes: string[] = [];
+      const outputs: PendingTx["outputs"] = [];
+      for (const [i, leg] of swapLegs.entries()) {
+        const [validTx, error, code, params] = await this.validateTXInputs(
+          { ins: leg.ins, outs: signedOuts as string[] },
+          leg.witnessData,
+        );
+        if (error || !validTx) {
+          return await res.error(
+            code ?? NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+            "Invalid swap: " + (error || "Validation failed"),
+            params,
+          );
+        }
+        const inputs = await Promise.all(
+          leg.ins.map((input) => new Token().restore(input)),
+        );
+        // validateTXInputs rejects duplicates within a leg; the same token
+        // must not pay for both legs either.
+        const hashes = inputs.map((token) => token.header.token_hash);
+        if (hashes.some((hash) => inputHashes.includes(hash))) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+            "Invalid swap: Duplicate input token in swap",
+          );
+        }
+        const [legOutputs, legFailure, legCode] = await this.prepareSwapLeg(
+          inputs,
+          legOuts[i],
+          leg.from,
+        );
+        if (!legOutputs) {
+          return await res.error(
+            legCode ?? NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+            "Invalid swap: " + legFailure,
+          );
+        }
+        inputHashes.push(...hashes);
+        outputs.push(...legOutputs);
+      }
+
+      const txId = await this.journalTx(inputHashes, outputs, context.sender);
+      await this.publishSpentTokens(inputHashes);
+      for (const { to, token } of outputs) {
+        await res.send({ token }, to);
+      }
+      for (const spent of inputHashes) {
+        await res.send({ spent, issuer: this.keys.publicKey! }, context.sender);
+      }
+      await this.completeTx(txId);
+      return;
+    });
+  }
+
+  /**
+   * Moves a burned token's value out of circulation and into the burned
+   * counter of its set. Fungible tokens count their amount; a TAT counts as
+   * one unit.
+   */
+  protected recordBurn(token: Token): void {
+    let value = 1;
+    if (token.header.typ !== TokenType.TAT) {
+      const amount = token.payload.amount;
+      value =
+        typeof amount === "number" && Number.isFinite(amount) && amount > 0
+          ? amount
+          : 0;
+    }
+    this.adjustSupply(token.payload.setID, -value, value);
+  }
+
+  /**
+   * Registers a named token set with its own supply cap (0 means uncapped).
+   *
+   * Tokens minted into a set carry its `setID` and only combine with tokens
+   * of the same set. Sets can also be declared up front in `config.sets`.
+   *
+   * @param setID - The set identifier, e.g. "USD" or "loyalty-points"
+   * @param totalSupply - Supply cap for the set
+   * @throws Error if the forge is not initialized or the set already exists
+   */
+  public async addSet(setID: string, totalSupply = 0): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    if (this.hasSet(setID)) {
+      throw new Error(`Set ${setID} already exists`);
+    }
+    this.state.sets.set(setID, {
+      totalSupply,
+      circulatingSupply: 0,
+      burnedSupply: 0,
+    });
+    await this._saveState();
+  }
+
+  /**
+   * Whether this forge issues `setID`. An absent setID is the default set.
+   */
+  public hasSet(setID?: string): boolean {
+    return !setID || setID === DEFAULT_SET_ID || this.state.sets.has(setID);
+  }
+
+  /**
+   * Changes the supply cap of a set (0 means uncapped). A cap below the
+   * value already in circulation is rejected.
+   *
+   * @param totalSupply - The new cap
+   * @param setID - The set to change; the default set when absent
+   * @throws Error if the forge is not initialized, the set is unknown or the cap is invalid
+   */
+  public async setTotalSupply(
+    totalSupply: number,
+    setID?: string,
+  ): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    const supply = this.supplyOf(setID);
+    if (!supply) {
+      throw new Error(`Unknown setID: ${setID}`);
+    }
+    if (!Number.isFinite(totalSupply) || totalSupply < 0) {
+      throw new Error("totalSupply must be a non-negative number");
+    }
+    if (totalSupply > 0 && totalSupply < supply.circulatingSupply) {
+      throw new Error(
+        `totalSupply ${totalSupply} is below the circulating supply (${supply.circulatingSupply})`,
+      );
+    }
+    if (!setID || setID === DEFAULT_SET_ID) {
+      this.state.totalSupply = totalSupply;
+    } else {
+      this.state.sets.get(setID)!.totalSupply = totalSupply;
+    }
+    await this._saveState();
+  }
+
+  /**
+   * Pauses minting and/or transfers requested over NWPC. Requests for a
+   * paused scope are rejected until `resume`.
+   *
+   * @param scopes - What to pause; both scopes when omitted
+   */
+  public async pause(scopes: PauseScope[] = PAUSE_SCOPES): Promise<void> {
+    for (const scope of scopes) this.state.paused[scope] = true;
+    await this._saveState();
+  }
+
+  /**
+   * Resumes scopes paused with `pause`.
+   *
+   * @param scopes - What to resume; both scopes when omitted
+   */
+  public async resume(scopes: PauseScope[] = PAUSE_SCOPES): Promise<void> {
+    for (const scope of scopes) this.state.paused[scope] = false;
+    await this._saveState();
+  }
+
+  /**
+   * Summarizes the forge's supply, activity and configuration.
+   */
+  public async getStats(): Promise<Record<string, unknown>> {
+    return {
+      publicKey: this.keys.publicKey,
+      owner: this.state.owner,
+      paused: { ...this.state.paused },
+      supply: {
+        total: this.state.totalSupply,
+        circulating: this.state.circulatingSupply ?? 0,
+        burned: this.state.burnedSupply ?? 0,
+      },
+      sets: Object.fromEntries(this.state.sets),
+      spentTokens: await this.spentTokenStore.size(),
+      logSize: await this.transparencyLog.size(),
+      authorizedForgers: this.state.authorizedForgers.size,
+      authorizations: this.state.authorizations.size,
+      pendingTxs: this.state.pendingTxs.size,
+      htlcLocks: this.state.htlcLocks.size,
+      forgerUsage: Object.fromEntries(this.state.forgerUsage),
+      revocations: [...this.state.revocations.keys()].filter(
+        (tokenHash) => !!this.getRevocation(tokenHash),
+      ).length,
+      keyRotations: this.state.keyRotations.length,
+      auditEntries: await this.auditTrail.size(),
+    };
+  }
+
+  /**
+   * Returns the supply figures of a set, or undefined if it is unknown. The
+   * default set reports the forge-wide counters.
+   */
+  protected supplyOf(setID?: string): SetSupply | undefined {
+    if (!setID || setID === DEFAULT_SET_ID) {
+      return {
+        totalSupply: this.state.totalSupply,
+        circulatingSupply: this.state.circulatingSupply ?? 0,
+        burnedSupply: this.state.burnedSupply ?? 0,
+      };
+    }
+    return this.state.sets.get(setID);
+  }
+
+  // Applies a mint (positive `circulating`) or burn to a set's counters.
+  protected adjustSupply(
+    setID: string | undefined,
+    circulating: number,
+    burned: number,
+  ): void {
+    if (!setID || setID === DEFAULT_SET_ID) {
+      this.state.circulatingSupply = Math.max(
+        0,
+        (this.state.circulatingSupply ?? 0) + circulating,
+      );
+      this.state.burnedSupply = (this.state.burnedSupply ?? 0) + burned;
+      return;
+    }
+    const supply = this.state.sets.get(setID);
+    if (!supply) return;
+    supply.circulatingSupply = Math.max(
+      0,
+      supply.circulatingSupply + circulating,
+    );
+    supply.burnedSupply += burned;
+  }
+
+  /**
+   * Returns the forge's supply figures (PROTOCOL_SPEC.md §4.3.2).
+   *
+   * `total` is the configured supply cap (0 means uncapped), `circulating` is
+   * the value currently outstanding and `burned` is the value destroyed so far.
+   */
+  public async handleGetSupply(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: { setID?: string };
+    try {
+      parsed = req.params ? JSON.parse(req.params) : {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { setID } = parsed ?? {};
+    if (setID !== undefined && typeof setID !== "string") {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "setID must be a string",
+      );
+    }
+    const supply = this.supplyOf(setID);
+    if (!supply) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `Unknown setID: ${setID}`,
+      );
+    }
+    return await res.send(
+      {
+        total: supply.totalSupply,
+        circulating: supply.circulatingSupply,
+        burned: supply.burnedSupply,
+      },
+      context.sender,
+    );
+  }
+
+  /**
+   * `verify` ({ token_hashes }): whether each token is spent, revoked or
+   * frozen, with the notice of every revoked or frozen one.
+   */
+  public async handleVerify(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: { token_hashes?: string[] };
+    try {
+      parsed = JSON.parse(req.params);
+    } catch (error) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const tokenHashes = parsed.token_hashes;
+    if (!Array.isArray(tokenHashes) || tokenHashes.length === 0) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "token_hashes is required",
+      );
+    }
+    const spent: Record<string, boolean> = {};
+    const revoked: Record<string, boolean> = {};
+    const frozen: Record<string, boolean> = {};
+    const revocations: Record<string, TokenRevocation> = {};
+    const valid: Record<string, boolean> = {};
+    for (const hash of tokenHashes) {
+      if (typeof hash !== "string") {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          "token_hashes must be strings",
+        );
+      }
+      const isSpent = await this.spentTokenStore.has(hash);
+      const revocation = this.getRevocation(hash);
+      spent[hash] = isSpent;
+      revoked[hash] = revocation?.status === "revoked";
+      frozen[hash] = revocation?.status === "frozen";
+      if (revocation) revocations[hash] = revocation;
+      valid[hash] = !isSpent && !revocation;
+    }
+    return await res.send(
+      { valid, spent, revoked, frozen, revocations },
+      context.sender,
+    );
+  }
+
+  /**
+   * Returns the forge's signed transparency log root (`log.root`).
+   */
+  public async handleLogRoot(
+    _req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await res.send(await this.signedLogRoot(), context.sender);
+  }
+
+  /**
+   * Returns the log entry recording `tokenHash` as `type` ("spent" unless
+   * given) with its inclusion proof in the tree of the first `size` entries
+   * (default: the current log). Not found means the forge never logged it.
+   */
+  public async handleLogInclusion(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: { tokenHash?: string; type?: string; size?: number };
+    try {
+      parsed = JSON.parse(req.params) ?? {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { tokenHash, type = "spent" } = parsed;
+    if (
+      typeof tokenHash !== "string" ||
+      (type !== "spent" && type !== "mint")
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        'tokenHash is required and type must be "spent" or "mint"',
+      );
+    }
+    const current = await this.transparencyLog.size();
+    const size = parsed.size ?? current;
+    if (!Number.isInteger(size) || size < 1 || size > current) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `size must be an integer between 1 and ${current}`,
+      );
+    }
+    const index = await this.transparencyLog.indexOf(type, tokenHash);
+    if (index === undefined || index >= size) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `No ${type} entry for ${tokenHash} in the first ${size} log entries`,
+      );
+    }
+    const [entry] = await this.transparencyLog.getEntries(index, index + 1);
+    return await res.send(
+      {
+        index,
+        size,
+        entry,
+        proof: await this.transparencyLog.inclusionProof(index, size),
+        root: await this.transparencyLog.root(size),
+      },
+      context.sender,
+    );
+  }
+
+  /**
+   * Returns a proof that the log of `from` entries is a prefix of the log of
+   * `to` entries (default: the current log).
+   */
+  public async handleLogConsistency(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: { from?: number; to?: number };
+    try {
+      parsed = JSON.parse(req.params) ?? {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const current = await this.transparencyLog.size();
+    const { from } = parsed;
+    const to = parsed.to ?? current;
+    if (
+      !Number.isInteger(from) ||
+      !Number.isInteger(to) ||
+      from! < 0 ||
+      from! > to ||
+      to > current
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `from and to must be integers with 0 <= from <= to <= ${current}`,
+      );
+    }
+    return await res.send(
+      {
+        from,
+        to,
+        proof: await this.transparencyLog.consistencyProof(from!, to),
+        root: await this.transparencyLog.root(to),
+      },
+      context.sender,
+    );
+  }
+
+  /**
+   * Returns log entries `start` to `end` (exclusive), at most 1000 at a time,
+   * so auditors can replay the log and recompute supply.
+   */
+  public async handleLogEntries(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: { start?: number; end?: number };
+    try {
+      parsed = req.params ? JSON.parse(req.params) : {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const start = parsed?.start ?? 0;
+    const end = Math.min(
+      parsed?.end ?? start + MAX_LOG_ENTRIES_PER_REQUEST,
+      start + MAX_LOG_ENTRIES_PER_REQUEST,
+    );
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "start and end must be non-negative integers",
+      );
+    }
+    const entries: LogEntry[] = await this.transparencyLog.getEntries(
+      start,
+      end,
+    );
+    return await res.send({ start, entries }, context.sender);
+  }
+
+  // Parses the params of an admin request, which are always a JSON object.
+  protected parseAdminParams(
+    req: NWPCRequest,
+  ): Record<string, unknown> | undefined {
+    try {
+      const params = req.params ? JSON.parse(req.params) : {};
+      return params && typeof params === "object" && !Array.isArray(params)
+        ? params
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * `admin.forgers.list`: the pubkeys authorized to mint, with the policies
+   * limiting them and what each forger has minted.
+   */
+  public async handleAdminListForgers(
+    _req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await res.send(
+      {
+        forgers: this.getAuthorizedForgers(),
+        policies: Object.fromEntries(this.state.forgerPolicies),
+        usage: Object.fromEntries(this.state.forgerUsage),
+      },
+      context.sender,
+    );
+  }
+
+  /**
+   * `admin.forgers.policy` ({ pubkey, policy? }): sets a forger's minting
+   * limits, or lifts them when `policy` is omitted.
+   */
+  public async handleAdminForgerPolicy(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { pubkey, policy } = params;
+    if (typeof pubkey !== "string" || !/^[0-9a-f]{64}$/.test(pubkey)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "pubkey must be a 64-character hex public key",
+      );
+    }
+    try {
+      await this.setForgerPolicy(pubkey, policy as ForgerPolicy | undefined);
+    } catch (error) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    return await res.send(
+      {
+        pubkey,
+        policy: this.getForgerPolicy(pubkey),
+        usage: this.getForgerUsage(pubkey),
+      },
+      context.sender,
+    );
+  }
+
+  /**
+   * `admin.forgers.add` ({ pubkey }): authorizes `pubkey` to mint.
+   */
+  public async handleAdminAddForger(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.editForgers(req, context, res, (pubkey) =>
+      this.addAuthorizedForger(pubkey),
+    );
+  }
+
+  /**
+   * `admin.forgers.remove` ({ pubkey }): revokes `pubkey`'s minting rights.
+   */
+  public async handleAdminRemoveForger(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.editForgers(req, context, res, (pubkey) =>
+      this.removeAuthorizedForger(pubkey),
+    );
+  }
+
+  private async editForgers(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+    edit: (pubkey: string) => Promise<void>,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { pubkey } = params;
+    if (typeof pubkey !== "string" || !/^[0-9a-f]{64}$/.test(pubkey)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "pubkey must be a 64-character hex public key",
+      );
+    }
+    await edit(pubkey);
+    return await res.send(
+      { forgers: this.getAuthorizedForgers() },
+      context.sender,
+    );
+  }
+
+  /**
+   * `admin.supply.set` ({ totalSupply, setID? }): changes a set's supply cap.
+   */
+  public async handleAdminSetSupply(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { totalSupply } = params;
+    if (params.setID !== undefined && typeof params.setID !== "string") {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "setID must be a string",
+      );
+    }
+    const setID = typeof params.setID === "string" ? params.setID : undefined;
+    if (!this.hasSet(setID)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `Unknown setID: ${setID}`,
+      );
+    }
+    if (typeof totalSupply !== "number") {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "totalSupply must be a number",
+      );
+    }
+    try {
+      await this.setTotalSupply(totalSupply, setID);
+    } catch (error) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    const supply = this.supplyOf(setID)!;
+    return await res.send(
+      {
+        setID: setID ?? DEFAULT_SET_ID,
+        total: supply.totalSupply,
+        circulating: supply.circulatingSupply,
+        burned: supply.burnedSupply,
+      },
+      context.sender,
+    );
+  }
+
+  /**
+   * `admin.pause` ({ scope? }): pauses "minting", "transfers", or both.
+   */
+  public async handleAdminPause(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.setPaused(req, context, res, true);
+  }
+
+  /**
+   * `admin.resume` ({ scope? }): resumes "minting", "transfers", or both.
+   */
+  public async handleAdminResume(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.setPaused(req, context, res, false);
+  }
+
+  private async setPaused(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+    paused: boolean,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { scope } = params;
+    if (scope !== undefined && !PAUSE_SCOPES.includes(scope as PauseScope)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `scope must be one of: ${PAUSE_SCOPES.join(", ")}`,
+      );
+    }
+    const scopes = scope === undefined ? PAUSE_SCOPES : [scope as PauseScope];
+    await (paused ? this.pause(scopes) : this.resume(scopes));
+    return await res.send({ paused: { ...this.state.paused } }, context.sender);
+  }
+
+  /**
+   * `admin.tokens.revoke` ({ tokenHash, reason, expiresAt? }): revokes a token.
+   */
+  public async handleAdminRevokeToken(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.editRevocation(req, context, res, (p) =>
+      this.revokeToken(p.tokenHash, p.reason, p.expiresAt),
+    );
+  }
+
+  /**
+   * `admin.tokens.freeze` ({ tokenHash, reason, expiresAt? }): freezes a token.
+   */
+  public async handleAdminFreezeToken(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.editRevocation(req, context, res, (p) =>
+      this.freezeToken(p.tokenHash, p.reason, p.expiresAt),
+    );
+  }
+
+  /**
+   * `admin.tokens.reinstate` ({ tokenHash }): lifts a revocation or freeze.
+   */
+  public async handleAdminReinstateToken(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.editRevocation(req, context, res, async (p) => {
+      await this.reinstateToken(p.tokenHash);
+      return { tokenHash: p.tokenHash, status: "active" };
+    });
+  }
+
+  private async editRevocation(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+    edit: (params: {
+      tokenHash: string;
+      reason: RevocationReason;
+      expiresAt?: number;
+    }) => Promise<unknown>,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    let result: unknown;
+    try {
+      // Argument checks live in revokeToken/freezeToken/reinstateToken.
+      result = await edit(params as Parameters<typeof edit>[0]);
+    } catch (error) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    return await res.send(result, context.sender);
+  }
+
+  /**
+   * `admin.stats`: supply, activity and configuration figures.
+   */
+  public async handleAdminStats(
+    _req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await res.send(await this.getStats(), context.sender);
+  }
+
+  /**
+   * `admin.audit` ({ start?, end? }): audit trail entries `start` to `end`
+   * (exclusive), at most 1000 at a time.
+   */
+  public async handleAdminAudit(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { start = 0, end } = params as { start?: number; end?: number };
+    const last = Math.min(
+      end ?? start + MAX_AUDIT_ENTRIES_PER_REQUEST,
+      start + MAX_AUDIT_ENTRIES_PER_REQUEST,
+    );
+    if (!Number.isInteger(start) || !Number.isInteger(last) || start < 0) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "start and end must be non-negative integers",
+      );
+    }
+    const entries = await this.auditTrail.getEntries(start, last);
+    return await res.send(
+      { start, size: await this.auditTrail.size(), entries },
+      context.sender,
+    );
+  }
+
+  /**
+   * Picks the tokenID for a newly minted TAT. The base forge numbers TATs
+   * sequentially; subclasses may override to honour other strategies.
+   */
+  protected allocateTokenID(): string | number {
+    const tokenID = this.state.lastAssetId;
+    this.state.lastAssetId += 1;
+    return tokenID;
+  }
+
+  /**
+   * Returns an error message if minting `value` more units into `setID` would
+   * exceed that set's supply cap, otherwise null. A cap of 0 means uncapped.
+   * The caller checks that the set exists.
+   */
+  protected supplyLimitError(value: number, setID?: string): string | null {
+    const supply = this.supplyOf(setID);
+    if (!supply) {
+      return `Unknown setID: ${setID}`;
+    }
+    const { totalSupply, circulatingSupply } = supply;
+    if (totalSupply > 0 && circulatingSupply + value > totalSupply) {
+      return `Forging ${value} would exceed total supply (${totalSupply}). Remaining: ${totalSupply - circulatingSupply}`;
+    }
+    return null;
+  }
+
+  /**
+   * Builds and signs a new token of this forge's type worth `value` and adds
+   * it to the circulating supply of `fields.setID` (the default set when
+   * absent). Fungible tokens carry `value` as their amount; a TAT gets the
+   * next tokenID. The caller checks the cap and persists state.
+   */
+  protected async mintValue(
+    value: number,
+    fields: Record<string, unknown>,
+  ): Promise<{ token: Token; jwt: string }> {
+    const forgeType = this.config.tokenType ?? TokenType.FUNGIBLE;
+    const token = new Token();
+    await token.build({
+      token_type: forgeType,
+      payload: Token.createPayload({
+        ...fields,
+        iss: this.keys.publicKey!,
+        ...(forgeType === TokenType.FUNGIBLE
+          ? { amount: value }
+          : { tokenID: this.allocateTokenID() }),
+      }),
+    });
+    const jwt = await this.signAndCreateJWT(token);
+    this.adjustSupply(token.payload.setID, value, 0);
+    await this.transparencyLog.append([
+      { type: "mint", tokenHash: token.header.token_hash, amount: value },
+    ]);
+    return { token, jwt };
+  }
+
+  /**
+   * Mints to many recipients in one request (`forge.batch`).
+   *
+   * Each row of `recipients` is validated and checked against the caller's
+   * forger policy on its own; rows that fail are reported with their error
+   * and the rest are minted. The supply cap is checked once for all valid
+   * rows of each set, rejecting the whole batch if they do not fit. State is
+   * saved once, each token is delivered to its recipient, and the caller
+   * receives a per-row summary.
+   */
+  public async handleBatchForge(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: { recipients?: unknown };
+    try {
+      parsed = JSON.parse(req.params);
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const recipients = parsed?.recipients;
+    if (
+      !Array.isArray(recipients) ||
+      recipients.length === 0 ||
+      recipients.length > MAX_BATCH_RECIPIENTS
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `recipients must be a list of 1 to ${MAX_BATCH_RECIPIENTS} entries`,
+      );
+    }
+
+    const forgeType = this.config.tokenType ?? TokenType.FUNGIBLE;
+    const results: BatchMintResult[] = [];
+    const rows: {
+      index: number;
+      row: BatchMintRecipient;
+      value: number;
+      metadata: TATMetadata;
+    }[] = [];
+    const setTotals = new Map<string | undefined, number>();
+    recipients.forEach((row: BatchMintRecipient, index) => {
+      let error = this.batchRowError(row, forgeType);
+      let metadata: TATMetadata | null = { data_uri: row?.data_uri };
+      if (!error && forgeType !== TokenType.FUNGIBLE) {
+        [metadata, error] = this.tatMetadata(row);
+      }
+      if (error || !metadata) {
+        results.push({ index, to: row?.to, error: error ?? undefined });
+        return;
+      }
+      const value = forgeType === TokenType.FUNGIBLE ? Number(row.amount) : 1;
+      rows.push({ index, row, value, metadata });
+      setTotals.set(row.setID, (setTotals.get(row.setID) ?? 0) + value);
+    });
+    for (const [setID, total] of setTotals) {
+      const supplyError = this.supplyLimitError(total, setID);
+      if (supplyError) {
+        return await res.error(NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code, supplyError);
+      }
+    }
+
+    const minted: { index: number; to: string; jwt: string }[] = [];
+    for (const { index, row, value, metadata } of rows) {
+      const quotaError = this.chargeForgerQuota(
+        context.sender,
+        value,
+        row.setID,
+      );
+      if (quotaError) {
+        results.push({ index, to: row.to, error: quotaError[0] });
+        continue;
+      }
+      const { token, jwt } = await this.mintValue(value, {
+        P2PKlock: row.multisig ? undefined : row.to,
+        multisig: row.multisig,
+        setID: row.setID,
+        ...metadata,
+      });
+      results.push({ index, to: row.to, tokenHash: token.header.token_hash });
+      minted.push({ index, to: row.to, jwt });
+    }
+    await this._saveState();
+
+    for (const { index, to, jwt } of minted) {
+      try {
+        await res.send({ token: jwt }, to);
+      } catch (error) {
+        const result = results.find((r) => r.index === index)!;
+        result.error = `Delivery failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+    results.sort((a, b) => a.index - b.index);
+    return await res.send(
+      {
+        minted: minted.length,
+        failed: results.filter((r) => r.error).length,
+        results,
+      },
+      context.sender,
+    );
+  }
+
+  // Returns why a `forge.batch` row cannot be minted, or null.
+  private batchRowError(
+    row: BatchMintRecipient,
+    forgeType: TokenType,
+  ): string | null {
+    if (!row || typeof row !== "object") {
+      return "Recipient must be an object";
+    }
+    if (!row.to || typeof row.to !== "string") {
+      return "Recipient 'to' is required";
+    }
+    if (forgeType === TokenType.FUNGIBLE) {
+      const amount = Number(row.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return "Amount must be a positive, finite number";
+      }
+    }
+    if (row.setID !== undefined) {
+      if (typeof row.setID !== "string") return "setID must be a string";
+      if (forgeType !== TokenType.FUNGIBLE) {
+        return "setID only applies to fungible tokens";
+      }
+      if (!this.hasSet(row.setID)) return `Unknown setID: ${row.setID}`;
+    }
+    if (
+      forgeType === TokenType.FUNGIBLE &&
+      (row.template !== undefined ||
+        row.exp !== undefined ||
+        row.ext !== undefined ||
+        row.transferability !== undefined)
+    ) {
+      return "template, exp, ext and transferability only apply to TATs";
+    }
+    if (row.data_uri !== undefined && typeof row.data_uri !== "string") {
+      return "data_uri must be a string";
+    }
+    return row.multisig ? this.multisigLockError(row.multisig) : null;
+  }
+
+  /**
+   * Resolves and validates the metadata of a TAT mint. A `template` names an
+   * entry of `config.templates`; the request's own `exp` and `data_uri`
+   * replace the template's, and its `ext` fields are merged over the
+   * template's. A request's `transferability` replaces the template's.
+   * Returns the payload fields, or an error message and code.
+   */
+  protected tatMetadata(request: {
+    template?: unknown;
+    exp?: unknown;
+    data_uri?: unknown;
+    ext?: unknown;
+    transferability?: unknown;
+  }): [TATMetadata | null, string | null, number | null] {
+    const { template: name } = request;
+    if (name !== undefined && typeof name !== "string") {
+      return [
+        null,
+        "template must be a string",
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    const templates = this.config.templates ?? {};
+    const template =
+      name === undefined
+        ? {}
+        : typeof name === "string" &&
+            Object.prototype.hasOwnProperty.call(templates, name)
+          ? templates[name]
+          : undefined;
+    if (!template) {
+      return [
+        null,
+        `Unknown template: ${name}`,
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+      ];
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const exp =
+      request.exp ??
+      template.exp ??
+      (template.expiresIn !== undefined ? now + template.expiresIn : undefined);
+    if (exp !== undefined && (!Number.isInteger(exp) || Number(exp) <= now)) {
+      return [
+        null,
+        "exp must be a future Unix time in seconds",
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    const data_uri = request.data_uri ?? template.data_uri;
+    if (
+      data_uri !== undefined &&
+      (typeof data_uri !== "string" || data_uri.length > MAX_DATA_URI_LENGTH)
+    ) {
+      return [
+        null,
+        `data_uri must be a string of at most ${MAX_DATA_URI_LENGTH} characters`,
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    const { ext: requestExt } = request;
+    if (
+      requestExt !== undefined &&
+      (!requestExt ||
+        typeof requestExt !== "object" ||
+        Array.isArray(requestExt))
+    ) {
+      return [
+        null,
+        "ext must be an object",
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    const ext =
+      template.ext || requestExt
+        ? { ...template.ext, ...(requestExt as Record<string, unknown>) }
+        : undefined;
+    const extError = ext && this.extError(ext);
+    if (extError) {
+      return [null, extError, NWPC_SPEC_ERRORS.INVALID_PARAMS.code];
+    }
+    const transferability = request.transferability ?? template.transferability;
+    const restrictionError =
+      transferability !== undefined && transferabilityError(transferability);
+    if (restrictionError) {
+      return [null, restrictionError, NWPC_SPEC_ERRORS.INVALID_PARAMS.code];
+    }
+    return [
+      {
+        ...(exp !== undefined ? { exp: Number(exp) } : {}),
+        ...(typeof data_uri === "string" ? { data_uri } : {}),
+        ...(ext ? { ext } : {}),
+        ...(transferability
+          ? { transferability: transferability as Transferability }
+          : {}),
+      },
+      null,
+      null,
+    ];
+  }
+
+  // Checks the `ext` fields gates read (GateServerSpec.checkRequirements)
+  // and bounds the whole object.
+  private extError(ext: Record<string, unknown>): string | null {
+    if (
+      ext.tier !== undefined &&
+      (typeof ext.tier !== "number" || !Number.isFinite(ext.tier))
+    ) {
+      return "ext.tier must be a number";
+    }
+    if (
+      ext.benefits !== undefined &&
+      (!Array.isArray(ext.benefits) ||
+        !ext.benefits.every((b) => typeof b === "string"))
+    ) {
+      return "ext.benefits must be a list of strings";
+    }
+    let serialized: string;
+    try {
+      serialized = JSON.stringify(ext);
+    } catch {
+      return "ext must be JSON-serializable";
+    }
+    if (serialized.length > MAX_EXT_LENGTH) {
+      return `ext must serialize to at most ${MAX_EXT_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  /**
+   * Mints an HTLC-locked output (TAT_Protocol_Extensions.md §6.7).
+   *
+   * The output can be claimed by `recipient` with the preimage of `hash` until
+   * `timeout` seconds from now, after which it can only be refunded to
+   * `refundTo`, which is also the token's P2PKlock.
+   */
+  public async handleHTLCCreate(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: {
+      tokenType?: string;
+      amount?: number | string;
+      hash?: string;
+      recipient?: string;
+      timeout?: number;
+      refundTo?: string;
+      setID?: string;
+    };
+    try {
+      parsed = JSON.parse(req.params);
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { tokenType, amount, hash, recipient, timeout, refundTo, setID } =
+      parsed ?? {};
+    if (!recipient || !refundTo || typeof hash !== "string") {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Missing required parameters",
+      );
+    }
+    if (!/^[0-9a-fA-F]{64}$/.test(hash)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "hash must be a hex-encoded SHA-256 digest",
+      );
+    }
+    if (
+      typeof timeout !== "number" ||
+      !Number.isFinite(timeout) ||
+      timeout <= 0
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "timeout must be a positive number of seconds",
+      );
+    }
+    const forgeType = this.config.tokenType ?? TokenType.FUNGIBLE;
+    if (tokenType !== undefined && tokenType !== forgeType) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `This forge issues ${forgeType} tokens`,
+      );
+    }
+
+    // Fungible locks carry an amount; a TAT lock is one unit with a tokenID.
+    let value = 1;
+    if (forgeType === TokenType.FUNGIBLE) {
+      value = Number(amount);
+      if (!Number.isFinite(value) || value <= 0) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          "Amount must be a positive, finite number",
+        );
+      }
+    } else if (setID !== undefined) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "setID only applies to fungible tokens",
+      );
+    }
+    if (!this.hasSet(setID)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `Unknown setID: ${setID}`,
+      );
+    }
+    const supplyError = this.supplyLimitError(value, setID);
+    if (supplyError) {
+      return await res.error(NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code, supplyError);
+    }
+    const quotaError = this.chargeForgerQuota(context.sender, value, setID);
+    if (quotaError) {
+      return await res.error(quotaError[1], quotaError[0]);
+    }
 
-        // Verify token integrity before accepting burn
-        if (!(await restoredToken.verifyTokenHash())) {
-          return await res.error(
-            NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
-            "Token hash does not match payload",
-          );
-        }
-        if (!(await restoredToken.verifyTokenSignature())) {
-          return await res.error(
-            NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
-            "Invalid token signature",
-          );
-        }
+    const timeLock = Math.floor(Date.now() / 1000) + Math.ceil(timeout);
+    const { token, jwt: tokenJWT } = await this.mintValue(value, {
+      HTLC: hash.toLowerCase(),
+      HTLCRecipient: recipient,
+      timeLock,
+      P2PKlock: refundTo,
+      setID,
+    });
+    const tokenHash = token.header.token_hash;
+    this.state.htlcLocks.set(tokenHash, tokenJWT);
+    await this._saveState();
+    return await res.send(
+      { token: tokenJWT, tokenHash, timeLock },
+      context.sender,
+    );
+  }
 
-        const tokenHash = restoredToken.header.token_hash;
-        if (this.state.spentTokens.has(tokenHash)) {
-          return await res.error(
-            NWPC_SPEC_ERRORS.TOKEN_SPENT.code,
-            NWPC_SPEC_ERRORS.TOKEN_SPENT.message,
-          );
-        }
-        await this.publishSpentToken(tokenHash);
-        return await res.send({ success: true }, context.sender);
-      } catch (error: unknown) {
-        const message =
-          error instanceof Error ? error.message : "Unknown error occurred";
-        return await res.error(NWPC_SPEC_ERRORS.INTERNAL_ERROR.code, message);
+  /**
+   * Claims an HTLC-locked token with the preimage of its hash. Only the
+   * lock's HTLCRecipient may claim, and only before the timelock passes.
+   */
+  public async handleHTLCClaim(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.runExclusive(async () => {
+      let parsed: { tokenHash?: string; secret?: string };
+      try {
+        parsed = JSON.parse(req.params);
+      } catch {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const { tokenHash, secret } = parsed ?? {};
+      if (typeof secret !== "string" || !/^([0-9a-fA-F]{2})+$/.test(secret)) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          "secret must be a hex string",
+        );
+      }
+      const [token, error, code] = await this.loadHTLCLock(tokenHash);
+      if (!token) {
+        return await res.error(code!, error!);
+      }
+      if (context.sender !== token.payload.HTLCRecipient) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+          "Only the HTLC recipient may claim",
+        );
+      }
+      if (Math.floor(Date.now() / 1000) >= (token.payload.timeLock ?? 0)) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+          "HTLC has expired, only refund is possible",
+        );
+      }
+      if (htlcHashlock(secret) !== token.payload.HTLC) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+          "Invalid secret: hash does not match HTLC",
+        );
       }
+      const result = await this.settleHTLC(
+        token,
+        token.payload.HTLCRecipient!,
+        res,
+      );
+      this.publishHTLCClaim(
+        token.payload.HTLC,
+        secret.toLowerCase(),
+        token.header.token_hash,
+      );
+      return result;
     });
   }
 
-  public async handleVerify(
+  /**
+   * Returns an expired HTLC-locked token to its refund destination (the
+   * token's P2PKlock). Only that key may request the refund.
+   */
+  public async handleHTLCRefund(
     req: NWPCRequest,
     context: NWPCContext,
     res: NWPCResponseObject,
   ) {
-    let parsed: { token_hashes?: string[] };
+    return await this.runExclusive(async () => {
+      let parsed: { tokenHash?: string };
+      try {
+        parsed = JSON.parse(req.params);
+      } catch {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const [token, error, code] = await this.loadHTLCLock(parsed?.tokenHash);
+      if (!token) {
+        return await res.error(code!, error!);
+      }
+      if (context.sender !== token.payload.P2PKlock) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+          "Only the HTLC refund key may request a refund",
+        );
+      }
+      if (Math.floor(Date.now() / 1000) < (token.payload.timeLock ?? 0)) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+          "Cannot refund: HTLC has not yet expired",
+        );
+      }
+      return await this.settleHTLC(token, token.payload.P2PKlock!, res);
+    });
+  }
+
+  /**
+   * Looks up an outstanding HTLC lock by token hash.
+   * Returns [token, null, null] or [null, errorMessage, errorCode].
+   */
+  private async loadHTLCLock(
+    tokenHash: unknown,
+  ): Promise<[Token | null, string | null, number | null]> {
+    if (typeof tokenHash !== "string" || !tokenHash) {
+      return [
+        null,
+        "tokenHash is required",
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    if (await this.spentTokenStore.has(tokenHash)) {
+      return [
+        null,
+        NWPC_SPEC_ERRORS.TOKEN_SPENT.message,
+        NWPC_SPEC_ERRORS.TOKEN_SPENT.code,
+      ];
+    }
+    const revoked = this.revocationError(tokenHash);
+    if (revoked) {
+      return [null, revoked, NWPC_SPEC_ERRORS.TOKEN_INVALID.code];
+    }
+    const jwt = this.state.htlcLocks.get(tokenHash);
+    if (!jwt) {
+      return [null, "Unknown HTLC token", NWPC_SPEC_ERRORS.NOT_FOUND.code];
+    }
+    return [await new Token().restore(jwt), null, null];
+  }
+
+  /**
+   * Re-issues an HTLC-locked token as a plain P2PK-locked token for `to`,
+   * then retires the lock. Supply is unchanged: the value just moves.
+   */
+  private async settleHTLC(token: Token, to: string, res: NWPCResponseObject) {
+    const output = new Token();
+    await output.build({
+      token_type: token.header.typ,
+      payload: Token.createPayload({
+        iss: this.keys.publicKey!,
+        amount: token.payload.amount,
+        setID: token.payload.setID,
+        tokenID: token.payload.tokenID,
+        P2PKlock: to,
+        data_uri: token.payload.data_uri,
+        exp: token.payload.exp,
+        ext: token.payload.ext,
+        transferability: token.payload.transferability,
+        transfers: token.payload.transfers,
+      }),
+    });
+    const tokenJWT = await this.signAndCreateJWT(output);
+    const tokenHash = token.header.token_hash;
+    const txId = await this.journalTx(
+      [tokenHash],
+      [{ to, token: tokenJWT }],
+      to,
+    );
+    await this.publishSpentToken(tokenHash);
+    this.state.htlcLocks.delete(tokenHash);
+    await res.send({ token: tokenJWT, spent: tokenHash }, to);
+    await this.completeTx(txId);
+  }
+
+  /**
+   * Checks a booth's request against the kind-30130 authorization it cites
+   * (`authorizationEventId`): the sender must be the authorization's booth,
+   * and the authorization must be live (not revoked or expired), cover the
+   * catalog item and payment method, allow the booth's fee, not have been
+   * used for the invoice yet and stay within `maxPerDay`/`maxTotal`.
+   */
+  protected checkBoothAuthorization(
+    request: Partial<ForgeMintRequest>,
+    sender: string,
+  ): [AuthorizationRecord, null, null] | [null, string, number] {
+    const record = this.state.authorizations.get(request.authorizationEventId!);
+    if (!record) {
+      return [null, "Unknown authorization", NWPC_SPEC_ERRORS.NOT_FOUND.code];
+    }
+    const { authorization } = record;
+    const { catalogItemId, payment, fees, invoiceId } = request;
+    if (sender !== authorization.boxOfficePubkey) {
+      return [
+        null,
+        "Sender is not the authorized booth",
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+      ];
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (record.revokedAt) {
+      return [
+        null,
+        "Authorization has been revoked",
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+      ];
+    }
+    if (authorization.expiresAt && now >= authorization.expiresAt) {
+      return [
+        null,
+        "Authorization has expired",
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+      ];
+    }
+    if (!authorization.catalogItemIds.includes(catalogItemId!)) {
+      return [
+        null,
+        `Catalog item ${catalogItemId} is not authorized`,
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+      ];
+    }
+    const { restrictions } = authorization;
+    if (
+      restrictions?.paymentMethods &&
+      !restrictions.paymentMethods.includes(payment!.type)
+    ) {
+      return [
+        null,
+        `Payment method ${payment!.type} is not authorized`,
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+      ];
+    }
+    const fee = fees?.boxOffice ?? 0;
+    if (fee > payment!.amount * authorization.maxFee) {
+      return [
+        null,
+        `Booth fee exceeds the authorized maximum of ${authorization.maxFee}`,
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    if (record.mints.some((mint) => mint.invoiceId === invoiceId)) {
+      return [
+        null,
+        `Invoice ${invoiceId} has already been minted`,
+        NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+      ];
+    }
+    if (
+      restrictions?.maxTotal !== undefined &&
+      record.mints.length >= restrictions.maxTotal
+    ) {
+      return [
+        null,
+        "Authorization has reached its maxTotal",
+        NWPC_SPEC_ERRORS.RATE_LIMITED.code,
+      ];
+    }
+    // maxPerDay counts mints since 00:00 UTC.
+    const dayStart = now - (now % 86400);
+    if (
+      restrictions?.maxPerDay !== undefined &&
+      record.mints.filter((mint) => mint.mintedAt >= dayStart).length >=
+        restrictions.maxPerDay
+    ) {
+      return [
+        null,
+        "Authorization has reached its maxPerDay",
+        NWPC_SPEC_ERRORS.RATE_LIMITED.code,
+      ];
+    }
+    return [record, null, null];
+  }
+
+  /**
+   * Mints a catalog item for a buyer on behalf of an authorized booth
+   * (`forge.mint_request`, TAT_Protocol_Extensions.md §7.3).
+   *
+   * The request must pass checkBoothAuthorization: the caller must be the
+   * authorization's booth, the authorization must be live, cover the catalog
+   * item and payment method, stay within `maxPerDay`/`maxTotal`, and the
+   * booth's fee must not exceed `maxFee` of the payment. Each mint is
+   * recorded on the authorization.
+   */
+  public async handleMintRequest(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let parsed: Partial<ForgeMintRequest>;
     try {
       parsed = JSON.parse(req.params);
-    } catch (error) {
+    } catch {
       return await res.error(
         NWPC_SPEC_ERRORS.PARSE_ERROR.code,
         NWPC_SPEC_ERRORS.PARSE_ERROR.message,
       );
     }
-    const tokenHashes = parsed.token_hashes;
-    if (!Array.isArray(tokenHashes) || tokenHashes.length === 0) {
+    const {
+      authorizationEventId,
+      catalogItemId,
+      buyerPubkey,
+      payment,
+      fees,
+      invoiceId,
+    } = parsed ?? {};
+    if (
+      !authorizationEventId ||
+      !catalogItemId ||
+      !buyerPubkey ||
+      !invoiceId ||
+      !payment ||
+      typeof payment.amount !== "number" ||
+      !Number.isFinite(payment.amount) ||
+      payment.amount < 0
+    ) {
       return await res.error(
         NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
-        "token_hashes is required",
+        "Missing required parameters",
       );
     }
-    const spent: Record<string, boolean> = {};
-    const valid: Record<string, boolean> = {};
-    for (const hash of tokenHashes) {
-      if (typeof hash !== "string") {
+
+    // The authorization's limits and invoice ids are checked and the mint is
+    // recorded under the lock, so concurrent requests cannot both pass them.
+    return await this.runExclusive(async () => {
+      const [record, authError, authCode] = this.checkBoothAuthorization(
+        parsed,
+        context.sender,
+      );
+      if (!record) {
+        return await res.error(authCode, authError);
+      }
+      const fee = fees?.boxOffice ?? 0;
+      const now = Math.floor(Date.now() / 1000);
+
+      const entry = this.config.catalog?.[catalogItemId];
+      if (this.config.catalog && !entry) {
         return await res.error(
-          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
-          "token_hashes must be strings",
+          NWPC_SPEC_ERRORS.NOT_FOUND.code,
+          `Unknown catalog item: ${catalogItemId}`,
         );
       }
-      const isSpent = this.state.spentTokens.has(hash);
-      spent[hash] = isSpent;
-      valid[hash] = !isSpent;
-    }
-    return await res.send({ valid, spent }, context.sender);
+      let value = 1;
+      if (
+        (this.config.tokenType ?? TokenType.FUNGIBLE) === TokenType.FUNGIBLE
+      ) {
+        value = Number(entry?.amount);
+        if (!Number.isFinite(value) || value <= 0) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+            `Catalog item ${catalogItemId} has no amount to mint`,
+          );
+        }
+      }
+      if (!this.hasSet(entry?.setID)) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.NOT_FOUND.code,
+          `Unknown setID: ${entry?.setID}`,
+        );
+      }
+      const supplyError = this.supplyLimitError(value, entry?.setID);
+      if (supplyError) {
+        return await res.error(NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code, supplyError);
+      }
+
+      const { token, jwt } = await this.mintValue(value, {
+        P2PKlock: buyerPubkey,
+        data_uri: entry?.data_uri,
+        setID: entry?.setID,
+      });
+      record.mints.push({
+        invoiceId,
+        catalogItemId,
+        buyerPubkey,
+        tokenHash: token.header.token_hash,
+        payment: {
+          type: payment.type,
+          amount: payment.amount,
+          referenceId: payment.referenceId,
+        },
+        fee,
+        mintedAt: now,
+      });
+      await this._saveState();
+      return await res.send(
+        { token: jwt, tokenHash: token.header.token_hash, invoiceId },
+        context.sender,
+      );
+    });
   }
 
   /**
@@ -560,7 +3723,8 @@ export abstract class ForgeBase extends NWPCServer {
    *
    * This method prepares the token for issuance by creating a signature using the
    * forge's private key (or signer) and encoding the result as a JWT string. The JWT
-   * can then be sent to users or stored.
+   * can then be sent to users or stored. The token's hash is recorded in the
+   * issued token store, so it stays spendable after a key rotation.
    *
    * @param token - The token to sign
    * @returns The signed token as a JWT string
@@ -583,6 +3747,7 @@ export abstract class ForgeBase extends NWPCServer {
       signatureHex = bytesToHex(signature);
     }
 
+    await this.issuedTokenStore.add(token.header.token_hash);
     return await token.toJWT(signatureHex);
   }
 
@@ -593,12 +3758,14 @@ export abstract class ForgeBase extends NWPCServer {
    * - Checking tokens haven't been spent (double-spend prevention)
    * - Verifying tokens haven't expired
    * - Validating P2PK lock signatures if present
+   * - Checking multisig locks have valid signatures from at least `m` keys
    * - Checking time locks haven't expired
    * - Validating HTLC secrets if present
    *
    * @param tx - The transaction data containing input tokens
-   * @param witnessData - Optional witness signatures for P2PK locked tokens
+   * @param witnessData - Optional witnesses for P2PK and multisig locked tokens
    * @param providedHTLCSecret - Optional secret for unlocking HTLC tokens
+   * @param expiryGrace - Seconds past `exp` an input is still accepted (renewals)
    * @returns Tuple of [validated transaction, error message, error code, error details]
    *          On success: [tx, null, null, undefined]
    *          On failure: [null, errorMessage, errorCode, errorDetails]
@@ -614,8 +3781,9 @@ export abstract class ForgeBase extends NWPCServer {
    */
   public async validateTXInputs(
     tx: TransactionData,
-    witnessData?: string[],
+    witnessData?: Witness[],
     providedHTLCSecret?: string,
+    expiryGrace: number = 0,
   ): Promise<
     [TransactionData | null, string | null, number | null, string | undefined]
   > {
@@ -665,8 +3833,8 @@ export abstract class ForgeBase extends NWPCServer {
       }
 
       // Enforce single-issuer transfer inputs. A forge must only accept
-      // tokens it originally issued.
-      if (token.payload.iss !== this.keys.publicKey) {
+      // tokens it originally issued, under its current or a retired key.
+      if (!(await this.isIssuedHere(token))) {
         return [
           null,
           "Input token issuer mismatch",
@@ -676,7 +3844,7 @@ export abstract class ForgeBase extends NWPCServer {
       }
 
       const tokenHash = token.header.token_hash;
-      if (this.state.spentTokens.has(tokenHash)) {
+      if (await this.spentTokenStore.has(tokenHash)) {
         return [
           null,
           "Token is already spent",
@@ -684,7 +3852,14 @@ export abstract class ForgeBase extends NWPCServer {
           JSON.stringify({ spent: tokenHash, issuer: token.payload.iss }),
         ];
       }
-      if (token.isExpired()) {
+      const revoked = this.revocationError(tokenHash);
+      if (revoked) {
+        return [null, revoked, NWPC_SPEC_ERRORS.TOKEN_INVALID.code, ""];
+      }
+      if (
+        token.isExpired() &&
+        Math.floor(Date.now() / 1000) >= token.payload.exp! + expiryGrace
+      ) {
         return [
           null,
           "Token has expired",
@@ -692,9 +3867,29 @@ export abstract class ForgeBase extends NWPCServer {
           "",
         ];
       }
+      // Locks minted by htlc.create name a recipient and settle only through
+      // htlc.claim / htlc.refund, which check the claimer and the timelock.
+      if (token.payload.HTLCRecipient) {
+        return [
+          null,
+          "HTLC-locked inputs must be spent with htlc.claim or htlc.refund",
+          NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+          "",
+        ];
+      }
+      if (token.payload.multisig) {
+        const witnessError = this.multisigWitnessError(
+          token,
+          witnessData?.[inputs.indexOf(input)],
+          tx.outs ?? [],
+        );
+        if (witnessError) {
+          return [null, witnessError, NWPC_SPEC_ERRORS.UNAUTHORIZED.code, ""];
+        }
+      }
       if (token.payload.P2PKlock) {
         const witness = witnessData?.[inputs.indexOf(input)];
-        if (!witness) {
+        if (!witness || typeof witness !== "string") {
           return [
             null,
             "Witness for input not found",
@@ -802,4 +3997,74 @@ export abstract class ForgeBase extends NWPCServer {
     }
     return [tx, null, null, undefined];
   }
+
+  /**
+   * Checks a multisig lock requested for a new output.
+   * @returns An error message, or null when the lock is well formed
+   */
+  protected multisigLockError(lock: unknown): string | null {
+    const { m, pubkeys } = (lock ?? {}) as { m?: unknown; pubkeys?: unknown };
+    if (!Array.isArray(pubkeys) || pubkeys.length === 0) {
+      return "Multisig lock requires a non-empty pubkeys array";
+    }
+    if (pubkeys.length > MAX_MULTISIG_KEYS) {
+      return `Multisig lock supports at most ${MAX_MULTISIG_KEYS} pubkeys`;
+    }
+    if (
+      !pubkeys.every(
+        (pk) => typeof pk === "string" && /^[0-9a-f]{64}$/.test(pk),
+      )
+    ) {
+      return "Multisig pubkeys must be 64-character hex strings";
+    }
+    if (new Set(pubkeys).size !== pubkeys.length) {
+      return "Multisig pubkeys must be distinct";
+    }
+    if (
+      !Number.isInteger(m) ||
+      (m as number) < 1 ||
+      (m as number) > pubkeys.length
+    ) {
+      return "Multisig threshold m must be between 1 and the number of pubkeys";
+    }
+    return null;
+  }
+
+  /**
+   * Verifies the witness of a multisig-locked input: one entry per lock
+   * pubkey, each either empty or a signature by that key over the input's
+   * `spendAuthDigest`, with at least `m` signatures present.
+   * @returns An error message, or null when the witness satisfies the lock
+   */
+  private multisigWitnessError(
+    token: Token,
+    witness: Witness | undefined,
+    outs: unknown[],
+  ): string | null {
+    const lock = token.payload.multisig!;
+    const lockError = this.multisigLockError(lock);
+    if (lockError) return lockError;
+    if (!Array.isArray(witness) || witness.length !== lock.pubkeys.length) {
+      return "Multisig input requires one witness entry per lock pubkey";
+    }
+    const digest = spendAuthDigest(token.header.token_hash, outs);
+    let signatures = 0;
+    for (const [i, signature] of witness.entries()) {
+      if (!signature) continue;
+      let valid = false;
+      try {
+        valid = verifySignature(digest, hexToBytes(signature), lock.pubkeys[i]);
+      } catch {
+        // Malformed hex counts as an invalid signature.
+      }
+      if (!valid) {
+        return `Invalid multisig signature for ${lock.pubkeys[i]}`;
+      }
+      signatures++;
+    }
+    if (signatures < lock.m) {
+      return `Multisig requires ${lock.m} signatures, got ${signatures}`;
+    }
+    return null;
+  }
 }
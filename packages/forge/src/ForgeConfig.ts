@@ -1,7 +1,15 @@
 import { TokenType } from "@tat-protocol/token";
-import { StorageInterface } from "@tat-protocol/storage";
+import { SpentTokenStore, StorageInterface } from "@tat-protocol/storage";
 import { KeyPair } from "@tat-protocol/hdkeys";
-import type { Signer } from "@tat-protocol/types";
+import type { FeeSchedule, Signer } from "@tat-protocol/types";
+import type {
+  CatalogEntry,
+  EcashConfig,
+  ForgerPolicy,
+  RenewalPolicy,
+  TATTemplate,
+} from "./Types.js";
+import type { TransferPolicy } from "./TransferPolicy.js";
 
 /**
  * Configuration options for a Forge.
@@ -29,6 +37,12 @@ export interface ForgeConfig {
    */
   totalSupply?: number;
 
+  /**
+   * Named token sets this forge issues (setID -> supply cap, 0 = uncapped)
+   * Tokens from different sets are never combined in a transfer
+   */
+  sets?: Record<string, { totalSupply?: number }>;
+
   /**
    * The ID of the forge
    */
@@ -45,6 +59,18 @@ export interface ForgeConfig {
    */
   storage?: StorageInterface;
 
+  /**
+   * Where spent token hashes are kept
+   * Defaults to an AppendOnlySpentTokenStore in `storage`
+   */
+  spentTokenStore?: SpentTokenStore;
+
+  /**
+   * Where the hashes of the tokens this forge signed are kept
+   * Defaults to an AppendOnlySpentTokenStore in `storage`
+   */
+  issuedTokenStore?: SpentTokenStore;
+
   /**
    * Type of storage to use if no storage implementation is provided
    * Defaults to 'browser' in browser environments, 'node' in Node.js
@@ -82,6 +108,60 @@ export interface ForgeConfig {
    */
   authorizedForgers?: string[];
 
+  /**
+   * Minting limits for authorized forgers (pubkey -> policy)
+   * Policies changed later are persisted and take precedence on restart
+   */
+  forgerPolicies?: Record<string, ForgerPolicy>;
+
+  /**
+   * Catalog items booths can be authorized to sell (catalogItemId -> entry)
+   * Used by `forge.mint_request`; fungible forges need an `amount` per item
+   */
+  catalog?: Record<string, CatalogEntry>;
+
+  /**
+   * Named metadata presets for TAT mints (template name -> metadata)
+   * A `forge` request naming a template may override its fields
+   */
+  templates?: Record<string, TATTemplate>;
+
+  /**
+   * Fee charged on each fungible transfer, paid to the schedule's treasury
+   * Quoted to wallets through `fee.quote`
+   */
+  fees?: FeeSchedule;
+
+  /**
+   * Enables blind-signature ecash on a fungible forge (`ecash.*` methods)
+   * Proofs are bearer value the forge cannot link to the wallets it signed for
+   */
+  ecash?: EcashConfig;
+
+  /**
+   * Enables `renew` and `renew.quote` on a TAT forge, extending the `exp` of
+   * held TATs without changing their tokenID
+   */
+  renewal?: RenewalPolicy;
+
+  /**
+   * Compliance rules checked, in order, before a transfer's outputs are signed
+   * More can be added with `addTransferPolicy`
+   */
+  transferPolicies?: TransferPolicy[];
+
+  /**
+   * Seconds between signed transparency log roots published to relays
+   * (kind 30140). Defaults to 1 hour; 0 disables publishing
+   */
+  logRootInterval?: number;
+
+  /**
+   * How long, in seconds, the result of a `transfer`/`burn` carrying a `txId`
+   * is kept for retries. Defaults to 24 hours
+   */
+  idempotencyWindow?: number;
+
   /**
    * Transition control for the P2PK witness-binding fix (audit C6).
    *
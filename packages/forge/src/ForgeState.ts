@@ -1,4 +1,15 @@
 import { NWPCState } from "@tat-protocol/nwpc";
+import type {
+  AuthorizationRecord,
+  ForgerPolicy,
+  ForgerUsage,
+  GrantRecord,
+  KeyRotationRecord,
+  PauseScope,
+  PendingTx,
+  SetSupply,
+} from "./Types.js";
+import type { TokenRevocation } from "@tat-protocol/utils";
 
 /**
  * Represents the current state of a Forge
@@ -16,16 +27,54 @@ export interface ForgeState extends NWPCState {
   version: number;
 
   /**
-   * Set of spent token hashes
-   * Used to prevent double-spending
+   * Write-ahead journal of transactions being committed (journal id -> tx)
+   * Kept in `ForgeBase.journal` records rather than the saved state, and
+   * replayed or rolled back on initialize so a crash never loses outputs
    */
-  spentTokens: Set<string>;
+  pendingTxs: Map<string, PendingTx>;
 
   /**
-   * Map of pending transaction hashes to their data
-   * Used to track transactions that are being processed
+   * Outstanding HTLC-locked tokens (token hash -> JWT)
+   * Lets htlc.claim / htlc.refund address a lock by its hash alone
    */
-  pendingTxs: Map<string, any>;
+  htlcLocks: Map<string, string>;
+
+  /**
+   * Kind-30130 booth authorizations issued by this forge, keyed by event ID
+   * Holds each grant, its revocation and the mints made under it
+   */
+  authorizations: Map<string, AuthorizationRecord>;
+
+  /**
+   * Keys this forge issued under before its current one, oldest first
+   * Their tokens stay spendable; the first key also names the spent set and log
+   */
+  keyRotations: KeyRotationRecord[];
+
+  /**
+   * Unix seconds from which every token the forge signs is recorded in its
+   * issued token store; 0 when it has recorded them from the start
+   * Tokens of a retired key issued before then are not in the store
+   */
+  issuedRecordedSince?: number;
+
+  /**
+   * Operations the owner has paused through `admin.pause`
+   * Paused NWPC requests are rejected until `admin.resume`
+   */
+  paused: Record<PauseScope, boolean>;
+
+  /**
+   * Tokens the forge has revoked or frozen (token hash -> notice)
+   * Listed tokens cannot be spent until reinstated or past `expiresAt`
+   */
+  revocations: Map<string, TokenRevocation>;
+
+  /**
+   * Vesting grants issued through `forge.grant` (grant id -> record)
+   * Unvested tranches can be revoked by the owner
+   */
+  grants: Map<string, GrantRecord>;
 
   /**
    * ID of the last processed event
@@ -57,6 +106,18 @@ export interface ForgeState extends NWPCState {
    */
   authorizedForgers: Set<string>;
 
+  /**
+   * Minting limits of authorized forgers (pubkey -> policy)
+   * Forgers without a policy may mint up to the supply cap
+   */
+  forgerPolicies: Map<string, ForgerPolicy>;
+
+  /**
+   * What each authorized forger has minted (pubkey -> usage)
+   * Checked against its policy and reported by `getStats`
+   */
+  forgerUsage: Map<string, ForgerUsage>;
+
   /**
    * Track token usage for LLM access
    */
@@ -66,4 +127,16 @@ export interface ForgeState extends NWPCState {
    * Number of tokens forged so far (for supply enforcement)
    */
   circulatingSupply?: number;
+
+  /**
+   * Total value destroyed through `burn`
+   * Reported by `getSupply` alongside circulatingSupply
+   */
+  burnedSupply?: number;
+
+  /**
+   * Supply accounting for named token sets (setID -> supply)
+   * The default set ("-") is tracked by the top-level supply fields
+   */
+  sets: Map<string, SetSupply>;
 }
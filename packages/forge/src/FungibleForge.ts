@@ -1,5 +1,7 @@
 import { ForgeBase } from "./ForgeBase.js";
 import { Token, TokenType } from "@tat-protocol/token";
+import type { MultisigLock } from "@tat-protocol/token";
+import type { FeeQuote } from "@tat-protocol/types";
 import {
   NWPCRequest,
   NWPCContext,
@@ -7,22 +9,292 @@ import {
   NWPC_SPEC_ERRORS,
 } from "@tat-protocol/nwpc";
 import { ForgeConfig } from "./ForgeConfig.js";
-import { Recipient } from "./Types.js";
-import { DebugLogger } from "@tat-protocol/utils";
+import {
+  GrantRecord,
+  GrantTranche,
+  PendingTx,
+  Recipient,
+  Witness,
+} from "./Types.js";
+import {
+  DebugLogger,
+  ECASH_DENOMINATIONS,
+  MAX_DENOMINATION_TOKENS,
+  ecashKeysetId,
+  ecashPublicKey,
+  ecashSecretId,
+  ecashSecretKey,
+  ecashSpendOuts,
+  powerOfTwoDenominations,
+  signBlindedMessage,
+  transferFee,
+  verifyEcashProof,
+  vestingScheduleError,
+  vestingTranches,
+  vestingTranchesError,
+} from "@tat-protocol/utils";
+import type {
+  BlindSignature,
+  BlindedMessage,
+  EcashProof,
+  LogEntry,
+  VestingSchedule,
+  VestingTranche,
+} from "@tat-protocol/utils";
+import { bytesToHex, randomBytes } from "@noble/hashes/utils";
 
 const Debug = DebugLogger.getInstance();
 
+// Returns why `fees` is not a valid FeeSchedule, or null if it is.
+function feeScheduleError(fees: unknown): string | null {
+  if (!fees || typeof fees !== "object" || Array.isArray(fees)) {
+    return "fees must be an object";
+  }
+  const { treasury, tiers, decimals, ...amounts } = fees as Record<
+    string,
+    unknown
+  >;
+  if (treasury !== undefined && typeof treasury !== "string") {
+    return "fees.treasury must be a pubkey";
+  }
+  if (
+    decimals !== undefined &&
+    (!Number.isInteger(decimals) || Number(decimals) < 0)
+  ) {
+    return "fees.decimals must be a non-negative integer";
+  }
+  if (tiers !== undefined && !Array.isArray(tiers)) {
+    return "fees.tiers must be a list";
+  }
+  const parts = [
+    ["fees", amounts],
+    ...((tiers as unknown[] | undefined) ?? []).map(
+      (tier, i) => [`fees.tiers[${i}]`, tier] as const,
+    ),
+  ] as const;
+  for (const [name, part] of parts) {
+    if (!part || typeof part !== "object") return `${name} must be an object`;
+    for (const [key, value] of Object.entries(part)) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        return `${name}.${key} must be a non-negative number`;
+      }
+    }
+  }
+  return null;
+}
+
+// Returns why `denominations` cannot be an ecash keyset, or null.
+function ecashDenominationsError(denominations: unknown): string | null {
+  if (
+    !Array.isArray(denominations) ||
+    denominations.length === 0 ||
+    denominations.some((amount) => !Number.isInteger(amount) || amount <= 0) ||
+    new Set(denominations).size !== denominations.length
+  ) {
+    return "ecash.denominations must be a list of distinct positive integers";
+  }
+  return null;
+}
+
+// Returns why `outputs` are not blinded messages of the keyset's amounts,
+// or null if they are.
+function blindedOutputsError(
+  outputs: unknown,
+  denominations: number[],
+): string | null {
+  if (
+    !Array.isArray(outputs) ||
+    outputs.length === 0 ||
+    outputs.length > MAX_DENOMINATION_TOKENS
+  ) {
+    return `outputs must be a list of 1 to ${MAX_DENOMINATION_TOKENS} blinded messages`;
+  }
+  for (const output of outputs as Partial<BlindedMessage>[]) {
+    if (!denominations.includes(output?.amount as number)) {
+      return `Unsupported ecash amount: ${output?.amount}`;
+    }
+    if (
+      typeof output.B_ !== "string" ||
+      !/^0[23][0-9a-f]{64}$/.test(output.B_)
+    ) {
+      return "B_ must be a compressed curve point in hex";
+    }
+  }
+  return null;
+}
+
+// Returns why `proofs` are not a list of ecash proofs, or null if they are.
+function ecashProofsError(proofs: unknown): string | null {
+  if (
+    !Array.isArray(proofs) ||
+    proofs.length === 0 ||
+    proofs.length > MAX_DENOMINATION_TOKENS
+  ) {
+    return `proofs must be a list of 1 to ${MAX_DENOMINATION_TOKENS} ecash proofs`;
+  }
+  for (const proof of proofs as Partial<EcashProof>[]) {
+    if (
+      typeof proof?.amount !== "number" ||
+      typeof proof.secret !== "string" ||
+      !proof.secret ||
+      proof.secret.length > 512 ||
+      typeof proof.C !== "string" ||
+      typeof proof.id !== "string"
+    ) {
+      return "Each proof needs an amount, secret, C and id";
+    }
+  }
+  return null;
+}
+
+// Ecash keys derived for the forge key they were derived from.
+type EcashKeyset = {
+  publicKey: string;
+  id: string;
+  keys: Record<number, string>;
+  secrets: Map<number, string>;
+};
+
 export class FungibleForge extends ForgeBase {
+  private ecashKeyset?: EcashKeyset;
+  // Keysets of retired forge keys by id, so ecash signed before a rotation
+  // can still be swapped and melted.
+  private retiredEcashKeysets = new Map<string, EcashKeyset>();
+  private retiredEcashKeysLoaded = new Set<string>();
+
   constructor(config: ForgeConfig) {
     super(config);
     this.config.tokenType = TokenType.FUNGIBLE;
+    const feeError = config.fees && feeScheduleError(config.fees);
+    if (feeError) throw new Error(feeError);
+    const ecashError =
+      config.ecash?.denominations &&
+      ecashDenominationsError(config.ecash.denominations);
+    if (ecashError) throw new Error(ecashError);
+  }
+
+  setupDefaultHandlers() {
+    super.setupDefaultHandlers();
+    // Re-denominating only moves value between tokens of the same holder, so
+    // like `transfer` it is gated by the inputs' witnesses, not by caller.
+    this.use(
+      "split",
+      { idempotent: true },
+      this.unlessPaused("transfers"),
+      this.idempotent.bind(this),
+      this.splitToken.bind(this),
+    );
+    this.use(
+      "consolidate",
+      { idempotent: true },
+      this.unlessPaused("transfers"),
+      this.idempotent.bind(this),
+      this.consolidateTokens.bind(this),
+    );
+    this.use("fee.quote", this.handleFeeQuote.bind(this));
+    this.use(
+      "forge.grant",
+      this.onlyAuthorized.bind(this),
+      this.unlessPaused("minting"),
+      this.handleGrant.bind(this),
+    );
+    this.use(
+      "admin.grants.revoke",
+      {
+        auth: "admin",
+        description: "Revoke the unvested tranches of a vesting grant",
+      },
+      this.onlyOwner.bind(this),
+      this.audited.bind(this),
+      this.handleAdminRevokeGrant.bind(this),
+    );
+    if (this.config.ecash) {
+      this.use("ecash.keys", this.handleEcashKeys.bind(this));
+      this.use(
+        "ecash.mint",
+        this.onlyAuthorized.bind(this),
+        this.unlessPaused("minting"),
+        this.handleEcashMint.bind(this),
+      );
+      // Like `transfer`, spending ecash or tokens is gated by the proofs and
+      // witnesses, not by the caller.
+      this.use(
+        "ecash.swap",
+        { idempotent: true },
+        this.unlessPaused("transfers"),
+        this.idempotent.bind(this),
+        this.handleEcashSwap.bind(this),
+      );
+      this.use(
+        "ecash.melt",
+        { idempotent: true },
+        this.unlessPaused("transfers"),
+        this.idempotent.bind(this),
+        this.handleEcashMelt.bind(this),
+      );
+      this.use("ecash.check", this.handleEcashCheck.bind(this));
+    }
+  }
+
+  /**
+   * The fee `config.fees` charges for a transfer of `amount`, 0 without a
+   * schedule.
+   */
+  public quoteFee(amount: number): number {
+    return transferFee(this.config.fees, amount);
+  }
+
+  // Where transfer fees are issued: the schedule's treasury or the owner.
+  private get feeTreasury(): string {
+    return this.config.fees?.treasury ?? this.owner;
+  }
+
+  /**
+   * Quotes the fee for a transfer of `amount`, so wallets can show it and
+   * select inputs covering `total` before sending.
+   */
+  async handleFeeQuote(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let params: { amount?: unknown };
+    try {
+      params = JSON.parse(req.params) ?? {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const amount = Number(params.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Amount must be a positive, finite number",
+      );
+    }
+    const fee = this.quoteFee(amount);
+    const quote: FeeQuote = {
+      amount,
+      fee,
+      total: amount + fee,
+      treasury: this.feeTreasury,
+      schedule: this.config.fees ?? null,
+    };
+    return await res.send(quote, context.sender);
   }
   async forgeToken(
     req: NWPCRequest,
-    _context: NWPCContext,
+    context: NWPCContext,
     res: NWPCResponseObject,
   ) {
-    let reqObj: { to?: string; amount?: number | string };
+    let reqObj: {
+      to?: string;
+      amount?: number | string;
+      setID?: string;
+      multisig?: MultisigLock;
+    };
     try {
       reqObj = JSON.parse(req.params);
     } catch (error) {
@@ -32,7 +304,7 @@ export class FungibleForge extends ForgeBase {
       );
     }
 
-    const { to, amount } = reqObj;
+    const { to, amount, setID, multisig } = reqObj;
     if (!amount || !to) {
       return await res.error(
         NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
@@ -49,28 +321,41 @@ export class FungibleForge extends ForgeBase {
         "Amount must be a positive, finite number",
       );
     }
-    if (
-      this.state.totalSupply > 0 &&
-      (this.state.circulatingSupply ?? 0) + amountToForge >
-        this.state.totalSupply
-    ) {
+    if (setID !== undefined && typeof setID !== "string") {
       return await res.error(
-        NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code,
-        `Forging this amount (${amountToForge}) would exceed total supply (${this.state.totalSupply}). Remaining: ${this.state.totalSupply - (this.state.circulatingSupply ?? 0)}`,
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "setID must be a string",
       );
     }
-    const token = new Token();
-    await token.build({
-      token_type: TokenType.FUNGIBLE,
-      payload: Token.createPayload({
-        iss: this.keys.publicKey!,
-        amount: amountToForge,
-        P2PKlock: to,
-      }),
+    if (!this.hasSet(setID)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `Unknown setID: ${setID}`,
+      );
+    }
+    // A multisig lock replaces the P2PKlock; `to` still receives the token.
+    const lockError = multisig && this.multisigLockError(multisig);
+    if (lockError) {
+      return await res.error(NWPC_SPEC_ERRORS.INVALID_PARAMS.code, lockError);
+    }
+    const supplyError = this.supplyLimitError(amountToForge, setID);
+    if (supplyError) {
+      return await res.error(NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code, supplyError);
+    }
+    const quotaError = this.chargeForgerQuota(
+      context.sender,
+      amountToForge,
+      setID,
+    );
+    if (quotaError) {
+      return await res.error(quotaError[1], quotaError[0]);
+    }
+    const { jwt: tokenJWT } = await this.mintValue(amountToForge, {
+      P2PKlock: multisig ? undefined : to,
+      multisig,
+      setID,
     });
-    this.state.circulatingSupply =
-      (this.state.circulatingSupply ?? 0) + amountToForge;
-    const tokenJWT = await this.signAndCreateJWT(token);
+    await this._saveState();
     return await res.send({ token: tokenJWT }, to);
   }
 
@@ -123,16 +408,23 @@ export class FungibleForge extends ForgeBase {
         recipients,
         res,
         sender,
+        undefined,
+        req.id,
       );
     });
   }
 
-  // Make these methods public so handlers can call them
+  // Make these methods public so handlers can call them. `fee` defaults to
+  // the configured fee on the total of `outs`; whatever the inputs hold beyond
+  // the outputs and the fee returns to the sender as change, free of fees.
+  // The sender gets a receipt for `requestId` once the outputs are delivered.
   public async handleFungibleTransfer(
     inputs: Token[],
     outs: Recipient[],
     res: NWPCResponseObject,
     sender: string,
+    fee?: number,
+    requestId: string = "",
   ) {
     if (!inputs || !outs) {
       return await res.error(
@@ -140,24 +432,31 @@ export class FungibleForge extends ForgeBase {
         "Missing required parameters: inputs, outs",
       );
     }
-    // 1. Validate
-    const validationError = await this.validateFungibleTransfer(inputs, outs);
-    if (validationError) {
-      return await res.error(
-        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
-        validationError,
-      );
+    fee ??= this.quoteFee(
+      outs.reduce((sum, entry) => sum + (entry.amount ?? 0), 0),
+    );
+    // 1. Validate and 2. Prepare
+    const [prepared, error, code] = await this.checkedFungibleTransfer(
+      inputs,
+      outs,
+      sender,
+      fee,
+    );
+    if (!prepared) {
+      return await res.error(code!, error!);
     }
-    // 2. Prepare
-    const { recipientTokens, changeTokenJWT } =
-      await this.prepareFungibleTransfer(inputs, outs, sender);
-    // 3. Commit (mark all input tokens as spent)
-    await Promise.all(
-      inputs.map(async (token) => {
-        const tokenHash = await token.create_token_hash();
-        await this.publishSpentToken(tokenHash);
-      }),
+    const { recipientTokens, changeTokenJWT, feeToken } = prepared;
+    // 3. Journal the signed outputs, so a crash after the commit below can
+    // redeliver them on restart
+    const inputHashes = await Promise.all(
+      inputs.map((token) => token.create_token_hash()),
     );
+    const outputs = recipientTokens.map(({ to, jwt }) => ({ to, token: jwt }));
+    if (feeToken) outputs.push({ to: feeToken.to, token: feeToken.jwt });
+    if (changeTokenJWT) outputs.push({ to: sender, token: changeTokenJWT });
+    const txId = await this.journalTx(inputHashes, outputs, sender);
+    // 4. Commit (mark all input tokens as spent in one write)
+    await this.publishSpentTokens(inputHashes);
 
     Debug.log("recipientTokens:" + recipientTokens.length, "FungibleForge");
     // Send output tokens to recipients
@@ -165,28 +464,100 @@ export class FungibleForge extends ForgeBase {
       Debug.log("sending token to:" + to, "FungibleForge");
       await res.send({ token: jwt }, to);
     }
+    if (feeToken) {
+      await res.send({ token: feeToken.jwt }, feeToken.to);
+    }
+    const receipt = await this.signReceipt(
+      "transfer",
+      requestId,
+      inputs,
+      outputs,
+    );
     // Send change token to sender, if any
     if (changeTokenJWT) {
       Debug.log("sending change token to SENDER:" + sender, "FungibleForge");
-      return await res.send({ token: changeTokenJWT }, sender);
+      const sent = await res.send({ token: changeTokenJWT }, sender);
+      await res.send({ receipt }, sender);
+      await this.completeTx(txId);
+      return sent;
     }
 
     //send spent tokens to the sender
-    inputs.forEach(async (token) => {
-      await res.send(
-        {
-          spent: await token.create_token_hash(),
-          issuer: this.keys.publicKey!,
-        },
-        sender,
-      );
-    });
+    await Promise.all(
+      inputHashes.map((spent) =>
+        res.send({ spent, issuer: this.keys.publicKey! }, sender),
+      ),
+    );
+    await res.send({ receipt }, sender);
+    await this.completeTx(txId);
     return;
   }
 
+  /**
+   * Signs a swap leg's outputs like a transfer from `from`: the leg pays the
+   * configured fee on its outputs and its change goes to `from`.
+   */
+  protected async prepareSwapLeg(
+    inputs: Token[],
+    outs: Recipient[],
+    from: string,
+  ): Promise<[PendingTx["outputs"] | null, string | null, number | null]> {
+    const fee = this.quoteFee(
+      outs.reduce((sum, entry) => sum + (entry.amount ?? 0), 0),
+    );
+    const [prepared, error, code] = await this.checkedFungibleTransfer(
+      inputs,
+      outs,
+      from,
+      fee,
+    );
+    if (!prepared) {
+      return [null, error, code];
+    }
+    const { recipientTokens, changeTokenJWT, feeToken } = prepared;
+    const outputs = recipientTokens.map(({ to, jwt }) => ({ to, token: jwt }));
+    if (feeToken) outputs.push({ to: feeToken.to, token: feeToken.jwt });
+    if (changeTokenJWT) outputs.push({ to: from, token: changeTokenJWT });
+    return [outputs, null, null];
+  }
+
+  // Validates a transfer, runs the transfer policies and signs its outputs,
+  // or returns why it cannot go ahead.
+  private async checkedFungibleTransfer(
+    inputs: Token[],
+    outs: Recipient[],
+    sender: string,
+    fee: number,
+  ): Promise<
+    [
+      Awaited<ReturnType<FungibleForge["prepareFungibleTransfer"]>> | null,
+      string | null,
+      number | null,
+    ]
+  > {
+    const validationError = await this.validateFungibleTransfer(
+      inputs,
+      outs,
+      fee,
+    );
+    if (validationError) {
+      return [null, validationError, NWPC_SPEC_ERRORS.INVALID_PARAMS.code];
+    }
+    const denied = await this.transferPolicyError(inputs, outs, sender);
+    if (denied) {
+      return [null, denied[0], denied[1]];
+    }
+    return [
+      await this.prepareFungibleTransfer(inputs, outs, sender, fee),
+      null,
+      null,
+    ];
+  }
+
   public async validateFungibleTransfer(
     inputs: Token[],
     outs: Recipient[],
+    fee: number = 0,
   ): Promise<string | null> {
     if (!Array.isArray(inputs) || inputs.length === 0) {
       return "At least one input token is required";
@@ -216,6 +587,12 @@ export class FungibleForge extends ForgeBase {
       }
       inputTotal += token.payload.amount;
     }
+    // Sets are not interchangeable: every input must come from the same set,
+    // and the outputs inherit it.
+    const setID = inputs[0].payload.setID ?? "-";
+    if (inputs.some((token) => (token.payload.setID ?? "-") !== setID)) {
+      return "Input tokens must all belong to the same set";
+    }
     let outputTotal = 0;
     for (const entry of outs) {
       if (
@@ -228,10 +605,17 @@ export class FungibleForge extends ForgeBase {
       if (!entry.to) {
         return "Recipient 'to' is required";
       }
+      const lockError =
+        entry.multisig && this.multisigLockError(entry.multisig);
+      if (lockError) {
+        return lockError;
+      }
       outputTotal += entry.amount ?? 0;
     }
-    if (outputTotal > inputTotal) {
-      return "Insufficient total input token amount for transfer";
+    if (outputTotal + fee > inputTotal) {
+      return fee > 0
+        ? `Insufficient total input token amount for transfer and fee (${fee})`
+        : "Insufficient total input token amount for transfer";
     }
     return null;
   }
@@ -240,11 +624,13 @@ export class FungibleForge extends ForgeBase {
     inputs: Token[],
     outs: Recipient[],
     sender: string,
+    fee: number = 0,
   ): Promise<{
     recipientTokens: { to: string; jwt: string }[];
     changeTokenJWT?: string;
+    feeToken?: { to: string; jwt: string };
   }> {
-    // For simplicity, use the first input token's properties for timeLock/data_uri/change lock
+    // For simplicity, use the first input token's properties for setID/timeLock/data_uri/change lock
     const baseToken = inputs[0];
     const recipientTokens: { to: string; jwt: string }[] = [];
     for (const entry of outs) {
@@ -254,7 +640,9 @@ export class FungibleForge extends ForgeBase {
         payload: Token.createPayload({
           iss: this.keys.publicKey!,
           amount: entry.amount,
-          P2PKlock: entry.to,
+          setID: baseToken.payload.setID,
+          P2PKlock: entry.multisig ? undefined : entry.to,
+          multisig: entry.multisig,
           timeLock: entry.timeLock,
           data_uri: baseToken.payload.data_uri,
         }),
@@ -267,11 +655,30 @@ export class FungibleForge extends ForgeBase {
       (sum, t) => sum + (t.payload.amount || 0),
       0,
     );
-    const outputTotal = outs.reduce(
-      (sum, entry) => sum + (entry.amount ?? 0),
-      0,
-    );
+    const outputTotal =
+      outs.reduce((sum, entry) => sum + (entry.amount ?? 0), 0) + fee;
+    let feeToken: { to: string; jwt: string } | undefined = undefined;
+    if (fee > 0) {
+      const token = new Token();
+      await token.build({
+        token_type: TokenType.FUNGIBLE,
+        payload: Token.createPayload({
+          iss: this.keys.publicKey!,
+          amount: fee,
+          setID: baseToken.payload.setID,
+          P2PKlock: this.feeTreasury,
+          data_uri: baseToken.payload.data_uri,
+        }),
+      });
+      feeToken = {
+        to: this.feeTreasury,
+        jwt: await this.signAndCreateJWT(token),
+      };
+    }
     let changeTokenJWT: string | undefined = undefined;
+    // Change from multisig funds stays under the same lock rather than
+    // falling to whichever co-signer submitted the transfer.
+    const changeLock = baseToken.payload.multisig;
     if (inputTotal > outputTotal) {
       const changeToken = new Token();
       await changeToken.build({
@@ -279,14 +686,881 @@ export class FungibleForge extends ForgeBase {
         payload: Token.createPayload({
           iss: this.keys.publicKey!,
           amount: inputTotal - outputTotal,
-          P2PKlock: sender,
+          setID: baseToken.payload.setID,
+          P2PKlock: changeLock ? undefined : sender,
+          multisig: changeLock,
           timeLock: baseToken.payload.timeLock,
           data_uri: baseToken.payload.data_uri,
         }),
       });
       changeTokenJWT = await this.signAndCreateJWT(changeToken);
     }
-    return { recipientTokens, changeTokenJWT };
+    return { recipientTokens, changeTokenJWT, feeToken };
+  }
+
+  /**
+   * Splits one token into tokens of the requested `denominations` (a list of
+   * amounts, or `"pow2"` for powers of two), all delivered to `to`. The
+   * denominations must add up to the input's amount, less any fee (see
+   * redenominationFee), and the input's witness signs the resulting outputs
+   * like a transfer's.
+   */
+  async splitToken(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.runExclusive(async () => {
+      let params: {
+        ins?: string[];
+        to?: string;
+        denominations?: number[] | "pow2";
+        witnessData?: Witness[];
+      };
+      try {
+        params = JSON.parse(req.params);
+      } catch {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const { ins, to, denominations } = params;
+      if (!Array.isArray(ins) || ins.length !== 1 || !to) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          "split takes one input token and a 'to' key",
+        );
+      }
+      const input = await new Token().restore(ins[0]);
+      const fee = this.redenominationFee([input], to);
+      const amount = (input.payload.amount ?? 0) - fee;
+      if (amount <= 0) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INSUFFICIENT_BALANCE.code,
+          `Input does not cover the fee (${fee})`,
+        );
+      }
+      const amounts =
+        denominations === "pow2"
+          ? powerOfTwoDenominations(amount)
+          : denominations;
+      if (
+        !Array.isArray(amounts) ||
+        amounts.length < 2 ||
+        amounts.length > MAX_DENOMINATION_TOKENS
+      ) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          `denominations must be "pow2" or a list of 2 to ${MAX_DENOMINATION_TOKENS} amounts`,
+        );
+      }
+      if (amounts.reduce((sum, a) => sum + a, 0) !== amount) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          fee > 0
+            ? `denominations must add up to the input amount less the fee (${amount})`
+            : `denominations must add up to the input amount (${amount})`,
+        );
+      }
+      const { multisig } = input.payload;
+      const outs = amounts.map((a) => ({
+        to,
+        amount: a,
+        ...(multisig ? { multisig } : {}),
+      }));
+      return await this.redenominate(
+        ins,
+        outs,
+        params.witnessData,
+        fee,
+        req.id,
+        res,
+        context,
+      );
+    });
+  }
+
+  /**
+   * Merges 2 or more tokens of one set into a single token for `to`, less any
+   * fee (see redenominationFee). Inputs under a multisig lock can only be
+   * merged with inputs under the same lock, which the output keeps.
+   */
+  async consolidateTokens(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.runExclusive(async () => {
+      let params: { ins?: string[]; to?: string; witnessData?: Witness[] };
+      try {
+        params = JSON.parse(req.params);
+      } catch {
+        return await res.error(
+          NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+          NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+        );
+      }
+      const { ins, to } = params;
+      if (
+        !Array.isArray(ins) ||
+        ins.length < 2 ||
+        ins.length > MAX_DENOMINATION_TOKENS ||
+        !to
+      ) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          `consolidate takes 2 to ${MAX_DENOMINATION_TOKENS} input tokens and a 'to' key`,
+        );
+      }
+      const inputs = await Promise.all(
+        ins.map((jwt) => new Token().restore(jwt)),
+      );
+      const lock = JSON.stringify(inputs[0].payload.multisig ?? null);
+      if (
+        inputs.some(
+          (token) => JSON.stringify(token.payload.multisig ?? null) !== lock,
+        )
+      ) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          "Inputs under a multisig lock can only be consolidated with inputs under the same lock",
+        );
+      }
+      const { multisig } = inputs[0].payload;
+      const fee = this.redenominationFee(inputs, to);
+      const amount =
+        inputs.reduce((sum, token) => sum + (token.payload.amount ?? 0), 0) -
+        fee;
+      if (amount <= 0) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INSUFFICIENT_BALANCE.code,
+          `Inputs do not cover the fee (${fee})`,
+        );
+      }
+      const outs = [{ to, amount, ...(multisig ? { multisig } : {}) }];
+      return await this.redenominate(
+        ins,
+        outs,
+        params.witnessData,
+        fee,
+        req.id,
+        res,
+        context,
+      );
+    });
+  }
+
+  // Re-denominating is free while the value stays with its holder: under the
+  // inputs' multisig lock, which the outputs keep, or at the key every input
+  // is locked to. Outputs for any other key move the value on, so they are
+  // charged like a transfer of the inputs' total.
+  private redenominationFee(inputs: Token[], to: string): number {
+    const kept = inputs.every(
+      (token) => token.payload.multisig || token.payload.P2PKlock === to,
+    );
+    return kept
+      ? 0
+      : this.quoteFee(
+          inputs.reduce((sum, token) => sum + (token.payload.amount ?? 0), 0),
+        );
+  }
+
+  // Checks the inputs and their witnesses against the outputs built by
+  // `split` or `consolidate`, then settles them as a transfer. The outputs
+  // and `fee` hold exactly the inputs' value, so no change is produced.
+  private async redenominate(
+    ins: string[],
+    outs: Recipient[],
+    witnessData: Witness[] | undefined,
+    fee: number,
+    requestId: string,
+    res: NWPCResponseObject,
+    context: NWPCContext,
+  ) {
+    const [validTx, error, code, params] = await this.validateTXInputs(
+      { ins, outs: outs.map((out) => JSON.stringify(out)) },
+      witnessData,
+    );
+    if (error || !validTx) {
+      return await res.error(
+        code ?? NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Invalid transaction: " + (error || "Validation failed"),
+        params,
+      );
+    }
+    const inputs = await Promise.all(
+      ins.map((jwt) => new Token().restore(jwt)),
+    );
+    return await this.handleFungibleTransfer(
+      inputs,
+      outs,
+      res,
+      context.sender,
+      fee,
+      requestId,
+    );
+  }
+
+  /**
+   * Issues a vesting grant (`forge.grant`): `amount` released on `schedule`,
+   * or explicit `tranches`, minted to `to` as one token per tranche,
+   * time-locked until it vests and marked with the grant's id in `grant`.
+   * The whole grant counts against the supply cap and the caller's forger
+   * policy when issued. Each tranche is delivered to `to`, and the caller
+   * receives `{ grant, tranches }`. Owner and authorized forgers only.
+   */
+  async handleGrant(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let params: {
+      to?: string;
+      amount?: number;
+      schedule?: VestingSchedule;
+      tranches?: VestingTranche[];
+      setID?: string;
+    };
+    try {
+      params = JSON.parse(req.params) ?? {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { to, amount, schedule, tranches: explicit, setID } = params;
+    let paramError: string | null = null;
+    if (typeof to !== "string" || !to) {
+      paramError = "Recipient 'to' is required";
+    } else if (explicit !== undefined) {
+      paramError =
+        schedule !== undefined || amount !== undefined
+          ? "Give either tranches or amount and schedule"
+          : vestingTranchesError(explicit);
+    } else if (
+      typeof amount !== "number" ||
+      !Number.isFinite(amount) ||
+      amount <= 0
+    ) {
+      paramError = "Amount must be a positive, finite number";
+    } else {
+      paramError = vestingScheduleError(schedule);
+    }
+    if (!paramError && setID !== undefined && typeof setID !== "string") {
+      paramError = "setID must be a string";
+    }
+    if (paramError) {
+      return await res.error(NWPC_SPEC_ERRORS.INVALID_PARAMS.code, paramError);
+    }
+    if (!this.hasSet(setID)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `Unknown setID: ${setID}`,
+      );
+    }
+    const releases = (explicit ?? vestingTranches(amount!, schedule!)).sort(
+      (a, b) => a.unlockAt - b.unlockAt,
+    );
+    const total = releases.reduce((sum, tranche) => sum + tranche.amount, 0);
+    const supplyError = this.supplyLimitError(total, setID);
+    if (supplyError) {
+      return await res.error(NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code, supplyError);
+    }
+    const quotaError = this.chargeForgerQuota(context.sender, total, setID);
+    if (quotaError) {
+      return await res.error(quotaError[1], quotaError[0]);
+    }
+
+    const id = bytesToHex(randomBytes(16));
+    const now = Math.floor(Date.now() / 1000);
+    const minted: { jwt: string; tranche: GrantTranche }[] = [];
+    for (const [i, { unlockAt, amount: value }] of releases.entries()) {
+      const { token, jwt } = await this.mintValue(value, {
+        P2PKlock: to,
+        setID,
+        timeLock: unlockAt > now ? unlockAt : undefined,
+        grant: { id, tranche: i, tranches: releases.length },
+      });
+      minted.push({
+        jwt,
+        tranche: {
+          tokenHash: token.header.token_hash,
+          amount: value,
+          unlockAt,
+        },
+      });
+    }
+    const record: GrantRecord = {
+      id,
+      to: to!,
+      setID,
+      createdAt: now,
+      tranches: minted.map(({ tranche }) => tranche),
+    };
+    this.state.grants.set(id, record);
+    await this._saveState();
+    for (const { jwt } of minted) {
+      await res.send({ token: jwt }, to);
+    }
+    return await res.send(
+      { grant: id, tranches: record.tranches },
+      context.sender,
+    );
+  }
+
+  /**
+   * A vesting grant issued by this forge, if any.
+   */
+  public getGrant(id: string): GrantRecord | undefined {
+    return this.state.grants.get(id);
+  }
+
+  /**
+   * Takes back the tranches of a grant that have not vested yet: they are
+   * marked spent, so they can never be transferred, and their value leaves
+   * the circulating supply. Vested tranches stay with the holder. Revoking a
+   * grant again takes back nothing more.
+   *
+   * @param id - The grant id returned by `forge.grant`
+   * @returns The hashes of the revoked tranche tokens and their total amount
+   * @throws {Error} If the forge is not initialized or the grant is unknown
+   */
+  public async revokeGrant(
+    id: string,
+  ): Promise<{ revoked: string[]; amount: number }> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    const record = this.state.grants.get(id);
+    if (!record) {
+      throw new Error(`Unknown grant: ${id}`);
+    }
+    return await this.runExclusive(async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const unvested: GrantTranche[] = [];
+      for (const tranche of record.tranches) {
+        if (
+          !tranche.revoked &&
+          tranche.unlockAt > now &&
+          !(await this.spentTokenStore.has(tranche.tokenHash))
+        ) {
+          unvested.push(tranche);
+        }
+      }
+      const revoked = unvested.map((tranche) => tranche.tokenHash);
+      const amount = unvested.reduce((sum, tranche) => sum + tranche.amount, 0);
+      await this.publishSpentTokens(revoked);
+      for (const tranche of unvested) {
+        tranche.revoked = true;
+      }
+      record.revokedAt ??= now;
+      this.adjustSupply(record.setID, -amount, 0);
+      await this._saveState();
+      return { revoked, amount };
+    });
+  }
+
+  /**
+   * `admin.grants.revoke` ({ grant }): revokes a grant's unvested tranches
+   * (see revokeGrant) and tells the holder which tokens were taken back.
+   */
+  public async handleAdminRevokeGrant(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    const params = this.parseAdminParams(req);
+    if (!params) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    const { grant } = params;
+    if (typeof grant !== "string" || !grant) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "grant must be a non-empty string",
+      );
+    }
+    const record = this.state.grants.get(grant);
+    if (!record) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        `Unknown grant: ${grant}`,
+      );
+    }
+    let result: { revoked: string[]; amount: number };
+    try {
+      result = await this.revokeGrant(grant);
+    } catch (error) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INTERNAL_ERROR.code,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    for (const spent of result.revoked) {
+      await res.send({ spent, issuer: this.keys.publicKey! }, record.to);
+    }
+    return await res.send({ grant, ...result }, context.sender);
+  }
+
+  /**
+   * The forge's ecash keyset: its `id` and the public key of each amount,
+   * which wallets unblind signatures with. Keys are derived from the forge's
+   * secret key, so a rotated forge signs with a new keyset. Proofs of a
+   * retired key's keyset are still accepted, unless the key was marked
+   * compromised.
+   */
+  public getEcashKeys(): { id: string; keys: Record<number, string> } {
+    const { id, keys } = this.currentEcashKeyset();
+    return { id, keys };
+  }
+
+  private currentEcashKeyset(): EcashKeyset {
+    const { publicKey, secretKey } = this.keys;
+    if (!this.config.ecash || !secretKey) {
+      throw new Error("Ecash is not enabled on this forge");
+    }
+    if (this.ecashKeyset?.publicKey !== publicKey) {
+      if (this.ecashKeyset) {
+        this.retiredEcashKeysets.set(this.ecashKeyset.id, this.ecashKeyset);
+      }
+      this.ecashKeyset = this.deriveEcashKeyset(publicKey!, secretKey);
+    }
+    return this.ecashKeyset;
+  }
+
+  private deriveEcashKeyset(publicKey: string, secretKey: string): EcashKeyset {
+    const secrets = new Map<number, string>();
+    const keys: Record<number, string> = {};
+    for (const amount of this.config.ecash?.denominations ??
+      ECASH_DENOMINATIONS) {
+      const k = ecashSecretKey(secretKey, amount);
+      secrets.set(amount, k);
+      keys[amount] = ecashPublicKey(k);
+    }
+    return { publicKey, id: ecashKeysetId(keys), keys, secrets };
+  }
+
+  // The current keyset or, unless its key was compromised, a retired one with
+  // this id. Retired keys not derived since startup are read from storage,
+  // where the forge keeps each key it issued under.
+  private async ecashKeysetById(id: string): Promise<EcashKeyset | undefined> {
+    const current = this.currentEcashKeyset();
+    if (id === current.id) return current;
+    const rotations = this.getKeyRotations();
+    if (!this.retiredEcashKeysets.has(id)) {
+      for (const { oldPubkey } of rotations) {
+        if (this.retiredEcashKeysLoaded.has(oldPubkey)) continue;
+        this.retiredEcashKeysLoaded.add(oldPubkey);
+        const stored = await this.storage.getItem(`forge-keys-${oldPubkey}`);
+        const keys = stored ? JSON.parse(stored) : undefined;
+        if (keys?.publicKey === oldPubkey && keys.secretKey) {
+          const keyset = this.deriveEcashKeyset(oldPubkey, keys.secretKey);
+          this.retiredEcashKeysets.set(keyset.id, keyset);
+        }
+      }
+    }
+    const keyset = this.retiredEcashKeysets.get(id);
+    const rotation = rotations.find((r) => r.oldPubkey === keyset?.publicKey);
+    return rotation && !rotation.compromised ? keyset : undefined;
+  }
+
+  // Signs blinded outputs already checked by blindedOutputsError, or returns
+  // null if one of them is not a point on the curve.
+  private signBlindedOutputs(
+    outputs: BlindedMessage[],
+  ): BlindSignature[] | null {
+    const { id, secrets } = this.currentEcashKeyset();
+    try {
+      return outputs.map(({ amount, B_ }) => ({
+        amount,
+        C_: signBlindedMessage(B_, secrets.get(amount)!),
+        id,
+      }));
+    } catch {
+      return null;
+    }
+  }
+
+  // Checks ecash proofs are validly signed, unspent and distinct, and
+  // returns their spent-set entries and total.
+  private async checkEcashProofs(
+    proofs: EcashProof[],
+  ): Promise<[{ ys: string[]; total: number } | null, string | null, number]> {
+    const ys: string[] = [];
+    let total = 0;
+    for (const proof of proofs) {
+      const keyset = await this.ecashKeysetById(proof.id);
+      const k = keyset?.secrets.get(proof.amount);
+      if (!k || !verifyEcashProof(proof, k)) {
+        return [
+          null,
+          "Invalid ecash proof",
+          NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
+        ];
+      }
+      const y = ecashSecretId(proof.secret);
+      if (ys.includes(y)) {
+        return [
+          null,
+          "Duplicate ecash proof",
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        ];
+      }
+      if (await this.spentTokenStore.has(y)) {
+        return [
+          null,
+          "Ecash proof is already spent",
+          NWPC_SPEC_ERRORS.TOKEN_SPENT.code,
+        ];
+      }
+      ys.push(y);
+      total += proof.amount;
+    }
+    return [{ ys, total }, null, 0];
+  }
+
+  // Signs a default-set token of `amount` locked to `lock`, for value leaving
+  // ecash or the fee charged on entering it.
+  private async signEcashPayout(
+    lock: string,
+    amount: number,
+  ): Promise<{ tokenHash: string; jwt: string }> {
+    const token = new Token();
+    await token.build({
+      token_type: TokenType.FUNGIBLE,
+      payload: Token.createPayload({
+        iss: this.keys.publicKey!,
+        amount,
+        P2PKlock: lock,
+      }),
+    });
+    const jwt = await this.signAndCreateJWT(token);
+    return { tokenHash: token.header.token_hash, jwt };
+  }
+
+  // Parses ecash request params, answering PARSE_ERROR itself.
+  private async ecashParams<T>(
+    req: NWPCRequest,
+    res: NWPCResponseObject,
+  ): Promise<Partial<T> | null> {
+    try {
+      return JSON.parse(req.params) ?? {};
+    } catch {
+      await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Answers `ecash.keys` with `{ id, keys }` (see getEcashKeys).
+   */
+  async handleEcashKeys(
+    _req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await res.send(this.getEcashKeys(), context.sender);
+  }
+
+  /**
+   * Mints new value as ecash (`ecash.mint`): signs the caller's blinded
+   * `outputs` and adds their total to the circulating supply of the default
+   * set, within the supply cap and the caller's forger policy. Owner and
+   * authorized forgers only.
+   */
+  async handleEcashMint(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    const params = await this.ecashParams<{ outputs: BlindedMessage[] }>(
+      req,
+      res,
+    );
+    if (!params) return;
+    const { outputs } = params;
+    const outputError = blindedOutputsError(
+      outputs,
+      Object.keys(this.getEcashKeys().keys).map(Number),
+    );
+    if (outputError) {
+      return await res.error(NWPC_SPEC_ERRORS.INVALID_PARAMS.code, outputError);
+    }
+    const blinded = outputs as BlindedMessage[];
+    const total = blinded.reduce((sum, { amount }) => sum + amount, 0);
+    const supplyError = this.supplyLimitError(total);
+    if (supplyError) {
+      return await res.error(NWPC_SPEC_ERRORS.SUPPLY_LIMIT.code, supplyError);
+    }
+    const signatures = this.signBlindedOutputs(blinded);
+    if (!signatures) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Invalid blinded message",
+      );
+    }
+    const quotaError = this.chargeForgerQuota(context.sender, total);
+    if (quotaError) {
+      return await res.error(quotaError[1], quotaError[0]);
+    }
+    this.adjustSupply(undefined, total, 0);
+    await this.transparencyLog.append(
+      blinded.map(({ B_, amount }) => ({
+        type: "mint",
+        tokenHash: B_,
+        amount,
+      })),
+    );
+    await this._saveState();
+    return await res.send({ signatures }, context.sender);
+  }
+
+  /**
+   * Exchanges value for fresh ecash (`ecash.swap`): spends ecash `proofs`
+   * and/or default-set tokens in `ins` (with `witnessData` signed over
+   * `ecashSpendOuts(outputs)`, and subject to the transfer policies) and signs
+   * blinded `outputs` of exactly their total. A wallet receiving ecash swaps
+   * it so the sender can no longer spend it; depositing tokens turns them
+   * into ecash, less the transfer fee on their amount, which is issued to the
+   * treasury as melting does.
+   */
+  async handleEcashSwap(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.runExclusive(async () => {
+      const params = await this.ecashParams<{
+        proofs: EcashProof[];
+        ins: string[];
+        witnessData: Witness[];
+        outputs: BlindedMessage[];
+      }>(req, res);
+      if (!params) return;
+      const { proofs, ins, witnessData, outputs } = params;
+      const paramError =
+        blindedOutputsError(
+          outputs,
+          Object.keys(this.getEcashKeys().keys).map(Number),
+        ) ??
+        (!proofs?.length && !ins?.length
+          ? "ecash.swap needs proofs or ins to spend"
+          : null) ??
+        (proofs?.length ? ecashProofsError(proofs) : null);
+      if (paramError) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          paramError,
+        );
+      }
+      const blinded = outputs as BlindedMessage[];
+
+      const [spent, proofError, proofCode] = proofs?.length
+        ? await this.checkEcashProofs(proofs)
+        : [{ ys: [], total: 0 }, null, 0];
+      if (!spent) {
+        return await res.error(proofCode, proofError!);
+      }
+      const inputHashes: string[] = [];
+      let inputTotal = spent.total;
+      let fee = 0;
+      if (ins?.length) {
+        const [validTx, error, code, errorParams] = await this.validateTXInputs(
+          {
+            ins,
+            outs: ecashSpendOuts(blinded).map((out) => JSON.stringify(out)),
+          },
+          witnessData,
+        );
+        if (error || !validTx) {
+          return await res.error(
+            code ?? NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+            "Invalid transaction: " + (error || "Validation failed"),
+            errorParams,
+          );
+        }
+        const inputs = await Promise.all(
+          ins.map((jwt) => new Token().restore(jwt)),
+        );
+        if (inputs.some((token) => (token.payload.setID ?? "-") !== "-")) {
+          return await res.error(
+            NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+            "Only tokens of the default set can be exchanged for ecash",
+          );
+        }
+        const denied = await this.transferPolicyError(
+          inputs,
+          ecashSpendOuts(blinded),
+          context.sender,
+        );
+        if (denied) {
+          return await res.error(denied[1], denied[0]);
+        }
+        let depositTotal = 0;
+        for (const token of inputs) {
+          inputHashes.push(token.header.token_hash);
+          depositTotal += token.payload.amount ?? 0;
+        }
+        fee = this.quoteFee(depositTotal);
+        inputTotal += depositTotal - fee;
+      }
+      const outputTotal = blinded.reduce((sum, { amount }) => sum + amount, 0);
+      if (outputTotal !== inputTotal) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          fee > 0
+            ? `Ecash outputs must add up to the inputs less the fee (${inputTotal})`
+            : `Ecash outputs must add up to the inputs (${inputTotal})`,
+        );
+      }
+      const signatures = this.signBlindedOutputs(blinded);
+      if (!signatures) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          "Invalid blinded message",
+        );
+      }
+
+      const feeToken =
+        fee > 0 ? await this.signEcashPayout(this.feeTreasury, fee) : undefined;
+
+      const txId = await this.journalTx(
+        [...spent.ys, ...inputHashes],
+        feeToken ? [{ to: this.feeTreasury, token: feeToken.jwt }] : [],
+        context.sender,
+        signatures,
+      );
+      await this.publishSpentTokens([...spent.ys, ...inputHashes]);
+      if (feeToken) {
+        await this.transparencyLog.append([
+          { type: "mint", tokenHash: feeToken.tokenHash, amount: fee },
+        ]);
+      }
+      await res.send({ signatures }, context.sender);
+      if (feeToken) {
+        await res.send({ token: feeToken.jwt }, this.feeTreasury);
+      }
+      for (const tokenHash of inputHashes) {
+        await res.send(
+          { spent: tokenHash, issuer: this.keys.publicKey! },
+          context.sender,
+        );
+      }
+      await this.completeTx(txId);
+      return;
+    });
+  }
+
+  /**
+   * Redeems ecash `proofs` for a regular default-set token of their total
+   * less the transfer fee, delivered to `to` (`ecash.melt`). The forge cannot
+   * tell who held the ecash, so every melt pays the fee, issued to the
+   * treasury. The transfer policies see it as a payment of the token's amount
+   * to `to`, and the transparency log records the new token as a mint.
+   */
+  async handleEcashMelt(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    return await this.runExclusive(async () => {
+      const params = await this.ecashParams<{
+        proofs: EcashProof[];
+        to: string;
+      }>(req, res);
+      if (!params) return;
+      const { proofs, to } = params;
+      const paramError =
+        ecashProofsError(proofs) ??
+        (typeof to !== "string" || !to ? "Recipient 'to' is required" : null);
+      if (paramError) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+          paramError,
+        );
+      }
+      const [spent, proofError, proofCode] = await this.checkEcashProofs(
+        proofs as EcashProof[],
+      );
+      if (!spent) {
+        return await res.error(proofCode, proofError!);
+      }
+      const fee = this.quoteFee(spent.total);
+      const amount = spent.total - fee;
+      if (amount <= 0) {
+        return await res.error(
+          NWPC_SPEC_ERRORS.INSUFFICIENT_BALANCE.code,
+          `Proofs do not cover the fee (${fee})`,
+        );
+      }
+      const denied = await this.transferPolicyError(
+        [],
+        [{ to: to as string, amount }],
+        context.sender,
+      );
+      if (denied) {
+        return await res.error(denied[1], denied[0]);
+      }
+      const outputs: { to: string; token: string }[] = [];
+      const mints: LogEntry[] = [];
+      for (const [lock, value] of [
+        [to as string, amount],
+        [this.feeTreasury, fee],
+      ] as const) {
+        if (value === 0) continue;
+        const { tokenHash, jwt } = await this.signEcashPayout(lock, value);
+        outputs.push({ to: lock, token: jwt });
+        mints.push({ type: "mint", tokenHash, amount: value });
+      }
+      // No sender: a melt sends no spent notices to redeliver.
+      const txId = await this.journalTx(spent.ys, outputs);
+      await this.publishSpentTokens(spent.ys);
+      await this.transparencyLog.append(mints);
+      const [melted, feeToken] = outputs;
+      const sent = await res.send({ token: melted.token }, melted.to);
+      if (feeToken) {
+        await res.send({ token: feeToken.token }, feeToken.to);
+      }
+      await this.completeTx(txId);
+      return sent;
+    });
+  }
+
+  /**
+   * Reports which of up to 1000 proof secrets, given as `ys`
+   * (`ecashSecretId(secret)`), are spent (`ecash.check`).
+   */
+  async handleEcashCheck(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    const params = await this.ecashParams<{ ys: string[] }>(req, res);
+    if (!params) return;
+    const { ys } = params;
+    if (
+      !Array.isArray(ys) ||
+      ys.length > 1000 ||
+      ys.some((y) => typeof y !== "string")
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "ys must be a list of at most 1000 strings",
+      );
+    }
+    const spent: Record<string, boolean> = {};
+    for (const y of ys) {
+      spent[y] = await this.spentTokenStore.has(y);
+    }
+    return await res.send({ spent }, context.sender);
   }
 
   async burnToken(
@@ -1,33 +1,99 @@
 import { ForgeBase } from "./ForgeBase.js";
 import { Token, TokenType } from "@tat-protocol/token";
+import type { MultisigLock } from "@tat-protocol/token";
 import {
   NWPCRequest,
   NWPCContext,
   NWPCResponseObject,
   NWPC_SPEC_ERRORS,
 } from "@tat-protocol/nwpc";
+import { transferRestriction } from "@tat-protocol/utils";
+import type { Transferability } from "@tat-protocol/utils";
+import type { ForgeMintRequest } from "@tat-protocol/types";
 import { ForgeConfig } from "./ForgeConfig.js";
-import { Recipient } from "./Types.js";
+import { PendingTx, Recipient, RenewalPolicy, Witness } from "./Types.js";
 import { v4 as uuidv4 } from "uuid";
 
+// Returns why `policy` is not a usable renewal policy, or null if it is.
+function renewalPolicyError(policy: RenewalPolicy): string | null {
+  if (!Number.isInteger(policy.period) || policy.period <= 0) {
+    return "renewal.period must be a positive integer";
+  }
+  for (const name of ["gracePeriod", "window"] as const) {
+    const value = policy[name];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return `renewal.${name} must be a non-negative integer`;
+    }
+  }
+  const { price } = policy;
+  if (price !== undefined && (!Number.isFinite(price) || price < 0)) {
+    return "renewal.price must be a non-negative number";
+  }
+  return null;
+}
+
+type RenewalParams = Partial<ForgeMintRequest> & {
+  ins?: string[];
+  outs?: string[];
+  witnessData?: Witness[];
+  token?: string;
+};
+
 export class NonFungibleForge extends ForgeBase {
   constructor(config: ForgeConfig) {
     super(config);
     this.config.tokenType = TokenType.TAT;
+    const renewalError = config.renewal && renewalPolicyError(config.renewal);
+    if (renewalError) throw new Error(renewalError);
   }
+
+  setupDefaultHandlers() {
+    super.setupDefaultHandlers();
+    this.use(
+      "admin.tokens.recover",
+      {
+        auth: "admin",
+        description: "Re-issue a TAT to its holder's new key",
+      },
+      this.onlyOwner.bind(this),
+      this.audited.bind(this),
+      this.handleAdminRecoverToken.bind(this),
+    );
+    // Renewing re-issues a TAT to its own holder, so it is gated by the TAT's
+    // witness, or for booths by their authorization, rather than by caller.
+    if (this.config.renewal) {
+      this.use(
+        "renew",
+        { idempotent: true },
+        this.unlessPaused("transfers"),
+        this.idempotent.bind(this),
+        this.handleRenew.bind(this),
+      );
+      this.use("renew.quote", this.handleRenewQuote.bind(this));
+    }
+  }
+
   /*
    * @dev Forge a new token
    * @param req - The request object
-   * @param _context - The context object
+   * @param context - The context object
    * @param res - The response object
    * @returns The token JWT
    */
   async forgeToken(
     req: NWPCRequest,
-    _context: NWPCContext,
+    context: NWPCContext,
     res: NWPCResponseObject,
   ) {
-    let reqObj: { to?: string };
+    let reqObj: {
+      to?: string;
+      multisig?: MultisigLock;
+      template?: string;
+      exp?: number;
+      data_uri?: string;
+      ext?: Record<string, unknown>;
+      transferability?: Transferability;
+    };
     try {
       reqObj = JSON.parse(req.params);
     } catch (error) {
@@ -36,13 +102,23 @@ export class NonFungibleForge extends ForgeBase {
         NWPC_SPEC_ERRORS.PARSE_ERROR.message,
       );
     }
-    const { to } = reqObj;
+    const { to, multisig, ...metadataRequest } = reqObj;
     if (!to) {
       return await res.error(
         NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
         "Missing required parameters",
       );
     }
+    // A multisig lock replaces the P2PKlock; `to` still receives the token.
+    const lockError = multisig && this.multisigLockError(multisig);
+    if (lockError) {
+      return await res.error(NWPC_SPEC_ERRORS.INVALID_PARAMS.code, lockError);
+    }
+    const [metadata, metadataError, metadataCode] =
+      this.tatMetadata(metadataRequest);
+    if (!metadata) {
+      return await res.error(metadataCode!, metadataError!);
+    }
     if (
       this.state.totalSupply > 0 &&
       (this.state.circulatingSupply ?? 0) + 1 > this.state.totalSupply
@@ -52,29 +128,30 @@ export class NonFungibleForge extends ForgeBase {
         `Forging this token would exceed total supply (${this.state.totalSupply}). Remaining: ${this.state.totalSupply - (this.state.circulatingSupply ?? 0)}`,
       );
     }
-    // Choose tokenID strategy
-    let tokenID: string | number;
-    if (this.config.assetIdStrategy === "unique") {
-      tokenID = uuidv4();
-    } else {
-      tokenID = this.state.lastAssetId;
-      this.state.lastAssetId += 1;
+    const quotaError = this.chargeForgerQuota(context.sender, 1);
+    if (quotaError) {
+      return await res.error(quotaError[1], quotaError[0]);
     }
-    const token = new Token();
-    await token.build({
-      token_type: TokenType.TAT,
-      payload: Token.createPayload({
-        iss: this.keys.publicKey!,
-        tokenID,
-        P2PKlock: to,
-      }),
+    const { jwt: tokenJWT } = await this.mintValue(1, {
+      P2PKlock: multisig ? undefined : to,
+      multisig,
+      ...metadata,
     });
-    this.state.circulatingSupply = (this.state.circulatingSupply ?? 0) + 1;
-    const tokenJWT = await this.signAndCreateJWT(token);
     await this._saveState();
     return await res.send({ token: tokenJWT }, to);
   }
 
+  /*
+   * @dev Choose a tokenID according to config.assetIdStrategy
+   * @returns A UUID for the 'unique' strategy, otherwise the next sequential ID
+   */
+  protected allocateTokenID(): string | number {
+    if (this.config.assetIdStrategy === "unique") {
+      return uuidv4();
+    }
+    return super.allocateTokenID();
+  }
+
   /*
    * @dev Transfer a token
    * @param req - The request object
@@ -132,6 +209,7 @@ export class NonFungibleForge extends ForgeBase {
         recipients,
         res,
         sender,
+        req.id,
       );
     });
   }
@@ -141,6 +219,7 @@ export class NonFungibleForge extends ForgeBase {
    * @param inputs - The input tokens
    * @param outs - The output recipients
    * @param res - The response object
+   * @param requestId - The request the sender's receipt is for
    * @returns The token JWT
    */
   public async handleNonFungibleTransfer(
@@ -148,6 +227,7 @@ export class NonFungibleForge extends ForgeBase {
     outs: Recipient[],
     res: NWPCResponseObject,
     sender?: string,
+    requestId: string = "",
   ) {
     if (!inputs?.length || !outs?.length) {
       return await res.error(
@@ -155,19 +235,107 @@ export class NonFungibleForge extends ForgeBase {
         "Missing required parameters: inputs, outs",
       );
     }
+    // Every output is checked and signed before any input is spent, so a
+    // bad recipient late in `outs` cannot leave the transfer half done.
+    const [reissued, error, code] = await this.reissueOutputs(
+      inputs,
+      outs,
+      sender ?? "",
+    );
+    if (!reissued) {
+      return await res.error(code!, error!);
+    }
+    for (const { input, to, token: newTokenJWT } of reissued) {
+      const inputHash = await input.create_token_hash();
+      const txId = await this.journalTx(
+        [inputHash],
+        [{ to, token: newTokenJWT }],
+        sender,
+      );
+      await this.publishSpentToken(inputHash);
+      await res.send({ token: newTokenJWT }, to);
+      await res.send(
+        { spent: input.header.token_hash, issuer: this.keys.publicKey! },
+        sender,
+      );
+      await this.completeTx(txId);
+    }
+    const receipt = await this.signReceipt(
+      "transfer",
+      requestId,
+      reissued.map(({ input }) => input),
+      reissued.map(({ to, token }) => ({ to, token })),
+    );
+    await res.send({ receipt }, sender);
+    return;
+  }
+
+  /**
+   * Signs a swap leg's TATs over to their new holders. Every input of the
+   * leg must go to one of its outputs, since the swap spends them all.
+   */
+  protected async prepareSwapLeg(
+    inputs: Token[],
+    outs: Recipient[],
+    from: string,
+  ): Promise<[PendingTx["outputs"] | null, string | null, number | null]> {
+    const [reissued, error, code] = await this.reissueOutputs(
+      inputs,
+      outs,
+      from,
+    );
+    if (!reissued) {
+      return [null, error, code];
+    }
+    if (reissued.length !== inputs.length) {
+      return [
+        null,
+        "Every swap input must be assigned an output",
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    return [reissued.map(({ to, token }) => ({ to, token })), null, null];
+  }
+
+  // Matches each recipient to an input TAT with its tokenID and signs the
+  // re-issued token, after the transfer policies and each TAT's
+  // transferability allow it. Returns why the transfer cannot go ahead
+  // otherwise.
+  private async reissueOutputs(
+    inputs: Token[],
+    outs: Recipient[],
+    sender: string,
+  ): Promise<
+    [
+      { input: Token; to: string; token: string }[] | null,
+      string | null,
+      number | null,
+    ]
+  > {
+    const denied = await this.transferPolicyError(inputs, outs, sender);
+    if (denied) {
+      return [null, denied[0], denied[1]];
+    }
     // Track inputs already consumed by an earlier recipient in this same
     // request. The spent-set is only checked once, up front in validateTXInputs,
     // so without this a duplicate tokenID in `outs` would re-find the same input
     // and mint a second valid token from a single NFT.
     const consumedInputs = new Set<Token>();
+    const reissued: { input: Token; to: string; token: string }[] = [];
     for (const recipient of outs) {
       const tokenID = recipient.tokenID;
       const to = recipient.to;
       if (!tokenID || !to) {
-        return await res.error(
-          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        return [
+          null,
           "Each recipient must specify tokenID and to",
-        );
+          NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        ];
+      }
+      const lockError =
+        recipient.multisig && this.multisigLockError(recipient.multisig);
+      if (lockError) {
+        return [null, lockError, NWPC_SPEC_ERRORS.INVALID_PARAMS.code];
       }
       // Find an unconsumed input token with the matching tokenID
       const token = inputs.find(
@@ -177,37 +345,502 @@ export class NonFungibleForge extends ForgeBase {
           String(t.payload.tokenID) === String(tokenID),
       );
       if (!token) {
-        return await res.error(
-          NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        return [
+          null,
           `Input token with tokenID ${tokenID} not found`,
-        );
+          NWPC_SPEC_ERRORS.NOT_FOUND.code,
+        ];
       }
       consumedInputs.add(token);
+      const restricted = transferRestriction(token.payload, to, [
+        token.payload.iss,
+        this.keys.publicKey!,
+      ]);
+      if (restricted) {
+        return [null, restricted, NWPC_SPEC_ERRORS.UNAUTHORIZED.code];
+      }
       // Forge new token for recipient
-      const newToken = new Token();
-      await newToken.build({
-        token_type: TokenType.TAT,
+      reissued.push({
+        input: token,
+        to,
+        token: await this.reissue(
+          token,
+          to,
+          recipient.multisig,
+          (token.payload.transfers ?? 0) + 1,
+        ),
+      });
+    }
+    return [reissued, null, null];
+  }
+
+  /**
+   * Re-issues a TAT this forge issued to its holder's new key, e.g. after
+   * the holder lost the old one. The old token is marked spent; the new one
+   * keeps its tokenID, metadata and transfer count. Recovery is not a
+   * transfer, so soulbound and other restricted TATs can be recovered too.
+   *
+   * @param tokenJWT - The TAT to recover
+   * @param to - The holder's new public key
+   * @returns The re-issued TAT and the hash of the retired one
+   * @throws {Error} If the forge is not initialized, or the token is invalid, foreign, spent or revoked
+   *
+   * @example
+   * ```typescript
+   * const { token } = await forge.recoverToken(lostTicketJWT, newHolderPubkey);
+   * ```
+   */
+  public async recoverToken(
+    tokenJWT: string,
+    to: string,
+  ): Promise<{ token: string; spent: string }> {
+    if (!this.isInitialized) {
+      throw new Error("Forge must be initialized");
+    }
+    if (typeof to !== "string" || !/^[0-9a-f]{64}$/.test(to)) {
+      throw new Error("to must be a 64-character hex public key");
+    }
+    if (typeof tokenJWT !== "string" || !tokenJWT) {
+      throw new Error("token must be a TAT JWT");
+    }
+    return await this.runExclusive(async () => {
+      const token = await new Token().restore(tokenJWT);
+      if (
+        token.header.typ !== TokenType.TAT ||
+        !(await token.verifyTokenHash()) ||
+        !(await token.verifyTokenSignature())
+      ) {
+        throw new Error("token must be a validly signed TAT");
+      }
+      if (!(await this.isIssuedHere(token))) {
+        throw new Error("Input token issuer mismatch");
+      }
+      const tokenHash = token.header.token_hash;
+      if (await this.spentTokenStore.has(tokenHash)) {
+        throw new Error(`Token ${tokenHash} is already spent`);
+      }
+      const revoked = this.revocationError(tokenHash);
+      if (revoked) {
+        throw new Error(revoked);
+      }
+      const jwt = await this.reissue(token, to);
+      const txId = await this.journalTx(
+        [tokenHash],
+        [{ to, token: jwt }],
+        this.state.owner,
+      );
+      await this.publishSpentToken(tokenHash);
+      await this.completeTx(txId);
+      return { token: jwt, spent: tokenHash };
+    });
+  }
+
+  /**
+   * `admin.tokens.recover` ({ token, to }): re-issues a TAT to its holder's
+   * new key. The new token goes to `to`; the caller gets the retired hash.
+   */
+  public async handleAdminRecoverToken(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let params: { token: string; to: string };
+    try {
+      params = JSON.parse(req.params) ?? {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    let recovered: { token: string; spent: string };
+    try {
+      recovered = await this.recoverToken(params.token, params.to);
+    } catch (error) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+    await res.send({ token: recovered.token }, params.to);
+    return await res.send(
+      { recovered: recovered.spent, to: params.to },
+      context.sender,
+    );
+  }
+
+  /**
+   * Renews a TAT that carries an `exp` (`renew`), re-issuing it to the same
+   * holder with the same tokenID and `exp` moved `config.renewal.period`
+   * later. Renewal opens `renewal.window` seconds before `exp` (any time by
+   * default) and stays open `renewal.gracePeriod` seconds after it. Either:
+   *
+   * - the holder sends `ins` with the TAT first and fungible tokens this
+   *   forge issued from `renewal.setID` after it, and `outs` sharing their
+   *   value out, at least `renewal.price` to `renewal.treasury`. Every
+   *   witness signs `outs`, as for `transfer`; or
+   * - a booth sends the TAT as `token` with the fields of a
+   *   `forge.mint_request` for a catalog item its authorization covers. The
+   *   renewal is recorded on the authorization for settlement, and the booth
+   *   receives `{ token, tokenHash, invoiceId }`.
+   *
+   * The renewed TAT goes to its holder, who is told the old one is spent.
+   */
+  async handleRenew(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let params: RenewalParams;
+    try {
+      params = JSON.parse(req.params) ?? {};
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.PARSE_ERROR.code,
+        NWPC_SPEC_ERRORS.PARSE_ERROR.message,
+      );
+    }
+    return await this.runExclusive(async () =>
+      params.authorizationEventId !== undefined
+        ? await this.renewForBooth(params, context.sender, res)
+        : await this.renewForHolder(params, context.sender, res),
+    );
+  }
+
+  /**
+   * `renew.quote` ({ token }): what renewing a TAT costs and the `exp` it
+   * would get, as `{ tokenID, exp, renewedExp, price, setID, treasury }`.
+   */
+  async handleRenewQuote(
+    req: NWPCRequest,
+    context: NWPCContext,
+    res: NWPCResponseObject,
+  ) {
+    let token: Token;
+    try {
+      token = await new Token().restore(String(JSON.parse(req.params)?.token));
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "token must be a TAT JWT",
+      );
+    }
+    if (!(await this.isIssuedHere(token))) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+        "Input token issuer mismatch",
+      );
+    }
+    const [renewedExp, error, code] = this.renewedExp(token);
+    if (renewedExp === null) {
+      return await res.error(code!, error!);
+    }
+    const policy = this.config.renewal!;
+    return await res.send(
+      {
+        tokenID: token.payload.tokenID,
+        exp: token.payload.exp,
+        renewedExp,
+        price: policy.price ?? 0,
+        setID: policy.setID,
+        treasury: policy.treasury ?? this.state.owner,
+      },
+      context.sender,
+    );
+  }
+
+  // A holder's renewal, paid with fungible tokens in `ins` after the TAT.
+  private async renewForHolder(
+    params: RenewalParams,
+    sender: string,
+    res: NWPCResponseObject,
+  ) {
+    const policy = this.config.renewal!;
+    const [validTx, error, code, details] = await this.validateTXInputs(
+      params,
+      params.witnessData,
+      undefined,
+      policy.gracePeriod ?? 0,
+    );
+    if (error || !validTx) {
+      return await res.error(
+        code ?? NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Invalid renewal: " + (error || "Validation failed"),
+        details,
+      );
+    }
+    const [tat, ...payment] = await Promise.all(
+      (validTx.ins ?? []).map((input) => new Token().restore(input)),
+    );
+    if (tat.header.typ !== TokenType.TAT) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "The first input must be the TAT to renew",
+      );
+    }
+    const [renewedExp, renewError, renewCode] = this.renewedExp(tat);
+    if (renewedExp === null) {
+      return await res.error(renewCode!, renewError!);
+    }
+    const setID = policy.setID && policy.setID !== "-" ? policy.setID : "-";
+    if (
+      payment.some(
+        (token) =>
+          token.header.typ !== TokenType.FUNGIBLE ||
+          token.isExpired() ||
+          (token.payload.setID || "-") !== setID,
+      )
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `Renewals are paid in unexpired fungible tokens of set ${setID}`,
+      );
+    }
+    const outs = (validTx.outs ?? []).map(
+      (out) => (typeof out === "string" ? JSON.parse(out) : out) as Recipient,
+    );
+    if (
+      outs.some(
+        ({ to, amount }) =>
+          typeof to !== "string" ||
+          !to ||
+          typeof amount !== "number" ||
+          !Number.isFinite(amount) ||
+          amount <= 0,
+      )
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Each payment output needs a recipient and a positive amount",
+      );
+    }
+    const paid = payment.reduce((sum, t) => sum + (t.payload.amount ?? 0), 0);
+    const shared = outs.reduce((sum, out) => sum + out.amount!, 0);
+    if (paid !== shared) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `Payment outputs must add up to the payment inputs (${paid})`,
+      );
+    }
+    const price = policy.price ?? 0;
+    const treasury = policy.treasury ?? this.state.owner;
+    const toTreasury = outs
+      .filter((out) => out.to === treasury)
+      .reduce((sum, out) => sum + out.amount!, 0);
+    if (toTreasury < price) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        `Renewal costs ${price}, paid to ${treasury}`,
+      );
+    }
+
+    const holder = tat.payload.P2PKlock ?? sender;
+    const outputs: PendingTx["outputs"] = [
+      { to: holder, token: await this.renewed(tat, renewedExp) },
+    ];
+    for (const { to, amount } of outs) {
+      const token = new Token();
+      await token.build({
+        token_type: TokenType.FUNGIBLE,
         payload: Token.createPayload({
           iss: this.keys.publicKey!,
-          tokenID:
-            typeof token.payload.tokenID === "string"
-              ? Number(token.payload.tokenID)
-              : token.payload.tokenID,
+          amount,
+          setID: setID === "-" ? undefined : setID,
           P2PKlock: to,
-          timeLock: token.payload.timeLock,
-          data_uri: token.payload.data_uri,
         }),
       });
-      const newTokenJWT = await this.signAndCreateJWT(newToken);
-      await this.publishSpentToken(await token.create_token_hash());
-      await this._saveState();
-      await res.send({ token: newTokenJWT }, to);
+      outputs.push({ to, token: await this.signAndCreateJWT(token) });
+    }
+    return await this.settleRenewal([tat, ...payment], outputs, sender, res);
+  }
+
+  // A booth's renewal under its authorization; the booth took the payment.
+  private async renewForBooth(
+    params: RenewalParams,
+    sender: string,
+    res: NWPCResponseObject,
+  ) {
+    const { token: tokenJWT, catalogItemId, invoiceId, payment } = params;
+    if (
+      typeof tokenJWT !== "string" ||
+      !catalogItemId ||
+      !invoiceId ||
+      !payment ||
+      typeof payment.amount !== "number" ||
+      !Number.isFinite(payment.amount) ||
+      payment.amount < 0
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+        "Missing required parameters",
+      );
+    }
+    const [record, authError, authCode] = this.checkBoothAuthorization(
+      params,
+      sender,
+    );
+    if (!record) {
+      return await res.error(authCode, authError);
+    }
+    let tat: Token;
+    try {
+      tat = await new Token().restore(tokenJWT);
+    } catch {
+      return await res.error(
+        NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
+        "token must be a TAT JWT",
+      );
+    }
+    if (
+      tat.header.typ !== TokenType.TAT ||
+      !(await tat.verifyTokenHash()) ||
+      !(await tat.verifyTokenSignature())
+    ) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.TOKEN_INVALID.code,
+        "token must be a validly signed TAT",
+      );
+    }
+    if (!(await this.isIssuedHere(tat))) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+        "Input token issuer mismatch",
+      );
+    }
+    const tokenHash = tat.header.token_hash;
+    if (await this.spentTokenStore.has(tokenHash)) {
+      return await res.error(
+        NWPC_SPEC_ERRORS.TOKEN_SPENT.code,
+        "Token is already spent",
+      );
+    }
+    const revoked = this.revocationError(tokenHash);
+    if (revoked) {
+      return await res.error(NWPC_SPEC_ERRORS.TOKEN_INVALID.code, revoked);
+    }
+    const [renewedExp, renewError, renewCode] = this.renewedExp(tat);
+    if (renewedExp === null) {
+      return await res.error(renewCode!, renewError!);
+    }
+
+    const holder = tat.payload.P2PKlock ?? sender;
+    const jwt = await this.renewed(tat, renewedExp);
+    const renewedHash = (await new Token().restore(jwt)).header.token_hash;
+    record.mints.push({
+      invoiceId,
+      catalogItemId,
+      buyerPubkey: holder,
+      tokenHash: renewedHash,
+      payment: {
+        type: payment.type,
+        amount: payment.amount,
+        referenceId: payment.referenceId,
+      },
+      fee: params.fees?.boxOffice ?? 0,
+      mintedAt: Math.floor(Date.now() / 1000),
+    });
+    await this.settleRenewal([tat], [{ to: holder, token: jwt }], sender, res);
+    return await res.send(
+      { token: jwt, tokenHash: renewedHash, invoiceId },
+      sender,
+    );
+  }
+
+  // The `exp` renewing `token` now would give it, or why it cannot be
+  // renewed now.
+  private renewedExp(
+    token: Token,
+  ): [number, null, null] | [null, string, number] {
+    const policy = this.config.renewal!;
+    const { exp } = token.payload;
+    if (token.header.typ !== TokenType.TAT || !exp) {
+      return [
+        null,
+        "Only TATs with an exp can be renewed",
+        NWPC_SPEC_ERRORS.INVALID_PARAMS.code,
+      ];
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (policy.window !== undefined && now < exp - policy.window) {
+      return [
+        null,
+        `Renewal opens at ${exp - policy.window}`,
+        NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+      ];
+    }
+    if (now >= exp + (policy.gracePeriod ?? 0)) {
+      return [
+        null,
+        "Token has expired past its renewal grace period",
+        NWPC_SPEC_ERRORS.TOKEN_EXPIRED.code,
+      ];
+    }
+    return [exp + policy.period, null, null];
+  }
+
+  // Signs the renewed copy of `tat` for its current lock holder(s).
+  private async renewed(tat: Token, exp: number): Promise<string> {
+    return await this.reissue(
+      tat,
+      tat.payload.P2PKlock ?? "",
+      tat.payload.multisig,
+      tat.payload.transfers,
+      exp,
+    );
+  }
+
+  // Journals and commits a renewal: spends `inputs` (the TAT first), then
+  // delivers `outputs` and tells the holder and sender what was spent.
+  private async settleRenewal(
+    inputs: Token[],
+    outputs: PendingTx["outputs"],
+    sender: string,
+    res: NWPCResponseObject,
+  ) {
+    const spent = inputs.map((token) => token.header.token_hash);
+    const txId = await this.journalTx(spent, outputs, sender);
+    await this.publishSpentTokens(spent);
+    for (const { to, token } of outputs) {
+      await res.send({ token }, to);
+    }
+    for (const [i, hash] of spent.entries()) {
       await res.send(
-        { spent: token.header.token_hash, issuer: this.keys.publicKey! },
-        sender,
+        { spent: hash, issuer: this.keys.publicKey! },
+        i === 0 ? outputs[0].to : sender,
       );
     }
-    return;
+    await this.completeTx(txId);
+  }
+
+  // Signs a copy of `token` for `to` under this forge's key, keeping its
+  // tokenID and metadata.
+  private async reissue(
+    token: Token,
+    to: string,
+    multisig?: MultisigLock,
+    transfers = token.payload.transfers,
+    exp = token.payload.exp,
+  ): Promise<string> {
+    const newToken = new Token();
+    await newToken.build({
+      token_type: TokenType.TAT,
+      payload: Token.createPayload({
+        iss: this.keys.publicKey!,
+        tokenID:
+          typeof token.payload.tokenID === "string"
+            ? Number(token.payload.tokenID)
+            : token.payload.tokenID,
+        P2PKlock: multisig ? undefined : to,
+        multisig,
+        timeLock: token.payload.timeLock,
+        data_uri: token.payload.data_uri,
+        exp,
+        ext: token.payload.ext,
+        transferability: token.payload.transferability,
+        transfers,
+      }),
+    });
+    return await this.signAndCreateJWT(newToken);
   }
 
   // Add a getter for total supply
@@ -220,16 +853,7 @@ export class NonFungibleForge extends ForgeBase {
     context: NWPCContext,
     res: NWPCResponseObject,
   ) {
-    // Use shared burn logic
-    const burnResult = await this.handleBurn(req, context, res);
-    // Decrement circulatingSupply on successful burn
-    if (burnResult && !(burnResult as any).error) {
-      this.state.circulatingSupply = Math.max(
-        0,
-        (this.state.circulatingSupply ?? 1) - 1,
-      );
-      await this._saveState();
-    }
-    return burnResult;
+    // Use shared burn logic (supply counters are updated in handleBurn)
+    return await this.handleBurn(req, context, res);
   }
 }
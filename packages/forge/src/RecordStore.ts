@@ -0,0 +1,117 @@
+import type { StorageInterface } from "@tat-protocol/storage";
+
+/**
+ * Short-lived records of a forge (journaled transactions, idempotent
+ * results), each kept under its own `<prefix>:r:<id>` key.
+ *
+ * Ids are appended to an order log (`<prefix>:<n>`, `<prefix>:head`) when a
+ * record is written, so writes cost the same however many records are kept.
+ * `prune` drops records from the oldest end of the log and advances
+ * `<prefix>:tail`; only the log's bounds are cached.
+ */
+export class RecordStore<T> {
+  private head?: number;
+  private tail?: number;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageInterface,
+    private readonly prefix: string,
+  ) {}
+
+  /**
+   * The record stored under `id`, if any.
+   */
+  async get(id: string): Promise<T | undefined> {
+    const record = await this.storage.getItem(`${this.prefix}:r:${id}`);
+    return record ? (JSON.parse(record) as T) : undefined;
+  }
+
+  /**
+   * Writes the record under `id`, replacing any record already there.
+   */
+  async set(id: string, record: T): Promise<void> {
+    await this.exclusive(async () => {
+      const [, head] = await this.loadBounds();
+      await this.storage.setItem(
+        `${this.prefix}:r:${id}`,
+        JSON.stringify(record),
+      );
+      await this.storage.setItem(`${this.prefix}:${head}`, id);
+      await this.storage.setItem(`${this.prefix}:head`, String(head + 1));
+      this.head = head + 1;
+    });
+  }
+
+  /**
+   * Removes the record under `id`. Its place in the order log is dropped by
+   * the next `prune`.
+   */
+  async delete(id: string): Promise<void> {
+    await this.storage.removeItem(`${this.prefix}:r:${id}`);
+  }
+
+  /**
+   * Every stored record with its id, oldest first.
+   */
+  async entries(): Promise<[string, T][]> {
+    return this.exclusive(async () => {
+      const [tail, head] = await this.loadBounds();
+      const entries = new Map<string, T>();
+      for (let i = tail; i < head; i++) {
+        const id = await this.storage.getItem(`${this.prefix}:${i}`);
+        if (id === null || entries.has(id)) continue;
+        const record = await this.get(id);
+        if (record !== undefined) entries.set(id, record);
+      }
+      return [...entries];
+    });
+  }
+
+  /**
+   * Drops records from the oldest end while `expired` holds for them, along
+   * with log places whose record is already gone. Stops at the first record
+   * to keep.
+   */
+  async prune(expired: (record: T) => boolean): Promise<void> {
+    await this.exclusive(async () => {
+      let [tail] = await this.loadBounds();
+      const head = this.head!;
+      while (tail < head) {
+        const id = await this.storage.getItem(`${this.prefix}:${tail}`);
+        if (id !== null) {
+          const record = await this.get(id);
+          if (record !== undefined) {
+            if (!expired(record)) break;
+            await this.delete(id);
+          }
+          await this.storage.removeItem(`${this.prefix}:${tail}`);
+        }
+        tail++;
+        await this.storage.setItem(`${this.prefix}:tail`, String(tail));
+        this.tail = tail;
+      }
+    });
+  }
+
+  private async loadBounds(): Promise<[number, number]> {
+    if (this.head === undefined || this.tail === undefined) {
+      this.head = Number(
+        (await this.storage.getItem(`${this.prefix}:head`)) ?? 0,
+      );
+      this.tail = Number(
+        (await this.storage.getItem(`${this.prefix}:tail`)) ?? 0,
+      );
+    }
+    return [this.tail, this.head];
+  }
+
+  private exclusive<U>(fn: () => Promise<U>): Promise<U> {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+}
@@ -0,0 +1,134 @@
+import type { Token } from "@tat-protocol/token";
+import { NWPC_SPEC_ERRORS } from "@tat-protocol/nwpc";
+import type { Recipient } from "./Types.js";
+
+/**
+ * The transfer a policy is asked about: the restored input tokens, the
+ * requested outputs and the sender. Outputs are the ones the sender asked for,
+ * including any change output they listed; change the forge returns on its
+ * own and fee outputs are not included.
+ */
+export interface TransferRequest {
+  inputs: Token[];
+  outs: Recipient[];
+  sender: string;
+}
+
+/**
+ * Policy evaluation result
+ */
+export interface TransferPolicyResult {
+  allowed: boolean;
+  reason?: string; // Reason for denial
+  code?: number; // NWPC_SPEC_ERRORS code to answer with; UNAUTHORIZED by default
+}
+
+/**
+ * Transfer policy interface
+ *
+ * A compliance rule a forge checks before signing the outputs of a `transfer`,
+ * `split` or `consolidate`. Policies run in order inside the forge's spend
+ * lock, and the first denial rejects the transfer without spending anything.
+ *
+ * @example
+ * ```typescript
+ * const businessHours: TransferPolicy = {
+ *   name: "business-hours",
+ *   evaluate() {
+ *     const hour = new Date().getUTCHours();
+ *     return hour >= 9 && hour < 17
+ *       ? { allowed: true }
+ *       : { allowed: false, reason: "Transfers settle 09:00-17:00 UTC" };
+ *   },
+ * };
+ * forge.addTransferPolicy(businessHours);
+ * ```
+ */
+export interface TransferPolicy {
+  /**
+   * Name used in denial messages
+   */
+  name?: string;
+
+  /**
+   * Decide whether the transfer may proceed
+   *
+   * @param transfer - The transfer being settled
+   * @returns Whether it is allowed, and why not
+   */
+  evaluate(
+    transfer: TransferRequest,
+  ): TransferPolicyResult | Promise<TransferPolicyResult>;
+}
+
+/**
+ * Common compliance rules for `SimpleTransferPolicy`
+ */
+export interface TransferRules {
+  allowedRecipients?: string[]; // Outputs may only go to these keys
+  blockedPubkeys?: string[]; // Senders, input holders and recipients refused
+  maxPerTransfer?: number; // Most value one transfer may output (a TAT is 1)
+  holdingPeriod?: number; // Seconds an input must be held before it moves
+}
+
+export class SimpleTransferPolicy implements TransferPolicy {
+  name = "SimpleTransferPolicy";
+  rules: TransferRules;
+  private readonly allowedRecipients: Set<string> | undefined;
+  private readonly blockedPubkeys: Set<string>;
+
+  constructor(rules: TransferRules) {
+    this.rules = rules;
+    this.allowedRecipients =
+      rules.allowedRecipients && new Set(rules.allowedRecipients);
+    this.blockedPubkeys = new Set(rules.blockedPubkeys ?? []);
+  }
+
+  evaluate({ inputs, outs, sender }: TransferRequest): TransferPolicyResult {
+    const holders = inputs.flatMap((token) =>
+      token.payload.P2PKlock
+        ? [token.payload.P2PKlock]
+        : (token.payload.multisig?.pubkeys ?? []),
+    );
+    for (const pubkey of [sender, ...holders, ...outs.map((out) => out.to)]) {
+      if (this.blockedPubkeys.has(pubkey)) {
+        return {
+          allowed: false,
+          reason: `${pubkey} is blocked`,
+          code: NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+        };
+      }
+    }
+    const outsider = outs.find(
+      (out) => this.allowedRecipients && !this.allowedRecipients.has(out.to),
+    );
+    if (outsider) {
+      return {
+        allowed: false,
+        reason: `${outsider.to} is not an allowed recipient`,
+        code: NWPC_SPEC_ERRORS.UNAUTHORIZED.code,
+      };
+    }
+    const { maxPerTransfer, holdingPeriod } = this.rules;
+    const value = outs.reduce((sum, out) => sum + (out.amount ?? 1), 0);
+    if (maxPerTransfer !== undefined && value > maxPerTransfer) {
+      return {
+        allowed: false,
+        reason: `Transfer of ${value} exceeds the limit of ${maxPerTransfer}`,
+        code: NWPC_SPEC_ERRORS.RATE_LIMITED.code,
+      };
+    }
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      holdingPeriod !== undefined &&
+      inputs.some((token) => now - (token.payload.iat ?? 0) < holdingPeriod)
+    ) {
+      return {
+        allowed: false,
+        reason: `Inputs must be held for ${holdingPeriod} seconds before they move`,
+        code: NWPC_SPEC_ERRORS.INVALID_REQUEST.code,
+      };
+    }
+    return { allowed: true };
+  }
+}
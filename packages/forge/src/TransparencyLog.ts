@@ -0,0 +1,162 @@
+import type { StorageInterface } from "@tat-protocol/storage";
+import {
+  logEntryLeaf,
+  merkleConsistencyProof,
+  merkleInclusionProof,
+  merkleLeafHash,
+  merkleRoot,
+  type LogEntry,
+} from "@tat-protocol/utils";
+
+/**
+ * Append-only Merkle log of a forge's mints and spends.
+ *
+ * Entries are persisted like `AppendOnlySpentTokenStore`: each `append` writes
+ * one `<prefix>:<n>` segment and then advances `<prefix>:head`, so a batch is
+ * either fully logged or not at all. Entries are never removed or rewritten;
+ * auditors holding an earlier root can check that with a consistency proof.
+ * Leaf hashes are kept in memory and roots and proofs are computed from them
+ * on demand.
+ */
+export class TransparencyLog {
+  private entries?: LogEntry[];
+  private leaves: string[] = [];
+  // `${type}:${tokenHash}` -> leaf index, so re-logging an entry is a no-op.
+  private positions = new Map<string, number>();
+  private head = 0;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageInterface,
+    private readonly prefix: string = "transparency-log",
+  ) {}
+
+  /**
+   * Appends entries not already in the log, in one atomic write.
+   */
+  async append(entries: LogEntry[]): Promise<void> {
+    await this.exclusive(async () => {
+      const logged = await this.loadUnlocked();
+      const batch = new Map<string, LogEntry>();
+      for (const entry of entries) {
+        const key = `${entry.type}:${entry.tokenHash}`;
+        if (!this.positions.has(key) && !batch.has(key)) batch.set(key, entry);
+      }
+      if (batch.size === 0) return;
+      const fresh = [...batch.values()];
+      await this.storage.setItem(
+        `${this.prefix}:${this.head}`,
+        JSON.stringify(fresh),
+      );
+      await this.storage.setItem(`${this.prefix}:head`, String(this.head + 1));
+      this.head += 1;
+      for (const [key, entry] of batch) {
+        this.positions.set(key, logged.length);
+        logged.push(entry);
+        this.leaves.push(merkleLeafHash(logEntryLeaf(entry)));
+      }
+    });
+  }
+
+  /**
+   * Number of entries in the log.
+   */
+  async size(): Promise<number> {
+    return (await this.load()).length;
+  }
+
+  /**
+   * Root of the tree over the first `size` entries (default: all of them).
+   */
+  async root(size?: number): Promise<string> {
+    await this.load();
+    return merkleRoot(this.leaves.slice(0, this.checkSize(size)));
+  }
+
+  /**
+   * Index of the entry logging `tokenHash` as `type`, if any.
+   */
+  async indexOf(
+    type: LogEntry["type"],
+    tokenHash: string,
+  ): Promise<number | undefined> {
+    await this.load();
+    return this.positions.get(`${type}:${tokenHash}`);
+  }
+
+  /**
+   * Entries `start` (inclusive) to `end` (exclusive).
+   */
+  async getEntries(start: number, end: number): Promise<LogEntry[]> {
+    return (await this.load()).slice(start, end);
+  }
+
+  /**
+   * Inclusion proof for entry `index` in the tree of the first `size` entries.
+   */
+  async inclusionProof(index: number, size?: number): Promise<string[]> {
+    await this.load();
+    return merkleInclusionProof(
+      this.leaves.slice(0, this.checkSize(size)),
+      index,
+    );
+  }
+
+  /**
+   * Proof that the tree of the first `from` entries is a prefix of the tree
+   * of the first `to` entries.
+   */
+  async consistencyProof(from: number, to?: number): Promise<string[]> {
+    await this.load();
+    return merkleConsistencyProof(
+      this.leaves.slice(0, this.checkSize(to)),
+      from,
+    );
+  }
+
+  private checkSize(size?: number): number {
+    if (size === undefined) return this.leaves.length;
+    if (!Number.isInteger(size) || size < 0 || size > this.leaves.length) {
+      throw new Error(`Log size ${size} is outside 0..${this.leaves.length}`);
+    }
+    return size;
+  }
+
+  private async load(): Promise<LogEntry[]> {
+    if (this.entries) return this.entries;
+    return this.exclusive(() => this.loadUnlocked());
+  }
+
+  private async loadUnlocked(): Promise<LogEntry[]> {
+    if (this.entries) return this.entries;
+    const entries: LogEntry[] = [];
+    const head = Number(
+      (await this.storage.getItem(`${this.prefix}:head`)) ?? 0,
+    );
+    for (let i = 0; i < head; i++) {
+      const segment = await this.storage.getItem(`${this.prefix}:${i}`);
+      if (!segment) {
+        throw new Error(
+          `Transparency log segment ${this.prefix}:${i} is missing`,
+        );
+      }
+      for (const entry of JSON.parse(segment) as LogEntry[]) {
+        this.positions.set(`${entry.type}:${entry.tokenHash}`, entries.length);
+        entries.push(entry);
+        this.leaves.push(merkleLeafHash(logEntryLeaf(entry)));
+      }
+    }
+    this.head = head;
+    this.entries = entries;
+    return entries;
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+}
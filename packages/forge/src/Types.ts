@@ -1,5 +1,14 @@
+import type { ForgeAuthorization } from "@tat-protocol/types";
+import type { MultisigLock, TokenType } from "@tat-protocol/token";
+import type {
+  BlindSignature,
+  KeyRotation,
+  Transferability,
+} from "@tat-protocol/utils";
+
 export type Recipient = {
   to: string;
+  multisig?: MultisigLock;
   amount?: number;
   tokenID?: string;
   issuer?: string;
@@ -7,3 +16,240 @@ export type Recipient = {
   htlc?: string;
   isLocked?: boolean;
 };
+
+/**
+ * Spend authorization for one transfer input: a signature over
+ * `spendAuthDigest` for a P2PKlock, or for a multisig lock an array with one
+ * entry per lock pubkey (in lock order), empty where that key has not signed.
+ */
+export type Witness = string | string[];
+
+/**
+ * What one sale of a catalog item mints. Fungible forges mint `amount`;
+ * TAT forges mint a single token and ignore it. `setID` picks the set a
+ * fungible amount is minted into (the default set when omitted).
+ */
+export type CatalogEntry = {
+  amount?: number;
+  data_uri?: string;
+  setID?: string;
+};
+
+/**
+ * Supply figures for one named token set (`setID`). The default set ("-")
+ * uses the forge-wide totalSupply/circulatingSupply/burnedSupply instead.
+ */
+export type SetSupply = {
+  totalSupply: number;
+  circulatingSupply: number;
+  burnedSupply: number;
+};
+
+/**
+ * One `forge.mint_request` fulfilled under an authorization, kept for
+ * settlement with the booth.
+ */
+export type AuthorizationMint = {
+  invoiceId: string;
+  catalogItemId: string;
+  buyerPubkey: string;
+  tokenHash: string;
+  payment: { type: string; amount: number; referenceId: string };
+  fee: number;
+  mintedAt: number; // Unix seconds
+};
+
+/**
+ * A kind-30130 authorization issued by this forge, plus its usage.
+ */
+export type AuthorizationRecord = {
+  authorization: ForgeAuthorization;
+  d: string; // The event's `d` tag, reused by the revocation event
+  revokedAt?: number; // Unix seconds
+  mints: AuthorizationMint[];
+};
+
+/**
+ * A transaction in the forge's write-ahead journal (`ForgeState.pendingTxs`),
+ * recorded after its outputs are signed and before its inputs are marked
+ * spent. Recovery finishes it if any input is already spent and discards it
+ * otherwise. An `ecash.swap` also journals the blind `signatures` it owes
+ * `sender`.
+ */
+export type PendingTx = {
+  inputs: string[];
+  outputs: { to: string; token: string }[];
+  sender?: string;
+  signatures?: BlindSignature[];
+  createdAt: number;
+};
+
+/**
+ * The outcome of an idempotent request (`transfer`/`burn` carrying a client
+ * `txId`), kept so a retry with the same inputs gets the original responses.
+ */
+export type IdempotentResult = {
+  method: string;
+  inputsHash: string;
+  responses: { to?: string | string[]; result: unknown }[];
+  createdAt: number;
+};
+
+/**
+ * A retired forge key (`ForgeState.keyRotations`) with the signed kind-30150
+ * announcement handing issuance to its successor.
+ */
+export type KeyRotationRecord = KeyRotation & {
+  event: string; // The signed announcement, as raw event JSON
+};
+
+/**
+ * Which NWPC operations an owner can pause: `minting` covers `forge`,
+ * `htlc.create` and `forge.mint_request`; `transfers` covers `transfer`,
+ * `burn`, `htlc.claim` and `htlc.refund`.
+ */
+export type PauseScope = "minting" | "transfers";
+
+/**
+ * One admin action in the forge's audit trail.
+ */
+export type AdminAuditEntry = {
+  method: string;
+  sender: string;
+  params: unknown;
+  error?: string; // Set when the action was rejected
+  timestamp: number; // Unix seconds
+};
+
+/**
+ * Limits on what one authorized forger may mint (`ForgeState.forgerPolicies`).
+ * Amounts are token value, a TAT counting as 1; omitted limits do not apply.
+ * The owner is never limited.
+ */
+export type ForgerPolicy = {
+  maxPerMint?: number;
+  maxPerDay?: number; // Since 00:00 UTC
+  maxTotal?: number; // Lifetime
+  tokenTypes?: TokenType[];
+  setIDs?: string[]; // "-" is the default set
+};
+
+/**
+ * What an authorized forger has minted (`ForgeState.forgerUsage`).
+ */
+export type ForgerUsage = {
+  mints: number;
+  total: number; // Lifetime value minted
+  day: number; // Unix seconds, start of the UTC day `dayTotal` covers
+  dayTotal: number;
+  lastMintAt?: number; // Unix seconds
+};
+
+/**
+ * Metadata a TAT carries: an expiry, a data URI, extension fields such as
+ * `tier` and `benefits` that gates check, and an optional transfer
+ * restriction. Kept when the TAT is transferred.
+ */
+export type TATMetadata = {
+  exp?: number; // Unix seconds
+  data_uri?: string;
+  ext?: Record<string, unknown>;
+  transferability?: Transferability;
+};
+
+/**
+ * Preset metadata for TATs minted with a `template` (`ForgeConfig.templates`).
+ * `expiresIn` sets `exp` that many seconds after the mint.
+ */
+export type TATTemplate = TATMetadata & {
+  expiresIn?: number;
+};
+
+/**
+ * One recipient of a `forge.batch` request. Fungible forges need an `amount`;
+ * TAT forges mint one token per row and ignore it.
+ */
+export type BatchMintRecipient = {
+  to: string;
+  amount?: number;
+  setID?: string;
+  multisig?: MultisigLock;
+  data_uri?: string;
+  template?: string; // TAT forges only, like `exp`, `ext` and `transferability`
+  exp?: number;
+  ext?: Record<string, unknown>;
+  transferability?: Transferability;
+};
+
+/**
+ * The outcome of one row of a `forge.batch` request: the minted token's hash,
+ * or why the row was not minted or delivered.
+ */
+export type BatchMintResult = {
+  index: number;
+  to?: string;
+  tokenHash?: string;
+  error?: string;
+};
+
+/**
+ * One party's side of a `swap`: the inputs they give up, with witnesses
+ * signed over `swapSpendOuts` of both legs, and the outputs those inputs pay
+ * for. `from` is the party's key: it receives a fungible leg's change and is
+ * the sender transfer policies see.
+ */
+export type SwapLeg = {
+  from: string;
+  ins: string[];
+  outs: (string | Recipient)[];
+  witnessData?: Witness[];
+};
+
+/**
+ * Blind-signature ecash on a fungible forge (`config.ecash`). The forge signs
+ * ecash of the default set in `denominations` (powers of two from 1 to 2^20
+ * by default), each with its own key derived from the forge's secret key.
+ */
+export type EcashConfig = {
+  denominations?: number[];
+};
+
+/**
+ * How a TAT forge renews TATs that carry an `exp` (`config.renewal`). Each
+ * renewal re-issues the TAT with the same tokenID and `exp` moved `period`
+ * seconds later. Holders pay `price` of the forge's fungible tokens from
+ * `setID` to `treasury` (the owner by default); booths renew under their
+ * authorization instead.
+ */
+export type RenewalPolicy = {
+  period: number; // Seconds each renewal adds to exp
+  gracePeriod?: number; // Seconds after exp the TAT can still be renewed
+  window?: number; // Seconds before exp renewal opens; any time when omitted
+  price?: number;
+  setID?: string;
+  treasury?: string;
+};
+
+/**
+ * One tranche token of a vesting grant. `revoked` tranches were taken back
+ * by the owner before they unlocked.
+ */
+export type GrantTranche = {
+  tokenHash: string;
+  amount: number;
+  unlockAt: number;
+  revoked?: boolean;
+};
+
+/**
+ * A vesting grant issued with `forge.grant`: the tranche tokens minted to
+ * `to`, each time-locked until it vests.
+ */
+export type GrantRecord = {
+  id: string;
+  to: string;
+  setID?: string;
+  createdAt: number;
+  revokedAt?: number;
+  tranches: GrantTranche[];
+};
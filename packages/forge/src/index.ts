@@ -1,8 +1,41 @@
 export { ForgeBase } from "./ForgeBase.js";
 export { FungibleForge } from "./FungibleForge.js";
 export { NonFungibleForge } from "./NonFungibleForge.js";
+export { TransparencyLog } from "./TransparencyLog.js";
+export { AdminAuditTrail } from "./AdminAuditTrail.js";
+export { RecordStore } from "./RecordStore.js";
+export { SimpleTransferPolicy } from "./TransferPolicy.js";
+export type {
+  TransferPolicy,
+  TransferPolicyResult,
+  TransferRequest,
+  TransferRules,
+} from "./TransferPolicy.js";
 export type { ForgeConfig } from "./ForgeConfig.js";
 export type { ForgeState } from "./ForgeState.js";
+export type {
+  CatalogEntry,
+  AuthorizationMint,
+  AuthorizationRecord,
+  SetSupply,
+  PendingTx,
+  IdempotentResult,
+  KeyRotationRecord,
+  AdminAuditEntry,
+  PauseScope,
+  ForgerPolicy,
+  ForgerUsage,
+  BatchMintRecipient,
+  TATMetadata,
+  TATTemplate,
+  BatchMintResult,
+  SwapLeg,
+  EcashConfig,
+  RenewalPolicy,
+  GrantRecord,
+  GrantTranche,
+  Witness,
+} from "./Types.js";
 
 // Alias for backwards compatibility
 export { NonFungibleForge as TATForge } from "./NonFungibleForge.js";
@@ -1,4 +1,5 @@
 import { Token } from "@tat-protocol/token";
+import type { KeyRotation } from "@tat-protocol/utils";
 import { AccessPolicy } from "./types.js";
 
 /**
@@ -110,6 +111,17 @@ export interface AccessPolicyInterface {
    */
   removeAllowedIssuer(issuerPubkey: string): void;
 
+  /**
+   * Follow a forge key rotation
+   *
+   * Optional. Called when the gate accepts a rotation announcement, so
+   * issuer rules written for the retired key cover its successor. Rules are
+   * never carried back from the successor to the retired key.
+   *
+   * @param rotation - The verified rotation
+   */
+  followKeyRotation?(rotation: KeyRotation): void;
+
   /**
    * Block a specific token
    *
@@ -1,7 +1,14 @@
 import { StorageInterface } from "@tat-protocol/storage";
 import { KeyPair } from "@tat-protocol/hdkeys";
 import { Token } from "@tat-protocol/token";
-import { DebugLogger } from "@tat-protocol/utils";
+import {
+  DebugLogger,
+  verifyKeyRotation,
+  verifyTokenRevocation,
+  isRevocationActive,
+  type KeyRotation,
+  type TokenRevocation,
+} from "@tat-protocol/utils";
 import { randomBytes } from "crypto";
 import {
   ValidationResult,
@@ -42,6 +49,8 @@ export interface GateState {
   attempts: Map<string, AccessAttempt>; // attemptId -> attempt
   redemptions: Map<string, Redemption>; // tokenHash -> redemption
   blockedTokens: Set<string>; // Blacklisted token hashes
+  keyRotations: Map<string, KeyRotation>; // retired issuer pubkey -> rotation
+  revocations: Map<string, TokenRevocation>; // `${signer}:${tokenHash}` -> that signer's latest notice
   gateConfig?: GateMetadata;
 }
 
@@ -276,6 +285,40 @@ export abstract class GateBase {
       }
     }
 
+    // A retired issuer key only vouches for tokens issued before its rotation,
+    // and a compromised one for none. Only the forge knows which tokens a
+    // retired key really signed, so a leaked one can still backdate `iat`
+    // here until its rotation is marked compromised.
+    const rotation = this.state.keyRotations.get(token.payload.iss);
+    if (
+      rotation &&
+      (rotation.compromised || token.payload.iat > rotation.rotatedAt)
+    ) {
+      return {
+        valid: false,
+        token,
+        reason: "Token was issued by a retired forge key",
+        timestamp,
+      };
+    }
+
+    // The issuer may have revoked or frozen this token. Only notices signed by
+    // its key or a key it rotated to count, the newest of them deciding.
+    const [revocation] = this.issuerKeys(token.payload.iss)
+      .map((key) =>
+        this.state.revocations.get(`${key}:${token.header.token_hash}`),
+      )
+      .filter((notice): notice is TokenRevocation => notice !== undefined)
+      .sort((a, b) => b.createdAt - a.createdAt);
+    if (revocation && isRevocationActive(revocation)) {
+      return {
+        valid: false,
+        token,
+        reason: `Token is ${revocation.status} by its issuer (${revocation.reason ?? "other"})`,
+        timestamp,
+      };
+    }
+
     // Check expiration
     if (!this.accessPolicy || this.accessPolicy.policy.requireNotExpired) {
       if (token.isExpired()) {
@@ -288,6 +331,19 @@ export abstract class GateBase {
       }
     }
 
+    // Credentials meant for their first holder only
+    if (
+      this.accessPolicy?.policy.requireNotTransferred &&
+      (token.payload.transfers ?? 0) > 0
+    ) {
+      return {
+        valid: false,
+        token,
+        reason: "Token has been transferred",
+        timestamp,
+      };
+    }
+
     return {
       valid: true,
       token,
@@ -501,6 +557,106 @@ export abstract class GateBase {
     return this.state.blockedTokens.has(tokenHash);
   }
 
+  // =============================
+  // Issuer Key Rotation
+  // =============================
+
+  /**
+   * Follow a forge key rotation
+   *
+   * Accepts a KEY_ROTATION announcement (kind 30150) signed by the retiring
+   * key and countersigned by its successor, so no key can claim another
+   * issuer's key as its own. Tokens of the retired key stay valid if issued
+   * before the rotation, and the access policy is told so its issuer rules
+   * cover the new key. The
+   * first rotation seen for a key is kept, except that a later announcement
+   * marking the key compromised is applied: none of its tokens are accepted
+   * from then on, and a newer unmarked announcement does not undo that.
+   *
+   * @param event - The signed announcement
+   * @returns The rotation it announces
+   */
+  async followKeyRotation(
+    event: Parameters<typeof verifyKeyRotation>[0],
+  ): Promise<KeyRotation> {
+    const rotation = verifyKeyRotation(event);
+    if (!rotation) {
+      throw new Error("Invalid key rotation announcement");
+    }
+    const known = this.state.keyRotations.get(rotation.oldPubkey);
+    if (known) {
+      if (known.newPubkey !== rotation.newPubkey) {
+        throw new Error(
+          `Key ${rotation.oldPubkey} was already rotated to ${known.newPubkey}`,
+        );
+      }
+      if (rotation.compromised && !known.compromised) {
+        known.compromised = true;
+        await this._saveState();
+      }
+      return known;
+    }
+    this.state.keyRotations.set(rotation.oldPubkey, rotation);
+    this.accessPolicy?.followKeyRotation?.(rotation);
+    await this._saveState();
+    Debug.log(
+      `Following key rotation ${rotation.oldPubkey} -> ${rotation.newPubkey}`,
+      "Gate",
+    );
+    return rotation;
+  }
+
+  // `iss` followed by the keys it was rotated to, stopping at a cycle
+  private issuerKeys(iss: string): string[] {
+    const keys: string[] = [];
+    let key: string | undefined = iss;
+    while (key && !keys.includes(key)) {
+      keys.push(key);
+      key = this.state.keyRotations.get(key)?.newPubkey;
+    }
+    return keys;
+  }
+
+  // =============================
+  // Token Revocation
+  // =============================
+
+  /**
+   * Follow an issuer's token revocation notice
+   *
+   * Accepts a TOKEN_REVOCATION notice (kind 30160) signed by the token's
+   * issuer. Revoked and frozen tokens fail basic validation until the notice
+   * lapses or a newer `active` notice reinstates the token. Notices are kept
+   * per signer, so one signer's notice never replaces another's, and only
+   * those of the token's issuer or a key it rotated to are applied. Older
+   * notices from a signer than the one already held are ignored.
+   *
+   * @param event - The signed notice
+   * @returns The notice
+   */
+  async followTokenRevocation(
+    event: Parameters<typeof verifyTokenRevocation>[0],
+  ): Promise<TokenRevocation> {
+    const revocation = verifyTokenRevocation(event);
+    if (!revocation) {
+      throw new Error("Invalid token revocation notice");
+    }
+    // An `active` notice is kept too, so an older revocation replayed later
+    // does not undo the reinstatement.
+    const key = `${revocation.issuer}:${revocation.tokenHash}`;
+    const known = this.state.revocations.get(key);
+    if (known && known.createdAt > revocation.createdAt) {
+      return known;
+    }
+    this.state.revocations.set(key, revocation);
+    await this._saveState();
+    Debug.log(
+      `Token ${revocation.tokenHash} is ${revocation.status} by ${revocation.issuer}`,
+      "Gate",
+    );
+    return revocation;
+  }
+
   // =============================
   // State Management
   // =============================
@@ -513,13 +669,29 @@ export abstract class GateBase {
         attempts: new Map(parsed.attempts || []),
         redemptions: new Map(parsed.redemptions || []),
         blockedTokens: new Set(parsed.blockedTokens || []),
+        keyRotations: new Map(parsed.keyRotations || []),
+        // Notices were once keyed by token hash alone.
+        revocations: new Map(
+          (parsed.revocations || []).map(
+            ([, revocation]: [string, TokenRevocation]) => [
+              `${revocation.issuer}:${revocation.tokenHash}`,
+              revocation,
+            ],
+          ),
+        ),
         gateConfig: parsed.gateConfig || this.config.gateConfig,
       };
+      // Issuer rules loaded from config need the rotations re-applied.
+      for (const rotation of this.state.keyRotations.values()) {
+        this.accessPolicy?.followKeyRotation?.(rotation);
+      }
     } else {
       this.state = {
         attempts: new Map(),
         redemptions: new Map(),
         blockedTokens: new Set(),
+        keyRotations: new Map(),
+        revocations: new Map(),
         gateConfig: this.config.gateConfig,
       };
       await this._saveState();
@@ -531,6 +703,8 @@ export abstract class GateBase {
       attempts: Array.from(this.state.attempts.entries()),
       redemptions: Array.from(this.state.redemptions.entries()),
       blockedTokens: Array.from(this.state.blockedTokens),
+      keyRotations: Array.from(this.state.keyRotations.entries()),
+      revocations: Array.from(this.state.revocations.entries()),
       gateConfig: this.state.gateConfig,
     };
     await this.storage.setItem(this.stateKey, JSON.stringify(serialized));
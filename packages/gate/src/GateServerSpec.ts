@@ -514,6 +514,11 @@ export class GateServerSpec {
       return { valid: false, reason: "Token is expired" };
     }
 
+    // Check the credential has not changed hands
+    if (requirements.notTransferred && (token.payload.transfers ?? 0) > 0) {
+      return { valid: false, reason: "Token has been transferred" };
+    }
+
     // Check token ID pattern
     if (requirements.tokenIdPattern && token.payload.tokenID) {
       if (!this.isSafeTokenIdPattern(requirements.tokenIdPattern)) {
@@ -1,4 +1,5 @@
 import type { Token } from "@tat-protocol/token";
+import type { KeyRotation } from "@tat-protocol/utils";
 import type {
   AccessPolicyInterface,
   PolicyEvaluationResult,
@@ -67,6 +68,16 @@ export class SimpleAccessPolicy implements AccessPolicyInterface {
     this.policy.allowedIssuers = Array.from(this.allowedIssuers);
   }
 
+  followKeyRotation({ oldPubkey, newPubkey }: KeyRotation): void {
+    // Rules follow the key forward only: a rule on the new key says nothing
+    // about whoever announced a rotation to it.
+    for (const issuers of [this.allowedIssuers, this.blockedIssuers]) {
+      if (issuers.has(oldPubkey)) issuers.add(newPubkey);
+    }
+    this.policy.allowedIssuers = Array.from(this.allowedIssuers);
+    this.policy.blockedIssuers = Array.from(this.blockedIssuers);
+  }
+
   blockToken(tokenHash: string): void {
     this.blockedTokens.add(tokenHash);
     this.policy.blockedTokens = Array.from(this.blockedTokens);
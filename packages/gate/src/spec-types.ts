@@ -18,6 +18,7 @@ export interface TurnstileRequirements {
   tokenIdPattern?: string; // Regex pattern (e.g., "premium-.*")
   minTier?: string; // Minimum tier level
   notExpired: boolean; // Must not be expired
+  notTransferred?: boolean; // Must still be with its first holder
   customCheck?: {
     // App-specific requirements
     field: string; // ext field path
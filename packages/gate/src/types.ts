@@ -51,6 +51,7 @@ export interface AccessPolicy {
   requireValidSignature: boolean; // Verify token signature
   requireNotExpired: boolean; // Check expiration
   requireNotSpent?: boolean; // Check with forge if token is spent
+  requireNotTransferred?: boolean; // Reject TATs that changed hands since minting
   customRules?: Array<{
     name: string;
     check: (
@@ -10,6 +10,7 @@ import {
   NWPCResponse,
   NWPCRoute,
   NWPCHandler,
+  NWPCRouteMetadata,
   MessageHookOptions,
 } from "./NWPCResponseTypes.js";
 import {
@@ -271,7 +272,10 @@ export abstract class NWPCBase implements INWPCBase {
     }
   }
 
-  public use(method: string, ...handlers: NWPCHandler[]): void {
+  public use(
+    method: string,
+    ...handlers: (NWPCHandler | NWPCRouteMetadata)[]
+  ): void {
     return this.router.use(method, ...handlers);
   }
 
@@ -46,12 +46,15 @@ const Debug = DebugLogger.getInstance();
  * ```
  */
 export class NWPCPeer extends NWPCBase {
+  // Pending requests by id, with the method and the key each was sent to.
   protected responseHandlers: Map<
     string,
     {
       resolve: (response: NWPCResponse) => void;
       reject: (error: Error) => void;
       timeoutId: ReturnType<typeof setTimeout>;
+      method: string;
+      recipient: string;
     }
   >;
 
@@ -245,6 +248,8 @@ export class NWPCPeer extends NWPCBase {
         resolve,
         reject,
         timeoutId,
+        method,
+        recipient: recipientPubkey,
       });
     });
 
@@ -5,20 +5,58 @@ import {
   NWPCState,
   NWPCContext,
   NWPCMessageData,
+  NWPCRequest,
+  NWPCResponseObject,
   NWPC_SPEC_ERRORS,
 } from "@tat-protocol/nwpc";
-import { Token } from "@tat-protocol/token";
-import { DebugLogger, Unwrap, UnwrapWithSigner, spendAuthDigest } from "@tat-protocol/utils";
+import { Token, verifyReceipt } from "@tat-protocol/token";
+import type { Receipt } from "@tat-protocol/token";
+import {
+  DebugLogger,
+  Unwrap,
+  UnwrapWithSigner,
+  spendAuthDigest,
+  verifySignature,
+  htlcHashlock,
+  HTLC_CLAIM_KIND,
+  KEY_ROTATION_KIND,
+  verifyKeyRotation,
+  TOKEN_REVOCATION_KIND,
+  verifyTokenRevocation,
+  isRevocationActive,
+  logEntryLeaf,
+  logRootDigest,
+  merkleLeafHash,
+  verifyMerkleConsistency,
+  verifyMerkleInclusion,
+  MAX_DENOMINATION_TOKENS,
+  powerOfTwoDenominations,
+  swapSpendOuts,
+  transferRestriction,
+  blindMessage,
+  unblindSignature,
+  ecashSpendOuts,
+  encodeEcashToken,
+  decodeEcashToken,
+  type BlindSignature,
+  type EcashProof,
+  type KeyRotation,
+  type Transferability,
+  type TokenRevocation,
+  type LogEntry,
+  type LogRoot,
+} from "@tat-protocol/utils";
 import { StorageInterface, BrowserStore, NodeStore } from "@tat-protocol/storage";
-import { generateSecretKey, getPublicKey } from 'nostr-tools';
+import { generateSecretKey, getPublicKey, type Event } from 'nostr-tools';
 import { KeyPair } from '@tat-protocol/hdkeys';
 import { Transaction } from "./Transaction.js";
-import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import type { FungibleOut, NonFungibleOut } from "./Transaction.js";
+import { bytesToHex, hexToBytes, randomBytes } from "@noble/hashes/utils";
 import { NDKEvent, NDKSubscription } from "@nostr-dev-kit/ndk";
 import { HDKey } from "@tat-protocol/hdkeys";
 import { validateMnemonic } from '@scure/bip39';
 import { wordlist as englishWordlist } from '@scure/bip39/wordlists/english';
-import type { Signer } from "@tat-protocol/types";
+import type { FeeQuote, Signer } from "@tat-protocol/types";
 // import { KeySigner } from "@tat-protocol/signers";
 
 export type token_hash = string;
@@ -60,6 +98,60 @@ export interface PocketConfig extends NWPCConfig {
     requestHandlers?: Map<string, NWPCHandler>;
     /** Allow storing sensitive state in browser storage without encryption */
     allowInsecureStorage?: boolean;
+    /** Re-denominate fungible tokens automatically as they arrive (see `rebalance`) */
+    denominationPolicy?: DenominationPolicy;
+}
+
+/**
+ * How a pocket keeps each issuer set's fungible tokens in a healthy mix. When
+ * more than `maxTokens` (default 64) are held, the smallest are consolidated
+ * into one; with `powerOfTwo`, an odd-sized token is split into powers of two
+ * as long as the count stays within `maxTokens`.
+ */
+export interface DenominationPolicy {
+    maxTokens?: number;
+    powerOfTwo?: boolean;
+}
+
+/**
+ * One side of a swap: a TAT by `tokenID`, or an `amount` of a fungible set
+ * (`setID`, default "-").
+ */
+export type SwapAsset = { tokenID: string } | { amount: number; setID?: string };
+
+/**
+ * A party's leg of a swap, in the shape the forge's `swap` method takes.
+ */
+export interface SwapLeg {
+    from: string;
+    ins: string[];
+    outs: (FungibleOut | NonFungibleOut)[];
+    witnessData?: (string | string[])[];
+}
+
+/**
+ * A swap being negotiated between two pockets of the same issuer. `legs[0]`
+ * is the maker's, built by `createSwapOffer`; `legs[1]` asks for `want` and
+ * is filled in and signed by the taker with `acceptSwapOffer`.
+ */
+export interface SwapOffer {
+    issuer: string;
+    want: SwapAsset;
+    legs: SwapLeg[];
+}
+
+/**
+ * A vesting grant as held in a pocket: how much of it has vested (is
+ * spendable and counted in the balance) and how much is still time-locked.
+ */
+export interface GrantPosition {
+    id: string;
+    setID: string;
+    total: number;
+    vested: number;
+    unvested: number;
+    nextUnlock?: number; // Unix time in seconds the next tranche vests
+    tranches: { tokenHash: string; amount: number; unlockAt: number; vested: boolean }[];
 }
 
 export interface PocketState extends NWPCState {
@@ -72,6 +164,13 @@ export interface PocketState extends NWPCState {
     balances: Map<string, Map<string, number>>;         //[issuerPubkey,setID, balance]. Hold the balance for each issuer
     tokenIndex: Map<string, Map<number, string[]>>; //[issuerPubkey, identifier(denomination), [tokenhash]], Hold the tokenhash for each denomination
     tatIndex: Map<string, Map<string, string>>; //[issuerPubkey, identifier(tokenID, tokenID:derivative-tokenId), tokenhash], Hold the tokenhash for each tokenID
+    tokenSets: Map<string, Map<string, string>>; //[issuerPubkey, tokenhash, setID], Hold the setID of each fungible token outside the default set
+    htlcSecrets: Map<string, string | null>; //[hashlock, secret], Hashes watched for an HTLC_CLAIM reveal; null until the secret is seen
+    logHeads: Map<string, LogRoot>; //[issuerPubkey, signed log root], Latest audited transparency log root of each forge
+    keyRotations: Map<string, KeyRotation>; //[retiredIssuerPubkey, rotation], Forge key rotations followed; tokens are filed under the newest key
+    revocations: Map<string, TokenRevocation>; //[tokenHash, notice], Latest revocation or freeze notice for each held token
+    ecash: Map<string, EcashProof[]>; //[issuerPubkey, proofs], Unspent ecash proofs of each forge
+    receipts: Map<string, Receipt>; //[requestId, receipt], Signed burn and transfer receipts from forges
     connected: boolean;
     activeSubscriptions: Map<string, unknown>;
 }
@@ -82,6 +181,8 @@ export interface HDKeys {
 
 const Debug = DebugLogger.getInstance();
 const SINGLE_USE_KEY_DERIVATION_BASE_PATH = "m/7'/23'/11'/16'/0";
+// Methods a forge answers with a separate receipt message after the response
+const RECEIPT_METHODS = new Set(['transfer', 'split', 'consolidate']);
 
 /**
  * Transaction data structure
@@ -89,19 +190,38 @@ const SINGLE_USE_KEY_DERIVATION_BASE_PATH = "m/7'/23'/11'/16'/0";
 interface TransactionData {
   ins?: (string | { token: string })[];
   outs?: unknown[];
-  witnessData?: string[];
+  // One entry per input; multisig inputs take an array with a slot per lock pubkey
+  witnessData?: (string | string[])[];
+  txId?: string;
   [key: string]: unknown;
 }
 
 export class Pocket extends NWPCPeer {
     declare protected state: PocketState;
+    declare protected config: PocketConfig;
     protected isInitialized!: boolean;
     private hdKey!: HDKey;
     /** Optional callback fired whenever a token is stored or deleted. */
     public onTokenChange?: () => void;
+    /** Optional callback fired when a watched HTLC hash has its secret revealed. */
+    public onHTLCSecret?: (hash: string, secret: string) => void;
+    /** Optional callback fired when the issuer revokes, freezes or reinstates a held token. */
+    public onTokenRevocation?: (revocation: TokenRevocation) => void;
+    /**
+     * Decides whether to co-sign a multisig transaction requested by `from`.
+     * Without it, `multisig.sign` requests are declined.
+     */
+    public onCosignRequest?: (tx: TransactionData, from: string) => boolean | Promise<boolean>;
     protected stateKey: string = '';
     private subscribedIssuers: Set<string> = new Set();
     private spentFeedSubscriptions: Map<string, NDKSubscription> = new Map();
+    private htlcClaimSubscriptions: Map<string, NDKSubscription> = new Map();
+    private keyRotationSubscriptions: Map<string, NDKSubscription> = new Map();
+    private revocationSubscriptions: Map<string, NDKSubscription> = new Map();
+    private rebalancing: Set<string> = new Set(); //[issuer:setID], Sets with a rebalance in flight
+    private swapOffers: Map<string, { leg: SwapLeg, want: SwapAsset, receiveKey: string }> = new Map(); //[maker leg's from key, offer], Offers made and not yet submitted
+    private nextVesting: Map<string, number> = new Map(); //[issuerPubkey, unlockAt], When the next held grant tranche of each issuer vests
+    private awaitingReceipts: Map<string, string> = new Map(); //[requestId, forgePubkey], Settled transfers whose receipt has not arrived yet
 
     // =============================
     // 1. Initialization & State Management
@@ -126,6 +246,7 @@ export class Pocket extends NWPCPeer {
         this.storage = storage;
 
         this.handleEvent = this.handleEvent.bind(this);
+        this.use('multisig.sign', this.handleCosignRequest.bind(this));
     }
 
     /**
@@ -234,7 +355,14 @@ export class Pocket extends NWPCPeer {
                     tokens: new Map(),
                     tokenIndex: new Map(),
                     tatIndex: new Map(),
+                    tokenSets: new Map(),
                     balances: new Map(),
+                    htlcSecrets: new Map(),
+                    logHeads: new Map(),
+                    keyRotations: new Map(),
+                    revocations: new Map(),
+                    ecash: new Map(),
+                    receipts: new Map(),
                 };
                 const seed = await HDKey.mnemonicToSeed(this.state.hdMasterKey.mnemonic);
                 this.hdKey = HDKey.fromMasterSeed(seed);
@@ -258,6 +386,16 @@ export class Pocket extends NWPCPeer {
             } else {
                 this.state.singleUseKeyNextIndex = Math.max(this.state.singleUseKeyNextIndex, minNextIndex);
             }
+            // State saved before token sets existed has no tokenSets index.
+            this.state.tokenSets = this.state.tokenSets ?? new Map();
+            // State saved before key rotations were followed has no keyRotations map.
+            this.state.keyRotations = this.state.keyRotations ?? new Map();
+            // State saved before revocation notices were followed has no revocations map.
+            this.state.revocations = this.state.revocations ?? new Map();
+            // State saved before ecash was supported has no ecash map.
+            this.state.ecash = this.state.ecash ?? new Map();
+            // State saved before forges signed receipts has no receipts map.
+            this.state.receipts = this.state.receipts ?? new Map();
             await this.rebuildIndexesAndBalances();
 
             // Subscribe to all single-use key pubkeys after loading state
@@ -267,6 +405,19 @@ export class Pocket extends NWPCPeer {
 
             for (const issuer of this.state.tokens.keys()) {
                 await this.subscribeToIssuerSpent(issuer);
+                await this.subscribeToKeyRotation(issuer);
+                await this.subscribeToRevocations(issuer);
+            }
+
+            // State saved before log auditing existed has no logHeads map.
+            this.state.logHeads = this.state.logHeads ?? new Map();
+
+            // State saved before HTLC watching existed has no htlcSecrets map.
+            this.state.htlcSecrets = this.state.htlcSecrets ?? new Map();
+            for (const [hash, secret] of this.state.htlcSecrets) {
+                if (secret === null) {
+                    await this.subscribeToHTLCClaims(hash);
+                }
             }
         } catch (error) {
             throw new Error(`Failed to load pocket state: ${error}`);
@@ -464,9 +615,11 @@ export class Pocket extends NWPCPeer {
             Debug.log('Rejecting received token: invalid issuer signature', 'Pocket');
             return;
         }
-        const issuer = token.payload.iss;
+        const issuer = this.currentIssuer(token.payload.iss);
         // Subscribe to spent events for this issuer if not already
         await this.subscribeToIssuerSpent(issuer);
+        await this.subscribeToKeyRotation(issuer);
+        await this.subscribeToRevocations(issuer);
         // Key by the verified (recomputed) hash, never the claimed header value.
         const tokenHash = token.header.token_hash;
         const issuerTokens = this.state.tokens.get(issuer);
@@ -482,6 +635,9 @@ export class Pocket extends NWPCPeer {
         await this.reindexIssuerState(issuer);
         await this.savePocketState();
         this.onTokenChange?.();
+        if (this.config.denominationPolicy && token.payload.amount !== undefined && !token.payload.multisig) {
+            this.scheduleRebalance(issuer, token.payload.setID || '-');
+        }
     }
 
     /**
@@ -502,7 +658,7 @@ export class Pocket extends NWPCPeer {
     }
 
     /**
-     * Rebuild a single issuer's tokenIndex/tatIndex/balances from state.tokens[issuer].
+     * Rebuild a single issuer's tokenIndex/tatIndex/tokenSets/balances from state.tokens[issuer].
      * state.tokens is treated as the only source of truth.
      */
     private async reindexIssuerState(issuer: string) {
@@ -511,6 +667,7 @@ export class Pocket extends NWPCPeer {
             this.state.tokens.delete(issuer);
             this.state.tokenIndex.delete(issuer);
             this.state.tatIndex.delete(issuer);
+            this.state.tokenSets.delete(issuer);
             this.state.balances.delete(issuer);
             return;
         }
@@ -518,18 +675,35 @@ export class Pocket extends NWPCPeer {
         const canonicalTokens = new Map<string, string>();
         const tokenIndex = new Map<number, string[]>();
         const tatIndex = new Map<string, string>();
+        const tokenSets = new Map<string, string>();
         const balances = new Map<string, number>();
+        const now = Math.floor(Date.now() / 1000);
+        let nextVesting = Infinity;
 
         for (const tokenJWT of issuerTokens.values()) {
             try {
                 const token = await new Token().restore(String(tokenJWT));
-                if (token.payload.iss !== issuer) {
+                if (this.currentIssuer(token.payload.iss) !== issuer) {
                     continue;
                 }
 
                 const tokenHash = token.header.token_hash;
                 canonicalTokens.set(tokenHash, tokenJWT);
 
+                // Multisig tokens need co-signers to spend, so they stay out
+                // of the indexes and balances used for automatic transfers.
+                if (token.payload.multisig) {
+                    continue;
+                }
+
+                // Grant tranches are time-locked until they vest; the forge
+                // refuses to spend them before then, so they are not balance.
+                const timeLock = token.payload.timeLock ?? 0;
+                if (token.payload.grant && timeLock > now) {
+                    nextVesting = Math.min(nextVesting, timeLock);
+                    continue;
+                }
+
                 const tokenID = token.payload.tokenID;
                 if (tokenID !== undefined && tokenID !== null) {
                     tatIndex.set(String(tokenID), tokenHash);
@@ -541,16 +715,26 @@ export class Pocket extends NWPCPeer {
                     continue;
                 }
                 const denomination = amount;
-                const setID = (token.payload.ext?.setID as string) || "-";
+                // setID lives at the payload top level; older tokens carried it in ext.
+                const setID = token.payload.setID || (token.payload.ext?.setID as string) || "-";
                 const hashes = tokenIndex.get(denomination) || [];
                 hashes.push(tokenHash);
                 tokenIndex.set(denomination, hashes);
+                if (setID !== "-") {
+                    tokenSets.set(tokenHash, setID);
+                }
                 balances.set(setID, (balances.get(setID) || 0) + amount);
             } catch {
                 // Skip malformed/unrestorable tokens during reconciliation.
             }
         }
 
+        if (Number.isFinite(nextVesting)) {
+            this.nextVesting.set(issuer, nextVesting);
+        } else {
+            this.nextVesting.delete(issuer);
+        }
+
         if (canonicalTokens.size > 0) {
             this.state.tokens.set(issuer, canonicalTokens);
         } else {
@@ -569,6 +753,12 @@ export class Pocket extends NWPCPeer {
             this.state.tatIndex.delete(issuer);
         }
 
+        if (tokenSets.size > 0) {
+            this.state.tokenSets.set(issuer, tokenSets);
+        } else {
+            this.state.tokenSets.delete(issuer);
+        }
+
         if (balances.size > 0) {
             this.state.balances.set(issuer, balances);
         } else {
@@ -681,13 +871,20 @@ export class Pocket extends NWPCPeer {
             if (message.result?.spent) {
                 Debug.log("received spent token" + message.result, 'Pocket');
                 const tokenHash = message.result.spent;
-                const tokenJWT = this.state.tokens.get(message.result.issuer)?.get(tokenHash);
+                const tokenJWT = this.state.tokens.get(this.currentIssuer(message.result.issuer))?.get(tokenHash);
                 if (tokenJWT) {
                     await this.deleteToken(tokenJWT);
                 }
                 await this.savePocketState();
             }
 
+            // Keep the forge's signed receipt for a burn or transfer
+            if (message.result?.receipt) {
+                const forge = this.responseHandlers.get(message.id)?.recipient
+                    ?? this.awaitingReceipts.get(message.id);
+                await this.storeReceipt(message.result.receipt, message.id, forge, context.sender);
+            }
+
             // Always resolve a pending request() — even when a token was embedded.
             // Previously this was in an `else` branch, so token responses never resolved
             // the caller, causing 15s timeouts whenever the server sent token + metadata.
@@ -702,6 +899,10 @@ export class Pocket extends NWPCPeer {
                 if (handler) {
                     clearTimeout(handler.timeoutId);
                     this.responseHandlers.delete(message.id);
+                    // Transfer receipts follow the outputs, after this response
+                    if (RECEIPT_METHODS.has(handler.method) && !message.error && !message.result?.receipt) {
+                        this.awaitingReceipts.set(message.id, handler.recipient);
+                    }
                     handler.resolve(message);
                     Debug.log("handleEvent message" + message, 'Pocket');
                     if (message.error?.code == NWPC_SPEC_ERRORS.TOKEN_SPENT.code) {
@@ -722,7 +923,7 @@ export class Pocket extends NWPCPeer {
                         const tokenHash = spentMeta?.spent;
                         const issuer = spentMeta?.issuer;
                         const tokenJWT = tokenHash && issuer
-                            ? this.state.tokens.get(issuer)?.get(tokenHash)
+                            ? this.state.tokens.get(this.currentIssuer(issuer))?.get(tokenHash)
                             : undefined;
                         if (tokenJWT) {
                             await this.deleteToken(tokenJWT);
@@ -732,6 +933,12 @@ export class Pocket extends NWPCPeer {
                         await this.hooks.afterResponse(message, context);
                     }
                 }
+            } else if ('method' in message && this.requestHandlers.has(message.method)) {
+                // Requests from other wallets, e.g. multisig.sign from a co-signer
+                const request = message as NWPCRequest;
+                const res = new NWPCResponseObject(request.id, this, context);
+                const response = await this.router.handle(request, context, res);
+                await this.sendResponse(response, event.pubkey);
             } else {
                 Debug.log("handleEvent secondary message (no handler)" + message.id, 'Pocket');
             }
@@ -833,7 +1040,7 @@ export class Pocket extends NWPCPeer {
         for (const { jwt } of tokens) {
             try {
                 const tokenObj = await new Token().restore(jwt);
-                const issuer = tokenObj.payload.iss;
+                const issuer = this.currentIssuer(tokenObj.payload.iss);
                 const tokenHash = tokenObj.header.token_hash;
                 const existing = this.state.tokens.get(issuer);
                 if (existing?.has(tokenHash)) {
@@ -939,11 +1146,11 @@ export class Pocket extends NWPCPeer {
      * ```
      */
     public getToken(issuer: string, tokenHash: string) {
-        return this.state.tokens.get(issuer)?.get(tokenHash);
+        return this.state.tokens.get(this.currentIssuer(issuer))?.get(tokenHash);
     }
 
     public getTokenIndex(issuer: string, denomination: number) {
-        return this.state.tokenIndex.get(issuer)?.get(denomination);
+        return this.state.tokenIndex.get(this.currentIssuer(issuer))?.get(denomination);
     }
 
     /**
@@ -967,7 +1174,30 @@ export class Pocket extends NWPCPeer {
      * ```
      */
     public getTAT(issuer: string, tokenID: string) {
-        return this.state.tatIndex.get(issuer)?.get(tokenID);
+        return this.state.tatIndex.get(this.currentIssuer(issuer))?.get(tokenID);
+    }
+
+    /**
+     * Reads the transfer restriction of a TAT held in this pocket.
+     *
+     * Soulbound TATs never change hands, `issuer` TATs can only be sent back
+     * to their issuer and `limited` TATs can be sent `maxTransfers` times in
+     * all. `sendTAT` checks this before asking the forge.
+     *
+     * @param issuer - The public key of the token issuer (forge)
+     * @param tokenID - The unique identifier of the TAT
+     * @returns The restriction (none for freely transferable TATs) and how many times the TAT has changed hands, or undefined if this pocket does not hold it
+     */
+    public async getTransferability(issuer: string, tokenID: string): Promise<{ transferability?: Transferability, transfers: number } | undefined> {
+        const token = await this.restoreTAT(issuer, tokenID);
+        if (!token) return undefined;
+        return { transferability: token.payload.transferability, transfers: token.payload.transfers ?? 0 };
+    }
+
+    private async restoreTAT(issuer: string, tokenID: string): Promise<Token | undefined> {
+        const tokenHash = this.getTAT(issuer, tokenID);
+        const jwt = tokenHash && this.getToken(issuer, tokenHash);
+        return jwt ? new Token().restore(jwt) : undefined;
     }
 
     /**
@@ -978,6 +1208,9 @@ export class Pocket extends NWPCPeer {
      * denominations, or token series). Use "-" as the setID for the default token set.
      *
      * @param issuer - The public key of the token issuer (forge)
+     * Vesting grant tranches count once they vest; call `reconcileBalances` or
+     * `getGrants` to take in tranches that vested since tokens last changed.
+     *
      * @param setID - The token set identifier. Use "-" for default set
      * @returns The current balance, or undefined if no tokens exist for this issuer/setID
      *
@@ -993,7 +1226,7 @@ export class Pocket extends NWPCPeer {
      */
     public getBalance(issuer: string, setID: string) {
         setID = setID || "-";
-        return this.state.balances.get(issuer)?.get(setID);
+        return this.state.balances.get(this.currentIssuer(issuer))?.get(setID);
     }
 
     /**
@@ -1014,45 +1247,30 @@ export class Pocket extends NWPCPeer {
     // =============================
 
     /**
-     * Helper to build witness data for P2PK tokens
+     * Helper to build witness data for P2PK and multisig tokens. Multisig inputs
+     * keep the signatures already present in `existing` (e.g. from co-signers)
+     * and get this pocket's own signatures added to the remaining slots.
      */
-    private async buildWitnessData(inputs: Token[], outs: unknown[]): Promise<string[]> {
-        const witnessData: string[] = [];
-        const mainPubkey = this.publicKey || this.keys.publicKey;
+    private async buildWitnessData(
+        inputs: Token[],
+        outs: unknown[],
+        existing?: (string | string[])[]
+    ): Promise<(string | string[])[]> {
+        const witnessData: (string | string[])[] = [];
         const missingLockKeys = new Set<string>();
-        for (const token of inputs) {
-            if (token.payload.P2PKlock) {
-                // Bind the witness to this transfer's outputs so it cannot be
-                // replayed to redirect the input elsewhere (audit finding C6).
-                const dataToSign = spendAuthDigest(token.header.token_hash, outs);
+        for (const [i, token] of inputs.entries()) {
+            // Bind the witness to this transfer's outputs so it cannot be
+            // replayed to redirect the input elsewhere (audit finding C6).
+            const dataToSign = spendAuthDigest(token.header.token_hash, outs);
+            if (token.payload.multisig) {
+                witnessData.push(await this.signMultisigInput(token, dataToSign, existing?.[i]));
+            } else if (token.payload.P2PKlock) {
                 const lockKey = token.payload.P2PKlock;
-
-                if (lockKey === mainPubkey) {
-                    // Main key — use signer if available (avoids empty secretKey issue)
-                    if (this.signer) {
-                        const sig = await this.signer.sign(dataToSign);
-                        witnessData.push(sig);
-                    } else if (this.keys.secretKey) {
-                        const sig = await token.sign(dataToSign, this.keys);
-                        witnessData.push(bytesToHex(sig));
-                    } else {
-                        missingLockKeys.add(lockKey);
-                        witnessData.push("");
-                    }
-                } else {
-                    // Single-use key: recover deterministically from mnemonic if cache is missing.
-                    const singleUseKey = await this.findOrRecoverSingleUseKeyByPubkey(lockKey);
-                    if (singleUseKey?.secretKey) {
-                        const sig = await token.sign(dataToSign, {
-                            publicKey: singleUseKey.publicKey,
-                            secretKey: singleUseKey.secretKey,
-                        });
-                        witnessData.push(bytesToHex(sig));
-                    } else {
-                        missingLockKeys.add(lockKey);
-                        witnessData.push("");
-                    }
+                const sig = await this.signSpend(token, dataToSign, lockKey);
+                if (!sig) {
+                    missingLockKeys.add(lockKey);
                 }
+                witnessData.push(sig ?? "");
             } else {
                 witnessData.push("");
             }
@@ -1063,15 +1281,224 @@ export class Pocket extends NWPCPeer {
         return witnessData;
     }
 
+    /**
+     * Signs a spend digest with the key behind `lockKey`, if this pocket holds it.
+     * @returns The hex signature, or null when the key is not ours
+     */
+    private async signSpend(token: Token, dataToSign: Uint8Array, lockKey: string): Promise<string | null> {
+        const mainPubkey = this.publicKey || this.keys.publicKey;
+        if (lockKey === mainPubkey) {
+            // Main key — use signer if available (avoids empty secretKey issue)
+            if (this.signer) {
+                return await this.signer.sign(dataToSign);
+            }
+            if (this.keys.secretKey) {
+                return bytesToHex(await token.sign(dataToSign, this.keys));
+            }
+            return null;
+        }
+        // Single-use key: recover deterministically from mnemonic if cache is missing.
+        const singleUseKey = await this.findOrRecoverSingleUseKeyByPubkey(lockKey);
+        if (!singleUseKey?.secretKey) {
+            return null;
+        }
+        const sig = await token.sign(dataToSign, {
+            publicKey: singleUseKey.publicKey,
+            secretKey: singleUseKey.secretKey,
+        });
+        return bytesToHex(sig);
+    }
+
+    /**
+     * Fills this pocket's slots of a multisig witness. The witness has one entry
+     * per lock pubkey, in lock order; entries already present are kept.
+     */
+    private async signMultisigInput(
+        token: Token,
+        dataToSign: Uint8Array,
+        existing?: string | string[]
+    ): Promise<string[]> {
+        const { pubkeys } = token.payload.multisig!;
+        const witness = Array.isArray(existing) && existing.length === pubkeys.length
+            ? [...existing]
+            : pubkeys.map(() => "");
+        for (const [i, pubkey] of pubkeys.entries()) {
+            if (!witness[i]) {
+                witness[i] = (await this.signSpend(token, dataToSign, pubkey)) ?? "";
+            }
+        }
+        return witness;
+    }
+
+    /**
+     * Returns the multisig-locked tokens held for an issuer. They are not part of
+     * the balance, since spending one takes signatures from co-signers.
+     */
+    public async getMultisigTokens(issuer: string): Promise<string[]> {
+        const multisigTokens: string[] = [];
+        for (const tokenJWT of this.state.tokens.get(this.currentIssuer(issuer))?.values() ?? []) {
+            const token = await new Token().restore(String(tokenJWT));
+            if (token.payload.multisig) {
+                multisigTokens.push(tokenJWT);
+            }
+        }
+        return multisigTokens;
+    }
+
+    /**
+     * The vesting grants of an issuer this pocket holds tranches of, with how
+     * much of each has vested. Tranches that vested since the last update are
+     * taken into the balance first.
+     * @param issuer The issuer of the grants
+     */
+    public async getGrants(issuer: string): Promise<GrantPosition[]> {
+        issuer = this.currentIssuer(issuer);
+        await this.refreshVesting(issuer);
+        const now = Math.floor(Date.now() / 1000);
+        const grants = new Map<string, GrantPosition>();
+        for (const [tokenHash, tokenJWT] of this.state.tokens.get(issuer) ?? []) {
+            const { payload } = await new Token().restore(String(tokenJWT));
+            if (!payload.grant) {
+                continue;
+            }
+            const amount = Number(payload.amount ?? 0);
+            const unlockAt = payload.timeLock ?? 0;
+            const vested = unlockAt <= now;
+            const grant = grants.get(payload.grant.id) ?? {
+                id: payload.grant.id,
+                setID: payload.setID || '-',
+                total: 0,
+                vested: 0,
+                unvested: 0,
+                tranches: [],
+            };
+            grant.total += amount;
+            grant[vested ? 'vested' : 'unvested'] += amount;
+            if (!vested && (grant.nextUnlock === undefined || unlockAt < grant.nextUnlock)) {
+                grant.nextUnlock = unlockAt;
+            }
+            grant.tranches.push({ tokenHash, amount, unlockAt, vested });
+            grants.set(grant.id, grant);
+        }
+        for (const grant of grants.values()) {
+            grant.tranches.sort((a, b) => a.unlockAt - b.unlockAt);
+        }
+        return [...grants.values()];
+    }
+
+    /**
+     * Takes grant tranches that have vested into the issuer's indexes and
+     * balances once the next one is due.
+     */
+    private async refreshVesting(issuer: string) {
+        const due = this.nextVesting.get(issuer);
+        if (due !== undefined && due <= Math.floor(Date.now() / 1000)) {
+            await this.reindexIssuerState(issuer);
+            await this.savePocketState();
+            this.onTokenChange?.();
+        }
+    }
+
+    /**
+     * Collects multisig witnesses for a transaction from co-signers.
+     *
+     * Each co-signer receives the transaction over the `multisig.sign` NWPC method
+     * and returns it with its own slots signed. Only signatures that verify against
+     * their slot's pubkey are merged into `tx.witnessData`. Pass the result to
+     * `sendTx`, which adds this pocket's own signatures before submitting.
+     *
+     * @param tx - Transaction whose `ins` include multisig-locked tokens; `outs` must be final
+     * @param cosigners - Pubkeys of the co-signing pockets to ask, in order
+     * @param timeoutMs - How long to wait for each co-signer
+     * @returns The same transaction with the collected witnesses
+     * @throws {Error} If a co-signer declines or does not answer
+     *
+     * @example
+     * ```typescript
+     * const tx = { ins: [treasuryToken], outs: [JSON.stringify({ to: vendor, amount: 40 })] };
+     * await pocket.requestCosignatures(tx, [cfoPubkey]);
+     * await pocket.sendTx('transfer', issuer, tx);
+     * ```
+     */
+    public async requestCosignatures(
+        tx: TransactionData,
+        cosigners: string[],
+        timeoutMs: number = 60000
+    ): Promise<TransactionData> {
+        const inputs = await Promise.all(
+            (tx.ins ?? []).map(input => new Token().restore(typeof input === 'string' ? input : input.token))
+        );
+        const outs = tx.outs ?? [];
+        for (const cosigner of cosigners) {
+            const response = await this.request('multisig.sign', tx, cosigner, undefined, timeoutMs);
+            if (response.error) {
+                throw new Error(`Co-signer ${cosigner} declined: ${response.error.message}`);
+            }
+            const returned = (response.result as { witnessData?: unknown[] } | undefined)?.witnessData ?? [];
+            tx.witnessData = inputs.map((token, i) => {
+                const current = tx.witnessData?.[i] ?? "";
+                const lock = token.payload.multisig;
+                const offered = returned[i];
+                if (!lock || !Array.isArray(offered)) {
+                    return current;
+                }
+                const digest = spendAuthDigest(token.header.token_hash, outs);
+                return lock.pubkeys.map((pubkey, slot) => {
+                    const existing = Array.isArray(current) ? current[slot] : "";
+                    if (existing) return existing;
+                    const sig = offered[slot];
+                    if (typeof sig !== 'string' || !sig) return "";
+                    try {
+                        return verifySignature(digest, hexToBytes(sig), pubkey) ? sig : "";
+                    } catch {
+                        return "";
+                    }
+                });
+            });
+        }
+        return tx;
+    }
+
+    /**
+     * Handles `multisig.sign`: signs this pocket's slots of the multisig inputs of
+     * a transaction sent by another wallet, if `onCosignRequest` approves it.
+     */
+    private async handleCosignRequest(req: NWPCRequest, context: NWPCContext, res: NWPCResponseObject) {
+        let tx: TransactionData;
+        try {
+            tx = JSON.parse(req.params);
+        } catch {
+            return res.error(NWPC_SPEC_ERRORS.PARSE_ERROR.code, NWPC_SPEC_ERRORS.PARSE_ERROR.message);
+        }
+        if (!Array.isArray(tx?.ins) || tx.ins.length === 0) {
+            return res.error(NWPC_SPEC_ERRORS.INVALID_PARAMS.code, 'Transaction inputs are required');
+        }
+        if (!this.onCosignRequest || !(await this.onCosignRequest(tx, context.sender))) {
+            return res.error(NWPC_SPEC_ERRORS.UNAUTHORIZED.code, 'Co-signing declined');
+        }
+        const outs = tx.outs ?? [];
+        const witnessData: (string | string[])[] = [];
+        for (const [i, input] of tx.ins.entries()) {
+            const token = await new Token().restore(typeof input === 'string' ? input : input.token);
+            witnessData.push(token.payload.multisig
+                ? await this.signMultisigInput(token, spendAuthDigest(token.header.token_hash, outs), tx.witnessData?.[i])
+                : tx.witnessData?.[i] ?? "");
+        }
+        return res.send({ witnessData });
+    }
+
     /**
      * Create and build a fungible token transfer transaction.
      * @param issuer The issuer of the token
      * @param to Recipient address
      * @param amount Amount to transfer
      * @param changeKey Address to send change to (optional)
+     * @param setID Token set to spend from; "-" for the default set
+     * @param fee The forge's fee on the transfer, covered by the selected inputs
      * @returns The built transaction structure
      */
-    public async createFungibleTransferTx(issuer: string, to: string, amount: number, changeKey?: string) {
+    public async createFungibleTransferTx(issuer: string, to: string, amount: number, changeKey?: string, setID: string = '-', fee: number = 0) {
+        await this.refreshVesting(this.currentIssuer(issuer));
         // Always use a new single-use key for change outputs
         const singleUseKey = await this.deriveSingleUseKey();
         // Save the new key to state (deriveSingleUseKey already does this)
@@ -1081,7 +1508,7 @@ export class Pocket extends NWPCPeer {
             [],
             changeKey || singleUseKey.publicKey // Use the new single-use key for change
         );
-        tx.to(issuer, to, amount);
+        tx.to(this.currentIssuer(issuer), to, amount, setID === '-' ? undefined : setID).withFee(fee);
         return tx.build();
     }
 
@@ -1098,7 +1525,7 @@ export class Pocket extends NWPCPeer {
             'transferTAT',
             this.state
         );
-        return tx.transferTAT(issuer, to, tokenID);
+        return tx.transferTAT(this.currentIssuer(issuer), to, tokenID);
     }
 
 
@@ -1113,7 +1540,7 @@ export class Pocket extends NWPCPeer {
      * @param to - The recipient's public key
      * @param tokenID - The unique identifier of the TAT to transfer
      * @returns Response from the issuer's forge after processing the transaction
-     * @throws {Error} If the TAT doesn't exist, is already spent, or is locked
+     * @throws {Error} If the TAT doesn't exist, is already spent, is locked, or its transferability forbids sending it to `to`
      *
      * @example
      * ```typescript
@@ -1128,6 +1555,11 @@ export class Pocket extends NWPCPeer {
      * @see getTAT to verify TAT ownership before transfer
      */
     public async sendTAT(issuer: string, to: string, tokenID: string) {
+        const token = await this.restoreTAT(issuer, tokenID);
+        const restricted = token && transferRestriction(token.payload, to, [token.payload.iss, this.currentIssuer(issuer)]);
+        if (restricted) {
+            throw new Error(restricted);
+        }
         const [method, tx] = this.createTATTransferTx(issuer, to, tokenID);
         Debug.log("sendTAT" + tx, 'Pocket');
         return this.sendTx(method, issuer, tx);
@@ -1144,6 +1576,8 @@ export class Pocket extends NWPCPeer {
      * @param to - The recipient's public key
      * @param amount - The amount to transfer (must be positive)
      * @param changeKey - Optional public key for change output. If not provided, a new single-use key is generated
+     * @param setID - Token set to spend from. Only tokens of this set are used as inputs. Defaults to "-"
+     * @param fee - The forge's fee on the transfer. Quoted with `quoteFee` when omitted
      * @returns Response from the issuer's forge after processing the transaction
      * @throws {Error} If insufficient balance or if tokens are locked/spent
      *
@@ -1167,17 +1601,466 @@ export class Pocket extends NWPCPeer {
      *
      * @see getBalance to check available balance before transfer
      */
-    public async transfer(issuer: string, to: string, amount: number, changeKey?: string) {
-        const [method, tx] = await this.createFungibleTransferTx(issuer, to, amount, changeKey);
+    public async transfer(issuer: string, to: string, amount: number, changeKey?: string, setID: string = '-', fee?: number) {
+        fee ??= (await this.quoteFee(issuer, amount)).fee;
+        const [method, tx] = await this.createFungibleTransferTx(issuer, to, amount, changeKey, setID, fee);
         Debug.log("transfer" + tx, 'Pocket');
         return this.sendTx(method, issuer, tx);
     }
 
+    /**
+     * Asks an issuer's forge what it charges for a transfer of `amount`. Forges
+     * that predate `fee.quote` charge nothing.
+     * @param issuer The issuer of the tokens
+     * @param amount The amount to send
+     * @returns The `fee`, the `total` the inputs must cover, and the fee's `treasury`
+     */
+    public async quoteFee(issuer: string, amount: number): Promise<FeeQuote> {
+        const response = await this.request('fee.quote', { amount }, this.currentIssuer(issuer));
+        if (response.error?.code === NWPC_SPEC_ERRORS.METHOD_NOT_FOUND.code) {
+            return { amount, fee: 0, total: amount };
+        }
+        if (response.error) {
+            throw new Error(`fee.quote failed: ${response.error.message}`);
+        }
+        return response.result as FeeQuote;
+    }
+
+    /**
+     * The forge's signed receipt for a burn or transfer this pocket sent, by
+     * the id of the request (the `id` of the response `transfer` or `sendTx`
+     * returns). Transfer receipts arrive with the forge's last message, so
+     * may follow the response. Anyone can check one offline with
+     * `verifyReceipt(receipt, issuer)` from `@tat-protocol/token`.
+     * @param requestId The id of the settled request
+     */
+    public getReceipt(requestId: string): Receipt | undefined {
+        return this.state.receipts.get(requestId);
+    }
+
+    // Keeps the first receipt for a request this pocket sent to `forge`, when
+    // it arrives on that request's id from the forge and is signed by it.
+    private async storeReceipt(receipt: Receipt, messageId: string, forge: string | undefined, sender: string) {
+        const issuer = forge && this.currentIssuer(forge);
+        if (
+            !issuer ||
+            receipt?.requestId !== messageId ||
+            this.currentIssuer(sender) !== issuer ||
+            this.currentIssuer(receipt.issuer) !== issuer ||
+            !verifyReceipt(receipt, receipt.issuer)
+        ) {
+            Debug.log(`Ignoring receipt for request ${messageId} not signed by the forge it was sent to`, 'Pocket');
+            return;
+        }
+        this.awaitingReceipts.delete(messageId);
+        if (this.state.receipts.has(messageId)) return;
+        this.state.receipts.set(messageId, receipt);
+        await this.savePocketState();
+    }
+
+    /**
+     * Offers to swap `give` for `want` with `counterparty`, on one issuer.
+     *
+     * The offer carries this pocket's leg (unsigned) and an open leg asking
+     * for `want` at a new receive address. Send it to the counterparty, who
+     * fills in and signs their leg with `acceptSwapOffer`; then settle it with
+     * `submitSwap`. The forge settles both legs or neither.
+     *
+     * @param issuer - The public key of the token issuer (forge)
+     * @param give - The TAT or amount this pocket gives
+     * @param want - The TAT or amount asked for in return
+     * @param counterparty - The key `give` is delivered to
+     * @returns The offer to pass to the counterparty
+     * @throws {Error} If `give` is not held, or a TAT's transferability forbids sending it to `counterparty`
+     *
+     * @example
+     * ```typescript
+     * const offer = await seller.createSwapOffer(venue, { tokenID: '42' }, { amount: 50 }, buyerPubkey);
+     * const accepted = await buyer.acceptSwapOffer(offer);
+     * await seller.submitSwap(accepted);
+     * ```
+     */
+    public async createSwapOffer(issuer: string, give: SwapAsset, want: SwapAsset, counterparty: string): Promise<SwapOffer> {
+        issuer = this.currentIssuer(issuer);
+        const leg = await this.buildSwapLeg(issuer, give, counterparty, await this.getNewReceiveAddress());
+        const receiveKey = await this.getNewReceiveAddress();
+        const wantOut = 'tokenID' in want
+            ? { issuer, to: receiveKey, tokenID: want.tokenID }
+            : { issuer, to: receiveKey, amount: want.amount, ...(want.setID && want.setID !== '-' ? { setID: want.setID } : {}) };
+        this.swapOffers.set(leg.from, { leg, want, receiveKey });
+        return { issuer, want, legs: [leg, { from: '', ins: [], outs: [wantOut] }] };
+    }
+
+    /**
+     * Counter-signs a swap offer: fills in the open leg with this pocket's
+     * tokens for the offer's `want` and signs them over both legs. Check what
+     * the maker's leg delivers before accepting; the signatures are only good
+     * for this exact swap.
+     *
+     * @param offer - An offer from `createSwapOffer`
+     * @returns The offer with this pocket's signed leg, to return to the maker
+     * @throws {Error} If the offer is not open or this pocket cannot pay `want`
+     */
+    public async acceptSwapOffer(offer: SwapOffer): Promise<SwapOffer> {
+        const [maker, open] = offer.legs ?? [];
+        if (!maker || !open || open.ins.length > 0 || open.outs.length !== 1) {
+            throw new Error('Not an open swap offer');
+        }
+        const leg = await this.buildSwapLeg(offer.issuer, offer.want, open.outs[0].to, await this.getNewReceiveAddress());
+        const legs = [maker, leg];
+        leg.witnessData = await this.buildWitnessData(await this.restoreTokens(leg.ins), swapSpendOuts(legs));
+        return { ...offer, legs };
+    }
+
+    /**
+     * Signs this pocket's leg of an accepted offer and asks the forge to
+     * settle the swap. The counterparty's leg must pay the offer's `want`, from
+     * the right set, to the receive address of the offer.
+     *
+     * @param offer - An offer made by this pocket and accepted with `acceptSwapOffer`
+     * @returns Response from the issuer's forge
+     * @throws {Error} If the offer was not made by this pocket or the counter leg does not pay what was asked
+     */
+    public async submitSwap(offer: SwapOffer) {
+        const [maker, taker] = offer.legs ?? [];
+        const pending = maker && this.swapOffers.get(maker.from);
+        if (!pending) {
+            throw new Error('Unknown swap offer');
+        }
+        const { want, receiveKey } = pending;
+        const paid = taker?.ins.length > 0 && taker.outs.some(out => out.to === receiveKey && ('tokenID' in want
+            ? 'tokenID' in out && String(out.tokenID) === String(want.tokenID)
+            : 'amount' in out && out.amount === want.amount));
+        const takerInputs = paid ? await this.restoreTokens(taker.ins) : [];
+        if (!paid || ('amount' in want && takerInputs.some(token => (token.payload.setID ?? '-') !== (want.setID ?? '-')))) {
+            throw new Error('The counter leg does not pay what the offer asked for');
+        }
+        // Sign our leg as it was offered, whatever the returned copy says
+        const legs = [{ ...pending.leg }, taker];
+        legs[0].witnessData = await this.buildWitnessData(await this.restoreTokens(pending.leg.ins), swapSpendOuts(legs));
+        const response = await this.sendTx('swap', offer.issuer, { legs });
+        this.swapOffers.delete(maker.from);
+        return response;
+    }
+
+    // One swap leg giving `give` to `to`, with change to `from`.
+    private async buildSwapLeg(issuer: string, give: SwapAsset, to: string, from: string): Promise<SwapLeg> {
+        if ('tokenID' in give) {
+            const token = await this.restoreTAT(issuer, give.tokenID);
+            const restricted = token && transferRestriction(token.payload, to, [token.payload.iss, issuer]);
+            if (restricted) {
+                throw new Error(restricted);
+            }
+            const [, tx] = this.createTATTransferTx(issuer, to, give.tokenID);
+            return { from, ...tx };
+        }
+        const { fee } = await this.quoteFee(issuer, give.amount);
+        const [, tx] = await this.createFungibleTransferTx(issuer, to, give.amount, from, give.setID ?? '-', fee);
+        return { from, ...tx };
+    }
+
+    private async restoreTokens(jwts: string[]): Promise<Token[]> {
+        return Promise.all(jwts.map(jwt => new Token().restore(jwt)));
+    }
+
+    /**
+     * Splits a held token into tokens of the given denominations, which must add
+     * up to its amount, at the key it is locked to, so forges charging transfer
+     * fees do not charge it. Defaults to powers of two.
+     * @param issuer The issuer of the token
+     * @param tokenHash The token to split
+     * @param denominations The output amounts
+     * @returns Response from the issuer's forge
+     */
+    public async split(issuer: string, tokenHash: string, denominations?: number[]) {
+        issuer = this.currentIssuer(issuer);
+        const jwt = this.state.tokens.get(issuer)?.get(tokenHash);
+        if (!jwt) {
+            throw new Error(`Token not found: ${issuer}:${tokenHash}`);
+        }
+        const token = await new Token().restore(jwt);
+        const to = token.payload.P2PKlock ?? (await this.deriveSingleUseKey()).publicKey;
+        const amounts = denominations ?? powerOfTwoDenominations(token.payload.amount ?? 0);
+        const multisig = token.payload.multisig;
+        // The forge builds the outputs from `denominations`; `outs` mirrors
+        // them so the witness signs the same outputs.
+        const outs = amounts.map(amount => ({ to, amount, ...(multisig ? { multisig } : {}) }));
+        return this.sendTx('split', issuer, { ins: [jwt], to, denominations: amounts, outs });
+    }
+
+    /**
+     * Merges held tokens of one set into a single token. Tokens locked to one
+     * key stay at that key; tokens held at several keys are merged at a new
+     * single-use key, which forges charging transfer fees charge like a
+     * transfer, so the merged token holds their total less the fee.
+     * @param issuer The issuer of the tokens
+     * @param setID Token set to merge; "-" for the default set
+     * @param tokenHashes The tokens to merge. Defaults to the set's smallest tokens, up to 64
+     * @returns Response from the issuer's forge
+     */
+    public async consolidate(issuer: string, setID: string = '-', tokenHashes?: string[]) {
+        issuer = this.currentIssuer(issuer);
+        const held = this.getSetTokens(issuer, setID);
+        const selected = tokenHashes
+            ? tokenHashes.map(hash => {
+                const entry = held.find(t => t.hash === hash);
+                if (!entry) {
+                    throw new Error(`Token not found in set ${setID}: ${hash}`);
+                }
+                return entry;
+            })
+            : held.slice(0, MAX_DENOMINATION_TOKENS);
+        if (selected.length < 2) {
+            throw new Error('At least two tokens are needed to consolidate');
+        }
+        const locks = new Set(await Promise.all(
+            selected.map(async t => (await new Token().restore(t.jwt)).payload.P2PKlock),
+        ));
+        const [lock] = locks;
+        const to = locks.size === 1 && lock ? lock : (await this.deriveSingleUseKey()).publicKey;
+        const total = selected.reduce((sum, t) => sum + t.amount, 0);
+        const fee = to === lock ? 0 : (await this.quoteFee(issuer, total)).fee;
+        const amount = total - fee;
+        return this.sendTx('consolidate', issuer, {
+            ins: selected.map(t => t.jwt),
+            to,
+            outs: [{ to, amount }],
+        });
+    }
+
+    /**
+     * Applies `config.denominationPolicy` to one issuer set: consolidates the
+     * smallest tokens when too many are held, otherwise splits the largest
+     * odd-sized token into powers of two if that keeps the count within bounds.
+     * Sends at most one request.
+     * @returns Response from the issuer's forge, or undefined when the mix is already healthy
+     */
+    public async rebalance(issuer: string, setID: string = '-') {
+        const policy = this.config.denominationPolicy;
+        if (!policy) return undefined;
+        issuer = this.currentIssuer(issuer);
+        const held = this.getSetTokens(issuer, setID);
+        const maxTokens = Math.max(policy.maxTokens ?? MAX_DENOMINATION_TOKENS, 1);
+        if (held.length > maxTokens) {
+            const count = Math.min(held.length - maxTokens + 1, MAX_DENOMINATION_TOKENS);
+            return this.consolidate(issuer, setID, held.slice(0, count).map(t => t.hash));
+        }
+        if (policy.powerOfTwo) {
+            for (const t of [...held].reverse()) {
+                const parts = powerOfTwoDenominations(t.amount);
+                if (parts.length > 1 && held.length - 1 + parts.length <= maxTokens) {
+                    return this.split(issuer, t.hash, parts);
+                }
+            }
+        }
+        return undefined;
+    }
+
+    // Runs `rebalance` in the background, one at a time per set. Tokens that
+    // arrive while it is in flight are covered by the next arrival's run.
+    private scheduleRebalance(issuer: string, setID: string) {
+        const key = `${issuer}:${setID}`;
+        if (this.rebalancing.has(key)) return;
+        this.rebalancing.add(key);
+        this.rebalance(issuer, setID)
+            .catch(error => Debug.error(`rebalance ${key} failed: ${error}`, 'Pocket'))
+            .finally(() => this.rebalancing.delete(key));
+    }
+
+    // The spendable fungible tokens of one issuer set, smallest first.
+    private getSetTokens(issuer: string, setID: string) {
+        const issuerSets = this.state.tokenSets.get(issuer);
+        const held: { hash: string, jwt: string, amount: number }[] = [];
+        for (const [amount, hashes] of this.state.tokenIndex.get(issuer) ?? []) {
+            for (const hash of hashes) {
+                const jwt = this.state.tokens.get(issuer)?.get(hash);
+                if (jwt && (issuerSets?.get(hash) || '-') === (setID || '-')) {
+                    held.push({ hash, jwt, amount: Number(amount) });
+                }
+            }
+        }
+        return held.sort((a, b) => a.amount - b.amount);
+    }
+
+    /**
+     * The ecash of an issuer this pocket holds, in total.
+     * @param issuer The issuer of the ecash
+     */
+    public getEcashBalance(issuer: string): number {
+        return (this.state.ecash.get(this.currentIssuer(issuer)) ?? [])
+            .reduce((sum, proof) => sum + proof.amount, 0);
+    }
+
+    /**
+     * Turns held tokens of the issuer's default set into ecash of their value
+     * less the forge's transfer fee, through the forge's `ecash.swap`. Tokens
+     * are exchanged whole, so the smallest selection covering `amount` becomes
+     * ecash.
+     * @param issuer The issuer of the tokens, with ecash enabled
+     * @param amount The least value to turn into ecash
+     * @returns The new ecash balance
+     * @throws {Error} If the tokens do not cover `amount`, do not cover the fee, or the forge refuses the swap
+     */
+    public async depositEcash(issuer: string, amount: number): Promise<number> {
+        issuer = this.currentIssuer(issuer);
+        const selected: { jwt: string, amount: number }[] = [];
+        let total = 0;
+        for (const token of this.getSetTokens(issuer, '-').reverse()) {
+            if (total >= amount || selected.length === MAX_DENOMINATION_TOKENS) break;
+            selected.push(token);
+            total += token.amount;
+        }
+        if (total < amount) {
+            throw new Error(`Insufficient balance to deposit ${amount} as ecash`);
+        }
+        const { fee } = await this.quoteFee(issuer, total);
+        if (total - fee <= 0) {
+            throw new Error(`Tokens of ${total} do not cover the deposit fee (${fee})`);
+        }
+        const blinded = await this.blindEcashOutputs(issuer, powerOfTwoDenominations(total - fee));
+        const outputs = blinded.map(({ amount, B_ }) => ({ amount, B_ }));
+        const response = await this.sendTx('ecash.swap', issuer, {
+            ins: selected.map(t => t.jwt),
+            outs: ecashSpendOuts(outputs),
+            outputs,
+        });
+        await this.storeEcash(issuer, blinded, response, []);
+        return this.getEcashBalance(issuer);
+    }
+
+    /**
+     * Takes `amount` of ecash out of this pocket as a `tatecashA…` string for
+     * another wallet's `receiveEcash`. Held proofs are swapped at the forge
+     * for the exact amount and change first, so nothing else is handed over.
+     * Until the receiver swaps it, the string is spendable by whoever holds it.
+     * @param issuer The issuer of the ecash
+     * @param amount The whole amount to send
+     * @returns The encoded ecash
+     * @throws {Error} If the pocket holds less ecash than `amount`
+     */
+    public async sendEcash(issuer: string, amount: number): Promise<string> {
+        issuer = this.currentIssuer(issuer);
+        const proofs = this.selectEcashProofs(issuer, amount);
+        const total = proofs.reduce((sum, proof) => sum + proof.amount, 0);
+        const payment = await this.blindEcashOutputs(issuer, powerOfTwoDenominations(amount));
+        const change = await this.blindEcashOutputs(issuer, powerOfTwoDenominations(total - amount));
+        const blinded = [...payment, ...change];
+        const response = await this.sendTx('ecash.swap', issuer, {
+            proofs,
+            outputs: blinded.map(({ amount, B_ }) => ({ amount, B_ })),
+        });
+        const unblinded = await this.storeEcash(issuer, blinded, response, proofs, payment.length);
+        return encodeEcashToken({ issuer, proofs: unblinded });
+    }
+
+    /**
+     * Claims ecash sent with `sendEcash`: its proofs are swapped at the forge
+     * for new ones only this pocket knows, so the sender cannot spend them
+     * again.
+     * @param encoded The `tatecashA…` string
+     * @returns The amount received
+     * @throws {Error} If the ecash is malformed or already spent
+     */
+    public async receiveEcash(encoded: string): Promise<number> {
+        const { issuer: tokenIssuer, proofs } = decodeEcashToken(encoded);
+        const issuer = this.currentIssuer(tokenIssuer);
+        const total = proofs.reduce((sum, proof) => sum + proof.amount, 0);
+        const blinded = await this.blindEcashOutputs(issuer, powerOfTwoDenominations(total));
+        const response = await this.sendTx('ecash.swap', issuer, {
+            proofs,
+            outputs: blinded.map(({ amount, B_ }) => ({ amount, B_ })),
+        });
+        await this.storeEcash(issuer, blinded, response, []);
+        return total;
+    }
+
+    /**
+     * Redeems held ecash for a regular token of its value at a new single-use
+     * key, through the forge's `ecash.melt`. Up to 64 proofs are melted per call.
+     * @param issuer The issuer of the ecash
+     * @returns Response from the issuer's forge
+     * @throws {Error} If no ecash is held or the forge refuses the proofs
+     */
+    public async meltEcash(issuer: string) {
+        issuer = this.currentIssuer(issuer);
+        const proofs = (this.state.ecash.get(issuer) ?? []).slice(0, MAX_DENOMINATION_TOKENS);
+        if (proofs.length === 0) {
+            throw new Error(`No ecash held for ${issuer}`);
+        }
+        const { publicKey: to } = await this.deriveSingleUseKey();
+        const response = await this.sendTx('ecash.melt', issuer, { proofs, to });
+        if (response.error) {
+            throw new Error(`ecash.melt failed: ${response.error.message}`);
+        }
+        this.state.ecash.set(issuer, (this.state.ecash.get(issuer) ?? []).filter(p => !proofs.includes(p)));
+        await this.savePocketState();
+        return response;
+    }
+
+    // Held proofs covering `amount`, largest first.
+    private selectEcashProofs(issuer: string, amount: number): EcashProof[] {
+        const held = [...(this.state.ecash.get(issuer) ?? [])].sort((a, b) => b.amount - a.amount);
+        const selected: EcashProof[] = [];
+        let total = 0;
+        for (const proof of held) {
+            if (total >= amount || selected.length === MAX_DENOMINATION_TOKENS) break;
+            selected.push(proof);
+            total += proof.amount;
+        }
+        if (!Number.isInteger(amount) || amount <= 0 || total < amount) {
+            throw new Error(`Insufficient ecash to send ${amount}`);
+        }
+        return selected;
+    }
+
+    // Blinds a fresh random secret for each amount, against the forge's keyset.
+    private async blindEcashOutputs(issuer: string, amounts: number[]) {
+        const response = await this.request('ecash.keys', {}, issuer);
+        if (response.error) {
+            throw new Error(`ecash.keys failed: ${response.error.message}`);
+        }
+        const { keys } = response.result as { keys: Record<number, string> };
+        return amounts.map(amount => {
+            if (!keys[amount]) {
+                throw new Error(`The forge does not sign ecash of ${amount}`);
+            }
+            const secret = bytesToHex(randomBytes(32));
+            return { amount, secret, K: keys[amount], ...blindMessage(secret) };
+        });
+    }
+
+    // Unblinds the forge's signatures on `blinded`, drops the `spent` proofs
+    // and keeps all but the first `handOver` new proofs, which are returned.
+    private async storeEcash(
+        issuer: string,
+        blinded: { amount: number, secret: string, K: string, r: string }[],
+        response: { result?: unknown, error?: { message: string } },
+        spent: EcashProof[],
+        handOver: number = 0
+    ): Promise<EcashProof[]> {
+        if (response.error) {
+            throw new Error(`ecash.swap failed: ${response.error.message}`);
+        }
+        const { signatures } = response.result as { signatures: BlindSignature[] };
+        const proofs = blinded.map(({ amount, secret, K, r }, i) => ({
+            amount,
+            secret,
+            C: unblindSignature(signatures[i].C_, r, K),
+            id: signatures[i].id,
+        }));
+        const held = (this.state.ecash.get(issuer) ?? []).filter(p => !spent.includes(p));
+        this.state.ecash.set(issuer, [...held, ...proofs.slice(handOver)]);
+        await this.savePocketState();
+        return proofs.slice(0, handOver);
+    }
+
     /**
      * Send a transaction to the network.
      * @param method The method to send
      * @param issuer The issuer of the transaction
-     * @param tx The transaction to send
+     * @param tx The transaction to send. A random `txId` is attached when missing
+     * so the forge answers a retry with the original outputs; a timed-out
+     * request is retried once under the same `txId`
      * @returns The response from the network
      */
     public async sendTx(
@@ -1200,14 +2083,24 @@ export class Pocket extends NWPCPeer {
         }
         // Build witness data if needed. The witness is bound to tx.outs, so the
         // outputs must be finalized before this point.
-        const witnessData = await this.buildWitnessData(inputs, tx.outs ?? []);
+        const witnessData = await this.buildWitnessData(inputs, tx.outs ?? [], tx.witnessData);
         // Attach witnessData to tx if any are present
         if (witnessData.some(w => w)) {
             tx.witnessData = witnessData;
         }
 
+        tx.txId ??= bytesToHex(randomBytes(16));
+        // A forge only listens on its newest key.
+        issuer = this.currentIssuer(issuer);
+
         Debug.log("sendTx finalTx" + tx, 'Pocket');
-        return this.request(method, tx, issuer, undefined, timeoutMs);
+        try {
+            return await this.request(method, tx, issuer, undefined, timeoutMs);
+        } catch (error) {
+            if (!(error instanceof Error) || error.message !== 'Request timed out') throw error;
+            Debug.log(`Retrying ${method} ${tx.txId} after timeout`, 'Pocket');
+            return this.request(method, tx, issuer, undefined, timeoutMs);
+        }
     }
 
     /**
@@ -1307,7 +2200,7 @@ export class Pocket extends NWPCPeer {
 
     async deleteToken(tokenJWT: string) {
         const token = await new Token().restore(String(tokenJWT));
-        const issuer = token.payload.iss;
+        const issuer = this.currentIssuer(token.payload.iss);
         const tokenHash = token.header.token_hash;
 
         // Remove from tokens
@@ -1315,6 +2208,7 @@ export class Pocket extends NWPCPeer {
         if (issuerTokens) {
             issuerTokens.delete(tokenHash);
         }
+        this.state.revocations.delete(tokenHash);
         await this.reindexIssuerState(issuer);
 
         // Save state after deletion
@@ -1379,7 +2273,7 @@ export class Pocket extends NWPCPeer {
             const tokenHash = spentMeta?.spent;
             const issuer = spentMeta?.issuer || issuerHint || event.pubkey;
             if (tokenHash && issuer) {
-                const tokenJWT = this.state.tokens.get(issuer)?.get(tokenHash);
+                const tokenJWT = this.state.tokens.get(this.currentIssuer(issuer))?.get(tokenHash);
                 if (tokenJWT) {
                     await this.deleteToken(tokenJWT);
                 }
@@ -1389,4 +2283,319 @@ export class Pocket extends NWPCPeer {
             Debug.error("handleIssuerSpentEvent error" + error, 'Pocket');
         }
     }
+
+    /**
+     * Audits a forge's transparency log.
+     *
+     * Fetches the forge's signed log root (`log.root`) and checks its signature.
+     * If an earlier root of this forge was audited, also fetches a consistency
+     * proof (`log.consistency`) showing the new log extends the old one, so the
+     * forge cannot have dropped a spent mark or rewritten a mint in between. The
+     * root is kept in `PocketState.logHeads` for the next audit.
+     *
+     * @param issuer - The forge's public key
+     * @returns The verified signed root
+     * @throws {Error} If the signature or consistency proof does not verify
+     */
+    public async auditForgeLog(issuer: string): Promise<LogRoot> {
+        issuer = this.currentIssuer(issuer);
+        const response = await this.request('log.root', {}, issuer);
+        if (response.error) {
+            throw new Error(`log.root failed: ${response.error.message}`);
+        }
+        const head = response.result as LogRoot;
+        let signed = false;
+        try {
+            signed = verifySignature(
+                logRootDigest(head.size, head.root, head.timestamp),
+                hexToBytes(head.signature),
+                issuer
+            );
+        } catch {
+            // Malformed signature hex.
+        }
+        if (!signed) {
+            throw new Error(`Log root from ${issuer} is not signed by the forge`);
+        }
+
+        const previous = this.state.logHeads.get(issuer);
+        if (previous && previous.size > 0) {
+            if (head.size < previous.size) {
+                throw new Error(`Forge ${issuer} log shrank from ${previous.size} to ${head.size} entries`);
+            }
+            const proofResponse = await this.request('log.consistency', { from: previous.size, to: head.size }, issuer);
+            const proof = (proofResponse.result as { proof?: string[] } | undefined)?.proof;
+            if (
+                !Array.isArray(proof) ||
+                !verifyMerkleConsistency(previous.size, head.size, previous.root, head.root, proof)
+            ) {
+                throw new Error(`Forge ${issuer} log is not consistent with the root audited at size ${previous.size}`);
+            }
+        }
+        this.state.logHeads.set(issuer, head);
+        await this.savePocketState();
+        return head;
+    }
+
+    /**
+     * Checks that a forge has logged `tokenHash` as spent (or minted), with an
+     * inclusion proof against a freshly audited log root (see `auditForgeLog`).
+     * Gates can use this to confirm a forge's `verify` answer is on the record.
+     *
+     * @param issuer - The forge's public key
+     * @param tokenHash - Hash of the token to look up
+     * @param type - Which entry to prove: "spent" (default) or "mint"
+     * @returns True if the entry is in the audited log, false if the forge has no such entry
+     * @throws {Error} If the log root fails the audit or the proof does not verify
+     */
+    public async verifyLogInclusion(
+        issuer: string,
+        tokenHash: string,
+        type: LogEntry['type'] = 'spent'
+    ): Promise<boolean> {
+        issuer = this.currentIssuer(issuer);
+        const head = await this.auditForgeLog(issuer);
+        if (head.size === 0) return false;
+        const response = await this.request('log.inclusion', { tokenHash, type, size: head.size }, issuer);
+        if (response.error?.code === NWPC_SPEC_ERRORS.NOT_FOUND.code) {
+            return false;
+        }
+        const { index, entry, proof } = (response.result ?? {}) as { index?: number; entry?: LogEntry; proof?: string[] };
+        if (
+            typeof index !== 'number' ||
+            !entry ||
+            entry.tokenHash !== tokenHash ||
+            entry.type !== type ||
+            !Array.isArray(proof) ||
+            !verifyMerkleInclusion(merkleLeafHash(logEntryLeaf(entry)), index, head.size, proof, head.root)
+        ) {
+            throw new Error(`Forge ${issuer} returned an invalid inclusion proof for ${tokenHash}`);
+        }
+        return true;
+    }
+
+    /**
+     * The newest key of the forge that issued under `pubkey`, following the
+     * key rotations this pocket has seen. Returns `pubkey` itself if it was
+     * never rotated.
+     */
+    public currentIssuer(pubkey: string): string {
+        const seen = new Set<string>();
+        let rotation = this.state.keyRotations.get(pubkey);
+        while (rotation && !seen.has(rotation.oldPubkey)) {
+            seen.add(rotation.oldPubkey);
+            pubkey = rotation.newPubkey;
+            rotation = this.state.keyRotations.get(pubkey);
+        }
+        return pubkey;
+    }
+
+    /**
+     * Follows a forge's KEY_ROTATION announcement (kind 30150, signed by the
+     * retiring key). Tokens held under the retired key are filed under the
+     * new one, so balances, transfers and log audits address the forge by its
+     * new key; the forge still accepts the old tokens as inputs. Announcements
+     * for issuers this pocket holds are followed automatically.
+     *
+     * The first rotation seen for a key is kept: a leaked retired key cannot
+     * redirect its issuer a second time.
+     *
+     * @param event - The signed announcement
+     * @returns The rotation it announces
+     * @throws {Error} If the event is not a valid announcement or conflicts with one already followed
+     */
+    public async followKeyRotation(event: Event): Promise<KeyRotation> {
+        const rotation = verifyKeyRotation(event);
+        if (!rotation) {
+            throw new Error('Invalid key rotation announcement');
+        }
+        const { oldPubkey, newPubkey } = rotation;
+        const known = this.state.keyRotations.get(oldPubkey);
+        if (known) {
+            if (known.newPubkey !== newPubkey) {
+                throw new Error(`Key ${oldPubkey} was already rotated to ${known.newPubkey}`);
+            }
+            return known;
+        }
+        if (this.currentIssuer(newPubkey) === oldPubkey) {
+            throw new Error(`Rotating ${oldPubkey} to ${newPubkey} would form a cycle`);
+        }
+        this.state.keyRotations.set(oldPubkey, rotation);
+
+        const issuer = this.currentIssuer(newPubkey);
+        const retired = this.state.tokens.get(oldPubkey);
+        if (retired) {
+            const tokens = this.state.tokens.get(issuer) ?? new Map<string, string>();
+            for (const [tokenHash, tokenJWT] of retired) {
+                tokens.set(tokenHash, tokenJWT);
+            }
+            this.state.tokens.set(issuer, tokens);
+            this.state.tokens.delete(oldPubkey);
+            await this.reindexIssuerState(oldPubkey);
+            await this.reindexIssuerState(issuer);
+            await this.subscribeToIssuerSpent(issuer);
+            await this.subscribeToKeyRotation(issuer);
+            await this.subscribeToRevocations(issuer);
+        }
+        // The forge keeps one log across keys, so the audited root carries over.
+        const head = this.state.logHeads.get(oldPubkey);
+        if (head && !this.state.logHeads.has(issuer)) {
+            this.state.logHeads.set(issuer, head);
+        }
+        this.state.logHeads.delete(oldPubkey);
+        await this.savePocketState();
+        Debug.log(`Following key rotation ${oldPubkey} -> ${newPubkey}`, 'Pocket');
+        if (retired) this.onTokenChange?.();
+        return rotation;
+    }
+
+    // Subscribe to the KEY_ROTATION announcement of an issuer key
+    private async subscribeToKeyRotation(issuerPubkey: string) {
+        if (this.keyRotationSubscriptions.has(issuerPubkey)) return;
+        // No `since`: the announcement may predate this pocket, and it stays
+        // on relays as a replaceable event.
+        const filter = {
+            kinds: [KEY_ROTATION_KIND],
+            authors: [issuerPubkey],
+        };
+        const subscription = this.ndk.subscribe(filter, { closeOnEose: false });
+        subscription.on("event", async (event: NDKEvent) => {
+            try {
+                await this.followKeyRotation(event.rawEvent() as unknown as Event);
+            } catch (error) {
+                Debug.warn("Ignoring key rotation event: " + error, 'Pocket');
+            }
+        });
+        this.keyRotationSubscriptions.set(issuerPubkey, subscription);
+    }
+
+    /**
+     * Follows a forge's TOKEN_REVOCATION notice (kind 30160) for a token this
+     * pocket holds. A revoked or frozen token is kept but cannot be spent at
+     * the forge until the notice lapses or the forge reinstates it;
+     * `onTokenRevocation` fires for every change. Notices from the issuers
+     * this pocket holds tokens of are followed automatically.
+     *
+     * @param event - The signed notice
+     * @returns The notice, or undefined if it is for a token this pocket does not hold or is older than one already seen
+     * @throws {Error} If the event is not a valid notice
+     */
+    public async followTokenRevocation(event: Event): Promise<TokenRevocation | undefined> {
+        const revocation = verifyTokenRevocation(event);
+        if (!revocation) {
+            throw new Error('Invalid token revocation notice');
+        }
+        const { tokenHash } = revocation;
+        const issuer = this.currentIssuer(revocation.issuer);
+        if (!this.state.tokens.get(issuer)?.has(tokenHash)) return undefined;
+        const known = this.state.revocations.get(tokenHash);
+        if (known && known.createdAt > revocation.createdAt) return undefined;
+        if (revocation.status === 'active') {
+            this.state.revocations.delete(tokenHash);
+        } else {
+            this.state.revocations.set(tokenHash, revocation);
+        }
+        await this.savePocketState();
+        Debug.log(`Token ${tokenHash} is ${revocation.status} by ${issuer}`, 'Pocket');
+        this.onTokenRevocation?.(revocation);
+        return revocation;
+    }
+
+    /**
+     * Returns the revocation or freeze notice in force for a held token, if any.
+     */
+    public getRevocation(tokenHash: string): TokenRevocation | undefined {
+        const revocation = this.state.revocations.get(tokenHash);
+        return revocation && isRevocationActive(revocation) ? revocation : undefined;
+    }
+
+    // Subscribe to the TOKEN_REVOCATION notices of an issuer key
+    private async subscribeToRevocations(issuerPubkey: string) {
+        if (this.revocationSubscriptions.has(issuerPubkey)) return;
+        // No `since`: a notice stays on relays until replaced, and may predate
+        // this pocket receiving the token.
+        const filter = {
+            kinds: [TOKEN_REVOCATION_KIND],
+            authors: [issuerPubkey],
+        };
+        const subscription = this.ndk.subscribe(filter, { closeOnEose: false });
+        subscription.on("event", async (event: NDKEvent) => {
+            try {
+                await this.followTokenRevocation(event.rawEvent() as unknown as Event);
+            } catch (error) {
+                Debug.warn("Ignoring token revocation event: " + error, 'Pocket');
+            }
+        });
+        this.revocationSubscriptions.set(issuerPubkey, subscription);
+    }
+
+    /**
+     * Watches for the public HTLC_CLAIM event (kind 30120) revealing the secret
+     * for `hash`. Once a claim with a matching secret is seen, the secret is
+     * kept in pocket state and `onHTLCSecret` fires, so the counterparty side
+     * of a swap can be claimed with it.
+     *
+     * @param hash - Hex SHA-256 hashlock shared by the swap's HTLC tokens
+     * @returns The secret if it has already been revealed, otherwise undefined
+     */
+    public async watchHTLC(hash: string): Promise<string | undefined> {
+        if (!/^[0-9a-fA-F]{64}$/.test(hash)) {
+            throw new Error('HTLC hash must be a hex-encoded SHA-256 digest');
+        }
+        hash = hash.toLowerCase();
+        const known = this.state.htlcSecrets.get(hash);
+        if (known) return known;
+        if (known === undefined) {
+            this.state.htlcSecrets.set(hash, null);
+            await this.savePocketState();
+        }
+        await this.subscribeToHTLCClaims(hash);
+        return undefined;
+    }
+
+    /**
+     * Returns the revealed secret for a watched HTLC hash, if one has been seen.
+     */
+    public getHTLCSecret(hash: string): string | undefined {
+        return this.state.htlcSecrets.get(hash.toLowerCase()) ?? undefined;
+    }
+
+    // Subscribe to HTLC_CLAIM events for one hashlock
+    private async subscribeToHTLCClaims(hash: string) {
+        if (this.htlcClaimSubscriptions.has(hash)) return;
+        // No `since`: the claim may have been published before we started
+        // watching, and it stays on relays as a replaceable event.
+        const filter = {
+            kinds: [HTLC_CLAIM_KIND],
+            "#h": [hash],
+        };
+        const subscription = this.ndk.subscribe(filter, { closeOnEose: false });
+        subscription.on("event", async (event: NDKEvent) => {
+            await this.handleHTLCClaimEvent(event);
+        });
+        this.htlcClaimSubscriptions.set(hash, subscription);
+    }
+
+    // Extract a revealed secret from an HTLC_CLAIM event
+    private async handleHTLCClaimEvent(event: NDKEvent) {
+        try {
+            const hash = event.tags.find((tag) => tag[0] === "h")?.[1]?.toLowerCase();
+            const secret = event.tags.find((tag) => tag[0] === "s")?.[1]?.toLowerCase();
+            if (!hash || !secret || this.state.htlcSecrets.get(hash) !== null) return;
+            // Anyone can publish a 30120 event; only trust a secret that
+            // actually opens the hashlock.
+            if (!/^([0-9a-f]{2})+$/.test(secret) || htlcHashlock(secret) !== hash) {
+                Debug.warn("handleHTLCClaimEvent ignoring claim with a non-matching secret", 'Pocket');
+                return;
+            }
+            this.state.htlcSecrets.set(hash, secret);
+            await this.savePocketState();
+            this.htlcClaimSubscriptions.get(hash)?.stop();
+            this.htlcClaimSubscriptions.delete(hash);
+            Debug.log(`HTLC secret revealed for hash ${hash}`, 'Pocket');
+            this.onHTLCSecret?.(hash, secret);
+        } catch (error) {
+            Debug.error("handleHTLCClaimEvent error" + error, 'Pocket');
+        }
+    }
 }
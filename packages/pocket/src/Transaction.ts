@@ -3,7 +3,8 @@ import { PocketState } from './Pocket.js';
 export interface FungibleOut {
     issuer: string,
     to: string,
-    amount: number
+    amount: number,
+    setID?: string
 
 }
 export interface NonFungibleOut {
@@ -16,7 +17,9 @@ export interface NonFungibleOut {
 export class Transaction {
     private tatIndex: Map<string, Map<string, string>>;
     private tokenIndex: Map<string, Map<number, string[]>>;
+    private tokenSets: Map<string, Map<string, string>>;
     private tokens: Map<string, Map<string, string>>;
+    private fee: number = 0;
 
     constructor(
         public readonly method: string,
@@ -27,18 +30,28 @@ export class Transaction {
         this.method = method;
         this.tatIndex = this.PocketState.tatIndex;
         this.tokenIndex = this.PocketState.tokenIndex;
+        this.tokenSets = this.PocketState.tokenSets ?? new Map();
         this.tokens = this.PocketState.tokens;
     }
 
 
-    to(issuer: string, to: string, amount: number) {
-        this.outs.push({ to: to, amount: amount, issuer: issuer });
+    to(issuer: string, to: string, amount: number, setID?: string) {
+        this.outs.push({ to: to, amount: amount, issuer: issuer, ...(setID ? { setID } : {}) });
         return this;
     }
     toMany(outs: FungibleOut[]) {
         this.outs.push(...outs);
         return this;
     }
+    /**
+     * Sets the forge's fee on this transfer (as quoted by `fee.quote`). Inputs
+     * are selected to cover it, and the change is left for the forge to return,
+     * since an explicit change output would be charged as well.
+     */
+    withFee(fee: number) {
+        this.fee = fee;
+        return this;
+    }
     transferTAT(issuer: string, to: string, tokenID: string): [method: string, { ins: string[], outs: NonFungibleOut[] }] {
         const tokenHash = this.tatIndex.get(issuer)?.get(tokenID);
         if (!tokenHash) {
@@ -90,9 +103,10 @@ export class Transaction {
 
     /**
      * Builds the transaction input/output structure for a single-issuer fungible token transfer.
-     * Enforces that all outputs have the same issuer. Does not mutate this.outs.
+     * Enforces that all outputs have the same issuer and setID, and only selects inputs from
+     * that set. Does not mutate this.outs.
      * @returns [method, issuer, { ins: string[], outs: FungibleOut[] }]
-     * @throws Error if outs is empty, issuers differ, or tokens are missing.
+     * @throws Error if outs is empty, issuers or sets differ, or tokens are missing.
      */
     public build(): [method: string, { ins: string[], outs: FungibleOut[] }] {
         if (this.outs.length === 0) {
@@ -105,17 +119,30 @@ export class Transaction {
                 throw new Error(`All outputs must have the same issuer. Found: ${issuer} and ${out.issuer}`);
             }
         }
-        // Gather denominations for the issuer
+        // Enforce single-set: tokens from different sets are not interchangeable
+        const setID = this.outs[0].setID || '-';
+        for (const out of this.outs) {
+            if ((out.setID || '-') !== setID) {
+                throw new Error(`All outputs must have the same setID. Found: ${setID} and ${out.setID || '-'}`);
+            }
+        }
+        // Gather denominations for the issuer's tokens in this set
         const denominations: Array<{ d: number, c: number }> = [];
-        const tokenMap = this.tokenIndex?.get(issuer);
-        if (!tokenMap) {
+        const issuerTokens = this.tokenIndex?.get(issuer);
+        if (!issuerTokens) {
             throw new Error(`No tokens found for issuer: ${issuer}`);
         }
-        for (const [denomination, tokens] of tokenMap) {
-            denominations.push({ d: Number(denomination), c: tokens ? tokens.length : 0 });
+        const issuerSets = this.tokenSets.get(issuer);
+        const tokenMap = new Map<number, string[]>();
+        for (const [denomination, tokens] of issuerTokens) {
+            const inSet = (tokens || []).filter(hash => (issuerSets?.get(hash) || '-') === setID);
+            if (inSet.length > 0) {
+                tokenMap.set(denomination, inSet);
+                denominations.push({ d: Number(denomination), c: inSet.length });
+            }
         }
         // Calculate total amount needed
-        const amountNeeded = this.outs.reduce((acc, out) => acc + (out.amount || 0), 0);
+        const amountNeeded = this.outs.reduce((acc, out) => acc + (out.amount || 0), 0) + this.fee;
         const [change, use] = this.greedy(denominations, amountNeeded);
         // Collect JWTs
         let jwts: string[] = [];
@@ -135,10 +162,10 @@ export class Transaction {
         }
         // Prepare outputs (add change if needed)
         let outs: FungibleOut[] = [...this.outs];
-        if (change > 0) {
+        if (change > 0 && this.fee === 0) {
             outs = [
                 ...outs,
-                { issuer, to: this.changeKey, amount: change }
+                { issuer, to: this.changeKey, amount: change, ...(this.outs[0].setID ? { setID } : {}) }
             ];
         }
         // Return the transaction structure
@@ -1,2 +1,2 @@
 export { Pocket } from './Pocket.js';
-export type { PocketConfig, PocketState } from './Pocket.js';
\ No newline at end of file
+export type { PocketConfig, PocketState, DenominationPolicy, SwapAsset, SwapLeg, SwapOffer, GrantPosition } from './Pocket.js';
\ No newline at end of file
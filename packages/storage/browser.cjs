@@ -1,9 +1,11 @@
 const { Storage } = require("./dist-cjs/Storage.js");
 const { BrowserStore } = require("./dist-cjs/BrowserStorage.js");
 const iface = require("./dist-cjs/StorageInterface.js");
+const spent = require("./dist-cjs/SpentTokenStore.js");
 
 module.exports = {
   ...iface,
+  ...spent,
   Storage,
   BrowserStore,
 };
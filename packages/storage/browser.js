@@ -1,3 +1,4 @@
 export { Storage } from "./dist/Storage.js";
 export { BrowserStore } from "./dist/BrowserStorage.js";
 export * from "./dist/StorageInterface.js";
+export * from "./dist/SpentTokenStore.js";
@@ -1,3 +1,4 @@
 export { Storage } from './src/Storage.js';
 export { BrowserStore } from './src/BrowserStorage.js';
 export * from './src/StorageInterface.js';
+export * from './src/SpentTokenStore.js';
@@ -1,6 +1,11 @@
 const { Storage } = require("./dist-cjs/Storage.js");
 const { NodeStore } = require("./dist-cjs/DiskStorage.js");
 const iface = require("./dist-cjs/StorageInterface.js");
+const spent = require("./dist-cjs/SpentTokenStore.js");
+const {
+  SQLiteStorage,
+  SQLiteSpentTokenStore,
+} = require("./dist-cjs/SQLliteStorage.js");
 
 // Stub so packages that import BrowserStore load in Node.js.
 // Instantiating this throws at runtime, which is the correct behaviour.
@@ -14,8 +19,11 @@ class BrowserStore {
 
 module.exports = {
   ...iface,
+  ...spent,
   Storage,
   NodeStore,
   Backend: NodeStore,
   BrowserStore,
+  SQLiteStorage,
+  SQLiteSpentTokenStore,
 };
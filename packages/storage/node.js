@@ -2,6 +2,8 @@ export { Storage } from "./dist/Storage.js";
 export { NodeStore } from "./dist/DiskStorage.js";
 export { NodeStore as Backend } from "./dist/DiskStorage.js";
 export * from "./dist/StorageInterface.js";
+export * from "./dist/SpentTokenStore.js";
+export { SQLiteStorage, SQLiteSpentTokenStore } from "./dist/SQLliteStorage.js";
 
 // Stub so packages that import BrowserStore compile/load in Node.js.
 // Instantiating this throws at runtime, which is the correct behaviour.
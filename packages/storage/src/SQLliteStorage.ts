@@ -1,4 +1,5 @@
 import { StorageInterface } from './StorageInterface.js';
+import { SpentTokenStore } from './SpentTokenStore.js';
 import { DebugLogger } from '@tat-protocol/utils';
 import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
 
@@ -7,7 +8,7 @@ const Debug = DebugLogger.getInstance();
 /**
  * SQLite database interface
  */
-interface SQLiteDatabase {
+export interface SQLiteDatabase {
   exec(sql: string): void;
   prepare(sql: string): SQLiteStatement;
   close?(): void;
@@ -16,11 +17,18 @@ interface SQLiteDatabase {
 /**
  * SQLite prepared statement interface
  */
-interface SQLiteStatement {
-  get(params: unknown): { value: string } | undefined;
+export interface SQLiteStatement {
+  get(...params: unknown[]): { value: string } | undefined;
   run(...params: unknown[]): void;
 }
 
+function sanitizeTableName(tableName: string): string {
+  if (!/^[A-Za-z0-9_]+$/.test(tableName)) {
+    throw new Error('Invalid table name');
+  }
+  return tableName;
+}
+
 export class SQLiteStorage implements StorageInterface {
   private db: SQLiteDatabase;
   private tableName: string;
@@ -29,7 +37,7 @@ export class SQLiteStorage implements StorageInterface {
   constructor(db: SQLiteDatabase, tableName: string = 'key_value_store') {
     this.db = db;
     this.encryptionKey = this.deriveEncryptionKey();
-    this.tableName = this.sanitizeTableName(tableName);
+    this.tableName = sanitizeTableName(tableName);
     this.initTable();
   }
 
@@ -62,13 +70,6 @@ export class SQLiteStorage implements StorageInterface {
     return decrypted.toString('utf-8');
   }
 
-  private sanitizeTableName(tableName: string): string {
-    if (!/^[A-Za-z0-9_]+$/.test(tableName)) {
-      throw new Error('Invalid table name');
-    }
-    return tableName;
-  }
-
   private initTable(): void {
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS ${this.tableName} (
@@ -122,3 +123,59 @@ export class SQLiteStorage implements StorageInterface {
     }
   }
 }
+
+/**
+ * SpentTokenStore backed by its own table in the SQLite database used by
+ * SQLiteStorage, so a forge's spent set is neither re-serialized on every
+ * write nor held in memory. Token hashes are not secret and are stored in
+ * the clear.
+ */
+export class SQLiteSpentTokenStore implements SpentTokenStore {
+  private db: SQLiteDatabase;
+  private tableName: string;
+
+  constructor(db: SQLiteDatabase, tableName: string = 'spent_tokens') {
+    this.db = db;
+    this.tableName = sanitizeTableName(tableName);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        token_hash TEXT PRIMARY KEY,
+        spent_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async has(tokenHash: string): Promise<boolean> {
+    const stmt = this.db.prepare(
+      `SELECT token_hash AS value FROM ${this.tableName} WHERE token_hash = ?`
+    );
+    return stmt.get(tokenHash) !== undefined;
+  }
+
+  async add(tokenHash: string): Promise<void> {
+    await this.addMany([tokenHash]);
+  }
+
+  async addMany(tokenHashes: string[]): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT OR IGNORE INTO ${this.tableName} (token_hash, spent_at) VALUES (?, ?)`
+    );
+    const now = Math.floor(Date.now() / 1000);
+    this.db.exec('BEGIN');
+    try {
+      for (const tokenHash of tokenHashes) {
+        stmt.run(tokenHash, now);
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      Debug.error('Error adding spent tokens to SQLite:' + error, 'SQLiteSpentTokenStore');
+      throw error;
+    }
+  }
+
+  async size(): Promise<number> {
+    const row = this.db.prepare(`SELECT COUNT(*) AS value FROM ${this.tableName}`).get();
+    return Number(row?.value ?? 0);
+  }
+}
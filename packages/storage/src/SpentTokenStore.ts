@@ -0,0 +1,149 @@
+import { StorageInterface } from './StorageInterface.js';
+
+/**
+ * Persistent set of spent token hashes used by a forge to prevent double-spends.
+ *
+ * Writes are append-only: a hash is never removed once added. `addMany` must be
+ * atomic — after a crash either every hash of the batch is spent or none is —
+ * so a transfer's inputs are committed together.
+ *
+ * @example
+ * ```typescript
+ * const spent = new AppendOnlySpentTokenStore(storage, 'forge-spent');
+ * if (!(await spent.has(tokenHash))) {
+ *   await spent.addMany([tokenHash, otherInputHash]);
+ * }
+ * ```
+ */
+export interface SpentTokenStore {
+  /**
+   * Whether `tokenHash` has been spent.
+   */
+  has(tokenHash: string): Promise<boolean>;
+
+  /**
+   * Marks a single token hash as spent.
+   */
+  add(tokenHash: string): Promise<void>;
+
+  /**
+   * Marks every hash in `tokenHashes` as spent in one atomic write.
+   */
+  addMany(tokenHashes: string[]): Promise<void>;
+
+  /**
+   * Number of spent token hashes.
+   */
+  size(): Promise<number>;
+}
+
+/**
+ * Default SpentTokenStore on top of any StorageInterface.
+ *
+ * Each `add`/`addMany` writes one new segment (`<prefix>:<n>`) holding only the
+ * batch's hashes and then advances the `<prefix>:head` counter, so write cost
+ * is proportional to the batch rather than to the forge's lifetime volume. A
+ * segment only counts once the head covers it, which makes a batch atomic.
+ * Every `compactEvery` segments the whole set is written as one snapshot
+ * (`<prefix>:snapshot:<n>`), `<prefix>:base` is moved past the segments it
+ * covers and those are removed, so loading reads one snapshot and fewer than
+ * `compactEvery` segments. Lookups are served from an in-memory index loaded
+ * on first use; use `SQLiteSpentTokenStore` when the spent set should not be
+ * held in memory.
+ */
+export class AppendOnlySpentTokenStore implements SpentTokenStore {
+  private spent?: Set<string>;
+  private base = 0;
+  private head = 0;
+  // Serializes loads and appends so segment numbers are never reused.
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageInterface,
+    private readonly prefix: string = 'spent-tokens',
+    private readonly compactEvery: number = 1000
+  ) {}
+
+  async has(tokenHash: string): Promise<boolean> {
+    const spent = await this.load();
+    return spent.has(tokenHash);
+  }
+
+  async add(tokenHash: string): Promise<void> {
+    await this.addMany([tokenHash]);
+  }
+
+  async addMany(tokenHashes: string[]): Promise<void> {
+    await this.exclusive(async () => {
+      const spent = await this.loadUnlocked();
+      const fresh = [...new Set(tokenHashes)].filter(h => !spent.has(h));
+      if (fresh.length === 0) return;
+      await this.storage.setItem(`${this.prefix}:${this.head}`, JSON.stringify(fresh));
+      await this.storage.setItem(`${this.prefix}:head`, String(this.head + 1));
+      this.head += 1;
+      for (const hash of fresh) spent.add(hash);
+      if (this.head - this.base >= this.compactEvery) {
+        // The batch is committed; a failed compaction is retried on a later add.
+        await this.compact(spent).catch(() => undefined);
+      }
+    });
+  }
+
+  async size(): Promise<number> {
+    const spent = await this.load();
+    return spent.size;
+  }
+
+  private async load(): Promise<Set<string>> {
+    if (this.spent) return this.spent;
+    return this.exclusive(() => this.loadUnlocked());
+  }
+
+  private async loadUnlocked(): Promise<Set<string>> {
+    if (this.spent) return this.spent;
+    const spent = new Set<string>();
+    const base = Number((await this.storage.getItem(`${this.prefix}:base`)) ?? 0);
+    const head = Number((await this.storage.getItem(`${this.prefix}:head`)) ?? 0);
+    if (base > 0) {
+      const snapshot = await this.storage.getItem(`${this.prefix}:snapshot:${base}`);
+      if (!snapshot) {
+        throw new Error(`Spent token snapshot ${this.prefix}:snapshot:${base} is missing`);
+      }
+      for (const hash of JSON.parse(snapshot) as string[]) spent.add(hash);
+    }
+    for (let i = base; i < head; i++) {
+      const segment = await this.storage.getItem(`${this.prefix}:${i}`);
+      if (!segment) {
+        throw new Error(`Spent token segment ${this.prefix}:${i} is missing`);
+      }
+      for (const hash of JSON.parse(segment) as string[]) spent.add(hash);
+    }
+    this.base = base;
+    this.head = head;
+    this.spent = spent;
+    return spent;
+  }
+
+  // Writes the snapshot before moving the base to it, and removes what the
+  // snapshot replaced only after that, so a crash at any step loads the same
+  // set (left-over keys are never read again).
+  private async compact(spent: Set<string>): Promise<void> {
+    const { base, head } = this;
+    await this.storage.setItem(`${this.prefix}:snapshot:${head}`, JSON.stringify([...spent]));
+    await this.storage.setItem(`${this.prefix}:base`, String(head));
+    this.base = head;
+    if (base > 0) await this.storage.removeItem(`${this.prefix}:snapshot:${base}`);
+    for (let i = base; i < head; i++) {
+      await this.storage.removeItem(`${this.prefix}:${i}`);
+    }
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn, fn);
+    this.lock = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+}
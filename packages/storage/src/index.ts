@@ -1,5 +1,8 @@
 export * from './StorageInterface.js';
 export { Storage } from './Storage.js';
+export * from './SpentTokenStore.js';
+export { SQLiteStorage, SQLiteSpentTokenStore } from './SQLliteStorage.js';
+export type { SQLiteDatabase, SQLiteStatement } from './SQLliteStorage.js';
 export { BrowserStore } from './BrowserStorage.js';
 export { NodeStore } from './DiskStorage.js';
 /* export * from './src/PearStorage.js'; */
@@ -0,0 +1,69 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { hexToBytes } from "@noble/hashes/utils";
+import { verifySignature } from "@tat-protocol/utils";
+
+/**
+ * A token a receipted operation spent or produced. Outputs name the key
+ * they were issued `to`.
+ */
+export interface ReceiptToken {
+  tokenHash: string;
+  amount?: number;
+  tokenID?: string | number;
+  to?: string;
+}
+
+/**
+ * A forge's signed record of a burn or transfer it settled, for the sender to
+ * show a third party. `sig` is the issuer's Schnorr signature over
+ * `receiptDigest` of the other fields.
+ */
+export interface Receipt {
+  type: "burn" | "transfer";
+  issuer: string;
+  requestId: string; // Id of the NWPC request that was settled
+  timestamp: number; // Unix seconds
+  inputs: ReceiptToken[];
+  outputs: ReceiptToken[];
+  sig: string;
+}
+
+/**
+ * The digest a forge signs for a receipt: SHA-256 of a tagged JSON array of
+ * its fields in a fixed order, so it does not depend on key order.
+ */
+export function receiptDigest(receipt: Omit<Receipt, "sig">): Uint8Array {
+  const entry = ({ tokenHash, amount, tokenID, to }: ReceiptToken) => [
+    tokenHash,
+    amount ?? null,
+    tokenID ?? null,
+    to ?? null,
+  ];
+  const fields = [
+    receipt.type,
+    receipt.issuer,
+    receipt.requestId,
+    receipt.timestamp,
+    receipt.inputs.map(entry),
+    receipt.outputs.map(entry),
+  ];
+  return sha256(
+    new TextEncoder().encode(`TAT-RECEIPT-v1\n${JSON.stringify(fields)}`),
+  );
+}
+
+/**
+ * Checks offline that `receipt` was signed by the forge key `issuer`. Pass
+ * the key the forge used when it settled the operation; after a key rotation
+ * that is the retired key.
+ */
+export function verifyReceipt(receipt: Receipt, issuer: string): boolean {
+  try {
+    return (
+      receipt.issuer === issuer &&
+      verifySignature(receiptDigest(receipt), hexToBytes(receipt.sig), issuer)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -7,6 +7,7 @@ import {
   DebugLogger,
   verifySignature,
 } from "@tat-protocol/utils";
+import type { GrantRef, Transferability } from "@tat-protocol/utils";
 import { KeyPair } from "@tat-protocol/hdkeys";
 
 /**
@@ -38,6 +39,21 @@ export enum TokenType {
    * Example: Digital art, collectibles
    */
   TAT = "TAT",
+
+  /**
+   * Semi-fungible tokens - interchangeable only within their set (setID)
+   * Example: Trading cards of one series, per-currency credits
+   */
+  SEMI_FUNGIBLE = "SEMI_FUNGIBLE",
+}
+
+/**
+ * m-of-n public key lock: the token is spendable only with valid witnesses
+ * from at least `m` of the listed `pubkeys`
+ */
+export interface MultisigLock {
+  m: number;
+  pubkeys: string[];
 }
 
 /**
@@ -58,12 +74,18 @@ export interface Payload {
   iat: number; // Issued at timestamp
   exp?: number; // Expiration timestamp (in seconds)
   amount?: number; // Token amount/value
+  setID?: string; // Token set identifier; tokens only combine within a set
   HTLC?: string; // Hash of secret pre-image Priority #1
+  HTLCRecipient?: string; // Pubkey that can claim an HTLC with the secret
   timeLock?: number; // Timelock constraint Priority #2
   P2PKlock?: string; // Public key lock Priority #3
+  multisig?: MultisigLock; // m-of-n public key lock, instead of P2PKlock
   tokenID?: string; // Unique token identifier
   data_uri?: string; // Optional data URI
   ext?: Record<string, unknown>; // Optional extension fields
+  transferability?: Transferability; // TAT transfer restriction
+  transfers?: number; // Times a restricted TAT has changed hands
+  grant?: GrantRef; // Vesting grant this token is a tranche of
 }
 
 /**
@@ -325,6 +347,13 @@ export default class Token {
     return !!this.payload.P2PKlock;
   }
 
+  /**
+   * Checks if token has an m-of-n multisig lock
+   */
+  hasMultisigLock(): boolean {
+    return !!this.payload.multisig;
+  }
+
   /**
    * Checks if token is currently time locked
    */
@@ -406,9 +435,15 @@ export default class Token {
     if (payloadObj.amount !== undefined && payloadObj.amount !== null) {
       payload.amount = payloadObj.amount as number;
     }
+    if (payloadObj.setID) {
+      payload.setID = payloadObj.setID as string;
+    }
     if (payloadObj.P2PKlock) {
       payload.P2PKlock = payloadObj.P2PKlock as string;
     }
+    if (payloadObj.multisig) {
+      payload.multisig = payloadObj.multisig as MultisigLock;
+    }
     if (payloadObj.timeLock) {
       payload.timeLock = payloadObj.timeLock as number;
     }
@@ -421,9 +456,24 @@ export default class Token {
     if (payloadObj.HTLC) {
       payload.HTLC = payloadObj.HTLC as string;
     }
+    if (payloadObj.HTLCRecipient) {
+      payload.HTLCRecipient = payloadObj.HTLCRecipient as string;
+    }
     if (payloadObj.exp) {
       payload.exp = payloadObj.exp as number;
     }
+    if (payloadObj.ext && typeof payloadObj.ext === "object") {
+      payload.ext = payloadObj.ext as Record<string, unknown>;
+    }
+    if (payloadObj.transferability) {
+      payload.transferability = payloadObj.transferability as Transferability;
+    }
+    if (payloadObj.transfers) {
+      payload.transfers = payloadObj.transfers as number;
+    }
+    if (payloadObj.grant) {
+      payload.grant = payloadObj.grant as GrantRef;
+    }
 
     return payload;
   }
@@ -491,6 +541,21 @@ export default class Token {
       throw new Error("Token has expired");
     }
 
+    if (this.payload.multisig) {
+      const { m, pubkeys } = this.payload.multisig;
+      if (this.payload.P2PKlock) {
+        throw new Error("Token cannot carry both P2PKlock and multisig");
+      }
+      if (
+        !Array.isArray(pubkeys) ||
+        !Number.isInteger(m) ||
+        m < 1 ||
+        m > pubkeys.length
+      ) {
+        throw new Error("Multisig lock must require 1 to n of its n pubkeys");
+      }
+    }
+
     // Type-specific validation
     switch (this.header.typ) {
       case TokenType.FUNGIBLE:
@@ -498,6 +563,11 @@ export default class Token {
           throw new Error("Fungible token must have an amount");
         }
         break;
+      case TokenType.SEMI_FUNGIBLE:
+        if (this.payload.amount === undefined || !this.payload.setID) {
+          throw new Error("Semi-fungible token must have an amount and setID");
+        }
+        break;
       case TokenType.TAT:
         if (this.payload.tokenID === undefined) {
           throw new Error("Transferable Access Token must have a tokenID");
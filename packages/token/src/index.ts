@@ -1,6 +1,8 @@
 import Token, { TokenType } from "./Token.js";
-import type { Header, Payload } from "./Token.js";
+import type { Header, MultisigLock, Payload } from "./Token.js";
 import { TokenValidator } from "./TokenValidator.js";
+import { receiptDigest, verifyReceipt } from "./Receipt.js";
+import type { Receipt, ReceiptToken } from "./Receipt.js";
 
-export { Token, TokenType, TokenValidator };
-export type { Header, Payload };
+export { Token, TokenType, TokenValidator, receiptDigest, verifyReceipt };
+export type { Header, MultisigLock, Payload, Receipt, ReceiptToken };
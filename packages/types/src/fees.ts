@@ -0,0 +1,34 @@
+/**
+ * A forge's fee on fungible transfers. The fee is charged on the total of a
+ * transfer's outputs, in tokens of the same set, and issued to `treasury`.
+ */
+export interface FeeSchedule {
+  treasury?: string; // Fee recipient; defaults to the forge owner
+  flat?: number; // Fixed fee per transfer
+  percent?: number; // Percentage of the amount transferred
+  tiers?: FeeTier[]; // The first tier covering the amount replaces flat/percent
+  minimum?: number; // Lowest fee charged
+  decimals?: number; // Fees round up to this many decimals (default 0)
+}
+
+/**
+ * One band of a tiered fee schedule, for transfers of up to `upTo` (no bound
+ * when omitted).
+ */
+export interface FeeTier {
+  upTo?: number;
+  flat?: number;
+  percent?: number;
+}
+
+/**
+ * A forge's answer to `fee.quote`: the fee on a transfer of `amount` and the
+ * `total` its inputs must cover.
+ */
+export interface FeeQuote {
+  amount: number;
+  fee: number;
+  total: number;
+  treasury?: string;
+  schedule?: FeeSchedule | null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Forge authorization data (TAT_Protocol_Extensions.md §7.2, kind 30130)
+ */
+export interface ForgeAuthorization {
+  eventId: string; // Kind 30130 event ID
+  boxOfficePubkey: string;
+  catalogItemIds: string[]; // Authorized items
+  maxFee: number; // Maximum fee rate
+  expiresAt?: number; // Authorization expiry (Unix seconds)
+  restrictions?: {
+    regions?: string[]; // ISO country codes
+    paymentMethods?: string[]; // Allowed methods
+    maxPerDay?: number; // Rate limit
+    maxTotal?: number; // Total cap
+  };
+  settlement: {
+    currency: string;
+    frequency: "instant" | "daily" | "weekly";
+    minimumAmount?: number;
+  };
+}
+
+/**
+ * Mint request to Forge (TAT_Protocol_Extensions.md §7.3)
+ */
+export interface ForgeMintRequest {
+  authorizationEventId?: string; // Reference to kind 30130 event (if using Booth)
+  catalogItemId: string;
+  buyerPubkey: string;
+
+  payment: {
+    type: string;
+    amount: number;
+    referenceId: string;
+    details?: Record<string, unknown>;
+  };
+
+  fees?: {
+    boxOffice: number;
+    platform: number;
+  };
+
+  invoiceId: string;
+}
@@ -1,2 +1,11 @@
 // Signer types
 export type { Signer, UnsignedNostrEvent, NostrEvent } from "./signer.js";
+
+// Forge authorization protocol types
+export type {
+  ForgeAuthorization,
+  ForgeMintRequest,
+} from "./forge-authorization.js";
+
+// Transfer fee types
+export type { FeeQuote, FeeSchedule, FeeTier } from "./fees.js";
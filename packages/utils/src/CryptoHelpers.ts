@@ -1,6 +1,6 @@
 import { sha256 } from "@noble/hashes/sha256";
 import { schnorr } from "@noble/curves/secp256k1.js";
-import { hexToBytes } from "@noble/hashes/utils";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
 import { KeyPair } from "@tat-protocol/hdkeys";
 import { DebugLogger } from "./debug.js";
 
@@ -48,18 +48,55 @@ export function spendAuthDigest(
     >;
     // Only the value-routing fields are bound, in a fixed key order, so the
     // wallet and forge derive an identical digest regardless of incidental
-    // field ordering or extra metadata on the out objects.
-    return {
+    // field ordering or extra metadata on the out objects. A multisig lock
+    // on an output routes value too, so it is bound when present (and left
+    // out otherwise, keeping existing digests unchanged).
+    const normalizedOut: Record<string, unknown> = {
       to: out.to ?? null,
       amount: out.amount ?? null,
       tokenID: out.tokenID ?? null,
     };
+    const multisig = out.multisig as
+      | { m?: unknown; pubkeys?: unknown }
+      | undefined;
+    if (multisig) {
+      normalizedOut.multisig = {
+        m: multisig.m ?? null,
+        pubkeys: multisig.pubkeys ?? null,
+      };
+    }
+    return normalizedOut;
   });
   const message =
     "TAT-P2PK-SPEND-v1\n" + inputTokenHash + "\n" + JSON.stringify(normalized);
   return sha256(new TextEncoder().encode(message));
 }
 
+/**
+ * The outputs every witness of an atomic `swap` signs with `spendAuthDigest`:
+ * for each leg, a `{ to: from, tokenID: "swap" }` marker followed by the
+ * leg's outputs. A witness thus commits to both legs and to where each leg's
+ * change goes, and because no transfer accepts the marker output, a signed
+ * offer cannot be replayed as a plain transfer settling only one side.
+ */
+export function swapSpendOuts(
+  legs: { from?: string; outs?: unknown[] }[],
+): unknown[] {
+  return legs.flatMap((leg) => [
+    { to: leg.from ?? "", tokenID: "swap" },
+    ...(leg.outs ?? []),
+  ]);
+}
+
+/**
+ * Hex SHA-256 of an HTLC secret given as hex (TAT_Protocol_Extensions.md §6.3).
+ * The secret's bytes are hashed, so the forge checking a claim and a wallet
+ * reading a revealed secret from an HTLC_CLAIM event agree on the hashlock.
+ */
+export function htlcHashlock(secretHex: string): string {
+  return bytesToHex(sha256(hexToBytes(secretHex)));
+}
+
 export async function createHash(data: string) {
   const encoder = new TextEncoder();
   const buffer = encoder.encode(data);
@@ -0,0 +1,21 @@
+/**
+ * Most output tokens a `split`, or input tokens a `consolidate`, may carry.
+ */
+export const MAX_DENOMINATION_TOKENS = 64;
+
+/**
+ * Breaks an amount into powers of two, largest first (13 → [8, 4, 1]). A
+ * fractional remainder becomes one last denomination, so the parts always add
+ * up to the amount exactly. Forges and wallets both expand a `"pow2"` split
+ * with this, so they agree on the outputs a witness signs.
+ */
+export function powerOfTwoDenominations(amount: number): number[] {
+  if (!Number.isFinite(amount) || amount <= 0) return [];
+  const whole = Math.floor(amount);
+  const parts: number[] = [];
+  for (let bit = 2 ** Math.floor(Math.log2(whole || 1)); bit >= 1; bit /= 2) {
+    if (whole % (bit * 2) >= bit) parts.push(bit);
+  }
+  if (amount > whole) parts.push(amount - whole);
+  return parts;
+}
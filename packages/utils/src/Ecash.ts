@@ -0,0 +1,218 @@
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+
+const { ProjectivePoint: Point, CURVE } = secp256k1;
+type Point = InstanceType<typeof Point>;
+
+/**
+ * Amounts a forge signs ecash in by default: powers of two from 1 to 2^20.
+ */
+export const ECASH_DENOMINATIONS: readonly number[] = Array.from(
+  { length: 21 },
+  (_, i) => 2 ** i,
+);
+
+/**
+ * A blinded message `B_ = Y + rG` a wallet asks the forge to sign for
+ * `amount`, where `Y = hashToCurve(secret)` and `r` stays with the wallet.
+ */
+export interface BlindedMessage {
+  amount: number;
+  B_: string;
+}
+
+/**
+ * The forge's signature `C_ = kB_` on a blinded message, made with the key of
+ * `amount` in keyset `id`.
+ */
+export interface BlindSignature {
+  amount: number;
+  C_: string;
+  id: string;
+}
+
+/**
+ * Spendable ecash: a `secret` and its unblinded signature `C = kY`. Nothing in
+ * it links back to the blinded message the forge signed.
+ */
+export interface EcashProof {
+  amount: number;
+  secret: string;
+  C: string;
+  id: string;
+}
+
+/**
+ * Maps a proof secret to a curve point, as Cashu's `hash_to_curve` (NUT-00):
+ * the first `02 || sha256(msgHash || counter)` that is a valid point.
+ */
+export function hashToCurve(secret: string): Point {
+  const encoder = new TextEncoder();
+  const msgHash = sha256(
+    new Uint8Array([
+      ...encoder.encode("Secp256k1_HashToCurve_Cashu_"),
+      ...encoder.encode(secret),
+    ]),
+  );
+  for (let counter = 0; counter < 2 ** 16; counter++) {
+    const counterBytes = new Uint8Array(4);
+    new DataView(counterBytes.buffer).setUint32(0, counter, true);
+    const x = sha256(new Uint8Array([...msgHash, ...counterBytes]));
+    try {
+      return Point.fromHex(bytesToHex(new Uint8Array([2, ...x])));
+    } catch {
+      // not on the curve; try the next counter
+    }
+  }
+  throw new Error("No curve point found for secret");
+}
+
+/**
+ * The spent-set entry of a proof secret: `Y = hashToCurve(secret)` as
+ * compressed hex. Forges record this rather than the secret itself.
+ */
+export function ecashSecretId(secret: string): string {
+  return hashToCurve(secret).toHex(true);
+}
+
+/**
+ * Blinds `secret` with a random factor `r` (or the one given), returning the
+ * message to send the forge and the `r` needed to unblind its signature.
+ */
+export function blindMessage(
+  secret: string,
+  r: Uint8Array = secp256k1.utils.randomPrivateKey(),
+): { B_: string; r: string } {
+  const B_ = hashToCurve(secret).add(Point.BASE.multiply(scalar(r)));
+  return { B_: B_.toHex(true), r: bytesToHex(r) };
+}
+
+/**
+ * Signs a blinded message with a denomination key: `C_ = kB_`.
+ */
+export function signBlindedMessage(B_: string, k: string): string {
+  return Point.fromHex(B_)
+    .multiply(scalar(hexToBytes(k)))
+    .toHex(true);
+}
+
+/**
+ * Removes the blinding from the forge's signature: `C = C_ - rK`, where `K`
+ * is the public key of the denomination it was signed with.
+ */
+export function unblindSignature(C_: string, r: string, K: string): string {
+  return Point.fromHex(C_)
+    .subtract(Point.fromHex(K).multiply(scalar(hexToBytes(r))))
+    .toHex(true);
+}
+
+/**
+ * Whether `proof.C` is the signature of `proof.secret` under denomination key
+ * `k` (`C == kY`). Only the forge holding `k` can check this.
+ */
+export function verifyEcashProof(proof: EcashProof, k: string): boolean {
+  try {
+    return hashToCurve(proof.secret)
+      .multiply(scalar(hexToBytes(k)))
+      .equals(Point.fromHex(proof.C));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derives a forge's secret key for ecash of `amount` from its own secret key.
+ */
+export function ecashSecretKey(forgeSecretKey: string, amount: number): string {
+  const seed = sha256(
+    new TextEncoder().encode(`TAT-ECASH-KEY-v1\n${forgeSecretKey}\n${amount}`),
+  );
+  return bytesToHex(numberToBytes(scalar(seed)));
+}
+
+/**
+ * The public key `K = kG` wallets unblind signatures of denomination `k` with.
+ */
+export function ecashPublicKey(k: string): string {
+  return Point.BASE.multiply(scalar(hexToBytes(k))).toHex(true);
+}
+
+/**
+ * Identifies a keyset (amount → public key): "00" and the first 14 hex
+ * characters of the SHA-256 of its keys in ascending amount order.
+ */
+export function ecashKeysetId(keys: Record<number, string>): string {
+  const sorted = Object.keys(keys)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map((amount) => keys[amount]);
+  return "00" + bytesToHex(sha256(sorted.join(""))).slice(0, 14);
+}
+
+/**
+ * The outputs the witnesses of token inputs sign with `spendAuthDigest` when
+ * the tokens are exchanged for ecash, binding them to the blinded messages.
+ */
+export function ecashSpendOuts(
+  outputs: BlindedMessage[],
+): { to: string; amount: number }[] {
+  return (outputs ?? []).map(({ B_, amount }) => ({ to: B_, amount }));
+}
+
+const ECASH_TOKEN_PREFIX = "tatecashA";
+
+/**
+ * Ecash being handed to someone: proofs of one issuer's keyset.
+ */
+export interface EcashToken {
+  issuer: string;
+  proofs: EcashProof[];
+}
+
+/**
+ * Encodes ecash as a `tatecashA…` string (base64url JSON) that can be pasted
+ * or sent in any message; whoever holds it can spend it.
+ */
+export function encodeEcashToken(token: EcashToken): string {
+  const base64 = btoa(JSON.stringify(token));
+  return (
+    ECASH_TOKEN_PREFIX +
+    base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+  );
+}
+
+/**
+ * Decodes a string made by `encodeEcashToken`.
+ * @throws {Error} If it is not an encoded ecash token
+ */
+export function decodeEcashToken(encoded: string): EcashToken {
+  if (!encoded.startsWith(ECASH_TOKEN_PREFIX)) {
+    throw new Error("Not an ecash token");
+  }
+  const base64 = encoded
+    .slice(ECASH_TOKEN_PREFIX.length)
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  let token: EcashToken;
+  try {
+    token = JSON.parse(atob(base64));
+  } catch {
+    throw new Error("Not an ecash token");
+  }
+  if (typeof token?.issuer !== "string" || !Array.isArray(token.proofs)) {
+    throw new Error("Not an ecash token");
+  }
+  return token;
+}
+
+// Reads big-endian bytes as a scalar in [1, n), as key derivation needs.
+function scalar(bytes: Uint8Array): bigint {
+  const value = BigInt("0x" + (bytesToHex(bytes) || "0")) % CURVE.n;
+  if (value === BigInt(0)) throw new Error("Invalid ecash scalar");
+  return value;
+}
+
+function numberToBytes(value: bigint): Uint8Array {
+  return hexToBytes(value.toString(16).padStart(64, "0"));
+}
@@ -0,0 +1,24 @@
+import type { FeeSchedule } from "@tat-protocol/types";
+
+/**
+ * The fee `schedule` charges for a transfer of `amount`. The first tier whose
+ * `upTo` covers the amount sets the flat and percentage parts (the schedule's
+ * own apply when no tier does), the result is raised to the minimum and
+ * rounded up to `decimals`. Forges charge and quote fees with this, and
+ * wallets holding a forge's schedule (from `fee.quote`) can compute them
+ * offline.
+ */
+export function transferFee(
+  schedule: FeeSchedule | undefined,
+  amount: number,
+): number {
+  if (!schedule || !(amount > 0)) return 0;
+  const tier = schedule.tiers?.find(
+    (t) => t.upTo === undefined || amount <= t.upTo,
+  );
+  const { flat = 0, percent = 0 } = tier ?? schedule;
+  const fee = Math.max(flat + (amount * percent) / 100, schedule.minimum ?? 0);
+  const scale = 10 ** (schedule.decimals ?? 0);
+  // Drop float noise (1.5% of 200 is 3.0000000000000004) before rounding up.
+  return Math.ceil(Math.round(fee * scale * 1e6) / 1e6) / scale;
+}
@@ -0,0 +1,229 @@
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+
+/**
+ * One record of a forge's transparency log: a token minted (with the supply
+ * it added) or a token marked spent.
+ */
+export type LogEntry = {
+  type: "mint" | "spent";
+  tokenHash: string;
+  amount?: number;
+};
+
+/**
+ * A signed tree head: the forge's commitment to the first `size` entries of
+ * its log. `signature` is the forge's Schnorr signature over `logRootDigest`.
+ */
+export type LogRoot = {
+  size: number;
+  root: string;
+  timestamp: number;
+  signature: string;
+};
+
+/**
+ * Serialized form of an entry that is hashed into a leaf. Fixed field order,
+ * so forge and auditors derive the same leaf.
+ */
+export function logEntryLeaf(entry: LogEntry): string {
+  return JSON.stringify([entry.type, entry.tokenHash, entry.amount ?? null]);
+}
+
+/**
+ * Digest a forge signs to commit to a log root.
+ */
+export function logRootDigest(
+  size: number,
+  root: string,
+  timestamp: number,
+): Uint8Array {
+  const message = `TAT-LOG-ROOT-v1\n${size}\n${root}\n${timestamp}`;
+  return sha256(new TextEncoder().encode(message));
+}
+
+// Merkle tree hashing follows RFC 6962 §2.1: leaves and interior nodes are
+// domain-separated with a 0x00 / 0x01 prefix so a leaf can never be passed
+// off as a node.
+
+/**
+ * Hex leaf hash of `data` (an entry serialized with `logEntryLeaf`).
+ */
+export function merkleLeafHash(data: string): string {
+  const bytes = new TextEncoder().encode(data);
+  const prefixed = new Uint8Array(bytes.length + 1);
+  prefixed.set(bytes, 1);
+  return bytesToHex(sha256(prefixed));
+}
+
+function nodeHash(left: string, right: string): string {
+  const prefixed = new Uint8Array(65);
+  prefixed[0] = 1;
+  prefixed.set(hexToBytes(left), 1);
+  prefixed.set(hexToBytes(right), 33);
+  return bytesToHex(sha256(prefixed));
+}
+
+// Largest power of two strictly smaller than n (n >= 2).
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+/**
+ * Root of the tree over `leaves` (hex leaf hashes). The empty tree's root is
+ * the hash of the empty string.
+ */
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return bytesToHex(sha256(new Uint8Array()));
+  if (leaves.length === 1) return leaves[0];
+  const k = splitPoint(leaves.length);
+  return nodeHash(merkleRoot(leaves.slice(0, k)), merkleRoot(leaves.slice(k)));
+}
+
+/**
+ * Audit path proving leaf `index` is in the tree over `leaves`.
+ */
+export function merkleInclusionProof(
+  leaves: string[],
+  index: number,
+): string[] {
+  if (index < 0 || index >= leaves.length) {
+    throw new Error(
+      `Leaf index ${index} is outside a tree of ${leaves.length}`,
+    );
+  }
+  if (leaves.length === 1) return [];
+  const k = splitPoint(leaves.length);
+  return index < k
+    ? [
+        ...merkleInclusionProof(leaves.slice(0, k), index),
+        merkleRoot(leaves.slice(k)),
+      ]
+    : [
+        ...merkleInclusionProof(leaves.slice(k), index - k),
+        merkleRoot(leaves.slice(0, k)),
+      ];
+}
+
+/**
+ * Proof that the tree over the first `size` leaves is a prefix of the tree
+ * over all `leaves`.
+ */
+export function merkleConsistencyProof(
+  leaves: string[],
+  size: number,
+): string[] {
+  if (size < 0 || size > leaves.length) {
+    throw new Error(`Size ${size} is outside a tree of ${leaves.length}`);
+  }
+  if (size === 0 || size === leaves.length) return [];
+  return subproof(leaves, size, true);
+}
+
+function subproof(leaves: string[], m: number, complete: boolean): string[] {
+  if (m === leaves.length) {
+    return complete ? [] : [merkleRoot(leaves)];
+  }
+  const k = splitPoint(leaves.length);
+  return m <= k
+    ? [
+        ...subproof(leaves.slice(0, k), m, complete),
+        merkleRoot(leaves.slice(k)),
+      ]
+    : [
+        ...subproof(leaves.slice(k), m - k, false),
+        merkleRoot(leaves.slice(0, k)),
+      ];
+}
+
+// Bit helpers on plain numbers; `>>` would truncate trees past 2^31 leaves.
+const isOdd = (n: number) => n % 2 === 1;
+const half = (n: number) => Math.floor(n / 2);
+
+/**
+ * Checks an inclusion proof (RFC 9162 §2.1.3.2).
+ */
+export function verifyMerkleInclusion(
+  leafHash: string,
+  index: number,
+  size: number,
+  proof: string[],
+  root: string,
+): boolean {
+  if (index < 0 || index >= size) return false;
+  try {
+    let fn = index;
+    let sn = size - 1;
+    let r = leafHash;
+    for (const p of proof) {
+      if (sn === 0) return false;
+      if (isOdd(fn) || fn === sn) {
+        r = nodeHash(p, r);
+        while (!isOdd(fn) && fn !== 0) {
+          fn = half(fn);
+          sn = half(sn);
+        }
+      } else {
+        r = nodeHash(r, p);
+      }
+      fn = half(fn);
+      sn = half(sn);
+    }
+    return sn === 0 && r === root;
+  } catch {
+    // Malformed hex in the proof.
+    return false;
+  }
+}
+
+/**
+ * Checks that the tree of `newSize` leaves with `newRoot` extends the tree of
+ * `oldSize` leaves with `oldRoot` (RFC 9162 §2.1.4.2), i.e. no entry was
+ * removed or changed in between.
+ */
+export function verifyMerkleConsistency(
+  oldSize: number,
+  newSize: number,
+  oldRoot: string,
+  newRoot: string,
+  proof: string[],
+): boolean {
+  if (oldSize < 0 || oldSize > newSize) return false;
+  if (oldSize === newSize) return proof.length === 0 && oldRoot === newRoot;
+  if (oldSize === 0) return proof.length === 0;
+  try {
+    // When the old tree is a complete subtree its root is the first node.
+    const path = Number.isInteger(Math.log2(oldSize))
+      ? [oldRoot, ...proof]
+      : [...proof];
+    if (path.length === 0) return false;
+    let fn = oldSize - 1;
+    let sn = newSize - 1;
+    while (isOdd(fn)) {
+      fn = half(fn);
+      sn = half(sn);
+    }
+    let fr = path[0];
+    let sr = path[0];
+    for (const c of path.slice(1)) {
+      if (sn === 0) return false;
+      if (isOdd(fn) || fn === sn) {
+        fr = nodeHash(c, fr);
+        sr = nodeHash(c, sr);
+        while (!isOdd(fn) && fn !== 0) {
+          fn = half(fn);
+          sn = half(sn);
+        }
+      } else {
+        sr = nodeHash(sr, c);
+      }
+      fn = half(fn);
+      sn = half(sn);
+    }
+    return fr === oldRoot && sr === newRoot && sn === 0;
+  } catch {
+    return false;
+  }
+}
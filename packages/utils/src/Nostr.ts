@@ -6,6 +6,7 @@ import {
   Event,
 } from "nostr-tools";
 import { bytesToHex, hexToBytes, randomBytes } from "@noble/hashes/utils";
+import { sha256 } from "@noble/hashes/sha256";
 import NDK, {
   NDKEvent,
   NDKKind,
@@ -14,6 +15,8 @@ import NDK, {
 } from "@nostr-dev-kit/ndk";
 import { KeyPair } from "@tat-protocol/hdkeys";
 import { DebugLogger } from "./debug.js";
+import { signMessage, verifySignature } from "./CryptoHelpers.js";
+import type { LogRoot } from "./MerkleLog.js";
 
 const Debug = DebugLogger.getInstance();
 
@@ -61,6 +64,339 @@ export async function postToFeed(
   return post;
 }
 
+/**
+ * Event kind for public HTLC claim announcements (TAT_Protocol_Extensions.md §8.5).
+ */
+export const HTLC_CLAIM_KIND = 30120;
+
+/**
+ * Publishes an HTLC_CLAIM event revealing the secret that unlocked `tokenHash`,
+ * so anyone holding a lock on the same hash can learn it.
+ */
+export async function postHTLCClaim(
+  ndk: NDK,
+  fromKeys: KeyPair,
+  claim: { hash: string; secret: string; tokenHash: string; issuer: string },
+) {
+  const signer = new NDKPrivateKeySigner(fromKeys.secretKey);
+  const event = new NDKEvent(ndk);
+  event.kind = HTLC_CLAIM_KIND;
+  event.content = "";
+  event.pubkey = String(fromKeys.publicKey);
+  event.created_at = Math.floor(Date.now() / 1000);
+  // 30120 is parameterized-replaceable: without a per-claim `d` tag relays
+  // would keep only the publisher's latest claim.
+  event.tags = [
+    ["d", claim.tokenHash],
+    ["h", claim.hash],
+    ["s", claim.secret],
+    ["t", claim.tokenHash],
+    ["i", claim.issuer],
+  ];
+  event.sig = await event.sign(signer);
+  await event.publish();
+  return event;
+}
+
+/**
+ * Event kind for a forge's signed transparency log roots.
+ */
+export const LOG_ROOT_KIND = 30140;
+
+/**
+ * Publishes a signed log root (`size`, `root`, `timestamp` and the forge's
+ * `signature` over `logRootDigest`) so auditors can collect the roots a forge
+ * committed to and check that each later one extends the earlier ones.
+ */
+export async function postLogRoot(ndk: NDK, fromKeys: KeyPair, head: LogRoot) {
+  const signer = new NDKPrivateKeySigner(fromKeys.secretKey);
+  const event = new NDKEvent(ndk);
+  event.kind = LOG_ROOT_KIND;
+  event.content = JSON.stringify(head);
+  event.pubkey = String(fromKeys.publicKey);
+  event.created_at = Math.floor(Date.now() / 1000);
+  // Parameterized-replaceable: one `d` per tree size keeps every root.
+  event.tags = [
+    ["d", String(head.size)],
+    ["size", String(head.size)],
+    ["root", head.root],
+  ];
+  event.sig = await event.sign(signer);
+  await event.publish();
+  return event;
+}
+
+/**
+ * Event kind for a forge's key rotation announcements.
+ */
+export const KEY_ROTATION_KIND = 30150;
+
+/**
+ * A verified key rotation: `oldPubkey` handed issuance over to `newPubkey` at
+ * `rotatedAt` (Unix seconds). A `compromised` key vouches for none of its
+ * tokens, since whoever leaked it can sign any `iat`.
+ */
+export type KeyRotation = {
+  oldPubkey: string;
+  newPubkey: string;
+  rotatedAt: number;
+  compromised?: boolean;
+};
+
+/**
+ * Digest the successor key signs to accept a rotation from `oldPubkey`, so a
+ * key cannot name another issuer's key as its own successor.
+ */
+export function keyRotationDigest(
+  oldPubkey: string,
+  newPubkey: string,
+): Uint8Array {
+  const message = `TAT-KEY-ROTATION-v1\n${oldPubkey}\n${newPubkey}`;
+  return sha256(new TextEncoder().encode(message));
+}
+
+/**
+ * Signs a KEY_ROTATION event with the retiring key, naming `newKeys` as its
+ * successor and, if `compromised`, marking the retiring key as leaked. The
+ * successor countersigns `keyRotationDigest` in the `accept` tag. The event
+ * is returned unpublished so the caller can persist it before publishing.
+ */
+export async function signKeyRotation(
+  ndk: NDK,
+  fromKeys: KeyPair,
+  newKeys: KeyPair,
+  compromised = false,
+) {
+  const newPubkey = String(newKeys.publicKey);
+  const accept = signMessage(
+    keyRotationDigest(String(fromKeys.publicKey), newPubkey),
+    newKeys,
+  );
+  const signer = new NDKPrivateKeySigner(fromKeys.secretKey);
+  const event = new NDKEvent(ndk);
+  event.kind = KEY_ROTATION_KIND;
+  event.content = "";
+  event.pubkey = String(fromKeys.publicKey);
+  event.created_at = Math.floor(Date.now() / 1000);
+  // One `d` per key: a key is retired once, and relays keep that event.
+  event.tags = [
+    ["d", "key-rotation"],
+    ["p", newPubkey],
+    ["accept", bytesToHex(accept)],
+    ...(compromised ? [["compromised"]] : []),
+  ];
+  event.sig = await event.sign(signer);
+  return event;
+}
+
+/**
+ * Checks a KEY_ROTATION event's signature and the successor's `accept`
+ * countersignature, and returns the rotation it announces, or null if the
+ * event is not a valid announcement.
+ */
+export function verifyKeyRotation(event: Event): KeyRotation | null {
+  if (event.kind !== KEY_ROTATION_KIND) return null;
+  const newPubkey = event.tags.find((tag) => tag[0] === "p")?.[1];
+  const accept = event.tags.find((tag) => tag[0] === "accept")?.[1];
+  if (
+    !newPubkey ||
+    !/^[0-9a-f]{64}$/.test(newPubkey) ||
+    newPubkey === event.pubkey ||
+    !accept ||
+    !/^[0-9a-f]{128}$/.test(accept)
+  ) {
+    return null;
+  }
+  try {
+    if (!verifyEvent(event)) return null;
+  } catch {
+    return null;
+  }
+  if (
+    !verifySignature(
+      keyRotationDigest(event.pubkey, newPubkey),
+      hexToBytes(accept),
+      newPubkey,
+    )
+  ) {
+    return null;
+  }
+  return {
+    oldPubkey: event.pubkey,
+    newPubkey,
+    rotatedAt: event.created_at,
+    ...(event.tags.some((tag) => tag[0] === "compromised")
+      ? { compromised: true }
+      : {}),
+  };
+}
+
+/**
+ * Event kind for a forge's token revocation and freeze notices.
+ */
+export const TOKEN_REVOCATION_KIND = 30160;
+
+/**
+ * Why a forge revoked or froze a token.
+ */
+export const REVOCATION_REASONS = [
+  "refunded",
+  "fraud",
+  "chargeback",
+  "lost",
+  "stolen",
+  "dispute",
+  "policy",
+  "other",
+] as const;
+
+export type RevocationReason = (typeof REVOCATION_REASONS)[number];
+
+/**
+ * A forge's standing on one of its tokens: `revoked` and `frozen` tokens
+ * cannot be spent until the notice lapses at `expiresAt` (Unix seconds) or is
+ * replaced by an `active` one reinstating the token.
+ */
+export type TokenRevocation = {
+  issuer: string;
+  tokenHash: string;
+  status: "revoked" | "frozen" | "active";
+  reason?: RevocationReason;
+  expiresAt?: number;
+  createdAt: number; // Unix seconds
+};
+
+/**
+ * Whether a revocation notice still blocks its token at `now` (Unix seconds).
+ */
+export function isRevocationActive(
+  revocation: TokenRevocation,
+  now = Math.floor(Date.now() / 1000),
+): boolean {
+  return (
+    revocation.status !== "active" &&
+    (revocation.expiresAt === undefined || revocation.expiresAt > now)
+  );
+}
+
+/**
+ * Publishes a TOKEN_REVOCATION event announcing the forge's standing on one
+ * of its tokens. A later notice for the same token replaces the earlier one.
+ */
+export async function postTokenRevocation(
+  ndk: NDK,
+  fromKeys: KeyPair,
+  revocation: Omit<TokenRevocation, "issuer">,
+) {
+  const signer = new NDKPrivateKeySigner(fromKeys.secretKey);
+  const event = new NDKEvent(ndk);
+  event.kind = TOKEN_REVOCATION_KIND;
+  event.content = "";
+  event.pubkey = String(fromKeys.publicKey);
+  event.created_at = revocation.createdAt;
+  const tags: NDKTag[] = [
+    ["d", revocation.tokenHash],
+    ["t", revocation.tokenHash],
+    ["status", revocation.status],
+  ];
+  if (revocation.reason) tags.push(["reason", revocation.reason]);
+  if (revocation.expiresAt !== undefined) {
+    tags.push(["expires", String(revocation.expiresAt)]);
+  }
+  event.tags = tags;
+  event.sig = await event.sign(signer);
+  await event.publish();
+  return event;
+}
+
+/**
+ * Checks a TOKEN_REVOCATION event's signature and returns the notice it
+ * carries, or null if the event is not a valid notice. The signer is the
+ * token's issuer.
+ */
+export function verifyTokenRevocation(event: Event): TokenRevocation | null {
+  if (event.kind !== TOKEN_REVOCATION_KIND) return null;
+  const tag = (name: string) => event.tags.find((t) => t[0] === name)?.[1];
+  const tokenHash = tag("t");
+  const status = tag("status");
+  const reason = tag("reason");
+  const expires = tag("expires");
+  if (
+    !tokenHash ||
+    !/^[0-9a-f]{64}$/.test(tokenHash) ||
+    (status !== "revoked" && status !== "frozen" && status !== "active") ||
+    (reason !== undefined &&
+      !REVOCATION_REASONS.includes(reason as RevocationReason)) ||
+    (expires !== undefined && !/^\d+$/.test(expires))
+  ) {
+    return null;
+  }
+  try {
+    if (!verifyEvent(event)) return null;
+  } catch {
+    return null;
+  }
+  return {
+    issuer: event.pubkey,
+    tokenHash,
+    status,
+    ...(reason ? { reason: reason as RevocationReason } : {}),
+    ...(expires !== undefined ? { expiresAt: Number(expires) } : {}),
+    createdAt: event.created_at,
+  };
+}
+
+/**
+ * Event kind for forge -> booth selling authorizations (TAT_Protocol_Extensions.md §7.2).
+ */
+export const FORGE_AUTHORIZATION_KIND = 30130;
+
+/**
+ * Signs a FORGE_AUTHORIZATION event granting `grant.pubkey` the right to sell
+ * the listed catalog items, or, with `revoked`, the replacement event that
+ * withdraws it (§7.4). The event is returned unpublished so the caller can
+ * record its id before publishing.
+ */
+export async function signForgeAuthorization(
+  ndk: NDK,
+  fromKeys: KeyPair,
+  grant: {
+    id: string;
+    pubkey: string;
+    catalogItemIds?: string[];
+    maxFee?: number;
+    expiresAt?: number;
+    content?: Record<string, unknown>;
+    revoked?: boolean;
+  },
+) {
+  const signer = new NDKPrivateKeySigner(fromKeys.secretKey);
+  const event = new NDKEvent(ndk);
+  event.kind = FORGE_AUTHORIZATION_KIND;
+  event.pubkey = String(fromKeys.publicKey);
+  event.created_at = Math.floor(Date.now() / 1000);
+  const tags: NDKTag[] = [
+    ["d", grant.id],
+    ["p", grant.pubkey],
+  ];
+  if (grant.revoked) {
+    tags.push(["revoked", "true"]);
+    event.content = "";
+  } else {
+    for (const item of grant.catalogItemIds ?? []) {
+      tags.push(["catalog", item]);
+    }
+    if (grant.maxFee !== undefined) tags.push(["fee", String(grant.maxFee)]);
+    if (grant.expiresAt !== undefined) {
+      tags.push(["expires", String(grant.expiresAt)]);
+    }
+    event.content = JSON.stringify(grant.content ?? {});
+  }
+  event.tags = tags;
+  event.sig = await event.sign(signer);
+  return event;
+}
+
 export async function updateProfile(
   ndk: NDK,
   fromKeys: KeyPair,
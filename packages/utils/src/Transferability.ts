@@ -0,0 +1,82 @@
+/**
+ * How a TAT may change hands once minted:
+ * - `soulbound`: never
+ * - `issuer`: only back to its issuer
+ * - `limited`: at most `maxTransfers` times
+ */
+export type TransferabilityMode = "soulbound" | "issuer" | "limited";
+
+export const TRANSFERABILITY_MODES: readonly TransferabilityMode[] = [
+  "soulbound",
+  "issuer",
+  "limited",
+];
+
+/**
+ * A TAT's transfer restriction, carried in its payload next to `transfers`,
+ * the number of times it has changed hands. Burning a restricted TAT, and its
+ * issuer re-issuing it to a holder's new key, stay possible in every mode.
+ */
+export interface Transferability {
+  mode: TransferabilityMode;
+  maxTransfers?: number; // `limited` only
+}
+
+/**
+ * Why a TAT may not be transferred to `to`, or null if it may. `issuerKeys`
+ * are the keys counting as its issuer for the `issuer` mode (by default its
+ * `iss`). Unknown modes are refused rather than ignored.
+ */
+export function transferRestriction(
+  payload: {
+    iss?: string;
+    transferability?: Transferability;
+    transfers?: number;
+  },
+  to: string,
+  issuerKeys: string[] = payload.iss ? [payload.iss] : [],
+): string | null {
+  const rule = payload.transferability;
+  if (!rule) return null;
+  switch (rule.mode) {
+    case "soulbound":
+      return "Token is soulbound and cannot be transferred";
+    case "issuer":
+      return issuerKeys.includes(to)
+        ? null
+        : "Token can only be transferred back to its issuer";
+    case "limited": {
+      const max = rule.maxTransfers ?? 0;
+      return (payload.transfers ?? 0) < max
+        ? null
+        : `Token has reached its transfer limit (${max})`;
+    }
+    default:
+      return `Unknown transferability mode: ${String((rule as Transferability).mode)}`;
+  }
+}
+
+/**
+ * Why `value` is not a valid `Transferability`, or null if it is.
+ */
+export function transferabilityError(value: unknown): string | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "transferability must be an object";
+  }
+  const { mode, maxTransfers } = value as Transferability;
+  if (!TRANSFERABILITY_MODES.includes(mode)) {
+    return `transferability.mode must be one of: ${TRANSFERABILITY_MODES.join(", ")}`;
+  }
+  if (mode === "limited") {
+    if (
+      typeof maxTransfers !== "number" ||
+      !Number.isInteger(maxTransfers) ||
+      maxTransfers < 1
+    ) {
+      return "transferability.maxTransfers must be a positive integer";
+    }
+  } else if (maxTransfers !== undefined) {
+    return "transferability.maxTransfers only applies to the limited mode";
+  }
+  return null;
+}
@@ -0,0 +1,128 @@
+/**
+ * Most tranches one grant may be released in.
+ */
+export const MAX_GRANT_TRANCHES = 240;
+
+/**
+ * A vesting schedule, in seconds: `duration / interval` equal tranches
+ * unlocking every `interval` from `start` (now by default), with tranches
+ * that fall before the `cliff` unlocking together at it. A four-year grant
+ * with a one-year cliff and monthly releases is
+ * `{ cliff: 365 * DAY, interval: 30 * DAY, duration: 48 * 30 * DAY }`.
+ */
+export interface VestingSchedule {
+  start?: number;
+  cliff?: number;
+  interval: number;
+  duration: number;
+}
+
+/**
+ * One release of a grant: `amount` unlocking at Unix time `unlockAt`.
+ */
+export interface VestingTranche {
+  unlockAt: number;
+  amount: number;
+}
+
+/**
+ * Marks a token as tranche `tranche` (from 0) of the `tranches` releasing
+ * grant `id`, so wallets can show the grant as one position.
+ */
+export interface GrantRef {
+  id: string;
+  tranche: number;
+  tranches: number;
+}
+
+/**
+ * Why `schedule` is not a valid VestingSchedule, or null if it is.
+ */
+export function vestingScheduleError(schedule: unknown): string | null {
+  if (!schedule || typeof schedule !== "object" || Array.isArray(schedule)) {
+    return "schedule must be an object";
+  }
+  const { start, cliff, interval, duration } = schedule as VestingSchedule;
+  for (const [name, value] of [
+    ["start", start],
+    ["cliff", cliff],
+  ] as const) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return `schedule.${name} must be a non-negative integer`;
+    }
+  }
+  if (!Number.isInteger(interval) || interval <= 0) {
+    return "schedule.interval must be a positive integer";
+  }
+  if (
+    !Number.isInteger(duration) ||
+    duration < interval ||
+    duration % interval !== 0
+  ) {
+    return "schedule.duration must be a positive multiple of schedule.interval";
+  }
+  if (duration / interval > MAX_GRANT_TRANCHES) {
+    return `schedule may release at most ${MAX_GRANT_TRANCHES} tranches`;
+  }
+  if ((cliff ?? 0) > duration) {
+    return "schedule.cliff must not exceed schedule.duration";
+  }
+  return null;
+}
+
+/**
+ * Why `tranches` are not a list of releases with positive amounts, or null.
+ */
+export function vestingTranchesError(tranches: unknown): string | null {
+  if (
+    !Array.isArray(tranches) ||
+    tranches.length === 0 ||
+    tranches.length > MAX_GRANT_TRANCHES
+  ) {
+    return `tranches must be a list of 1 to ${MAX_GRANT_TRANCHES} releases`;
+  }
+  for (const tranche of tranches as Partial<VestingTranche>[]) {
+    if (!Number.isInteger(tranche?.unlockAt) || Number(tranche.unlockAt) < 0) {
+      return "Each tranche needs an unlockAt Unix time in seconds";
+    }
+    const amount = tranche.amount;
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+      return "Each tranche needs a positive, finite amount";
+    }
+  }
+  return null;
+}
+
+/**
+ * Splits `amount` into the tranches of `schedule`, earliest first. Whole
+ * amounts stay whole: each release is the whole units vested since the last,
+ * so the tranches add up to `amount` exactly. Releases of nothing are left
+ * out.
+ */
+export function vestingTranches(
+  amount: number,
+  schedule: VestingSchedule,
+  now: number = Math.floor(Date.now() / 1000),
+): VestingTranche[] {
+  const start = schedule.start ?? now;
+  const cliffAt = start + (schedule.cliff ?? 0);
+  const count = schedule.duration / schedule.interval;
+  const vestedBy = (k: number) =>
+    k === count
+      ? amount
+      : Number.isInteger(amount)
+        ? Math.floor((amount * k) / count)
+        : (amount * k) / count;
+  const tranches: VestingTranche[] = [];
+  for (let k = 1; k <= count; k++) {
+    const unlockAt = Math.max(start + k * schedule.interval, cliffAt);
+    const released = vestedBy(k) - vestedBy(k - 1);
+    const last = tranches[tranches.length - 1];
+    if (last?.unlockAt === unlockAt) {
+      last.amount += released;
+    } else if (released > 0) {
+      tranches.push({ unlockAt, amount: released });
+    }
+  }
+  return tranches.filter((tranche) => tranche.amount > 0);
+}
@@ -3,4 +3,10 @@ export * from "./debug.js";
 export * from "./Nostr.js";
 export * from "./DataHelpers.js";
 export * from "./BloomFilter.js";
+export * from "./MerkleLog.js";
+export * from "./Denominations.js";
+export * from "./Fees.js";
+export * from "./Transferability.js";
+export * from "./Ecash.js";
 export * from "./SignerNostr.js";
+export * from "./Vesting.js";
@@ -45,6 +45,18 @@ export class NWPCServer {
     return this.publicKey;
   }
 
+  async subscribe(_pubkey?: string, _handler?: unknown): Promise<void> {
+    return;
+  }
+
+  async unsubscribe(_pubkey?: string): Promise<boolean> {
+    return true;
+  }
+
+  handleEvent(): Promise<void> {
+    return Promise.resolve();
+  }
+
   async sendResponse(): Promise<void> {
     return;
   }
@@ -63,13 +75,69 @@ export class NWPCServer {
 }
 
 export class NWPCPeer {
-  constructor(_config: any) {}
+  public keys: any;
+  public publicKey?: string;
+  public storage: any;
+  protected state: any = {};
+  protected signer?: any;
+  protected hooks: any = {};
+  protected requestHandlers = new Map<string, any>();
+  protected responseHandlers = new Map<string, any>();
+  // Relay subscriptions that never deliver; tests call the handlers directly.
+  protected ndk = {
+    subscribe: () => ({ on: () => undefined, stop: () => undefined }),
+  };
+
+  constructor(config: any = {}) {
+    this.keys = config?.keys;
+    this.storage = config?.storage;
+  }
 
   async init(): Promise<void> {
     return;
   }
 
-  async request(): Promise<NWPCResponse> {
+  use(method: string, handler: unknown): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  getPublicKey(): string | undefined {
+    return this.publicKey;
+  }
+
+  async request(..._args: unknown[]): Promise<NWPCResponse> {
     return { id: "mock", timestamp: Date.now(), result: {} };
   }
+
+  async subscribe(_pubkey?: string): Promise<void> {
+    return;
+  }
+
+  async unsubscribe(_pubkey?: string): Promise<boolean> {
+    return true;
+  }
+
+  getSubscription(_pubkey?: string): unknown {
+    return undefined;
+  }
+
+  async sendResponse(): Promise<void> {
+    return;
+  }
+
+  isEventProcessed(_id?: string): boolean {
+    return false;
+  }
+
+  markEventProcessed(_id?: string): void {
+    return;
+  }
+
+  // Persistence hooks used by Pocket; no-ops in tests.
+  async queueSaveState(_key?: string, _state?: unknown): Promise<void> {
+    return;
+  }
+  async loadState(_key?: string): Promise<unknown> {
+    return null;
+  }
 }
@@ -8,9 +8,15 @@ export interface Payload {
   exp?: number;
   amount?: number;
   tokenID?: string;
+  multisig?: MultisigLock;
   [key: string]: unknown;
 }
 
+export interface MultisigLock {
+  m: number;
+  pubkeys: string[];
+}
+
 export interface Header {
   alg?: string;
   typ?: string;
@@ -21,6 +27,7 @@ export interface Header {
 export enum TokenType {
   FUNGIBLE = "FUNGIBLE",
   TAT = "TAT",
+  SEMI_FUNGIBLE = "SEMI_FUNGIBLE",
 }
 
 export interface TokenBuildParams {
@@ -69,14 +76,28 @@ export class Token {
     if (payloadObj.amount !== undefined && payloadObj.amount !== null) {
       payload.amount = payloadObj.amount as number;
     }
+    if (payloadObj.setID) payload.setID = payloadObj.setID as string;
     if (payloadObj.P2PKlock) payload.P2PKlock = payloadObj.P2PKlock as string;
+    if (payloadObj.multisig) payload.multisig = payloadObj.multisig as MultisigLock;
     if (payloadObj.timeLock) payload.timeLock = payloadObj.timeLock as number;
     if (payloadObj.tokenID !== undefined && payloadObj.tokenID !== null) {
       payload.tokenID = payloadObj.tokenID as string;
     }
     if (payloadObj.data_uri) payload.data_uri = payloadObj.data_uri as string;
     if (payloadObj.HTLC) payload.HTLC = payloadObj.HTLC as string;
+    if (payloadObj.HTLCRecipient) {
+      payload.HTLCRecipient = payloadObj.HTLCRecipient as string;
+    }
     if (payloadObj.exp) payload.exp = payloadObj.exp as number;
+    if (payloadObj.ext && typeof payloadObj.ext === "object") {
+      payload.ext = payloadObj.ext as Record<string, unknown>;
+    }
+    if (payloadObj.transferability) {
+      payload.transferability = payloadObj.transferability;
+    }
+    if (payloadObj.transfers)
+      payload.transfers = payloadObj.transfers as number;
+    if (payloadObj.grant) payload.grant = payloadObj.grant;
     return payload;
   }
 
@@ -108,7 +129,7 @@ export class Token {
       return schnorr.verify(
         hexToBytes(this.signature),
         dataToVerify,
-        this.payload.iss as string
+        this.payload.iss as string,
       );
     } catch {
       return false;
@@ -188,4 +209,8 @@ export class Token {
   }
 }
 
+// Receipts are plain signed data, so the real helpers are used.
+export { receiptDigest, verifyReceipt } from "../../packages/token/src/Receipt";
+export type { Receipt, ReceiptToken } from "../../packages/token/src/Receipt";
+
 export default Token;
@@ -0,0 +1,134 @@
+// Owner-only admin methods: forger management, supply caps, pause/resume and
+// stats, with every change recorded in the audit trail.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(FungibleForge);
+}
+
+// Runs a route's middleware chain the way the router does.
+async function call(
+  handlers: ((req: any, ctx: any, res: any, next: any) => Promise<unknown>)[],
+  method: string,
+  params: unknown,
+  sender = OWNER,
+) {
+  const res = makeRes();
+  const req = { id: "r", method, params: JSON.stringify(params), timestamp: 0 };
+  const run = async (i: number): Promise<void> => {
+    await handlers[i]?.(req, { sender }, res, () => run(i + 1));
+  };
+  await run(0);
+  return res;
+}
+
+describe("forge admin methods", () => {
+  it("is owner only", async () => {
+    const forge = makeForge();
+    const res = await call(
+      [forge.onlyOwner.bind(forge), forge.handleAdminStats.bind(forge)],
+      "admin.stats",
+      {},
+      ALICE,
+    );
+    expect(res.calls).toEqual([
+      { type: "error", args: [2004, "Unauthorized"] },
+    ]);
+  });
+
+  it("edits authorized forgers and records each change", async () => {
+    const forge = makeForge();
+    const audited = forge.audited.bind(forge);
+    const add = forge.handleAdminAddForger.bind(forge);
+    const ok = await call([audited, add], "admin.forgers.add", { pubkey: BOB });
+    expect(ok.calls[0].args[0]).toEqual({ forgers: [BOB] });
+    const bad = await call([audited, add], "admin.forgers.add", {
+      pubkey: "nope",
+    });
+    expect(bad.calls[0].type).toBe("error");
+    await call(
+      [audited, forge.handleAdminRemoveForger.bind(forge)],
+      "admin.forgers.remove",
+      { pubkey: BOB },
+    );
+    expect(forge.getAuthorizedForgers()).toEqual([]);
+
+    const audit = await call(
+      [forge.handleAdminAudit.bind(forge)],
+      "admin.audit",
+      {},
+    );
+    const { size, entries } = audit.calls[0].args[0];
+    expect(size).toBe(3);
+    expect(
+      entries.map((e: any) => [e.method, e.params.pubkey, !!e.error]),
+    ).toEqual([
+      ["admin.forgers.add", BOB, false],
+      ["admin.forgers.add", "nope", true],
+      ["admin.forgers.remove", BOB, false],
+    ]);
+    expect(entries[0].sender).toBe(OWNER);
+  });
+
+  it("pauses and resumes transfers without touching minting", async () => {
+    const forge = makeForge();
+    await call([forge.handleAdminPause.bind(forge)], "admin.pause", {
+      scope: "transfers",
+    });
+    const next = jest.fn(async () => undefined);
+    const blocked = makeRes();
+    await forge.unlessPaused("transfers")({} as any, {} as any, blocked, next);
+    expect(blocked.calls[0].args[1]).toBe("Forge transfers is paused");
+    await forge.unlessPaused("minting")({} as any, {} as any, makeRes(), next);
+    expect(next).toHaveBeenCalledTimes(1);
+
+    const resumed = await call(
+      [forge.handleAdminResume.bind(forge)],
+      "admin.resume",
+      {},
+    );
+    expect(resumed.calls[0].args[0]).toEqual({
+      paused: { minting: false, transfers: false },
+    });
+  });
+
+  it("changes supply caps and reports stats", async () => {
+    const forge = makeForge();
+    await (forge as any).mintValue(300, {});
+    const setSupply = forge.handleAdminSetSupply.bind(forge);
+    const tooLow = await call([setSupply], "admin.supply.set", {
+      totalSupply: 200,
+    });
+    expect(tooLow.calls[0].type).toBe("error");
+    const unknown = await call([setSupply], "admin.supply.set", {
+      totalSupply: 5,
+      setID: "EUR",
+    });
+    expect(unknown.calls[0].args[0]).toBe(1005);
+    const raised = await call([setSupply], "admin.supply.set", {
+      totalSupply: 5000,
+    });
+    expect(raised.calls[0].args[0]).toMatchObject({
+      setID: "-",
+      total: 5000,
+      circulating: 300,
+    });
+
+    const stats = await call(
+      [forge.handleAdminStats.bind(forge)],
+      "admin.stats",
+      {},
+    );
+    expect(stats.calls[0].args[0]).toMatchObject({
+      publicKey: OWNER,
+      supply: { total: 5000, circulating: 300, burned: 0 },
+      logSize: 1,
+      paused: { minting: false, transfers: false },
+    });
+  });
+});
@@ -0,0 +1,175 @@
+// Forge Authorization Protocol (TAT_Protocol_Extensions.md §7): kind-30130
+// booth authorizations and `forge.mint_request` within their limits.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { createForge, makeRes } from "./forge-test-utils";
+
+const BOOTH = "b".repeat(64);
+const BUYER = "c".repeat(64);
+
+function makeForge(Ctor: any, extra: Partial<ForgeConfig> = {}) {
+  return createForge(Ctor, { totalSupply: 100, ...extra });
+}
+
+async function authorize(forge: any, overrides: Record<string, unknown> = {}) {
+  return await forge.authorizeBooth({
+    boxOfficePubkey: BOOTH,
+    catalogItemIds: ["vip"],
+    maxFee: 0.05,
+    settlement: { currency: "USD", frequency: "daily" },
+    ...overrides,
+  });
+}
+
+let invoice = 0;
+async function mintRequest(
+  forge: any,
+  authorizationEventId: string,
+  overrides: Record<string, unknown> = {},
+  sender = BOOTH,
+) {
+  const res = makeRes();
+  const params = {
+    authorizationEventId,
+    catalogItemId: "vip",
+    buyerPubkey: BUYER,
+    payment: { type: "card", amount: 100, referenceId: "ref" },
+    fees: { boxOffice: 3, platform: 0 },
+    invoiceId: `inv-${++invoice}`,
+    ...overrides,
+  };
+  await forge.handleMintRequest(
+    { id: "r", method: "m", params: JSON.stringify(params), timestamp: 0 },
+    { sender } as any,
+    res,
+  );
+  return res.calls[0];
+}
+
+describe("forge authorization", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("mints for an authorized booth and records the usage", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const auth = await authorize(forge);
+    expect(auth.eventId).toMatch(/^[0-9a-f]{64}$/);
+
+    const result = await mintRequest(forge, auth.eventId, {
+      invoiceId: "inv-a",
+    });
+    expect(result.type).toBe("send");
+    expect(result.args[1]).toBe(BOOTH);
+    const token = await new Token().restore(result.args[0].token);
+    expect(token.payload.P2PKlock).toBe(BUYER);
+
+    const record = forge.getAuthorization(auth.eventId);
+    expect(record.mints).toHaveLength(1);
+    expect(record.mints[0]).toMatchObject({
+      invoiceId: "inv-a",
+      catalogItemId: "vip",
+      tokenHash: token.header.token_hash,
+      fee: 3,
+    });
+
+    const replay = await mintRequest(forge, auth.eventId, {
+      invoiceId: "inv-a",
+    });
+    expect(replay.type).toBe("error");
+  });
+
+  it("mints the catalog amount on a fungible forge", async () => {
+    const forge = makeForge(FungibleForge, {
+      catalog: { vip: { amount: 25 } },
+    });
+    const auth = await authorize(forge);
+    const result = await mintRequest(forge, auth.eventId);
+    const token = await new Token().restore(result.args[0].token);
+    expect(token.payload.amount).toBe(25);
+    expect(forge.state.circulatingSupply).toBe(25);
+
+    const unknown = await mintRequest(forge, auth.eventId, {
+      catalogItemId: "other",
+    });
+    expect(unknown.type).toBe("error");
+  });
+
+  it("rejects requests outside the authorization", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const auth = await authorize(forge, {
+      restrictions: { paymentMethods: ["card"] },
+    });
+
+    expect((await mintRequest(forge, auth.eventId, {}, BUYER)).type).toBe(
+      "error",
+    );
+    expect(
+      (await mintRequest(forge, auth.eventId, { catalogItemId: "basic" })).type,
+    ).toBe("error");
+    expect(
+      (
+        await mintRequest(forge, auth.eventId, {
+          fees: { boxOffice: 6, platform: 0 },
+        })
+      ).type,
+    ).toBe("error");
+    expect(
+      (
+        await mintRequest(forge, auth.eventId, {
+          payment: { type: "lightning", amount: 100, referenceId: "x" },
+        })
+      ).type,
+    ).toBe("error");
+    expect((await mintRequest(forge, "missing")).type).toBe("error");
+    expect(forge.getAuthorization(auth.eventId).mints).toHaveLength(0);
+  });
+
+  it("enforces maxPerDay and maxTotal", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const daily = await authorize(forge, { restrictions: { maxPerDay: 2 } });
+    expect((await mintRequest(forge, daily.eventId)).type).toBe("send");
+    expect((await mintRequest(forge, daily.eventId)).type).toBe("send");
+    expect((await mintRequest(forge, daily.eventId)).type).toBe("error");
+
+    jest.useFakeTimers({ now: Date.now() + 86_400_000 });
+    expect((await mintRequest(forge, daily.eventId)).type).toBe("send");
+
+    const capped = await authorize(forge, { restrictions: { maxTotal: 1 } });
+    expect((await mintRequest(forge, capped.eventId)).type).toBe("send");
+    expect((await mintRequest(forge, capped.eventId)).type).toBe("error");
+  });
+
+  it("mints a concurrent duplicate invoice only once", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const auth = await authorize(forge, { restrictions: { maxTotal: 2 } });
+    const results = await Promise.all([
+      mintRequest(forge, auth.eventId, { invoiceId: "inv-dup" }),
+      mintRequest(forge, auth.eventId, { invoiceId: "inv-dup" }),
+      mintRequest(forge, auth.eventId),
+      mintRequest(forge, auth.eventId),
+    ]);
+    expect(results.map((result) => result.type)).toEqual([
+      "send",
+      "error",
+      "send",
+      "error",
+    ]);
+    expect(forge.getAuthorization(auth.eventId).mints).toHaveLength(2);
+  });
+
+  it("stops minting once revoked or expired", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const auth = await authorize(forge);
+    expect((await mintRequest(forge, auth.eventId)).type).toBe("send");
+    await forge.revokeAuthorization(auth.eventId);
+    expect((await mintRequest(forge, auth.eventId)).type).toBe("error");
+    expect(forge.getAuthorization(auth.eventId).mints).toHaveLength(1);
+
+    const expiring = await authorize(forge, {
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+    });
+    jest.useFakeTimers({ now: Date.now() + 120_000 });
+    expect((await mintRequest(forge, expiring.eventId)).type).toBe("error");
+  });
+});
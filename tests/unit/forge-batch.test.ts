@@ -0,0 +1,104 @@
+// Batch minting: one `forge.batch` request mints to many recipients, checks
+// the supply cap once, saves state once and reports every row.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { OWNER, createForge, makeRes } from "./forge-test-utils";
+
+const DELEGATE = "d".repeat(64);
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+const CAROL = "c".repeat(64);
+
+function makeForge<T extends FungibleForge | NonFungibleForge>(
+  Forge: new (config: ForgeConfig) => T,
+  config: Partial<ForgeConfig> = {},
+): T {
+  return createForge(Forge, { totalSupply: 100, ...config });
+}
+
+async function batch(
+  forge: FungibleForge | NonFungibleForge,
+  recipients: unknown[],
+  sender = OWNER,
+) {
+  const res = makeRes();
+  await forge.handleBatchForge(
+    {
+      id: "r",
+      method: "forge.batch",
+      params: JSON.stringify({ recipients }),
+      timestamp: 0,
+    },
+    { sender } as any,
+    res,
+  );
+  return res;
+}
+
+describe("forge.batch", () => {
+  it("mints valid rows, reports invalid ones and saves once", async () => {
+    const forge = makeForge(FungibleForge);
+    const save = jest.spyOn(forge, "_saveState");
+    const res = await batch(forge, [
+      { to: ALICE, amount: 10 },
+      { to: BOB, amount: -1 },
+      { to: CAROL, amount: 20 },
+    ]);
+    expect(save).toHaveBeenCalledTimes(1);
+
+    const deliveries = res.calls.slice(0, -1);
+    expect(deliveries.map((c: any) => c.args[1])).toEqual([ALICE, CAROL]);
+    const token = await new Token().restore(deliveries[1].args[0].token);
+    expect(token.payload).toMatchObject({ amount: 20, P2PKlock: CAROL });
+
+    const summary = res.calls[res.calls.length - 1];
+    expect(summary.args[1]).toBe(OWNER);
+    expect(summary.args[0]).toMatchObject({ minted: 2, failed: 1 });
+    expect(summary.args[0].results).toEqual([
+      { index: 0, to: ALICE, tokenHash: expect.any(String) },
+      { index: 1, to: BOB, error: "Amount must be a positive, finite number" },
+      { index: 2, to: CAROL, tokenHash: token.header.token_hash },
+    ]);
+    expect(forge.state.circulatingSupply).toBe(30);
+  });
+
+  it("rejects the whole batch when it exceeds the supply cap", async () => {
+    const forge = makeForge(FungibleForge);
+    const res = await batch(forge, [
+      { to: ALICE, amount: 60 },
+      { to: BOB, amount: 60 },
+    ]);
+    expect(res.calls).toHaveLength(1);
+    expect(res.calls[0].args[0]).toBe(2005);
+    expect(forge.state.circulatingSupply ?? 0).toBe(0);
+  });
+
+  it("mints TATs with metadata and applies forger quotas per row", async () => {
+    const forge = makeForge(NonFungibleForge, {
+      authorizedForgers: [DELEGATE],
+      forgerPolicies: { [DELEGATE]: { maxTotal: 1 } },
+    });
+    const res = await batch(
+      forge,
+      [
+        { to: ALICE, data_uri: "ipfs://seat-1" },
+        { to: BOB, data_uri: "ipfs://seat-2" },
+      ],
+      DELEGATE,
+    );
+    const token = await new Token().restore(res.calls[0].args[0].token);
+    expect(token.payload.data_uri).toBe("ipfs://seat-1");
+    expect(res.calls[1].args[0].results[1].error).toContain("maxTotal (1)");
+  });
+
+  it("requires a non-empty recipient list", async () => {
+    const forge = makeForge(FungibleForge);
+    const res = await batch(forge, []);
+    expect(res.calls[0].args).toEqual([
+      1003,
+      "recipients must be a list of 1 to 1000 entries",
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+// Denomination management: `split` breaks one token into requested amounts and
+// `consolidate` merges several into one, both bound to the holders' witnesses
+// and conserving value exactly.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { powerOfTwoDenominations, spendAuthDigest } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE_SK = "55".repeat(32);
+const ALICE = bytesToHex(schnorr.getPublicKey(ALICE_SK));
+const ATTACKER = "e".repeat(64);
+
+function makeForge() {
+  return createForge(FungibleForge, { totalSupply: 0 });
+}
+
+async function mint(forge: FungibleForge, amount: number, fields = {}) {
+  const { token, jwt } = await (forge as any).mintValue(amount, {
+    P2PKlock: ALICE,
+    ...fields,
+  });
+  return { jwt: jwt as string, hash: token.header.token_hash as string };
+}
+
+function witness(hash: string, outs: unknown[]) {
+  return bytesToHex(schnorr.sign(spendAuthDigest(hash, outs), ALICE_SK));
+}
+
+async function delivered(res: any) {
+  const tokens = res.calls.filter((c: any) => c.args[0]?.token);
+  return Promise.all(
+    tokens.map(async (c: any) => ({
+      to: c.args[1],
+      token: await new Token().restore(c.args[0].token),
+    })),
+  );
+}
+
+describe("split and consolidate", () => {
+  it("breaks amounts into powers of two", () => {
+    expect(powerOfTwoDenominations(13)).toEqual([8, 4, 1]);
+    expect(powerOfTwoDenominations(6.5)).toEqual([4, 2, 0.5]);
+    expect(powerOfTwoDenominations(0)).toEqual([]);
+  });
+
+  it("splits a token into powers of two for its holder", async () => {
+    const forge = makeForge();
+    const { jwt, hash } = await mint(forge, 13);
+    const outs = [8, 4, 1].map((amount) => ({ to: ALICE, amount }));
+    const res = makeRes();
+    await forge.splitToken(
+      req({
+        ins: [jwt],
+        to: ALICE,
+        denominations: "pow2",
+        witnessData: [witness(hash, outs)],
+      }),
+      { sender: ALICE } as any,
+      res,
+    );
+    const tokens = await delivered(res);
+    expect(tokens.map(({ to, token }) => [to, token.payload.amount])).toEqual([
+      [ALICE, 8],
+      [ALICE, 4],
+      [ALICE, 1],
+    ]);
+    expect(tokens[0].token.payload.P2PKlock).toBe(ALICE);
+    expect(await forge.spentTokenStore.has(hash)).toBe(true);
+    expect(forge.state.circulatingSupply).toBe(13);
+  });
+
+  it("rejects denominations that change the value and unbound witnesses", async () => {
+    const forge = makeForge();
+    const { jwt, hash } = await mint(forge, 10);
+    const uneven = makeRes();
+    await forge.splitToken(
+      req({ ins: [jwt], to: ALICE, denominations: [5, 4] }),
+      { sender: ALICE } as any,
+      uneven,
+    );
+    expect(uneven.calls[0].args).toEqual([
+      1003,
+      "denominations must add up to the input amount (10)",
+    ]);
+
+    // A witness for outputs to ALICE cannot route the split elsewhere.
+    const signed = [5, 5].map((amount) => ({ to: ALICE, amount }));
+    const redirected = makeRes();
+    await forge.splitToken(
+      req({
+        ins: [jwt],
+        to: ATTACKER,
+        denominations: [5, 5],
+        witnessData: [witness(hash, signed)],
+      }),
+      { sender: ATTACKER } as any,
+      redirected,
+    );
+    expect(redirected.calls[0].args[1]).toBe(
+      "Invalid transaction: Witness signature is not valid",
+    );
+    expect(await forge.spentTokenStore.has(hash)).toBe(false);
+  });
+
+  it("consolidates tokens of one holder into one", async () => {
+    const forge = makeForge();
+    const minted = [
+      await mint(forge, 1),
+      await mint(forge, 2),
+      await mint(forge, 4),
+    ];
+    const outs = [{ to: ALICE, amount: 7 }];
+    const res = makeRes();
+    await forge.consolidateTokens(
+      req({
+        ins: minted.map((m) => m.jwt),
+        to: ALICE,
+        witnessData: minted.map((m) => witness(m.hash, outs)),
+      }),
+      { sender: ALICE } as any,
+      res,
+    );
+    const tokens = await delivered(res);
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].token.payload).toMatchObject({
+      amount: 7,
+      P2PKlock: ALICE,
+    });
+
+    const locked = await mint(forge, 3, {
+      P2PKlock: undefined,
+      multisig: { m: 1, pubkeys: [ALICE] },
+    });
+    const mixed = makeRes();
+    await forge.consolidateTokens(
+      req({ ins: [(await mint(forge, 3)).jwt, locked.jwt], to: ALICE }),
+      { sender: ALICE } as any,
+      mixed,
+    );
+    expect(mixed.calls[0].args[1]).toContain(
+      "can only be consolidated with inputs under the same lock",
+    );
+  });
+});
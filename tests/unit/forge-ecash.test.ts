@@ -0,0 +1,340 @@
+// Blind-signature ecash: a fungible forge signs blinded messages it cannot
+// link to the proofs later spent, and tracks spent proof secrets.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import {
+  blindMessage,
+  ecashSecretId,
+  ecashSpendOuts,
+  hashToCurve,
+  spendAuthDigest,
+  unblindSignature,
+} from "@tat-protocol/utils";
+import type { EcashProof } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import {
+  MemStore,
+  OWNER,
+  OWNER_SK,
+  createForge,
+  makeRes,
+  req,
+} from "./forge-test-utils";
+
+const ALICE_SK = "22".repeat(32);
+const ALICE = bytesToHex(schnorr.getPublicKey(ALICE_SK));
+const BOB = "b".repeat(64);
+
+function makeForge(config: Partial<ForgeConfig> = {}) {
+  return createForge(FungibleForge, { totalSupply: 100, ecash: {}, ...config });
+}
+
+// Blinds a fresh secret per amount, as a wallet would.
+function blind(amounts: number[]) {
+  return amounts.map((amount, i) => {
+    const secret = `secret-${amount}-${i}-${Math.random()}`;
+    return { amount, secret, ...blindMessage(secret) };
+  });
+}
+
+// Unblinds the forge's signatures into spendable proofs.
+function unblind(
+  forge: FungibleForge,
+  blinded: ReturnType<typeof blind>,
+  signatures: { C_: string; id: string }[],
+): EcashProof[] {
+  const { keys } = forge.getEcashKeys();
+  return blinded.map(({ amount, secret, r }, i) => ({
+    amount,
+    secret,
+    C: unblindSignature(signatures[i].C_, r, keys[amount]),
+    id: signatures[i].id,
+  }));
+}
+
+async function call(
+  handler: (req: any, context: any, res: any) => Promise<unknown>,
+  params: unknown,
+  sender = ALICE,
+) {
+  const res = makeRes();
+  await handler(req(params), { sender }, res);
+  return res;
+}
+
+async function mintEcash(forge: FungibleForge, amounts: number[]) {
+  const blinded = blind(amounts);
+  const res = await call(
+    forge.handleEcashMint.bind(forge),
+    { outputs: blinded.map(({ amount, B_ }) => ({ amount, B_ })) },
+    OWNER,
+  );
+  return unblind(forge, blinded, res.calls[0].args[0].signatures);
+}
+
+describe("ecash", () => {
+  it("maps secrets to the curve as Cashu's hash_to_curve", () => {
+    expect(hashToCurve("\0".repeat(32)).toHex(true)).toBe(
+      "024cce997d3b518f739663b757deaec95bcd9473c30a14ac2fd04023a739d1a725",
+    );
+  });
+
+  it("mints ecash within the cap and melts it once", async () => {
+    const forge = makeForge();
+    const proofs = await mintEcash(forge, [8, 2]);
+    expect(forge.state.circulatingSupply).toBe(10);
+    const over = await call(
+      forge.handleEcashMint.bind(forge),
+      { outputs: blind([128]).map(({ amount, B_ }) => ({ amount, B_ })) },
+      OWNER,
+    );
+    expect(over.calls[0].args[0]).toBe(2005);
+
+    const melt = await call(forge.handleEcashMelt.bind(forge), {
+      proofs,
+      to: BOB,
+    });
+    expect(melt.calls[0].args[1]).toBe(BOB);
+    const token = await new Token().restore(melt.calls[0].args[0].token);
+    expect(token.payload).toMatchObject({ amount: 10, P2PKlock: BOB });
+    expect(forge.state.circulatingSupply).toBe(10);
+
+    const again = await call(forge.handleEcashMelt.bind(forge), {
+      proofs,
+      to: ALICE,
+    });
+    expect(again.calls[0].args).toEqual([2002, "Ecash proof is already spent"]);
+  });
+
+  it("melts for the amount less the fee, journaled and logged as mints", async () => {
+    const forge = makeForge({ fees: { flat: 3, treasury: BOB } });
+    const proofs = await mintEcash(forge, [8, 2]);
+    const journal = jest.spyOn(forge as any, "journalTx");
+    const logged = await forge.transparencyLog.size();
+
+    const melt = await call(forge.handleEcashMelt.bind(forge), {
+      proofs,
+      to: ALICE,
+    });
+    const [melted, fee] = await Promise.all(
+      melt.calls.map(({ args }) => new Token().restore(args[0].token)),
+    );
+    expect(melt.calls.map(({ args }) => args[1])).toEqual([ALICE, BOB]);
+    expect(melted.payload).toMatchObject({ amount: 7, P2PKlock: ALICE });
+    expect(fee.payload).toMatchObject({ amount: 3, P2PKlock: BOB });
+    expect((journal.mock.calls[0] as any[])[1]).toHaveLength(2);
+    expect(forge.state.pendingTxs.size).toBe(0);
+
+    const size = await forge.transparencyLog.size();
+    const entries = await forge.transparencyLog.getEntries(logged, size);
+    expect(entries.filter((e) => e.type === "mint")).toEqual([
+      { type: "mint", tokenHash: melted.header.token_hash, amount: 7 },
+      { type: "mint", tokenHash: fee.header.token_hash, amount: 3 },
+    ]);
+
+    const small = await mintEcash(forge, [2]);
+    const uncovered = await call(forge.handleEcashMelt.bind(forge), {
+      proofs: small,
+      to: ALICE,
+    });
+    expect(uncovered.calls[0].args[1]).toBe("Proofs do not cover the fee (3)");
+  });
+
+  it("swaps proofs for new ones and refuses forged or unbalanced swaps", async () => {
+    const forge = makeForge();
+    const proofs = await mintEcash(forge, [4, 1]);
+    const forged = [{ ...proofs[0], secret: "another secret" }];
+    const bad = await call(forge.handleEcashSwap.bind(forge), {
+      proofs: forged,
+      outputs: blind([4]).map(({ amount, B_ }) => ({ amount, B_ })),
+    });
+    expect(bad.calls[0].args[1]).toBe("Invalid ecash proof");
+
+    const unbalanced = await call(forge.handleEcashSwap.bind(forge), {
+      proofs,
+      outputs: blind([8]).map(({ amount, B_ }) => ({ amount, B_ })),
+    });
+    expect(unbalanced.calls[0].args[1]).toBe(
+      "Ecash outputs must add up to the inputs (5)",
+    );
+
+    const blinded = blind([2, 2, 1]);
+    const swap = await call(forge.handleEcashSwap.bind(forge), {
+      proofs,
+      outputs: blinded.map(({ amount, B_ }) => ({ amount, B_ })),
+    });
+    const fresh = unblind(forge, blinded, swap.calls[0].args[0].signatures);
+    const check = await call(forge.handleEcashCheck.bind(forge), {
+      ys: [...proofs, ...fresh].map((p) => ecashSecretId(p.secret)),
+    });
+    expect(Object.values(check.calls[0].args[0].spent)).toEqual([
+      true,
+      true,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it("redelivers the blind signatures of a swap that crashed after commit", async () => {
+    const forge = makeForge();
+    const proofs = await mintEcash(forge, [4, 1]);
+    const blinded = blind([4, 1]);
+    const res = makeRes(true);
+    await forge
+      .handleEcashSwap(
+        req({
+          proofs,
+          outputs: blinded.map(({ amount, B_ }) => ({ amount, B_ })),
+        }),
+        { sender: ALICE } as any,
+        res,
+      )
+      .catch(() => undefined);
+    expect(forge.state.pendingTxs.size).toBe(1);
+
+    const sendResponse = jest
+      .spyOn(forge, "sendResponse")
+      .mockResolvedValue(undefined);
+    await (forge as any).recoverPendingTxs();
+    await (forge as any).redeliverPendingTxs();
+    const [[response, to]] = sendResponse.mock.calls.filter(
+      ([response]: any[]) => response.result.signatures,
+    );
+    expect(to).toBe(ALICE);
+    const fresh = unblind(forge, blinded, (response as any).result.signatures);
+    const check = await call(forge.handleEcashCheck.bind(forge), {
+      ys: [...proofs, ...fresh].map((p) => ecashSecretId(p.secret)),
+    });
+    expect(Object.values(check.calls[0].args[0].spent)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+    expect(forge.state.pendingTxs.size).toBe(0);
+  });
+
+  it("turns tokens into ecash with witnesses bound to the blinded outputs", async () => {
+    const forge = makeForge();
+    const mint = makeRes();
+    await forge.forgeToken(
+      req({ to: ALICE, amount: 6 }),
+      { sender: OWNER } as any,
+      mint,
+    );
+    const jwt = mint.calls[0].args[0].token;
+    const hash = (await new Token().restore(jwt)).header.token_hash;
+    const outputs = blind([4, 2]).map(({ amount, B_ }) => ({ amount, B_ }));
+    const witness = (outs: typeof outputs) =>
+      bytesToHex(
+        schnorr.sign(spendAuthDigest(hash, ecashSpendOuts(outs)), ALICE_SK),
+      );
+
+    const redirected = blind([4, 2]).map(({ amount, B_ }) => ({ amount, B_ }));
+    const stolen = await call(forge.handleEcashSwap.bind(forge), {
+      ins: [jwt],
+      witnessData: [witness(outputs)],
+      outputs: redirected,
+    });
+    expect(stolen.calls[0].args[1]).toMatch(/witness/i);
+
+    const res = await call(forge.handleEcashSwap.bind(forge), {
+      ins: [jwt],
+      witnessData: [witness(outputs)],
+      outputs,
+    });
+    expect(res.calls[0].args[0].signatures).toHaveLength(2);
+    expect(res.calls[0].args[1]).toBe(ALICE);
+    expect(res.calls[1].args).toEqual([{ spent: hash, issuer: OWNER }, ALICE]);
+  });
+
+  it("charges the transfer fee on deposits, issued to the treasury", async () => {
+    const forge = makeForge({ fees: { flat: 2, treasury: BOB } });
+    const mint = makeRes();
+    await forge.forgeToken(
+      req({ to: ALICE, amount: 8 }),
+      { sender: OWNER } as any,
+      mint,
+    );
+    const jwt = mint.calls[0].args[0].token;
+    const hash = (await new Token().restore(jwt)).header.token_hash;
+    const deposit = async (amounts: number[]) => {
+      const outputs = blind(amounts).map(({ amount, B_ }) => ({ amount, B_ }));
+      const witness = bytesToHex(
+        schnorr.sign(spendAuthDigest(hash, ecashSpendOuts(outputs)), ALICE_SK),
+      );
+      return await call(forge.handleEcashSwap.bind(forge), {
+        ins: [jwt],
+        witnessData: [witness],
+        outputs,
+      });
+    };
+
+    const whole = await deposit([8]);
+    expect(whole.calls[0].args[1]).toBe(
+      "Ecash outputs must add up to the inputs less the fee (6)",
+    );
+
+    const res = await deposit([4, 2]);
+    expect(res.calls[0].args[0].signatures).toHaveLength(2);
+    expect(res.calls[1].args[1]).toBe(BOB);
+    const fee = await new Token().restore(res.calls[1].args[0].token);
+    expect(fee.payload).toMatchObject({ amount: 2, P2PKlock: BOB });
+    expect(forge.state.circulatingSupply).toBe(8);
+    const size = await forge.transparencyLog.size();
+    const [last] = await forge.transparencyLog.getEntries(size - 1, size);
+    expect(last).toEqual({
+      type: "mint",
+      tokenHash: fee.header.token_hash,
+      amount: 2,
+    });
+  });
+
+  it("accepts proofs of a retired keyset unless its key was compromised", async () => {
+    const storage = new MemStore();
+    const forge = makeForge({ storage });
+    await storage.setItem(
+      `forge-keys-${OWNER}`,
+      JSON.stringify({ secretKey: OWNER_SK, publicKey: OWNER }),
+    );
+    const [melted, restored, refused] = [
+      await mintEcash(forge, [4]),
+      await mintEcash(forge, [2]),
+      await mintEcash(forge, [1]),
+    ];
+    const { id } = forge.getEcashKeys();
+    await forge.rotateKey({ secretKey: ALICE_SK, publicKey: ALICE });
+    expect(forge.getEcashKeys().id).not.toBe(id);
+
+    const melt = await call(forge.handleEcashMelt.bind(forge), {
+      proofs: melted,
+      to: BOB,
+    });
+    expect(melt.calls[0].type).toBe("send");
+
+    // After a restart the retired keyset is derived from the stored key.
+    const restarted = makeForge({
+      storage,
+      keys: { secretKey: ALICE_SK, publicKey: ALICE },
+    });
+    restarted.state.keyRotations = forge.getKeyRotations();
+    const swap = await call(restarted.handleEcashSwap.bind(restarted), {
+      proofs: restored,
+      outputs: blind([2]).map(({ amount, B_ }) => ({ amount, B_ })),
+    });
+    expect(swap.calls[0].args[0].signatures[0].id).toBe(
+      restarted.getEcashKeys().id,
+    );
+
+    await forge.markKeyCompromised(OWNER);
+    const compromised = await call(forge.handleEcashMelt.bind(forge), {
+      proofs: refused,
+      to: BOB,
+    });
+    expect(compromised.calls[0].args[1]).toBe("Invalid ecash proof");
+  });
+});
@@ -0,0 +1,176 @@
+// Transfer fees: a fungible forge with a fee schedule issues the fee to its
+// treasury on every transfer, requires inputs to cover it and quotes it
+// through `fee.quote`.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { spendAuthDigest, transferFee } from "@tat-protocol/utils";
+import type { FeeSchedule } from "../../packages/types/src";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const TREASURY = "f".repeat(64);
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+const CAROL_SK = "33".repeat(32);
+const CAROL = bytesToHex(schnorr.getPublicKey(CAROL_SK));
+
+function makeForge(fees?: FeeSchedule) {
+  return createForge(FungibleForge, { totalSupply: 0, fees });
+}
+
+async function transfer(forge: FungibleForge, amount: number, send: number) {
+  const { jwt } = await (forge as any).mintValue(amount, {});
+  const res = makeRes();
+  await forge.transferToken(
+    req({ ins: [jwt], outs: [JSON.stringify({ to: BOB, amount: send })] }),
+    { sender: ALICE } as any,
+    res,
+  );
+  return res;
+}
+
+describe("transfer fees", () => {
+  it("computes flat, percentage and tiered fees with a minimum", () => {
+    expect(transferFee(undefined, 100)).toBe(0);
+    expect(transferFee({ flat: 2 }, 100)).toBe(2);
+    expect(transferFee({ percent: 1.5 }, 200)).toBe(3);
+    expect(transferFee({ percent: 1, minimum: 5 }, 100)).toBe(5);
+    expect(transferFee({ percent: 1, decimals: 2 }, 12.5)).toBe(0.13);
+    const tiered: FeeSchedule = {
+      tiers: [
+        { upTo: 100, flat: 1 },
+        { upTo: 1000, percent: 1 },
+      ],
+      percent: 0.5,
+    };
+    expect(transferFee(tiered, 100)).toBe(1);
+    expect(transferFee(tiered, 900)).toBe(9);
+    expect(transferFee(tiered, 4000)).toBe(20);
+  });
+
+  it("issues the fee to the treasury and the rest as change", async () => {
+    const forge = makeForge({ percent: 2, minimum: 1, treasury: TREASURY });
+    const res = await transfer(forge, 100, 50);
+    const outputs = await Promise.all(
+      res.calls
+        .filter((c: any) => c.args[0]?.token)
+        .map(async (c: any) => [
+          c.args[1],
+          (await new Token().restore(c.args[0].token)).payload.amount,
+        ]),
+    );
+    expect(outputs).toEqual([
+      [BOB, 50],
+      [TREASURY, 1],
+      [ALICE, 49],
+    ]);
+    expect(forge.state.circulatingSupply).toBe(100);
+  });
+
+  it("rejects transfers whose inputs do not cover the fee", async () => {
+    const forge = makeForge({ flat: 3 });
+    const res = await transfer(forge, 50, 50);
+    expect(res.calls[0].args[1]).toBe(
+      "Insufficient total input token amount for transfer and fee (3)",
+    );
+  });
+
+  it("charges split and consolidate only when the value leaves its holder", async () => {
+    const forge = makeForge({ flat: 2, treasury: TREASURY });
+    const held = await (forge as any).mintValue(10, { P2PKlock: CAROL });
+    const outs = [5, 5].map((amount) => ({ to: CAROL, amount }));
+    const kept = makeRes();
+    await forge.splitToken(
+      req({
+        ins: [held.jwt],
+        to: CAROL,
+        denominations: [5, 5],
+        witnessData: [
+          bytesToHex(
+            schnorr.sign(
+              spendAuthDigest(held.token.header.token_hash, outs),
+              CAROL_SK,
+            ),
+          ),
+        ],
+      }),
+      { sender: CAROL } as any,
+      kept,
+    );
+    expect(kept.calls.filter((c: any) => c.args[0]?.token)).toHaveLength(2);
+
+    // A bearer token split to BOB is a payment to BOB.
+    const { jwt } = await (forge as any).mintValue(10, {});
+    const whole = makeRes();
+    await forge.splitToken(
+      req({ ins: [jwt], to: BOB, denominations: [5, 5] }),
+      { sender: ALICE } as any,
+      whole,
+    );
+    expect(whole.calls[0].args[1]).toBe(
+      "denominations must add up to the input amount less the fee (8)",
+    );
+    const paid = makeRes();
+    await forge.splitToken(
+      req({ ins: [jwt], to: BOB, denominations: [4, 4] }),
+      { sender: ALICE } as any,
+      paid,
+    );
+    const outputs = await Promise.all(
+      paid.calls
+        .filter((c: any) => c.args[0]?.token)
+        .map(async (c: any) => [
+          c.args[1],
+          (await new Token().restore(c.args[0].token)).payload.amount,
+        ]),
+    );
+    expect(outputs).toEqual([
+      [BOB, 4],
+      [BOB, 4],
+      [TREASURY, 2],
+    ]);
+
+    const merged = makeRes();
+    await forge.consolidateTokens(
+      req({
+        ins: [
+          (await (forge as any).mintValue(3, {})).jwt,
+          (await (forge as any).mintValue(4, {})).jwt,
+        ],
+        to: BOB,
+      }),
+      { sender: ALICE } as any,
+      merged,
+    );
+    const [toBob] = merged.calls;
+    expect(
+      (await new Token().restore(toBob.args[0].token)).payload.amount,
+    ).toBe(5);
+  });
+
+  it("quotes fees and validates the schedule", async () => {
+    const forge = makeForge({ percent: 1, minimum: 2 });
+    const res = makeRes();
+    await forge.handleFeeQuote(
+      req({ amount: 500 }),
+      { sender: ALICE } as any,
+      res,
+    );
+    expect(res.calls[0].args[1]).toBe(ALICE);
+    expect(res.calls[0].args[0]).toEqual({
+      amount: 500,
+      fee: 5,
+      total: 505,
+      treasury: OWNER,
+      schedule: { percent: 1, minimum: 2 },
+    });
+    expect(() => makeForge({ percent: -1 })).toThrow(
+      "fees.percent must be a non-negative number",
+    );
+    expect(() => makeForge({ tiers: [{ flat: "1" as any }] })).toThrow(
+      "fees.tiers[0].flat must be a non-negative number",
+    );
+  });
+});
@@ -0,0 +1,106 @@
+// Per-forger minting policies: authorized forgers are held to per-mint, daily
+// and lifetime limits and to allowed token types and sets; the owner is not.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { TokenType } from "@tat-protocol/token";
+import { OWNER, createForge, makeRes } from "./forge-test-utils";
+
+const DELEGATE = "d".repeat(64);
+const ALICE = "a".repeat(64);
+
+function makeForge<T extends FungibleForge | NonFungibleForge>(
+  Forge: new (config: ForgeConfig) => T,
+  config: Partial<ForgeConfig> = {},
+): T {
+  return createForge(Forge, {
+    totalSupply: 10000,
+    authorizedForgers: [DELEGATE],
+    ...config,
+  });
+}
+
+async function forge(
+  f: FungibleForge | NonFungibleForge,
+  params: Record<string, unknown>,
+  sender = DELEGATE,
+) {
+  const res = makeRes();
+  await f.forgeToken(
+    { id: "r", method: "forge", params: JSON.stringify(params), timestamp: 0 },
+    { sender } as any,
+    res,
+  );
+  return res.calls[0];
+}
+
+describe("forger policies", () => {
+  it("enforces per-mint, daily and lifetime limits for delegates only", async () => {
+    const f = makeForge(FungibleForge, {
+      forgerPolicies: {
+        [DELEGATE]: { maxPerMint: 50, maxPerDay: 80, maxTotal: 100 },
+      },
+    });
+    expect((await forge(f, { to: ALICE, amount: 60 })).args[1]).toContain(
+      "maxPerMint (50)",
+    );
+    expect((await forge(f, { to: ALICE, amount: 50 })).type).toBe("send");
+    const overDay = await forge(f, { to: ALICE, amount: 40 });
+    expect(overDay.args).toEqual([
+      1004,
+      expect.stringContaining("Remaining today: 30"),
+    ]);
+
+    // A new UTC day resets the daily count but not the lifetime one.
+    f.getForgerUsage(DELEGATE)!.day -= 86400;
+    expect((await forge(f, { to: ALICE, amount: 50 })).type).toBe("send");
+    expect((await forge(f, { to: ALICE, amount: 1 })).args[1]).toContain(
+      "maxTotal (100). Remaining: 0",
+    );
+    expect(f.getForgerUsage(DELEGATE)).toMatchObject({
+      mints: 2,
+      total: 100,
+      dayTotal: 50,
+    });
+
+    // The owner is neither limited nor counted.
+    expect((await forge(f, { to: ALICE, amount: 500 }, OWNER)).type).toBe(
+      "send",
+    );
+    expect(f.getForgerUsage(OWNER)).toBeUndefined();
+    expect((await f.getStats()).forgerUsage).toMatchObject({
+      [DELEGATE]: { total: 100 },
+    });
+  });
+
+  it("restricts token types and sets", async () => {
+    const tat = makeForge(NonFungibleForge);
+    await tat.setForgerPolicy(DELEGATE, { tokenTypes: [TokenType.FUNGIBLE] });
+    const denied = await forge(tat, { to: ALICE });
+    expect(denied.args).toEqual([2004, "Forger may not mint TAT tokens"]);
+    await tat.setForgerPolicy(DELEGATE, undefined);
+    expect((await forge(tat, { to: ALICE })).type).toBe("send");
+
+    const sets = makeForge(FungibleForge, {
+      sets: { USD: { totalSupply: 0 }, EUR: { totalSupply: 0 } },
+    });
+    await sets.setForgerPolicy(DELEGATE, { setIDs: ["USD"] });
+    expect(
+      (await forge(sets, { to: ALICE, amount: 5, setID: "EUR" })).args[1],
+    ).toBe("Forger may not mint into set EUR");
+    expect(
+      (await forge(sets, { to: ALICE, amount: 5, setID: "USD" })).type,
+    ).toBe("send");
+  });
+
+  it("rejects invalid policies", async () => {
+    const f = makeForge(FungibleForge);
+    await expect(
+      f.setForgerPolicy(DELEGATE, { maxPerDay: -1 }),
+    ).rejects.toThrow("maxPerDay must be a non-negative number");
+    await expect(
+      f.setForgerPolicy(DELEGATE, { tokenTypes: ["COIN" as TokenType] }),
+    ).rejects.toThrow("tokenTypes must be a list of");
+    expect(f.getForgerPolicy(DELEGATE)).toBeUndefined();
+  });
+});
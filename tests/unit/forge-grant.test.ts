@@ -0,0 +1,139 @@
+// Vesting grants: `forge.grant` mints one time-locked tranche per release,
+// and the owner can take back the tranches that have not vested yet.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { vestingTranches } from "@tat-protocol/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const DAY = 86400;
+
+function makeForge(config: Partial<ForgeConfig> = {}) {
+  return createForge(FungibleForge, config);
+}
+
+async function grant(forge: FungibleForge, params: Record<string, unknown>) {
+  const res = makeRes();
+  await forge.handleGrant(req(params), { sender: OWNER } as any, res);
+  return res;
+}
+
+describe("vesting grants", () => {
+  it("splits a schedule into whole tranches, merging those before the cliff", () => {
+    const start = 1_700_000_000;
+    const tranches = vestingTranches(100, {
+      start,
+      cliff: 90 * DAY,
+      interval: 30 * DAY,
+      duration: 180 * DAY,
+    });
+    expect(tranches).toEqual([
+      { unlockAt: start + 90 * DAY, amount: 50 },
+      { unlockAt: start + 120 * DAY, amount: 16 },
+      { unlockAt: start + 150 * DAY, amount: 17 },
+      { unlockAt: start + 180 * DAY, amount: 17 },
+    ]);
+  });
+
+  it("mints time-locked tranches marked with the grant", async () => {
+    const forge = makeForge();
+    const now = Math.floor(Date.now() / 1000);
+    const res = await grant(forge, {
+      to: ALICE,
+      tranches: [
+        { unlockAt: now + DAY, amount: 30 },
+        { unlockAt: now - DAY, amount: 20 },
+      ],
+    });
+    const tokens = await Promise.all(
+      res.calls
+        .slice(0, 2)
+        .map((c: any) => new Token().restore(c.args[0].token)),
+    );
+    const { grant: id } = res.calls[2].args[0];
+    expect(tokens.map((t) => t.payload)).toMatchObject([
+      { amount: 20, P2PKlock: ALICE, grant: { id, tranche: 0, tranches: 2 } },
+      {
+        amount: 30,
+        timeLock: now + DAY,
+        grant: { id, tranche: 1, tranches: 2 },
+      },
+    ]);
+    expect(tokens[0].payload.timeLock).toBeUndefined();
+    expect(forge.state.circulatingSupply).toBe(50);
+    expect(forge.getGrant(id)?.to).toBe(ALICE);
+  });
+
+  it("revokes only the unvested tranches", async () => {
+    const forge = makeForge();
+    const now = Math.floor(Date.now() / 1000);
+    const res = await grant(forge, {
+      to: ALICE,
+      tranches: [
+        { unlockAt: now - DAY, amount: 10 },
+        { unlockAt: now + DAY, amount: 25 },
+        { unlockAt: now + 2 * DAY, amount: 25 },
+      ],
+    });
+    const { grant: id, tranches } = res.calls[3].args[0];
+
+    const revoke = makeRes();
+    await forge.handleAdminRevokeGrant(
+      req({ grant: id }),
+      { sender: OWNER } as any,
+      revoke,
+    );
+    expect(revoke.calls.map((c: any) => c.args)).toEqual([
+      [{ spent: tranches[1].tokenHash, issuer: OWNER }, ALICE],
+      [{ spent: tranches[2].tokenHash, issuer: OWNER }, ALICE],
+      [
+        {
+          grant: id,
+          revoked: [tranches[1].tokenHash, tranches[2].tokenHash],
+          amount: 50,
+        },
+        OWNER,
+      ],
+    ]);
+    expect(forge.state.circulatingSupply).toBe(10);
+    expect(await forge.revokeGrant(id)).toEqual({ revoked: [], amount: 0 });
+    await expect(forge.revokeGrant("nope")).rejects.toThrow("Unknown grant");
+
+    for (const [params, code] of [
+      [{}, 1003],
+      [{ grant: "" }, 1003],
+      [{ grant: "nope" }, 1005],
+    ] as const) {
+      const bad = makeRes();
+      await forge.handleAdminRevokeGrant(
+        req(params),
+        { sender: OWNER } as any,
+        bad,
+      );
+      expect(bad.calls[0].args[0]).toBe(code);
+    }
+  });
+
+  it("refuses invalid schedules and grants over the supply cap", async () => {
+    const forge = makeForge({ totalSupply: 100 });
+    const cases: [Record<string, unknown>, string][] = [
+      [{ amount: 10, schedule: { interval: 0, duration: 10 } }, "interval"],
+      [{ amount: 10, schedule: { interval: 7, duration: 10 } }, "multiple"],
+      [{ tranches: [] }, "tranches must be a list"],
+      [{ amount: 10, tranches: [{ unlockAt: 1, amount: 10 }] }, "either"],
+    ];
+    for (const [params, message] of cases) {
+      const res = await grant(forge, { to: ALICE, ...params });
+      expect(res.calls[0].args[1]).toContain(message);
+    }
+    const over = await grant(forge, {
+      to: ALICE,
+      amount: 101,
+      schedule: { interval: DAY, duration: 4 * DAY },
+    });
+    expect(over.calls[0].args[0]).toBe(2005);
+    expect(forge.state.circulatingSupply).toBe(0);
+  });
+});
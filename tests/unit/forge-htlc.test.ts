@@ -0,0 +1,176 @@
+// HTLC methods (TAT_Protocol_Extensions.md §6.7): htlc.create mints a
+// hash-locked output, htlc.claim releases it to the recipient with the
+// secret, htlc.refund returns it to the refund key once the timelock passes.
+// Successful claims are announced as HTLC_CLAIM (kind 30120) events.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+const SECRET = "5e".repeat(32);
+const HASH = bytesToHex(sha256(hexToBytes(SECRET)));
+
+function makeForge(Ctor: any, totalSupply = 1000) {
+  return createForge(Ctor, { totalSupply });
+}
+
+async function createHTLC(forge: any, params: Record<string, unknown> = {}) {
+  const res = makeRes();
+  await forge.handleHTLCCreate(
+    req({
+      hash: HASH,
+      recipient: BOB,
+      refundTo: ALICE,
+      timeout: 3600,
+      amount: 40,
+      ...params,
+    }),
+    { sender: OWNER } as any,
+    res,
+  );
+  return res.calls[0];
+}
+
+async function call(forge: any, handler: string, sender: string, params: any) {
+  const res = makeRes();
+  await forge[handler](req(params), { sender } as any, res);
+  return res.calls[0];
+}
+
+describe("HTLC forge methods", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("mints an HTLC-locked fungible output", async () => {
+    const forge = makeForge(FungibleForge);
+    const created = await createHTLC(forge);
+    expect(created.type).toBe("send");
+
+    const token = await new Token().restore(created.args[0].token);
+    expect(token.payload).toMatchObject({
+      amount: 40,
+      HTLC: HASH,
+      HTLCRecipient: BOB,
+      P2PKlock: ALICE,
+    });
+    expect(created.args[0].tokenHash).toBe(token.header.token_hash);
+    expect(forge.state.circulatingSupply).toBe(40);
+  });
+
+  it("lets the recipient claim with the secret", async () => {
+    const forge = makeForge(FungibleForge);
+    const { tokenHash } = (await createHTLC(forge)).args[0];
+
+    const claimed = await call(forge, "handleHTLCClaim", BOB, {
+      tokenHash,
+      secret: SECRET,
+    });
+    expect(claimed.type).toBe("send");
+    expect(claimed.args[1]).toBe(BOB);
+    const out = await new Token().restore(claimed.args[0].token);
+    expect(out.payload.P2PKlock).toBe(BOB);
+    expect(out.payload.amount).toBe(40);
+    expect(out.payload.HTLC).toBeUndefined();
+    expect(await forge.spentTokenStore.has(tokenHash)).toBe(true);
+
+    const again = await call(forge, "handleHTLCClaim", BOB, {
+      tokenHash,
+      secret: SECRET,
+    });
+    expect(again.type).toBe("error");
+  });
+
+  it("announces the revealed secret as an HTLC_CLAIM after a claim", async () => {
+    const forge = makeForge(FungibleForge);
+    const publish = jest.spyOn(forge, "publishHTLCClaim");
+    const { tokenHash } = (await createHTLC(forge)).args[0];
+
+    await call(forge, "handleHTLCClaim", ALICE, { tokenHash, secret: SECRET });
+    expect(publish).not.toHaveBeenCalled();
+
+    await call(forge, "handleHTLCClaim", BOB, { tokenHash, secret: SECRET });
+    expect(publish).toHaveBeenCalledWith(HASH, SECRET, tokenHash);
+  });
+
+  it("rejects claims from anyone but the recipient or with a wrong secret", async () => {
+    const forge = makeForge(FungibleForge);
+    const { tokenHash } = (await createHTLC(forge)).args[0];
+
+    const wrongSender = await call(forge, "handleHTLCClaim", ALICE, {
+      tokenHash,
+      secret: SECRET,
+    });
+    expect(wrongSender.type).toBe("error");
+
+    const wrongSecret = await call(forge, "handleHTLCClaim", BOB, {
+      tokenHash,
+      secret: "00".repeat(32),
+    });
+    expect(wrongSecret.type).toBe("error");
+    expect(await forge.spentTokenStore.has(tokenHash)).toBe(false);
+  });
+
+  it("refunds only after the timelock, and then blocks claims", async () => {
+    const forge = makeForge(FungibleForge);
+    const { tokenHash } = (await createHTLC(forge, { timeout: 60 })).args[0];
+
+    const early = await call(forge, "handleHTLCRefund", ALICE, { tokenHash });
+    expect(early.type).toBe("error");
+
+    jest.useFakeTimers({ now: Date.now() + 120_000 });
+    const lateClaim = await call(forge, "handleHTLCClaim", BOB, {
+      tokenHash,
+      secret: SECRET,
+    });
+    expect(lateClaim.type).toBe("error");
+
+    const refunded = await call(forge, "handleHTLCRefund", ALICE, {
+      tokenHash,
+    });
+    expect(refunded.type).toBe("send");
+    expect(refunded.args[1]).toBe(ALICE);
+    const out = await new Token().restore(refunded.args[0].token);
+    expect(out.payload.P2PKlock).toBe(ALICE);
+    expect(out.payload.timeLock).toBeUndefined();
+  });
+
+  it("refuses to move an HTLC-locked input through transfer", async () => {
+    const forge = makeForge(FungibleForge);
+    const { token } = (await createHTLC(forge)).args[0];
+    const res = makeRes();
+    await forge.transferToken(
+      req({ ins: [token], outs: [JSON.stringify({ to: BOB, amount: 40 })] }),
+      { sender: ALICE } as any,
+      res,
+    );
+    expect(res.calls[0].type).toBe("error");
+  });
+
+  it("supports TATs", async () => {
+    const forge = makeForge(NonFungibleForge, 5);
+    const created = await createHTLC(forge, {
+      tokenType: "TAT",
+      amount: undefined,
+    });
+    expect(created.type).toBe("send");
+    const { tokenHash } = created.args[0];
+
+    const claimed = await call(forge, "handleHTLCClaim", BOB, {
+      tokenHash,
+      secret: SECRET,
+    });
+    const out = await new Token().restore(claimed.args[0].token);
+    expect(out.header.typ).toBe("TAT");
+    expect(out.payload.tokenID).toBe(0);
+    expect(out.payload.P2PKlock).toBe(BOB);
+  });
+
+  it("rejects a tokenType the forge does not issue", async () => {
+    const forge = makeForge(FungibleForge);
+    const created = await createHTLC(forge, { tokenType: "TAT" });
+    expect(created.type).toBe("error");
+  });
+});
@@ -0,0 +1,132 @@
+// Idempotent transfer/burn: a client `txId` makes a retry return the original
+// signed outputs instead of a double-spend error.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { createForge, makeRes } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge(extra: Partial<ForgeConfig> = {}) {
+  return createForge(FungibleForge, extra);
+}
+
+// Runs a request through the idempotency middleware and then the handler, as
+// the router would for the `transfer` and `burn` routes.
+async function call(
+  forge: FungibleForge,
+  method: "transfer" | "burn",
+  params: unknown,
+  sender = ALICE,
+) {
+  const res = makeRes();
+  const request = {
+    id: "r",
+    method,
+    params: JSON.stringify(params),
+    timestamp: 0,
+  };
+  const context = { sender } as any;
+  const handler = method === "transfer" ? forge.transferToken : forge.burnToken;
+  await forge.idempotent(request, context, res, async () => {
+    await handler.call(forge, request, context, res);
+  });
+  return res.calls;
+}
+
+describe("idempotent requests", () => {
+  it("replays the original outputs for a retried transfer", async () => {
+    const forge = makeForge();
+    const { jwt } = await (forge as any).mintValue(50, {});
+    const params = {
+      txId: "tx-1",
+      ins: [jwt],
+      outs: [JSON.stringify({ to: BOB, amount: 20 })],
+    };
+
+    const first = await call(forge, "transfer", params);
+    expect(first.every((c) => c.type === "send")).toBe(true);
+    const transfer = jest.spyOn(forge, "transferToken");
+    const retry = await call(forge, "transfer", params);
+    expect(transfer).not.toHaveBeenCalled();
+    expect(retry).toEqual(first);
+
+    // Without a txId the same request is a double spend.
+    const { txId: _txId, ...plain } = params;
+    expect((await call(forge, "transfer", plain))[0].type).toBe("error");
+  });
+
+  it("rejects a txId reused with different inputs", async () => {
+    const forge = makeForge();
+    const a = (await (forge as any).mintValue(4, {})).jwt;
+    const b = (await (forge as any).mintValue(6, {})).jwt;
+    const outs = [JSON.stringify({ to: BOB, amount: 4 })];
+    await call(forge, "transfer", { txId: "tx-1", ins: [a], outs });
+
+    const reused = await call(forge, "transfer", {
+      txId: "tx-1",
+      ins: [b],
+      outs,
+    });
+    expect(reused).toHaveLength(1);
+    expect(reused[0].args[1]).toMatch(/different request/);
+
+    // The txId namespace is per sender.
+    const other = await call(
+      forge,
+      "transfer",
+      { txId: "tx-1", ins: [b], outs },
+      BOB,
+    );
+    expect(other[0].type).toBe("send");
+  });
+
+  it("keys on every input of a request, not just the first present", async () => {
+    const forge = makeForge();
+    const swap = async (params: unknown) => {
+      const res = makeRes();
+      const request = {
+        id: "r",
+        method: "ecash.swap",
+        params: JSON.stringify(params),
+        timestamp: 0,
+      };
+      await forge.idempotent(request, { sender: ALICE } as any, res, () =>
+        res.send({ signatures: [] }, ALICE),
+      );
+      return res.calls;
+    };
+    await swap({ txId: "s", ins: ["jwt"], proofs: [{ secret: "one" }] });
+
+    const mixed = await swap({
+      txId: "s",
+      ins: ["jwt"],
+      proofs: [{ secret: "two" }],
+    });
+    expect(mixed[0].args[1]).toMatch(/different request/);
+  });
+
+  it("does not record failed requests and expires old results", async () => {
+    const forge = makeForge({ idempotencyWindow: 60 });
+    const { jwt } = await (forge as any).mintValue(10, {});
+    const over = await call(forge, "burn", { txId: "b", token: "garbage" });
+    expect(over[0].type).toBe("error");
+    expect(await forge.txResults.entries()).toHaveLength(0);
+
+    expect((await call(forge, "burn", { txId: "b", token: jwt }))[0].type).toBe(
+      "send",
+    );
+    expect(await forge.txResults.entries()).toHaveLength(1);
+
+    jest.useFakeTimers({ now: Date.now() + 120_000 });
+    try {
+      const later = await (forge as any).mintValue(5, {});
+      await call(forge, "burn", { txId: "c", token: later.jwt });
+      const kept = await forge.txResults.entries();
+      expect(kept.map(([key]) => key)).toEqual([`${ALICE}:c`]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+// Write-ahead transfer journal: outputs are journaled before inputs are
+// marked spent, and recovery on restart finishes or rolls back whatever a
+// crash interrupted.
+import { NWPCServer } from "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { MemStore, OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge(storage = new MemStore()) {
+  return createForge(FungibleForge, { storage });
+}
+
+// Unlocked input worth 50, split 20 to Bob with 30 change to Alice.
+async function transfer(forge: FungibleForge, res: any) {
+  const { token, jwt } = await (forge as any).mintValue(50, {});
+  await forge
+    .transferToken(
+      req({ ins: [jwt], outs: [JSON.stringify({ to: BOB, amount: 20 })] }),
+      { sender: ALICE } as any,
+      res,
+    )
+    .catch(() => undefined);
+  return { jwt, tokenHash: token.header.token_hash as string };
+}
+
+describe("forge transfer journal", () => {
+  it("clears the journal entry once outputs are delivered", async () => {
+    const forge = makeForge();
+    const journal = jest.spyOn(forge as any, "journalTx");
+    const res = makeRes();
+    const { tokenHash } = await transfer(forge, res);
+
+    expect(journal).toHaveBeenCalledTimes(1);
+    const [inputs, outputs] = journal.mock.calls[0] as any[];
+    expect(inputs).toEqual([tokenHash]);
+    expect(outputs.map((o: any) => o.to)).toEqual([BOB, ALICE]);
+    expect(forge.state.pendingTxs.size).toBe(0);
+  });
+
+  it("redelivers outputs of a transfer that crashed after commit", async () => {
+    const forge = makeForge();
+    const { tokenHash } = await transfer(forge, makeRes(true));
+    expect(forge.state.pendingTxs.size).toBe(1);
+    expect(await forge.spentTokenStore.has(tokenHash)).toBe(true);
+
+    const sendResponse = jest
+      .spyOn(forge, "sendResponse")
+      .mockResolvedValue(undefined);
+    await (forge as any).recoverPendingTxs();
+    await (forge as any).redeliverPendingTxs();
+
+    const delivered = sendResponse.mock.calls.filter(
+      ([response]: any[]) => response.result.token,
+    );
+    expect(delivered.map(([, to]) => to)).toEqual([BOB, ALICE]);
+    const out = await new Token().restore(
+      (delivered[0][0] as any).result.token,
+    );
+    expect(out.payload.amount).toBe(20);
+    expect(sendResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ result: { spent: tokenHash, issuer: OWNER } }),
+      ALICE,
+    );
+    expect(forge.state.pendingTxs.size).toBe(0);
+  });
+
+  it("rolls back a transfer that crashed before commit", async () => {
+    const forge = makeForge();
+    jest
+      .spyOn(forge, "publishSpentTokens")
+      .mockRejectedValueOnce(new Error("crash"));
+    const { jwt, tokenHash } = await transfer(forge, makeRes());
+    expect(forge.state.pendingTxs.size).toBe(1);
+
+    const sendResponse = jest.spyOn(forge, "sendResponse");
+    await (forge as any).recoverPendingTxs();
+    await (forge as any).redeliverPendingTxs();
+    expect(forge.state.pendingTxs.size).toBe(0);
+    expect(sendResponse).not.toHaveBeenCalled();
+    expect(await forge.spentTokenStore.has(tokenHash)).toBe(false);
+
+    // The input is still spendable.
+    const res = makeRes();
+    await forge.transferToken(
+      req({ ins: [jwt], outs: [JSON.stringify({ to: BOB, amount: 50 })] }),
+      { sender: ALICE } as any,
+      res,
+    );
+    expect(res.calls[0].type).toBe("send");
+  });
+
+  it("keeps the journal in its own records across a restart", async () => {
+    const storage = new MemStore();
+    const forge = makeForge(storage);
+    const { tokenHash } = await transfer(forge, makeRes(true));
+    const save = jest.spyOn(NWPCServer.prototype, "saveState");
+    await forge._saveState();
+    expect(save.mock.calls[0][1]).not.toHaveProperty("pendingTxs");
+    save.mockRestore();
+
+    const restarted = makeForge(storage);
+    jest.spyOn(restarted, "loadState").mockResolvedValue({ version: 2 } as any);
+    await restarted._loadState();
+    const [[, tx]] = [...restarted.state.pendingTxs];
+    expect(tx.inputs).toEqual([tokenHash]);
+
+    jest.spyOn(restarted, "sendResponse").mockResolvedValue(undefined);
+    await (restarted as any).recoverPendingTxs();
+    await (restarted as any).redeliverPendingTxs();
+    expect(await restarted.journal.entries()).toEqual([]);
+  });
+
+  it("moves a journal saved in the state blob into its records", async () => {
+    const forge = makeForge();
+    jest.spyOn(forge, "loadState").mockResolvedValue({
+      version: 2,
+      pendingTxs: new Map([
+        ["old", { inputs: ["h"], outputs: [], createdAt: 1 }],
+      ]),
+      txResults: new Map([
+        [
+          "a:t",
+          { method: "burn", inputsHash: "x", responses: [], createdAt: 1 },
+        ],
+      ]),
+    } as any);
+    await forge._loadState();
+    expect([...forge.state.pendingTxs.keys()]).toEqual(["old"]);
+    expect(await forge.journal.get("old")).toMatchObject({ inputs: ["h"] });
+    expect(await forge.txResults.get("a:t")).toMatchObject({ method: "burn" });
+    expect((forge.state as any).txResults).toBeUndefined();
+  });
+});
@@ -0,0 +1,187 @@
+// Forge key rotation: the retiring key signs an announcement naming the new
+// key, tokens the forge signed under the old key stay spendable unless it was
+// compromised, outputs are re-issued under the new key, and state, spent set
+// and log follow the forge.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { verifyKeyRotation } from "@tat-protocol/utils";
+import type { StorageInterface } from "@tat-protocol/storage";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { MemStore, createForge, makeRes, req } from "./forge-test-utils";
+
+const OLD_SK = "11".repeat(32);
+const OLD = bytesToHex(schnorr.getPublicKey(OLD_SK));
+const NEW_SK = "22".repeat(32);
+const NEW = bytesToHex(schnorr.getPublicKey(NEW_SK));
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge(storage: StorageInterface = new MemStore(), sk = OLD_SK) {
+  const keys = {
+    secretKey: sk,
+    publicKey: bytesToHex(schnorr.getPublicKey(sk)),
+  };
+  return createForge(FungibleForge, { owner: OLD, keys, storage });
+}
+
+// Maps and Sets round-trip as entry arrays, as they do through storage.
+const toArrays = (_key: string, value: unknown) =>
+  value instanceof Map || value instanceof Set ? [...value] : value;
+
+async function transfer(forge: FungibleForge, jwt: string, amount: number) {
+  const res = makeRes();
+  await forge.transferToken(
+    req({ ins: [jwt], outs: [JSON.stringify({ to: BOB, amount })] }),
+    { sender: ALICE } as any,
+    res,
+  );
+  return res;
+}
+
+describe("forge key rotation", () => {
+  it("signs an announcement and re-issues old-key tokens under the new key", async () => {
+    const forge = makeForge();
+    const { jwt } = await (forge as any).mintValue(5, {});
+
+    const rotation = await forge.rotateKey({
+      secretKey: NEW_SK,
+      publicKey: NEW,
+    });
+    expect(rotation).toMatchObject({ oldPubkey: OLD, newPubkey: NEW });
+    expect(verifyKeyRotation(JSON.parse(rotation.event))).toEqual({
+      oldPubkey: OLD,
+      newPubkey: NEW,
+      rotatedAt: rotation.rotatedAt,
+    });
+    expect(forge.getPublicKey()).toBe(NEW);
+
+    const res = await transfer(forge, jwt, 5);
+    expect(res.calls[0].type).toBe("send");
+    const out = await new Token().restore(res.calls[0].args[0].token);
+    expect(out.payload.iss).toBe(NEW);
+    expect(await out.verifyTokenSignature()).toBe(true);
+  });
+
+  it("rejects retired-key tokens the forge did not sign, even backdated", async () => {
+    const forge = makeForge();
+    await forge.rotateKey({ secretKey: NEW_SK, publicKey: NEW });
+    // Minted elsewhere with the leaked key, with an `iat` before the rotation.
+    forge.state.keyRotations[0].rotatedAt += 60;
+
+    const { jwt } = await (makeForge() as any).mintValue(7, {});
+    const res = await transfer(forge, jwt, 7);
+    expect(res.calls[0].type).toBe("error");
+    expect(res.calls[0].args[1]).toContain("Input token issuer mismatch");
+  });
+
+  it("accepts retired-key tokens signed before the forge kept an issued store", async () => {
+    // Minted by the forge before it recorded issued tokens.
+    const clock = jest.spyOn(Date, "now").mockReturnValue(Date.now() - 120_000);
+    const { jwt } = await (makeForge() as any).mintValue(5, {});
+    clock.mockRestore();
+
+    const forge = makeForge();
+    jest.spyOn(forge, "loadState").mockResolvedValue({ version: 2 } as any);
+    await forge._loadState();
+    const since = forge.state.issuedRecordedSince!;
+    expect(since).toBeGreaterThan(0);
+    await forge.rotateKey({ secretKey: NEW_SK, publicKey: NEW });
+    forge.state.keyRotations[0].rotatedAt += 60;
+
+    expect((await transfer(forge, jwt, 5)).calls[0].type).toBe("send");
+    // A token dated after the upgrade must be in the store.
+    forge.state.issuedRecordedSince = since - 60;
+    const { jwt: later } = await (makeForge() as any).mintValue(7, {});
+    const res = await transfer(forge, later, 7);
+    expect(res.calls[0].args[1]).toContain("Input token issuer mismatch");
+  });
+
+  it("refuses every token of a compromised key", async () => {
+    const forge = makeForge();
+    const { jwt } = await (forge as any).mintValue(5, {});
+    const rotation = await forge.rotateKey(
+      { secretKey: NEW_SK, publicKey: NEW },
+      { compromised: true },
+    );
+    expect(rotation.compromised).toBe(true);
+    expect(verifyKeyRotation(JSON.parse(rotation.event))).toMatchObject({
+      compromised: true,
+    });
+
+    const res = await transfer(forge, jwt, 5);
+    expect(res.calls[0].type).toBe("error");
+    expect(res.calls[0].args[1]).toContain("Input token issuer mismatch");
+  });
+
+  it("marks a retired key compromised after its rotation", async () => {
+    const storage = new MemStore();
+    const forge = makeForge(storage);
+    await storage.setItem(
+      `forge-keys-${OLD}`,
+      JSON.stringify({ secretKey: OLD_SK, publicKey: OLD }),
+    );
+    const { jwt } = await (forge as any).mintValue(5, {});
+    await forge.rotateKey({ secretKey: NEW_SK, publicKey: NEW });
+
+    const rotation = await forge.markKeyCompromised(OLD);
+    expect(verifyKeyRotation(JSON.parse(rotation.event))).toMatchObject({
+      oldPubkey: OLD,
+      newPubkey: NEW,
+      compromised: true,
+    });
+    const res = await transfer(forge, jwt, 5);
+    expect(res.calls[0].type).toBe("error");
+    expect(res.calls[0].args[1]).toContain("Input token issuer mismatch");
+    await expect(forge.markKeyCompromised(NEW)).rejects.toThrow(
+      "was not rotated out",
+    );
+  });
+
+  it("rejects an invalid or reused key", async () => {
+    const forge = makeForge();
+    await expect(
+      forge.rotateKey({ secretKey: NEW_SK, publicKey: OLD }),
+    ).rejects.toThrow("New forge keys are invalid");
+    await forge.rotateKey({ secretKey: NEW_SK, publicKey: NEW });
+    await expect(
+      forge.rotateKey({ secretKey: OLD_SK, publicKey: OLD }),
+    ).rejects.toThrow("already used");
+  });
+
+  it("moves state to the new key and keeps the spent set", async () => {
+    const storage = new MemStore();
+    const forge = makeForge(storage);
+    const { jwt } = await (forge as any).mintValue(9, {});
+    const spent = await transfer(forge, jwt, 9);
+    expect(spent.calls[0].type).toBe("send");
+
+    const saved = new Map<string, any>();
+    jest
+      .spyOn(forge, "saveState")
+      .mockImplementation(async (key: string, state: any) => {
+        saved.set(key, JSON.parse(JSON.stringify(state, toArrays)));
+      });
+    await forge.rotateKey({ secretKey: NEW_SK, publicKey: NEW });
+    expect(saved.get(`forge-state-${OLD}`)).toMatchObject({ rotatedTo: NEW });
+    expect(saved.get(`forge-state-${NEW}`).keyRotations).toHaveLength(1);
+
+    // Restarting with the retired key refuses to load.
+    const stale = makeForge(storage);
+    jest
+      .spyOn(stale, "loadState")
+      .mockResolvedValue(saved.get(`forge-state-${OLD}`));
+    await expect(stale._loadState()).rejects.toThrow(`rotated to ${NEW}`);
+
+    // Restarting with the new key finds the spent set of the old one.
+    const restarted = makeForge(storage, NEW_SK);
+    jest
+      .spyOn(restarted, "loadState")
+      .mockResolvedValue(saved.get(`forge-state-${NEW}`));
+    await restarted._loadState();
+    const again = await transfer(restarted, jwt, 9);
+    expect(again.calls[0].type).toBe("error");
+    expect(again.calls[0].args[1]).toContain("Token is already spent");
+  });
+});
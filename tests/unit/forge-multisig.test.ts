@@ -0,0 +1,131 @@
+// m-of-n multisig locks: tokens locked to several pubkeys are spendable only
+// with witnesses from at least `m` of them, bound to the transfer's outputs.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { spendAuthDigest } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const SIGNER_SKS = ["21", "22", "23"].map((b) => b.repeat(32));
+const SIGNERS = SIGNER_SKS.map((sk) => bytesToHex(schnorr.getPublicKey(sk)));
+const LOCK = { m: 2, pubkeys: SIGNERS };
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(FungibleForge);
+}
+
+async function mintLocked(forge: FungibleForge, amount: number, lock = LOCK) {
+  const res = makeRes();
+  await forge.forgeToken(
+    req({ to: SIGNERS[0], amount, multisig: lock }),
+    { sender: OWNER } as any,
+    res,
+  );
+  return res.calls[0];
+}
+
+// Witness slots signed by the given signer indexes, empty elsewhere.
+async function witness(jwt: string, outs: string[], signers: number[]) {
+  const token = await new Token().restore(jwt);
+  const digest = spendAuthDigest(token.header.token_hash!, outs);
+  return SIGNER_SKS.map((sk, i) =>
+    signers.includes(i) ? bytesToHex(schnorr.sign(digest, sk)) : "",
+  );
+}
+
+async function transfer(forge: FungibleForge, params: unknown) {
+  const res = makeRes();
+  await forge.transferToken(req(params), { sender: SIGNERS[0] } as any, res);
+  return res.calls;
+}
+
+describe("multisig locks", () => {
+  it("mints a multisig-locked token instead of a P2PK lock", async () => {
+    const forge = makeForge();
+    const minted = await mintLocked(forge, 50);
+    expect(minted.type).toBe("send");
+    expect(minted.args[1]).toBe(SIGNERS[0]);
+    const token = await new Token().restore(minted.args[0].token);
+    expect(token.payload.multisig).toEqual(LOCK);
+    expect(token.payload.P2PKlock).toBeUndefined();
+
+    expect((await mintLocked(forge, 5, { m: 4, pubkeys: SIGNERS })).type).toBe(
+      "error",
+    );
+    expect(
+      (await mintLocked(forge, 5, { m: 1, pubkeys: [SIGNERS[0], SIGNERS[0]] }))
+        .type,
+    ).toBe("error");
+  });
+
+  it("spends with m of n signatures and keeps the change under the lock", async () => {
+    const forge = makeForge();
+    const { token: jwt } = (await mintLocked(forge, 50)).args[0];
+    const outs = [JSON.stringify({ to: BOB, amount: 20 })];
+    const calls = await transfer(forge, {
+      ins: [jwt],
+      outs,
+      witnessData: [await witness(jwt, outs, [0, 2])],
+    });
+    expect(calls.map((c) => c.type)).toEqual(["send", "send", "send"]);
+    const [out, change] = await Promise.all(
+      calls.slice(0, 2).map((c) => new Token().restore(c.args[0].token)),
+    );
+    expect(calls[2].args[0].receipt.type).toBe("transfer");
+    expect(out.payload.P2PKlock).toBe(BOB);
+    expect(change.payload.amount).toBe(30);
+    expect(change.payload.multisig).toEqual(LOCK);
+  });
+
+  it("rejects witnesses below the threshold or with a bad signature", async () => {
+    const forge = makeForge();
+    const { token: jwt } = (await mintLocked(forge, 50)).args[0];
+    const outs = [JSON.stringify({ to: BOB, amount: 50 })];
+
+    const single = await transfer(forge, {
+      ins: [jwt],
+      outs,
+      witnessData: [await witness(jwt, outs, [1])],
+    });
+    expect(single[0].args[1]).toMatch(/requires 2 signatures, got 1/);
+
+    // Slot 2 holds signer 0's signature, which does not match its pubkey.
+    const swapped = await witness(jwt, outs, [0, 1]);
+    swapped[2] = swapped[0];
+    const bad = await transfer(forge, {
+      ins: [jwt],
+      outs,
+      witnessData: [swapped],
+    });
+    expect(bad[0].args[1]).toMatch(/Invalid multisig signature/);
+
+    const flat = await transfer(forge, {
+      ins: [jwt],
+      outs,
+      witnessData: [(await witness(jwt, outs, [0]))[0]],
+    });
+    expect(flat[0].type).toBe("error");
+  });
+
+  it("binds witnesses to the multisig lock of each output", async () => {
+    const forge = makeForge();
+    const { token: jwt } = (await mintLocked(forge, 50)).args[0];
+    const signed = [JSON.stringify({ to: BOB, amount: 50, multisig: LOCK })];
+    const redirected = [
+      JSON.stringify({
+        to: BOB,
+        amount: 50,
+        multisig: { m: 1, pubkeys: [BOB] },
+      }),
+    ];
+    const calls = await transfer(forge, {
+      ins: [jwt],
+      outs: redirected,
+      witnessData: [await witness(jwt, signed, [0, 1])],
+    });
+    expect(calls[0].type).toBe("error");
+  });
+});
@@ -0,0 +1,126 @@
+// Receipts: burns and transfers are answered with a receipt signed by the
+// forge key, which anyone can check offline with `verifyReceipt`.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token, verifyReceipt } from "@tat-protocol/token";
+import { spendAuthDigest } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE_SK = "22".repeat(32);
+const ALICE = bytesToHex(schnorr.getPublicKey(ALICE_SK));
+const BOB = "b".repeat(64);
+
+function makeForge<T extends FungibleForge | NonFungibleForge>(
+  Forge: new (config: ForgeConfig) => T,
+): T {
+  return createForge(Forge, { totalSupply: 100 });
+}
+
+async function mint(
+  forge: FungibleForge | NonFungibleForge,
+  params: Record<string, unknown>,
+) {
+  const res = makeRes();
+  await forge.forgeToken(req(params), { sender: OWNER } as any, res);
+  return res.calls[0].args[0].token as string;
+}
+
+async function transfer(
+  forge: FungibleForge | NonFungibleForge,
+  jwt: string,
+  outs: unknown[],
+) {
+  const hash = (await new Token().restore(jwt)).header.token_hash;
+  const res = makeRes();
+  await forge.transferToken(
+    req(
+      {
+        ins: [jwt],
+        outs,
+        witnessData: [
+          bytesToHex(schnorr.sign(spendAuthDigest(hash, outs), ALICE_SK)),
+        ],
+      },
+      "req-transfer",
+    ),
+    { sender: ALICE } as any,
+    res,
+  );
+  return res;
+}
+
+describe("receipts", () => {
+  it("signs burns with the forge key", async () => {
+    const forge = makeForge(FungibleForge);
+    const jwt = await mint(forge, { to: ALICE, amount: 7 });
+    const res = makeRes();
+    await forge.handleBurn(
+      req({ token: jwt }, "req-burn"),
+      { sender: ALICE } as any,
+      res,
+    );
+    const { receipt } = res.calls[0].args[0];
+    expect(receipt).toMatchObject({
+      type: "burn",
+      issuer: OWNER,
+      requestId: "req-burn",
+      inputs: [
+        {
+          tokenHash: (await new Token().restore(jwt)).header.token_hash,
+          amount: 7,
+        },
+      ],
+      outputs: [],
+    });
+    expect(verifyReceipt(receipt, OWNER)).toBe(true);
+    expect(verifyReceipt(receipt, ALICE)).toBe(false);
+    expect(
+      verifyReceipt(
+        { ...receipt, inputs: [{ ...receipt.inputs[0], amount: 70 }] },
+        OWNER,
+      ),
+    ).toBe(false);
+  });
+
+  it("lists the spent and issued tokens of a transfer", async () => {
+    const forge = makeForge(FungibleForge);
+    const jwt = await mint(forge, { to: ALICE, amount: 10 });
+    const res = await transfer(forge, jwt, [{ to: BOB, amount: 4 }]);
+    const [toBob, change] = await Promise.all(
+      res.calls
+        .slice(0, 2)
+        .map((c: any) => new Token().restore(c.args[0].token)),
+    );
+    const last = res.calls[res.calls.length - 1];
+    expect(last.args[1]).toBe(ALICE);
+    const { receipt } = last.args[0];
+    expect(receipt).toMatchObject({
+      type: "transfer",
+      requestId: "req-transfer",
+      outputs: [
+        { tokenHash: toBob.header.token_hash, amount: 4, to: BOB },
+        { tokenHash: change.header.token_hash, amount: 6, to: ALICE },
+      ],
+    });
+    expect(receipt.inputs).toHaveLength(1);
+    expect(verifyReceipt(JSON.parse(JSON.stringify(receipt)), OWNER)).toBe(
+      true,
+    );
+  });
+
+  it("names the tokenIDs of TAT transfers", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const jwt = await mint(forge, { to: ALICE });
+    const { tokenID } = (await new Token().restore(jwt)).payload;
+    const res = await transfer(forge, jwt, [
+      { to: BOB, tokenID: String(tokenID) },
+    ]);
+    const { receipt } = res.calls[res.calls.length - 1].args[0];
+    expect(receipt.inputs[0].tokenID).toBe(tokenID);
+    expect(receipt.outputs[0]).toMatchObject({ tokenID, to: BOB });
+    expect(verifyReceipt(receipt, OWNER)).toBe(true);
+  });
+});
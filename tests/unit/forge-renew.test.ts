@@ -0,0 +1,186 @@
+// Renewals: `renew` re-issues an expiring TAT with the same tokenID and a
+// later exp, paid for by its holder or by a booth under its authorization.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { spendAuthDigest } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE_SK = "22".repeat(32);
+const ALICE = bytesToHex(schnorr.getPublicKey(ALICE_SK));
+const BOOTH = "b".repeat(64);
+const TREASURY = "c".repeat(64);
+const DAY = 86400;
+
+function makeForge<T extends FungibleForge | NonFungibleForge>(
+  Forge: new (config: ForgeConfig) => T,
+  config: Partial<ForgeConfig> = {},
+): T {
+  return createForge(Forge, { totalSupply: 100, ...config });
+}
+
+async function mint(
+  forge: FungibleForge | NonFungibleForge,
+  params: Record<string, unknown>,
+) {
+  const res = makeRes();
+  await forge.forgeToken(req(params), { sender: OWNER } as any, res);
+  return res.calls[0].args[0].token as string;
+}
+
+// Builds a holder's renewal with every input signed over `outs`.
+async function renewal(ins: string[], outs: unknown[]) {
+  const witnessData = await Promise.all(
+    ins.map(async (jwt) => {
+      const hash = (await new Token().restore(jwt)).header.token_hash;
+      return bytesToHex(schnorr.sign(spendAuthDigest(hash, outs), ALICE_SK));
+    }),
+  );
+  return { ins, outs, witnessData };
+}
+
+async function renew(forge: NonFungibleForge, params: unknown, sender = ALICE) {
+  const res = makeRes();
+  await forge.handleRenew(req(params), { sender } as any, res);
+  return res;
+}
+
+describe("renew", () => {
+  afterEach(() => jest.useRealTimers());
+
+  it("re-issues the same tokenID with a later exp, paid to the treasury", async () => {
+    const policy = { period: 30 * DAY, price: 4, treasury: TREASURY };
+    const forge = makeForge(NonFungibleForge, { renewal: policy });
+    // Fungible tokens issued under the same forge key pay for renewals.
+    const coins = makeForge(FungibleForge);
+    const exp = Math.floor(Date.now() / 1000) + DAY;
+    const pass = await mint(forge, { to: ALICE, exp });
+    const cash = await mint(coins, { to: ALICE, amount: 10 });
+
+    const quote = makeRes();
+    await forge.handleRenewQuote(
+      req({ token: pass }),
+      { sender: ALICE } as any,
+      quote,
+    );
+    expect(quote.calls[0].args[0]).toMatchObject({
+      exp,
+      renewedExp: exp + 30 * DAY,
+      price: 4,
+      treasury: TREASURY,
+    });
+
+    const underpaid = await renew(
+      forge,
+      await renewal(
+        [pass, cash],
+        [
+          { to: TREASURY, amount: 3 },
+          { to: ALICE, amount: 7 },
+        ],
+      ),
+    );
+    expect(underpaid.calls[0].args[1]).toBe(
+      `Renewal costs 4, paid to ${TREASURY}`,
+    );
+
+    const res = await renew(
+      forge,
+      await renewal(
+        [pass, cash],
+        [
+          { to: TREASURY, amount: 4 },
+          { to: ALICE, amount: 6 },
+        ],
+      ),
+    );
+    const [renewed, paid, change] = await Promise.all(
+      res.calls
+        .slice(0, 3)
+        .map((c: any) => new Token().restore(c.args[0].token)),
+    );
+    const original = await new Token().restore(pass);
+    expect(renewed.payload).toMatchObject({
+      tokenID: original.payload.tokenID,
+      P2PKlock: ALICE,
+      exp: exp + 30 * DAY,
+    });
+    expect(paid.payload).toMatchObject({ amount: 4, P2PKlock: TREASURY });
+    expect(change.payload).toMatchObject({ amount: 6, P2PKlock: ALICE });
+    expect(res.calls[3].args).toEqual([
+      { spent: original.header.token_hash, issuer: OWNER },
+      ALICE,
+    ]);
+
+    const again = await renew(
+      forge,
+      await renewal([pass, cash], [{ to: TREASURY, amount: 10 }]),
+    );
+    expect(again.calls[0].args[0]).toBe(2002);
+  });
+
+  it("opens within the window and closes after the grace period", async () => {
+    const forge = makeForge(NonFungibleForge, {
+      renewal: { period: 30 * DAY, window: 7 * DAY, gracePeriod: 3 * DAY },
+    });
+    const exp = Math.floor(Date.now() / 1000) + 10 * DAY;
+    const pass = await mint(forge, { to: ALICE, exp });
+
+    const early = await renew(forge, await renewal([pass], []));
+    expect(early.calls[0].args[1]).toBe(`Renewal opens at ${exp - 7 * DAY}`);
+
+    // Lapsed, but within the grace period: renewed from the old exp.
+    jest.useFakeTimers({ now: (exp + DAY) * 1000 });
+    const late = await renew(forge, await renewal([pass], []));
+    const renewed = await new Token().restore(late.calls[0].args[0].token);
+    expect(renewed.payload.exp).toBe(exp + 30 * DAY);
+
+    jest.useFakeTimers({ now: (exp + 30 * DAY + 3 * DAY) * 1000 });
+    const lapsed = await renew(
+      forge,
+      await renewal([late.calls[0].args[0].token], []),
+    );
+    expect(lapsed.calls[0].args[0]).toBe(2001);
+  });
+
+  it("renews for a booth under its authorization", async () => {
+    const forge = makeForge(NonFungibleForge, {
+      renewal: { period: 30 * DAY },
+    });
+    const auth = await forge.authorizeBooth({
+      boxOfficePubkey: BOOTH,
+      catalogItemIds: ["membership"],
+      maxFee: 0.05,
+      settlement: { currency: "USD", frequency: "daily" },
+    });
+    const exp = Math.floor(Date.now() / 1000) + DAY;
+    const pass = await mint(forge, { to: ALICE, exp });
+    const params = {
+      token: pass,
+      authorizationEventId: auth.eventId,
+      catalogItemId: "membership",
+      payment: { type: "card", amount: 20, referenceId: "ref" },
+      invoiceId: "inv-1",
+    };
+
+    const stranger = await renew(forge, params, ALICE);
+    expect(stranger.calls[0].args[1]).toBe(
+      "Sender is not the authorized booth",
+    );
+
+    const res = await renew(forge, params, BOOTH);
+    expect(res.calls.map((c: any) => c.args[1])).toEqual([ALICE, ALICE, BOOTH]);
+    const { tokenHash } = res.calls[2].args[0];
+    expect(forge.getAuthorization(auth.eventId)?.mints[0]).toMatchObject({
+      invoiceId: "inv-1",
+      catalogItemId: "membership",
+      buyerPubkey: ALICE,
+      tokenHash,
+    });
+    const replay = await renew(forge, { ...params, invoiceId: "inv-2" }, BOOTH);
+    expect(replay.calls[0].args[1]).toBe("Token is already spent");
+  });
+});
@@ -0,0 +1,129 @@
+// Issuer-side revocation and freezing: listed tokens are reported by `verify`
+// and cannot be spent until reinstated or past their expiry, without being
+// marked spent.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import {
+  TOKEN_REVOCATION_KIND,
+  verifyTokenRevocation,
+} from "@tat-protocol/utils";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent } from "nostr-tools";
+import { OWNER, OWNER_SK, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(FungibleForge);
+}
+
+async function mint(forge: FungibleForge) {
+  const { token, jwt } = await (forge as any).mintValue(5, {});
+  return { jwt: jwt as string, hash: token.header.token_hash as string };
+}
+
+async function transfer(forge: FungibleForge, jwt: string) {
+  const res = makeRes();
+  await forge.transferToken(
+    req({ ins: [jwt], outs: [JSON.stringify({ to: BOB, amount: 5 })] }),
+    { sender: ALICE } as any,
+    res,
+  );
+  return res;
+}
+
+async function verify(forge: FungibleForge, hash: string) {
+  const res = makeRes();
+  await forge.handleVerify(req({ token_hashes: [hash] }), {} as any, res);
+  return res.calls[0].args[0];
+}
+
+describe("forge token revocation", () => {
+  it("blocks a revoked token without marking it spent, until reinstated", async () => {
+    const forge = makeForge();
+    const { jwt, hash } = await mint(forge);
+    await forge.revokeToken(hash, "refunded");
+
+    expect(await verify(forge, hash)).toMatchObject({
+      valid: { [hash]: false },
+      spent: { [hash]: false },
+      revoked: { [hash]: true },
+      frozen: { [hash]: false },
+      revocations: { [hash]: { status: "revoked", reason: "refunded" } },
+    });
+    const blocked = await transfer(forge, jwt);
+    expect(blocked.calls[0].type).toBe("error");
+    expect(blocked.calls[0].args[1]).toContain("Token is revoked (refunded)");
+
+    await forge.reinstateToken(hash);
+    expect((await verify(forge, hash)).valid[hash]).toBe(true);
+    expect((await transfer(forge, jwt)).calls[0].type).toBe("send");
+  });
+
+  it("lets a freeze lapse at its expiry", async () => {
+    const forge = makeForge();
+    const { jwt, hash } = await mint(forge);
+    const now = Math.floor(Date.now() / 1000);
+    await forge.freezeToken(hash, "dispute", now + 60);
+    expect((await verify(forge, hash)).frozen[hash]).toBe(true);
+    const burn = makeRes();
+    await forge.handleBurn(req({ token: jwt }), {} as any, burn);
+    expect(burn.calls[0].args[1]).toBe("Token is frozen (dispute)");
+
+    forge.state.revocations.get(hash)!.expiresAt = now - 1;
+    expect(forge.getRevocation(hash)).toBeUndefined();
+    expect((await transfer(forge, jwt)).calls[0].type).toBe("send");
+  });
+
+  it("rejects bad arguments and spent tokens", async () => {
+    const forge = makeForge();
+    const { jwt, hash } = await mint(forge);
+    await expect(forge.revokeToken("nope", "fraud")).rejects.toThrow(
+      "tokenHash",
+    );
+    await expect(forge.revokeToken(hash, "whim" as any)).rejects.toThrow(
+      "reason must be one of",
+    );
+    await expect(forge.freezeToken(hash, "fraud", 1)).rejects.toThrow(
+      "expiresAt",
+    );
+    await expect(forge.reinstateToken(hash)).rejects.toThrow(
+      "not revoked or frozen",
+    );
+    await transfer(forge, jwt);
+    await expect(forge.revokeToken(hash, "fraud")).rejects.toThrow(
+      "already spent",
+    );
+  });
+
+  it("reads notices signed by the issuer", () => {
+    const hash = "c".repeat(64);
+    const event = finalizeEvent(
+      {
+        kind: TOKEN_REVOCATION_KIND,
+        created_at: 1700000000,
+        content: "",
+        tags: [
+          ["d", hash],
+          ["t", hash],
+          ["status", "frozen"],
+          ["reason", "stolen"],
+          ["expires", "1800000000"],
+        ],
+      },
+      hexToBytes(OWNER_SK),
+    );
+    expect(verifyTokenRevocation(event)).toEqual({
+      issuer: OWNER,
+      tokenHash: hash,
+      status: "frozen",
+      reason: "stolen",
+      expiresAt: 1800000000,
+      createdAt: 1700000000,
+    });
+    // Round-trip through JSON to drop nostr-tools' cached verification.
+    const tampered = JSON.parse(JSON.stringify({ ...event, created_at: 1 }));
+    expect(verifyTokenRevocation(tampered)).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+// Token sets (`setID`, PROTOCOL_SPEC.md §3): one fungible forge hosting
+// several sets, each with its own supply cap, whose tokens never mix.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { deserializeData, serializeData } from "@tat-protocol/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(FungibleForge, { sets: { USD: { totalSupply: 100 } } });
+}
+
+const ctx = { sender: OWNER } as any;
+
+async function mint(forge: any, amount: number, setID?: string) {
+  const res = makeRes();
+  await forge.forgeToken(req({ to: ALICE, amount, setID }), ctx, res);
+  return res.calls[0];
+}
+
+async function getSupply(forge: any, setID?: string) {
+  const res = makeRes();
+  await forge.handleGetSupply(req({ setID }), ctx, res);
+  return res.calls[0];
+}
+
+// Unlocked tokens need no witness, which keeps the transfer tests short.
+async function unlocked(forge: any, amount: number, setID?: string) {
+  const { jwt } = await forge.mintValue(amount, { setID });
+  return jwt;
+}
+
+describe("token sets", () => {
+  it("mints into a set and tracks its supply apart from the default set", async () => {
+    const forge = makeForge();
+    const minted = await mint(forge, 40, "USD");
+    expect(minted.type).toBe("send");
+    const token = await new Token().restore(minted.args[0].token);
+    expect(token.payload.setID).toBe("USD");
+
+    await mint(forge, 7);
+    expect((await getSupply(forge, "USD")).args[0]).toEqual({
+      total: 100,
+      circulating: 40,
+      burned: 0,
+    });
+    expect((await getSupply(forge, "-")).args[0]).toEqual({
+      total: 1000,
+      circulating: 7,
+      burned: 0,
+    });
+  });
+
+  it("enforces each set's cap and rejects unknown sets", async () => {
+    const forge = makeForge();
+    expect((await mint(forge, 100, "USD")).type).toBe("send");
+    expect((await mint(forge, 1, "USD")).type).toBe("error");
+    expect((await mint(forge, 500)).type).toBe("send");
+    expect((await mint(forge, 1, "EUR")).type).toBe("error");
+    expect((await getSupply(forge, "EUR")).type).toBe("error");
+
+    await forge.addSet("EUR", 10);
+    expect((await mint(forge, 10, "EUR")).type).toBe("send");
+    await expect(forge.addSet("EUR")).rejects.toThrow();
+  });
+
+  it("burns out of the token's own set", async () => {
+    const forge = makeForge();
+    const { token } = (await mint(forge, 30, "USD")).args[0];
+    await mint(forge, 30);
+
+    const burnRes = makeRes();
+    await forge.burnToken(req({ token }), ctx, burnRes);
+    expect(burnRes.calls[0].type).toBe("send");
+    expect((await getSupply(forge, "USD")).args[0]).toMatchObject({
+      circulating: 0,
+      burned: 30,
+    });
+    expect((await getSupply(forge)).args[0]).toMatchObject({
+      circulating: 30,
+      burned: 0,
+    });
+  });
+
+  it("keeps the set on transfer outputs and change", async () => {
+    const forge = makeForge();
+    const input = await unlocked(forge, 50, "USD");
+    const res = makeRes();
+    await forge.transferToken(
+      req({ ins: [input], outs: [JSON.stringify({ to: BOB, amount: 20 })] }),
+      { sender: ALICE } as any,
+      res,
+    );
+    const sends = res.calls.filter((c: any) => c.args[0].token);
+    expect(sends).toHaveLength(2);
+    for (const { args } of sends) {
+      const out = await new Token().restore(args[0].token);
+      expect(out.payload.setID).toBe("USD");
+    }
+  });
+
+  it("refuses to combine inputs from different sets", async () => {
+    const forge = makeForge();
+    const usd = await unlocked(forge, 10, "USD");
+    const plain = await unlocked(forge, 10);
+    const res = makeRes();
+    await forge.transferToken(
+      req({
+        ins: [usd, plain],
+        outs: [JSON.stringify({ to: BOB, amount: 20 })],
+      }),
+      { sender: ALICE } as any,
+      res,
+    );
+    expect(res.calls[0].type).toBe("error");
+    expect(res.calls[0].args[1]).toMatch(/same set/);
+  });
+
+  it("restores set supply from saved state", async () => {
+    const forge = makeForge();
+    await forge.addSet("EUR", 5);
+    await mint(forge, 3, "EUR");
+
+    // The nwpc mock does not persist, so round-trip the state by hand.
+    const saved = deserializeData(serializeData((forge as any).state));
+    const reloaded = makeForge();
+    jest.spyOn(reloaded, "loadState").mockResolvedValue(saved);
+    await reloaded._loadState();
+    expect((await getSupply(reloaded, "EUR")).args[0]).toMatchObject({
+      total: 5,
+      circulating: 3,
+    });
+    expect((await getSupply(reloaded, "USD")).args[0].total).toBe(100);
+  });
+});
@@ -0,0 +1,125 @@
+// Transfer-restricted TATs: the forge refuses transfers their transferability
+// forbids and counts the ones it allows, while burning and issuer recovery to
+// a holder's new key keep working.
+import "@tat-protocol/nwpc";
+import { NonFungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(NonFungibleForge, {
+    totalSupply: 0,
+    templates: { badge: { transferability: { mode: "soulbound" } } },
+  });
+}
+
+async function mint(forge: NonFungibleForge, params: Record<string, unknown>) {
+  const res = makeRes();
+  await forge.forgeToken(
+    req({ to: ALICE, ...params }),
+    { sender: OWNER } as any,
+    res,
+  );
+  return res.calls[0];
+}
+
+async function transfer(forge: NonFungibleForge, token: Token, to: string) {
+  const res = makeRes();
+  await forge.handleNonFungibleTransfer(
+    [token],
+    [{ tokenID: String(token.payload.tokenID), to }],
+    res,
+    ALICE,
+  );
+  return res.calls[0];
+}
+
+describe("transfer-restricted TATs", () => {
+  it("keeps soulbound TATs with their holder but lets them be burned", async () => {
+    const forge = makeForge();
+    const jwt = (await mint(forge, { template: "badge" })).args[0].token;
+    const badge = await new Token().restore(jwt);
+    expect(badge.payload.transferability).toEqual({ mode: "soulbound" });
+
+    expect((await transfer(forge, badge, BOB)).args).toEqual([
+      2004,
+      "Token is soulbound and cannot be transferred",
+    ]);
+    const burn = makeRes();
+    await forge.handleBurn(req({ token: jwt }), { sender: ALICE } as any, burn);
+    expect(burn.calls[0].args[0]).toMatchObject({ success: true });
+  });
+
+  it("allows issuer-only returns and counts limited transfers", async () => {
+    const forge = makeForge();
+    const ticket = await new Token().restore(
+      (await mint(forge, { transferability: { mode: "issuer" } })).args[0]
+        .token,
+    );
+    expect((await transfer(forge, ticket, BOB)).args[1]).toBe(
+      "Token can only be transferred back to its issuer",
+    );
+    expect((await transfer(forge, ticket, OWNER)).type).toBe("send");
+
+    const pass = await new Token().restore(
+      (
+        await mint(forge, {
+          transferability: { mode: "limited", maxTransfers: 1 },
+        })
+      ).args[0].token,
+    );
+    const sent = await transfer(forge, pass, BOB);
+    const resold = await new Token().restore(sent.args[0].token);
+    expect(resold.payload).toMatchObject({
+      transfers: 1,
+      transferability: { mode: "limited", maxTransfers: 1 },
+    });
+    expect((await transfer(forge, resold, ALICE)).args[1]).toBe(
+      "Token has reached its transfer limit (1)",
+    );
+  });
+
+  it("lets the owner recover a restricted TAT to a new holder key", async () => {
+    const forge = makeForge();
+    const jwt = (await mint(forge, { template: "badge" })).args[0].token;
+    const badge = await new Token().restore(jwt);
+
+    const res = makeRes();
+    await forge.handleAdminRecoverToken(
+      req({ token: jwt, to: BOB }),
+      { sender: OWNER } as any,
+      res,
+    );
+    expect(res.calls[0].args[1]).toBe(BOB);
+    const recovered = await new Token().restore(res.calls[0].args[0].token);
+    expect(recovered.payload).toMatchObject({
+      P2PKlock: BOB,
+      tokenID: badge.payload.tokenID,
+      transferability: { mode: "soulbound" },
+    });
+    expect(recovered.payload.transfers).toBeUndefined();
+    expect(res.calls[1].args[0]).toEqual({
+      recovered: badge.header.token_hash,
+      to: BOB,
+    });
+    await expect(forge.recoverToken(jwt, ALICE)).rejects.toThrow(
+      "already spent",
+    );
+  });
+
+  it("rejects invalid transferability at mint time", async () => {
+    const forge = makeForge();
+    expect(
+      (await mint(forge, { transferability: { mode: "limited" } })).args,
+    ).toEqual([
+      1003,
+      "transferability.maxTransfers must be a positive integer",
+    ]);
+    expect(
+      (await mint(forge, { transferability: { mode: "gift" } })).args[1],
+    ).toContain("transferability.mode must be one of");
+  });
+});
@@ -0,0 +1,112 @@
+// Supply accounting: `getSupply` (PROTOCOL_SPEC.md §4.3.2) and burns that
+// move value out of circulation. Import the nwpc barrel first so its
+// module-level constants are initialized before the forge barrel loads.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import { Token, TokenType } from "@tat-protocol/token";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import {
+  OWNER,
+  createForge,
+  makeRes,
+  req,
+} from "./forge-test-utils";
+
+const OTHER_SK = "22".repeat(32);
+const OTHER = bytesToHex(schnorr.getPublicKey(OTHER_SK));
+const ALICE = "e".repeat(64);
+
+function makeForge(Ctor: any, totalSupply = 1000) {
+  return createForge(Ctor, { totalSupply });
+}
+
+const ctx = { sender: OWNER } as any;
+
+async function mintFungible(forge: any, amount: number): Promise<string> {
+  const res = makeRes();
+  await forge.forgeToken(req({ to: ALICE, amount }), ctx, res);
+  return res.calls[0].args[0].token;
+}
+
+async function getSupply(forge: any, params: unknown = {}) {
+  const res = makeRes();
+  await forge.handleGetSupply(req(params), ctx, res);
+  return res.calls[0];
+}
+
+describe("getSupply", () => {
+  it("reports total, circulating and burned for a fungible forge", async () => {
+    const forge = makeForge(FungibleForge);
+    const token = await mintFungible(forge, 300);
+    await mintFungible(forge, 200);
+
+    const burnRes = makeRes();
+    await forge.burnToken(req({ token }), ctx, burnRes);
+    expect(burnRes.calls[0].type).toBe("send");
+
+    const supply = await getSupply(forge);
+    expect(supply.type).toBe("send");
+    expect(supply.args[0]).toEqual({
+      total: 1000,
+      circulating: 200,
+      burned: 300,
+    });
+  });
+
+  it("frees cap headroom after a fungible burn", async () => {
+    const forge = makeForge(FungibleForge, 100);
+    const token = await mintFungible(forge, 100);
+
+    const blocked = makeRes();
+    await forge.forgeToken(req({ to: ALICE, amount: 1 }), ctx, blocked);
+    expect(blocked.calls[0].type).toBe("error");
+
+    await forge.burnToken(req({ token }), ctx, makeRes());
+
+    const allowed = makeRes();
+    await forge.forgeToken(req({ to: ALICE, amount: 100 }), ctx, allowed);
+    expect(allowed.calls[0].type).toBe("send");
+  });
+
+  it("counts a burned TAT as one unit", async () => {
+    const forge = makeForge(NonFungibleForge, 10);
+    const res = makeRes();
+    await forge.forgeToken(req({ to: ALICE }), ctx, res);
+    const token = res.calls[0].args[0].token;
+
+    await forge.burnToken(req({ token }), ctx, makeRes());
+
+    const supply = await getSupply(forge);
+    expect(supply.args[0]).toEqual({ total: 10, circulating: 0, burned: 1 });
+  });
+
+  it("does not count burns of tokens issued by another forge", async () => {
+    const forge = makeForge(FungibleForge);
+    await mintFungible(forge, 50);
+
+    const foreign = new Token();
+    await foreign.build({
+      token_type: TokenType.FUNGIBLE,
+      payload: Token.createPayload({ iss: OTHER, amount: 50 }),
+    });
+    const sig = await foreign.sign(await foreign.data_to_sign(), {
+      secretKey: OTHER_SK,
+      publicKey: OTHER,
+    });
+    const jwt = await foreign.toJWT(bytesToHex(sig));
+
+    const burnRes = makeRes();
+    await forge.burnToken(req({ token: jwt }), ctx, burnRes);
+    expect(burnRes.calls[0].type).toBe("error");
+
+    const supply = await getSupply(forge);
+    expect(supply.args[0]).toMatchObject({ circulating: 50, burned: 0 });
+  });
+
+  it("rejects an unknown setID", async () => {
+    const forge = makeForge(FungibleForge);
+    const supply = await getSupply(forge, { setID: "nope" });
+    expect(supply.type).toBe("error");
+  });
+});
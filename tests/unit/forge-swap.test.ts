@@ -0,0 +1,232 @@
+// Atomic swaps: `swap` settles two parties' legs in one journaled step, with
+// every witness signed over both legs, so neither side can be settled alone.
+import "@tat-protocol/nwpc";
+import { FungibleForge, NonFungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { spendAuthDigest, swapSpendOuts } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE_SK = "22".repeat(32);
+const ALICE = bytesToHex(schnorr.getPublicKey(ALICE_SK));
+const BOB_SK = "33".repeat(32);
+const BOB = bytesToHex(schnorr.getPublicKey(BOB_SK));
+
+function makeForge<T extends FungibleForge | NonFungibleForge>(
+  Forge: new (config: ForgeConfig) => T,
+  config: Partial<ForgeConfig> = {},
+): T {
+  return createForge(Forge, { totalSupply: 0, ...config });
+}
+
+async function mint(
+  forge: FungibleForge | NonFungibleForge,
+  params: Record<string, unknown>,
+) {
+  const res = makeRes();
+  await forge.forgeToken(req(params), { sender: OWNER } as any, res);
+  return res.calls[0].args[0].token as string;
+}
+
+type Leg = { from: string; ins: string[]; outs: unknown[]; sk: string };
+
+// Signs every leg's inputs over both legs, as the two pockets would.
+async function sign(legs: Leg[]) {
+  const outs = swapSpendOuts(legs);
+  return Promise.all(
+    legs.map(async ({ sk, ...leg }) => ({
+      ...leg,
+      witnessData: await Promise.all(
+        leg.ins.map(async (jwt) => {
+          const hash = (await new Token().restore(jwt)).header.token_hash;
+          return bytesToHex(schnorr.sign(spendAuthDigest(hash, outs), sk));
+        }),
+      ),
+    })),
+  );
+}
+
+async function swap(forge: FungibleForge | NonFungibleForge, legs: unknown[]) {
+  const res = makeRes();
+  await forge.handleSwap(req({ legs }), { sender: ALICE } as any, res);
+  return res;
+}
+
+async function transfer(forge: NonFungibleForge, tx: Record<string, unknown>) {
+  const res = makeRes();
+  await forge.transferToken(req(tx), { sender: BOB } as any, res);
+  return res;
+}
+
+describe("swap", () => {
+  it("exchanges two TATs in one step", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const seat = await mint(forge, { to: ALICE });
+    const pass = await mint(forge, { to: BOB });
+    const [seatID, passID] = await Promise.all(
+      [seat, pass].map(async (jwt) =>
+        String((await new Token().restore(jwt)).payload.tokenID),
+      ),
+    );
+
+    const res = await swap(
+      forge,
+      await sign([
+        {
+          from: ALICE,
+          ins: [seat],
+          outs: [{ to: BOB, tokenID: seatID }],
+          sk: ALICE_SK,
+        },
+        {
+          from: BOB,
+          ins: [pass],
+          outs: [{ to: ALICE, tokenID: passID }],
+          sk: BOB_SK,
+        },
+      ]),
+    );
+    expect(res.calls.map((c: any) => c.args[1])).toEqual([
+      BOB,
+      ALICE,
+      ALICE,
+      ALICE,
+    ]);
+    const [toBob, toAlice] = await Promise.all(
+      res.calls
+        .slice(0, 2)
+        .map((c: any) => new Token().restore(c.args[0].token)),
+    );
+    expect(toBob.payload).toMatchObject({
+      tokenID: Number(seatID),
+      P2PKlock: BOB,
+    });
+    expect(toAlice.payload).toMatchObject({
+      tokenID: Number(passID),
+      P2PKlock: ALICE,
+    });
+    expect(res.calls[2].args[0].spent).toBe(
+      (await new Token().restore(seat)).header.token_hash,
+    );
+  });
+
+  it("pays fungible change back to each leg's from key", async () => {
+    const forge = makeForge(FungibleForge, {
+      totalSupply: 100,
+      sets: { USD: { totalSupply: 100 } },
+    });
+    const coins = await mint(forge, { to: ALICE, amount: 10 });
+    const dollars = await mint(forge, { to: BOB, amount: 20, setID: "USD" });
+
+    const res = await swap(
+      forge,
+      await sign([
+        {
+          from: ALICE,
+          ins: [coins],
+          outs: [{ to: BOB, amount: 7 }],
+          sk: ALICE_SK,
+        },
+        {
+          from: BOB,
+          ins: [dollars],
+          outs: [{ to: ALICE, amount: 15 }],
+          sk: BOB_SK,
+        },
+      ]),
+    );
+    const delivered = await Promise.all(
+      res.calls.slice(0, 4).map(async (c: any) => {
+        const { payload } = await new Token().restore(c.args[0].token);
+        return [c.args[1], payload.amount, payload.setID ?? "-"];
+      }),
+    );
+    expect(delivered).toEqual([
+      [BOB, 7, "-"],
+      [ALICE, 3, "-"],
+      [ALICE, 15, "USD"],
+      [BOB, 5, "USD"],
+    ]);
+  });
+
+  it("refuses one-sided witnesses and replays as a plain transfer", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const seat = await mint(forge, { to: ALICE });
+    const pass = await mint(forge, { to: BOB });
+    const seatID = String((await new Token().restore(seat)).payload.tokenID);
+    const passID = String((await new Token().restore(pass)).payload.tokenID);
+    const aliceLeg = {
+      from: ALICE,
+      ins: [seat],
+      outs: [{ to: BOB, tokenID: seatID }],
+      sk: ALICE_SK,
+    };
+    const bobLeg = {
+      from: BOB,
+      ins: [pass],
+      outs: [{ to: ALICE, tokenID: passID }],
+      sk: BOB_SK,
+    };
+
+    const [oneSided] = await sign([aliceLeg]);
+    const [aliceSigned, bobSigned] = await sign([aliceLeg, bobLeg]);
+    const res = await swap(forge, [oneSided, bobSigned]);
+    expect(res.calls[0].type).toBe("error");
+    expect(res.calls[0].args[1]).toMatch(/^Invalid swap: .*witness/i);
+
+    // Bob holds Alice's witness; neither her leg's outputs nor the full
+    // signed outputs settle it as a transfer.
+    for (const outs of [aliceLeg.outs, swapSpendOuts([aliceLeg, bobLeg])]) {
+      const replay = await transfer(forge, {
+        ins: [seat],
+        outs,
+        witnessData: aliceSigned.witnessData,
+      });
+      expect(replay.calls[0].type).toBe("error");
+    }
+  });
+
+  it("spends nothing when the second leg is invalid", async () => {
+    const forge = makeForge(NonFungibleForge);
+    const seat = await mint(forge, { to: ALICE });
+    const pass = await mint(forge, { to: BOB });
+    const seatID = String((await new Token().restore(seat)).payload.tokenID);
+    const aliceLeg = {
+      from: ALICE,
+      ins: [seat],
+      outs: [{ to: BOB, tokenID: seatID }],
+      sk: ALICE_SK,
+    };
+
+    // Bob's leg claims to deliver Alice's seat back to her.
+    const res = await swap(
+      forge,
+      await sign([
+        aliceLeg,
+        {
+          from: BOB,
+          ins: [pass],
+          outs: [{ to: ALICE, tokenID: seatID }],
+          sk: BOB_SK,
+        },
+      ]),
+    );
+    expect(res.calls).toHaveLength(1);
+    expect(res.calls[0].args[1]).toMatch(/^Invalid swap: /);
+
+    // Alice's seat is still unspent and can still be transferred.
+    const hash = (await new Token().restore(seat)).header.token_hash;
+    const retry = await transfer(forge, {
+      ins: [seat],
+      outs: aliceLeg.outs,
+      witnessData: [
+        bytesToHex(
+          schnorr.sign(spendAuthDigest(hash, aliceLeg.outs), ALICE_SK),
+        ),
+      ],
+    });
+    expect(retry.calls[0].type).toBe("send");
+  });
+});
@@ -0,0 +1,113 @@
+// TAT metadata: minting requests may carry `exp`, `data_uri` and `ext` fields,
+// directly or from a forge template, and transfers keep them on the re-issued
+// token.
+import "@tat-protocol/nwpc";
+import { NonFungibleForge } from "@tat-protocol/forge";
+import { Token } from "@tat-protocol/token";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(NonFungibleForge, {
+    totalSupply: 0,
+    templates: {
+      vip: {
+        expiresIn: 3600,
+        data_uri: "ipfs://vip",
+        ext: { tier: 2, benefits: ["lounge"] },
+      },
+    },
+  });
+}
+
+async function mint(forge: NonFungibleForge, params: Record<string, unknown>) {
+  const res = makeRes();
+  await forge.forgeToken(
+    req({ to: ALICE, ...params }),
+    { sender: OWNER } as any,
+    res,
+  );
+  return res.calls[0];
+}
+
+describe("TAT metadata", () => {
+  it("mints from a template with a tier and an expiry offset", async () => {
+    const forge = makeForge();
+    const now = Math.floor(Date.now() / 1000);
+    const call = await mint(forge, { template: "vip" });
+    const token = await new Token().restore(call.args[0].token);
+    expect(token.payload).toMatchObject({
+      P2PKlock: ALICE,
+      data_uri: "ipfs://vip",
+      ext: { tier: 2, benefits: ["lounge"] },
+    });
+    expect(token.payload.exp).toBeGreaterThanOrEqual(now + 3600);
+    expect(token.payload.exp).toBeLessThan(now + 3700);
+  });
+
+  it("lets the request override and extend the template", async () => {
+    const forge = makeForge();
+    const exp = Math.floor(Date.now() / 1000) + 60;
+    const call = await mint(forge, {
+      template: "vip",
+      exp,
+      ext: { tier: 3, seat: "A1" },
+    });
+    const token = await new Token().restore(call.args[0].token);
+    expect(token.payload.exp).toBe(exp);
+    expect(token.payload.ext).toEqual({
+      tier: 3,
+      benefits: ["lounge"],
+      seat: "A1",
+    });
+  });
+
+  it("rejects unknown templates and invalid metadata", async () => {
+    const forge = makeForge();
+    expect((await mint(forge, { template: "gold" })).args).toEqual([
+      1005,
+      "Unknown template: gold",
+    ]);
+    expect((await mint(forge, { template: "toString" })).args).toEqual([
+      1005,
+      "Unknown template: toString",
+    ]);
+    expect((await mint(forge, { exp: 1 })).args[1]).toBe(
+      "exp must be a future Unix time in seconds",
+    );
+    expect((await mint(forge, { ext: ["tier"] })).args[1]).toBe(
+      "ext must be an object",
+    );
+    expect((await mint(forge, { ext: { tier: "gold" } })).args[1]).toBe(
+      "ext.tier must be a number",
+    );
+    expect(
+      (await mint(forge, { ext: { note: "x".repeat(5000) } })).args[1],
+    ).toContain("ext must serialize to at most 4096 characters");
+    expect(forge.state.lastAssetId ?? 0).toBe(0);
+  });
+
+  it("keeps exp and ext when a TAT is transferred", async () => {
+    const forge = makeForge();
+    const jwt = (await mint(forge, { template: "vip" })).args[0].token;
+    const minted = await new Token().restore(jwt);
+    const res = makeRes();
+    await forge.handleNonFungibleTransfer(
+      [minted],
+      [{ tokenID: String(minted.payload.tokenID), to: BOB }],
+      res,
+      ALICE,
+    );
+    expect(res.calls[0].type).toBe("send");
+    const reissued = await new Token().restore(res.calls[0].args[0].token);
+    expect(reissued.payload).toMatchObject({
+      P2PKlock: BOB,
+      tokenID: minted.payload.tokenID,
+      exp: minted.payload.exp,
+      data_uri: "ipfs://vip",
+      ext: { tier: 2, benefits: ["lounge"] },
+    });
+  });
+});
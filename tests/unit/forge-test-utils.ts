@@ -0,0 +1,75 @@
+// tests/unit/forge-test-utils.ts
+//
+// Fixtures shared by the forge suites: an in-memory store, a forge that is
+// ready to serve without relays, and a response object recording what a
+// handler sent. Import "@tat-protocol/nwpc" before this module so the nwpc
+// barrel's constants are initialized before the forge barrel loads.
+import type { ForgeBase, ForgeConfig } from "@tat-protocol/forge";
+import type { StorageInterface } from "@tat-protocol/storage";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+
+export const OWNER_SK = "11".repeat(32);
+export const OWNER = bytesToHex(schnorr.getPublicKey(OWNER_SK));
+
+export class MemStore implements StorageInterface {
+  m = new Map<string, string>();
+  async getItem(k: string) {
+    return this.m.get(k) ?? null;
+  }
+  async setItem(k: string, v: string) {
+    this.m.set(k, v);
+  }
+  async removeItem(k: string) {
+    this.m.delete(k);
+  }
+  async clear() {
+    this.m.clear();
+  }
+}
+
+/**
+ * A forge owned by OWNER, keyed with OWNER_SK unless `config.keys` is set,
+ * with a fresh MemStore and a supply of 1000. It is marked initialized
+ * without connecting, so handlers can be called directly.
+ */
+export function createForge<T extends ForgeBase>(
+  Forge: new (config: ForgeConfig) => T,
+  config: Partial<ForgeConfig> = {},
+): T {
+  const keys = config.keys ?? { secretKey: OWNER_SK, publicKey: OWNER };
+  const forge = new Forge({
+    owner: OWNER,
+    storage: new MemStore(),
+    totalSupply: 1000,
+    relays: [],
+    ...config,
+    keys,
+  });
+  forge.isInitialized = true;
+  return forge;
+}
+
+/**
+ * A response object recording each `send` and `error` in `calls`. With
+ * `failOnSend`, every `send` throws, as if the forge crashed while replying.
+ */
+export function makeRes(failOnSend = false) {
+  const calls: { type: string; args: any[] }[] = [];
+  return {
+    calls,
+    send: async (...args: any[]) => {
+      if (failOnSend) throw new Error("crash");
+      calls.push({ type: "send", args });
+      return { result: args[0] };
+    },
+    error: async (...args: any[]) => {
+      calls.push({ type: "error", args });
+      return { error: { code: args[0], message: args[1] } };
+    },
+  } as any;
+}
+
+export function req(params: unknown, id = "r") {
+  return { id, method: "m", params: JSON.stringify(params), timestamp: 0 };
+}
@@ -0,0 +1,139 @@
+// Transfer policies: compliance rules evaluated in order before a transfer's
+// outputs are signed; the first denial rejects it with its error code and
+// nothing is spent.
+import "@tat-protocol/nwpc";
+import {
+  FungibleForge,
+  NonFungibleForge,
+  SimpleTransferPolicy,
+} from "@tat-protocol/forge";
+import type { ForgeConfig, TransferPolicy } from "@tat-protocol/forge";
+import { createForge, makeRes } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+const MALLORY = "e".repeat(64);
+
+function makeForge<T extends FungibleForge | NonFungibleForge>(
+  Forge: new (config: ForgeConfig) => T,
+  transferPolicies: TransferPolicy[] = [],
+): T {
+  return createForge(Forge, { totalSupply: 0, transferPolicies });
+}
+
+// Mints of equal value in the same second would share a token hash.
+let mints = 0;
+
+async function transfer(
+  forge: FungibleForge | NonFungibleForge,
+  out: Record<string, unknown>,
+) {
+  const { token, jwt } = await (forge as any).mintValue(10 + mints++, {});
+  const res = makeRes();
+  await forge.transferToken(
+    {
+      id: "r",
+      method: "transfer",
+      params: JSON.stringify({
+        ins: [jwt],
+        outs: [
+          JSON.stringify({ tokenID: String(token.payload.tokenID), ...out }),
+        ],
+      }),
+      timestamp: 0,
+    },
+    { sender: ALICE } as any,
+    res,
+  );
+  const spent = await forge.spentTokenStore.has(token.header.token_hash);
+  return { call: res.calls[0], spent };
+}
+
+describe("transfer policies", () => {
+  it("composes policies and stops at the first denial", async () => {
+    const seen: string[] = [];
+    const audit: TransferPolicy = {
+      name: "audit",
+      evaluate({ outs, sender }) {
+        seen.push(`${sender}->${outs[0].to}`);
+        return { allowed: true };
+      },
+    };
+    const forge = makeForge(FungibleForge, [
+      audit,
+      new SimpleTransferPolicy({ allowedRecipients: [BOB] }),
+    ]);
+    expect((await transfer(forge, { to: BOB, amount: 10 })).call.type).toBe(
+      "send",
+    );
+
+    const denied = await transfer(forge, { to: MALLORY, amount: 10 });
+    expect(denied.call.args).toEqual([
+      2004,
+      `Transfer denied by SimpleTransferPolicy: ${MALLORY} is not an allowed recipient`,
+    ]);
+    expect(denied.spent).toBe(false);
+    expect(seen).toEqual([`${ALICE}->${BOB}`, `${ALICE}->${MALLORY}`]);
+
+    const kyc: TransferPolicy = {
+      name: "kyc",
+      evaluate: async () => ({
+        allowed: false,
+        reason: "KYC pending",
+        code: 1001,
+      }),
+    };
+    forge.addTransferPolicy(kyc);
+    expect((await transfer(forge, { to: BOB, amount: 10 })).call.args).toEqual([
+      1001,
+      "Transfer denied by kyc: KYC pending",
+    ]);
+    expect(forge.removeTransferPolicy(kyc)).toBe(true);
+    expect((await transfer(forge, { to: BOB, amount: 10 })).call.type).toBe(
+      "send",
+    );
+  });
+
+  it("applies caps, holding periods and blocklists to TATs", async () => {
+    const forge = makeForge(NonFungibleForge, [
+      new SimpleTransferPolicy({
+        blockedPubkeys: [MALLORY],
+        holdingPeriod: 60,
+      }),
+    ]);
+    const held = await transfer(forge, { to: BOB });
+    expect(held.call.args[0]).toBe(1001);
+    expect(held.call.args[1]).toContain("must be held for 60 seconds");
+    expect(held.spent).toBe(false);
+
+    const capped = makeForge(FungibleForge, [
+      new SimpleTransferPolicy({
+        maxPerTransfer: 5,
+        blockedPubkeys: [MALLORY],
+      }),
+    ]);
+    expect((await transfer(capped, { to: BOB, amount: 6 })).call.args).toEqual([
+      1004,
+      "Transfer denied by SimpleTransferPolicy: Transfer of 6 exceeds the limit of 5",
+    ]);
+    expect(
+      (await transfer(capped, { to: MALLORY, amount: 5 })).call.args[1],
+    ).toContain(`${MALLORY} is blocked`);
+  });
+
+  it("fails closed when a policy throws", async () => {
+    const forge = makeForge(FungibleForge, [
+      {
+        evaluate() {
+          throw new Error("sanctions list unavailable");
+        },
+      },
+    ]);
+    const { call, spent } = await transfer(forge, { to: BOB, amount: 10 });
+    expect(call.args).toEqual([
+      3000,
+      "Transfer denied: transfer policy failed: sanctions list unavailable",
+    ]);
+    expect(spent).toBe(false);
+  });
+});
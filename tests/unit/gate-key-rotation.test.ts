@@ -0,0 +1,147 @@
+// Gate key rotation: a gate follows a forge's announcement only when the new
+// key countersigned it, keeps the first rotation seen for a key, and issuer
+// rules follow the key forward, never back to whoever named it.
+import { SimpleAccessPolicy } from "../../packages/gate/src";
+import {
+  KEY_ROTATION_KIND,
+  keyRotationDigest,
+  signKeyRotation,
+} from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent } from "nostr-tools";
+import { keyPair, makeGate, now, tokenOf } from "./gate-test-utils";
+
+const FORGE = keyPair("11".repeat(32));
+const NEXT = keyPair("22".repeat(32));
+const OTHER = keyPair("33".repeat(32));
+const ATTACKER = keyPair("44".repeat(32));
+
+async function rotation(
+  from: typeof FORGE,
+  to: typeof FORGE,
+  compromised = false,
+) {
+  const event = await signKeyRotation(undefined as any, from, to, compromised);
+  return event.rawEvent() as any;
+}
+
+describe("gate key rotation", () => {
+  it("refuses a key naming an allowed issuer as its successor", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const rotatedAt = now() + 365 * 24 * 60 * 60;
+    const unsigned = {
+      kind: KEY_ROTATION_KIND,
+      created_at: rotatedAt,
+      tags: [
+        ["d", "key-rotation"],
+        ["p", FORGE.publicKey],
+      ],
+      content: "",
+    };
+    const selfAccepted = {
+      ...unsigned,
+      tags: [
+        ...unsigned.tags,
+        [
+          "accept",
+          bytesToHex(
+            schnorr.sign(
+              keyRotationDigest(ATTACKER.publicKey, FORGE.publicKey),
+              ATTACKER.secretKey,
+            ),
+          ),
+        ],
+      ],
+    };
+    for (const template of [unsigned, selfAccepted]) {
+      const event = finalizeEvent(template, hexToBytes(ATTACKER.secretKey));
+      await expect(gate.followKeyRotation(event)).rejects.toThrow(
+        "Invalid key rotation announcement",
+      );
+    }
+
+    const result = await gate.validateToken(await tokenOf(ATTACKER, now()));
+    expect(result).toMatchObject({
+      valid: false,
+      reason: "Token issuer is not allowed",
+    });
+  });
+
+  it("carries issuer rules from the retired key to its successor only", () => {
+    const policy = new SimpleAccessPolicy({
+      name: "test",
+      allowedIssuers: [FORGE.publicKey],
+      blockedIssuers: [OTHER.publicKey],
+      requireValidSignature: true,
+      requireNotExpired: true,
+    });
+    const rotatedAt = now();
+    policy.followKeyRotation({
+      oldPubkey: FORGE.publicKey,
+      newPubkey: NEXT.publicKey,
+      rotatedAt,
+    });
+    policy.followKeyRotation({
+      oldPubkey: ATTACKER.publicKey,
+      newPubkey: FORGE.publicKey,
+      rotatedAt,
+    });
+    policy.followKeyRotation({
+      oldPubkey: ATTACKER.publicKey,
+      newPubkey: OTHER.publicKey,
+      rotatedAt,
+    });
+    expect(policy.policy.allowedIssuers).toEqual([
+      FORGE.publicKey,
+      NEXT.publicKey,
+    ]);
+    expect(policy.policy.blockedIssuers).toEqual([OTHER.publicKey]);
+  });
+
+  it("accepts the retired key's tokens issued before the rotation", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const before = await tokenOf(FORGE, now() - 60);
+    const followed = await gate.followKeyRotation(await rotation(FORGE, NEXT));
+    expect(followed).toMatchObject({
+      oldPubkey: FORGE.publicKey,
+      newPubkey: NEXT.publicKey,
+    });
+
+    expect((await gate.validateToken(before)).valid).toBe(true);
+    expect((await gate.validateToken(await tokenOf(NEXT, now()))).valid).toBe(
+      true,
+    );
+    const after = await gate.validateToken(await tokenOf(FORGE, now() + 60));
+    expect(after.reason).toBe("Token was issued by a retired forge key");
+  });
+
+  it("keeps the first rotation and a compromised mark", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const before = await tokenOf(FORGE, now() - 60);
+    await gate.followKeyRotation(await rotation(FORGE, NEXT));
+    await expect(
+      gate.followKeyRotation(await rotation(FORGE, OTHER)),
+    ).rejects.toThrow(`already rotated to ${NEXT.publicKey}`);
+
+    await gate.followKeyRotation(await rotation(FORGE, NEXT, true));
+    await gate.followKeyRotation(await rotation(FORGE, NEXT));
+    const result = await gate.validateToken(before);
+    expect(result.reason).toBe("Token was issued by a retired forge key");
+  });
+
+  it("stops at rotation cycles when matching issuers", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    await gate.followKeyRotation(await rotation(FORGE, NEXT));
+    await gate.followKeyRotation(await rotation(NEXT, FORGE));
+    const issuerKeys = (gate as any).issuerKeys.bind(gate);
+    expect(issuerKeys(FORGE.publicKey)).toEqual([
+      FORGE.publicKey,
+      NEXT.publicKey,
+    ]);
+    expect(issuerKeys(NEXT.publicKey)).toEqual([
+      NEXT.publicKey,
+      FORGE.publicKey,
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+// Gate token revocation: notices are kept per signer and only those of the
+// token's issuer, or a key it rotated to, decide whether it may be spent.
+import { Token } from "@tat-protocol/token";
+import { signKeyRotation, TOKEN_REVOCATION_KIND } from "@tat-protocol/utils";
+import { hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent } from "nostr-tools";
+import { keyPair, makeGate, now, tokenOf } from "./gate-test-utils";
+
+const FORGE = keyPair("11".repeat(32));
+const NEXT = keyPair("22".repeat(32));
+const STRANGER = keyPair("33".repeat(32));
+
+function notice(
+  signer: typeof FORGE,
+  tokenHash: string,
+  status: "revoked" | "frozen" | "active",
+  createdAt: number,
+) {
+  return finalizeEvent(
+    {
+      kind: TOKEN_REVOCATION_KIND,
+      created_at: createdAt,
+      tags: [
+        ["d", tokenHash],
+        ["t", tokenHash],
+        ["status", status],
+        ...(status === "active" ? [] : [["reason", "fraud"]]),
+      ],
+      content: "",
+    },
+    hexToBytes(signer.secretKey),
+  );
+}
+
+async function issued(iat = now() - 60) {
+  const jwt = await tokenOf(FORGE, iat);
+  const token = await new Token().restore(jwt);
+  return { jwt, hash: token.header.token_hash };
+}
+
+describe("gate token revocation", () => {
+  it("blocks a token its issuer revoked", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const { jwt, hash } = await issued();
+    await gate.followTokenRevocation(notice(FORGE, hash, "revoked", now()));
+
+    expect(await gate.validateToken(jwt)).toMatchObject({
+      valid: false,
+      reason: "Token is revoked by its issuer (fraud)",
+    });
+  });
+
+  it("ignores notices from anyone but the issuer", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const { jwt, hash } = await issued();
+    await gate.followTokenRevocation(notice(STRANGER, hash, "frozen", now()));
+    expect((await gate.validateToken(jwt)).valid).toBe(true);
+
+    await gate.followTokenRevocation(notice(FORGE, hash, "revoked", now()));
+    await gate.followTokenRevocation(
+      notice(STRANGER, hash, "active", now() + 60),
+    );
+    expect((await gate.validateToken(jwt)).valid).toBe(false);
+  });
+
+  it("applies the newest notice across the issuer's rotated keys", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const { jwt, hash } = await issued();
+    const rotation = await signKeyRotation(undefined as any, FORGE, NEXT);
+    await gate.followKeyRotation(rotation.rawEvent() as any);
+
+    await gate.followTokenRevocation(notice(FORGE, hash, "revoked", now()));
+    await gate.followTokenRevocation(notice(NEXT, hash, "active", now() + 60));
+    expect((await gate.validateToken(jwt)).valid).toBe(true);
+
+    await gate.followTokenRevocation(notice(NEXT, hash, "frozen", now() + 120));
+    expect((await gate.validateToken(jwt)).reason).toBe(
+      "Token is frozen by its issuer (fraud)",
+    );
+  });
+
+  it("keeps a reinstatement when an older revocation is replayed", async () => {
+    const gate = await makeGate([FORGE.publicKey]);
+    const { jwt, hash } = await issued();
+    const revoked = notice(FORGE, hash, "revoked", now());
+    await gate.followTokenRevocation(revoked);
+    await gate.followTokenRevocation(notice(FORGE, hash, "active", now() + 60));
+    await gate.followTokenRevocation(revoked);
+
+    expect((await gate.validateToken(jwt)).valid).toBe(true);
+  });
+});
@@ -0,0 +1,47 @@
+// tests/unit/gate-test-utils.ts
+import { GateBase, SimpleAccessPolicy } from "../../packages/gate/src";
+import { Token, TokenType } from "@tat-protocol/token";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { MemStore } from "./forge-test-utils";
+
+export const now = () => Math.floor(Date.now() / 1000);
+
+export const keyPair = (secretKey: string) => ({
+  secretKey,
+  publicKey: bytesToHex(schnorr.getPublicKey(secretKey)),
+});
+
+// Accepts every token the forge would; the tests exercise the gate's own checks.
+export class TestGate extends GateBase {
+  protected async validateTokenWithForge(): Promise<boolean> {
+    return true;
+  }
+}
+
+export async function makeGate(allowedIssuers: string[]) {
+  const gate = new TestGate({
+    storage: new MemStore(),
+    accessPolicy: new SimpleAccessPolicy({
+      name: "test",
+      allowedIssuers,
+      requireValidSignature: true,
+      requireNotExpired: true,
+    }),
+  });
+  await gate.initialize();
+  return gate;
+}
+
+// A token issued by `keys` at `iat` (Unix seconds).
+export async function tokenOf(
+  keys: { secretKey: string; publicKey: string },
+  iat: number,
+) {
+  const token = await new Token().build({
+    token_type: TokenType.FUNGIBLE,
+    payload: { iss: keys.publicKey, iat, amount: 1 },
+  });
+  const message = new TextEncoder().encode(token.header.token_hash);
+  return token.toJWT(bytesToHex(schnorr.sign(message, keys.secretKey)));
+}
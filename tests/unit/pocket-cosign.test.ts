@@ -0,0 +1,103 @@
+// Pocket multisig co-signing: a pocket collects its co-signers' witnesses over
+// `multisig.sign`, merging only signatures that verify for their slot.
+import { spendAuthDigest } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { Token } from "@tat-protocol/token";
+import {
+  answer,
+  createPocket,
+  handle,
+  issue,
+  keyPair,
+} from "./pocket-test-utils";
+
+const ALICE = keyPair("a1".repeat(32));
+const BOB = keyPair("b0".repeat(32));
+const VENDOR = keyPair("c0".repeat(32));
+
+async function multisigTx() {
+  const jwt = await issue({
+    amount: 40,
+    multisig: { m: 2, pubkeys: [ALICE.publicKey, BOB.publicKey] },
+  });
+  const outs = [JSON.stringify({ to: VENDOR.publicKey, amount: 40 })];
+  const { header } = await new Token().restore(jwt);
+  return {
+    tx: { ins: [jwt], outs },
+    digest: spendAuthDigest(header.token_hash!, outs),
+  };
+}
+
+describe("pocket co-signing", () => {
+  it("merges the co-signer's signature for its slot", async () => {
+    const alice = await createPocket(ALICE.secretKey);
+    const bob = await createPocket(BOB.secretKey);
+    const approve = jest.fn().mockReturnValue(true);
+    bob.onCosignRequest = approve;
+    const request = answer(alice, (method, params) =>
+      handle(bob, method, params, ALICE.publicKey),
+    );
+    const { tx, digest } = await multisigTx();
+
+    const signed = await alice.requestCosignatures(tx, [BOB.publicKey]);
+
+    expect(request).toHaveBeenCalledWith(
+      "multisig.sign",
+      tx,
+      BOB.publicKey,
+      undefined,
+      60000,
+    );
+    expect(approve).toHaveBeenCalledWith(
+      expect.objectContaining({ ins: tx.ins }),
+      ALICE.publicKey,
+    );
+    const [[aliceSlot, bobSlot]] = signed.witnessData as string[][];
+    expect(aliceSlot).toBe("");
+    expect(schnorr.verify(hexToBytes(bobSlot), digest, BOB.publicKey)).toBe(
+      true,
+    );
+  });
+
+  it("fails when the co-signer declines", async () => {
+    const alice = await createPocket(ALICE.secretKey);
+    const bob = await createPocket(BOB.secretKey);
+    answer(alice, (method, params) =>
+      handle(bob, method, params, ALICE.publicKey),
+    );
+    const { tx } = await multisigTx();
+
+    await expect(
+      alice.requestCosignatures(tx, [BOB.publicKey]),
+    ).rejects.toThrow(
+      `Co-signer ${BOB.publicKey} declined: Co-signing declined`,
+    );
+
+    bob.onCosignRequest = () => false;
+    await expect(
+      alice.requestCosignatures(tx, [BOB.publicKey]),
+    ).rejects.toThrow("Co-signing declined");
+  });
+
+  it("drops signatures that do not verify for their slot", async () => {
+    const alice = await createPocket(ALICE.secretKey);
+    const { tx, digest } = await multisigTx();
+    const otherOuts = [JSON.stringify({ to: BOB.publicKey, amount: 40 })];
+    const { header } = await new Token().restore(tx.ins[0]);
+    const elsewhere = spendAuthDigest(header.token_hash!, otherOuts);
+    answer(alice, () => ({
+      result: {
+        witnessData: [
+          [
+            bytesToHex(schnorr.sign(digest, BOB.secretKey)),
+            bytesToHex(schnorr.sign(elsewhere, BOB.secretKey)),
+          ],
+        ],
+      },
+    }));
+
+    const signed = await alice.requestCosignatures(tx, [BOB.publicKey]);
+    expect(signed.witnessData).toEqual([["", ""]]);
+  });
+});
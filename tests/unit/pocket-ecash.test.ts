@@ -0,0 +1,87 @@
+// Pocket ecash: proofs are swapped at the forge for the exact amount before
+// they leave the pocket, and a receiver swaps them again so the sender cannot
+// spend them twice.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import type { Pocket } from "@tat-protocol/pocket";
+import { OWNER, createForge, makeRes, req } from "./forge-test-utils";
+import { answer, createPocket, keyPair } from "./pocket-test-utils";
+
+const ALICE = keyPair("a1".repeat(32));
+const BOB = keyPair("b0".repeat(32));
+
+// Routes the pocket's ecash requests to the forge's handlers, answering
+// with the first message each sends back.
+function connect(pocket: Pocket, forge: FungibleForge) {
+  const handlers: Record<string, (...args: any[]) => Promise<unknown>> = {
+    "ecash.keys": forge.handleEcashKeys.bind(forge),
+    "ecash.swap": forge.handleEcashSwap.bind(forge),
+  };
+  return answer(pocket, async (method, params) => {
+    const res = makeRes();
+    await handlers[method](req(params), { sender: pocket.getPublicKey() }, res);
+    const [{ type, args }] = res.calls;
+    return type === "send"
+      ? { result: args[0] }
+      : { error: { code: args[0], message: args[1] } };
+  });
+}
+
+// A pocket holding ecash of `amounts` minted by the forge's owner.
+async function funded(
+  secretKey: string,
+  forge: FungibleForge,
+  amounts: number[],
+) {
+  const pocket = await createPocket(secretKey);
+  connect(pocket, forge);
+  const blinded = await (pocket as any).blindEcashOutputs(OWNER, amounts);
+  const response = await forge.handleEcashMint(
+    req({ outputs: blinded.map(({ amount, B_ }: any) => ({ amount, B_ })) }),
+    { sender: OWNER } as any,
+    makeRes(),
+  );
+  await (pocket as any).storeEcash(OWNER, blinded, response, []);
+  return pocket;
+}
+
+describe("pocket ecash", () => {
+  it("sends ecash only the receiver can spend", async () => {
+    const forge = createForge(FungibleForge, { ecash: {} });
+    const alice = await funded(ALICE.secretKey, forge, [8, 2]);
+    const bob = await createPocket(BOB.secretKey);
+    connect(bob, forge);
+    expect(alice.getEcashBalance(OWNER)).toBe(10);
+
+    const encoded = await alice.sendEcash(OWNER, 6);
+    expect(encoded.startsWith("tatecashA")).toBe(true);
+    expect(alice.getEcashBalance(OWNER)).toBe(4);
+
+    await expect(bob.receiveEcash(encoded)).resolves.toBe(6);
+    expect(bob.getEcashBalance(OWNER)).toBe(6);
+    await expect(alice.receiveEcash(encoded)).rejects.toThrow(
+      "ecash.swap failed",
+    );
+    expect(alice.getEcashBalance(OWNER)).toBe(4);
+  });
+
+  it("keeps its proofs when the forge refuses a swap", async () => {
+    const forge = createForge(FungibleForge, { ecash: {} });
+    const alice = await funded(ALICE.secretKey, forge, [8]);
+    const held = alice.getState().ecash.get(OWNER);
+    const keys = forge.getEcashKeys();
+    answer(alice, (method) =>
+      method === "ecash.keys"
+        ? { result: keys }
+        : { error: { code: 2002, message: "Token Spent" } },
+    );
+
+    await expect(alice.sendEcash(OWNER, 3)).rejects.toThrow(
+      "ecash.swap failed: Token Spent",
+    );
+    expect(alice.getState().ecash.get(OWNER)).toBe(held);
+    await expect(alice.sendEcash(OWNER, 9)).rejects.toThrow(
+      "Insufficient ecash to send 9",
+    );
+  });
+});
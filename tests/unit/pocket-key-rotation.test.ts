@@ -0,0 +1,80 @@
+// Pocket key rotation: held tokens follow a countersigned rotation to the new
+// key, the first rotation seen for a key is kept, and cycles are refused.
+import { signKeyRotation } from "@tat-protocol/utils";
+import { hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent } from "nostr-tools";
+import { FORGE, createPocket, give, issue, keyPair } from "./pocket-test-utils";
+
+const NEXT = keyPair("22".repeat(32));
+const OTHER = keyPair("33".repeat(32));
+const OWNER = keyPair("a1".repeat(32));
+
+async function rotation(
+  from: typeof FORGE,
+  to: typeof FORGE,
+  compromised = false,
+) {
+  const event = await signKeyRotation(undefined as any, from, to, compromised);
+  return event.rawEvent() as any;
+}
+
+describe("pocket key rotation", () => {
+  it("files held tokens under the new key", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    await give(pocket, await issue({ amount: 5 }));
+    await give(pocket, await issue({ amount: 3 }, NEXT));
+    const onTokenChange = jest.fn();
+    pocket.onTokenChange = onTokenChange;
+
+    await pocket.followKeyRotation(await rotation(FORGE, NEXT));
+
+    expect(pocket.currentIssuer(FORGE.publicKey)).toBe(NEXT.publicKey);
+    expect(pocket.getBalance(NEXT.publicKey, "-")).toBe(8);
+    expect(pocket.getState().tokens.has(FORGE.publicKey)).toBe(false);
+    expect(onTokenChange).toHaveBeenCalled();
+  });
+
+  it("refuses an announcement the new key did not countersign", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    const { kind, created_at, tags, content } = await rotation(FORGE, NEXT);
+    const event = finalizeEvent(
+      {
+        kind,
+        created_at,
+        tags: tags.filter((tag: string[]) => tag[0] !== "accept"),
+        content,
+      },
+      hexToBytes(FORGE.secretKey),
+    );
+
+    await expect(pocket.followKeyRotation(event)).rejects.toThrow(
+      "Invalid key rotation announcement",
+    );
+    expect(pocket.currentIssuer(FORGE.publicKey)).toBe(FORGE.publicKey);
+  });
+
+  it("keeps the first rotation seen for a key", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    await pocket.followKeyRotation(await rotation(FORGE, NEXT));
+
+    await expect(
+      pocket.followKeyRotation(await rotation(FORGE, OTHER)),
+    ).rejects.toThrow(
+      `Key ${FORGE.publicKey} was already rotated to ${NEXT.publicKey}`,
+    );
+    expect(pocket.currentIssuer(FORGE.publicKey)).toBe(NEXT.publicKey);
+  });
+
+  it("refuses a rotation that would form a cycle", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    await pocket.followKeyRotation(await rotation(FORGE, NEXT));
+    await pocket.followKeyRotation(await rotation(NEXT, OTHER));
+
+    await expect(
+      pocket.followKeyRotation(await rotation(OTHER, FORGE)),
+    ).rejects.toThrow(
+      `Rotating ${OTHER.publicKey} to ${FORGE.publicKey} would form a cycle`,
+    );
+    expect(pocket.currentIssuer(FORGE.publicKey)).toBe(OTHER.publicKey);
+  });
+});
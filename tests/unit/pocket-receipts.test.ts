@@ -0,0 +1,87 @@
+// Pocket receipts: a pocket keeps the first receipt for a request it sent,
+// and only when the forge it sent the request to signed it.
+import type { Receipt } from "@tat-protocol/token";
+import { receiptDigest } from "@tat-protocol/token";
+import { signKeyRotation } from "@tat-protocol/utils";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { FORGE, createPocket, keyPair } from "./pocket-test-utils";
+
+const OWNER = keyPair("a1".repeat(32));
+const NEXT = keyPair("22".repeat(32));
+const OTHER = keyPair("33".repeat(32));
+
+function receipt(
+  signer: typeof FORGE,
+  requestId: string,
+  timestamp = 1700000000,
+): Receipt {
+  const fields: Omit<Receipt, "sig"> = {
+    type: "transfer",
+    issuer: signer.publicKey,
+    requestId,
+    timestamp,
+    inputs: [{ tokenHash: "ab".repeat(32), amount: 5 }],
+    outputs: [{ tokenHash: "cd".repeat(32), amount: 5, to: OWNER.publicKey }],
+  };
+  const sig = schnorr.sign(receiptDigest(fields), signer.secretKey);
+  return { ...fields, sig: bytesToHex(sig) };
+}
+
+describe("pocket receipts", () => {
+  it("keeps the forge's receipt for a request sent to it", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    const store = (pocket as any).storeReceipt.bind(pocket);
+    const signed = receipt(FORGE, "req-1");
+
+    await store(signed, "req-1", FORGE.publicKey, FORGE.publicKey);
+    expect(pocket.getReceipt("req-1")).toEqual(signed);
+
+    await store(
+      receipt(FORGE, "req-1", 1700000001),
+      "req-1",
+      FORGE.publicKey,
+      FORGE.publicKey,
+    );
+    expect(pocket.getReceipt("req-1")).toEqual(signed);
+  });
+
+  it("ignores receipts not signed by the forge the request went to", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    const store = (pocket as any).storeReceipt.bind(pocket);
+    const forged = { ...receipt(OTHER, "req-1"), issuer: FORGE.publicKey };
+
+    await store(receipt(FORGE, "req-1"), "req-1", undefined, FORGE.publicKey);
+    await store(
+      receipt(FORGE, "req-2"),
+      "req-1",
+      FORGE.publicKey,
+      FORGE.publicKey,
+    );
+    await store(
+      receipt(FORGE, "req-1"),
+      "req-1",
+      FORGE.publicKey,
+      OTHER.publicKey,
+    );
+    await store(
+      receipt(OTHER, "req-1"),
+      "req-1",
+      FORGE.publicKey,
+      FORGE.publicKey,
+    );
+    await store(forged, "req-1", FORGE.publicKey, FORGE.publicKey);
+    expect(pocket.getReceipt("req-1")).toBeUndefined();
+  });
+
+  it("keeps receipts signed by a key the forge rotated from", async () => {
+    const pocket = await createPocket(OWNER.secretKey);
+    const store = (pocket as any).storeReceipt.bind(pocket);
+    const rotation = await signKeyRotation(undefined as any, FORGE, NEXT);
+    await pocket.followKeyRotation(rotation.rawEvent() as any);
+    const signed = receipt(FORGE, "req-1");
+
+    await store(signed, "req-1", FORGE.publicKey, NEXT.publicKey);
+    expect(pocket.getReceipt("req-1")).toEqual(signed);
+  });
+});
@@ -0,0 +1,155 @@
+// Pocket swaps: the maker offers a leg and asks for an asset, the taker signs
+// a leg paying it, and the maker only submits when that leg pays what was
+// asked, from the right set, to the offer's receive address.
+import { spendAuthDigest, swapSpendOuts } from "@tat-protocol/utils";
+import { Token } from "@tat-protocol/token";
+import { schnorr } from "@noble/curves/secp256k1";
+import { hexToBytes } from "@noble/hashes/utils";
+import {
+  FORGE,
+  answer,
+  createPocket,
+  give,
+  issue,
+  keyPair,
+} from "./pocket-test-utils";
+
+const SELLER = keyPair("a1".repeat(32));
+const BUYER = keyPair("b0".repeat(32));
+
+// Pockets of a seller holding TAT 42 and a buyer holding 50 of the default
+// set and 50 of set "gold", at a forge charging no fees.
+async function parties() {
+  const seller = await createPocket(SELLER.secretKey);
+  const buyer = await createPocket(BUYER.secretKey);
+  await give(
+    seller,
+    await issue({ tokenID: "42", P2PKlock: SELLER.publicKey }),
+  );
+  await give(buyer, await issue({ amount: 50, P2PKlock: BUYER.publicKey }));
+  await give(
+    buyer,
+    await issue({ amount: 50, setID: "gold", P2PKlock: BUYER.publicKey }),
+  );
+  const free = (_method: string, params: any) => ({
+    result: { amount: params.amount, fee: 0, total: params.amount },
+  });
+  answer(buyer, free);
+  const submitted = answer(seller, free);
+  return { seller, buyer, submitted };
+}
+
+async function signedBy(
+  jwt: string,
+  legs: any[],
+  witness: unknown,
+  key: string,
+) {
+  const { header } = await new Token().restore(jwt);
+  const digest = spendAuthDigest(header.token_hash!, swapSpendOuts(legs));
+  return schnorr.verify(hexToBytes(String(witness)), digest, key);
+}
+
+describe("pocket swaps", () => {
+  it("settles an offer the counterparty paid", async () => {
+    const { seller, buyer, submitted } = await parties();
+    const offer = await seller.createSwapOffer(
+      FORGE.publicKey,
+      { tokenID: "42" },
+      { amount: 50 },
+      BUYER.publicKey,
+    );
+    expect(offer.legs[0].outs).toEqual([
+      expect.objectContaining({ to: BUYER.publicKey, tokenID: "42" }),
+    ]);
+
+    const accepted = await buyer.acceptSwapOffer(offer);
+    await seller.submitSwap(accepted);
+
+    expect(submitted).toHaveBeenLastCalledWith(
+      "swap",
+      expect.objectContaining({ legs: expect.any(Array) }),
+      FORGE.publicKey,
+      undefined,
+      60000,
+    );
+    const { legs } = submitted.mock.lastCall![1];
+    const [maker, taker] = legs;
+    expect(
+      await signedBy(
+        maker.ins[0],
+        legs,
+        maker.witnessData[0],
+        SELLER.publicKey,
+      ),
+    ).toBe(true);
+    expect(
+      await signedBy(taker.ins[0], legs, taker.witnessData[0], BUYER.publicKey),
+    ).toBe(true);
+    expect(taker.outs).toContainEqual(
+      expect.objectContaining({ to: offer.legs[1].outs[0].to, amount: 50 }),
+    );
+  });
+
+  it("refuses a counter leg that does not pay what was asked", async () => {
+    const { seller, buyer, submitted } = await parties();
+    const offer = await seller.createSwapOffer(
+      FORGE.publicKey,
+      { tokenID: "42" },
+      { amount: 50 },
+      BUYER.publicKey,
+    );
+    const accepted = await buyer.acceptSwapOffer(offer);
+    const [maker, taker] = accepted.legs;
+    const askedTo = offer.legs[1].outs[0].to;
+    const underpaid = taker.outs.map((out) =>
+      out.to === askedTo ? { ...out, amount: 40 } : out,
+    );
+    const elsewhere = taker.outs.map((out) =>
+      out.to === askedTo ? { ...out, to: BUYER.publicKey } : out,
+    );
+    const gold = await buyer.acceptSwapOffer({
+      ...offer,
+      want: { amount: 50, setID: "gold" },
+    });
+
+    for (const counter of [
+      { ...taker, outs: underpaid },
+      { ...taker, outs: elsewhere },
+      { ...taker, ins: [] },
+      gold.legs[1],
+    ]) {
+      await expect(
+        seller.submitSwap({ ...accepted, legs: [maker, counter] }),
+      ).rejects.toThrow(
+        "The counter leg does not pay what the offer asked for",
+      );
+    }
+    expect(submitted).not.toHaveBeenCalledWith(
+      "swap",
+      expect.anything(),
+      expect.anything(),
+      undefined,
+      60000,
+    );
+  });
+
+  it("submits only offers this pocket made", async () => {
+    const { seller, buyer } = await parties();
+    const offer = await seller.createSwapOffer(
+      FORGE.publicKey,
+      { tokenID: "42" },
+      { amount: 50 },
+      BUYER.publicKey,
+    );
+    const accepted = await buyer.acceptSwapOffer(offer);
+
+    await expect(buyer.submitSwap(accepted)).rejects.toThrow(
+      "Unknown swap offer",
+    );
+    await seller.submitSwap(accepted);
+    await expect(seller.submitSwap(accepted)).rejects.toThrow(
+      "Unknown swap offer",
+    );
+  });
+});
@@ -0,0 +1,84 @@
+// tests/unit/pocket-test-utils.ts
+//
+// Fixtures shared by the pocket suites: pockets on an in-memory store with
+// fixed keys, tokens issued and signed by a test forge, and a way to answer
+// a pocket's NWPC requests or call its handlers without relays.
+import { Pocket } from "@tat-protocol/pocket";
+import { Token, TokenType } from "@tat-protocol/token";
+import { schnorr } from "@noble/curves/secp256k1";
+import { bytesToHex } from "@noble/hashes/utils";
+import { MemStore, makeRes } from "./forge-test-utils";
+
+export const keyPair = (secretKey: string) => ({
+  secretKey,
+  publicKey: bytesToHex(schnorr.getPublicKey(secretKey)),
+});
+
+export const FORGE = keyPair("f0".repeat(32));
+
+export function createPocket(secretKey: string) {
+  return Pocket.create({
+    storage: new MemStore(),
+    keys: keyPair(secretKey),
+    relays: [],
+  });
+}
+
+/**
+ * A token with `payload` issued and signed by `forge` (FORGE by default).
+ */
+export async function issue(
+  payload: Record<string, unknown>,
+  forge = FORGE,
+): Promise<string> {
+  const token = await new Token().build({
+    token_type:
+      payload.tokenID === undefined ? TokenType.FUNGIBLE : TokenType.TAT,
+    payload: {
+      iss: forge.publicKey,
+      iat: Math.floor(Date.now() / 1000),
+      ...payload,
+    },
+  });
+  const message = new TextEncoder().encode(token.header.token_hash);
+  return token.toJWT(bytesToHex(schnorr.sign(message, forge.secretKey)));
+}
+
+/**
+ * Hands `pocket` a token as if it had arrived from its forge.
+ */
+export async function give(pocket: Pocket, jwt: string) {
+  await (pocket as any).storeToken(jwt);
+}
+
+/**
+ * Answers every `request` the pocket makes with `respond`, recording the
+ * calls in the returned mock.
+ */
+export function answer(
+  pocket: Pocket,
+  respond: (method: string, params: any, to: string) => unknown,
+) {
+  const request = jest.spyOn(pocket as any, "request") as jest.SpyInstance<
+    Promise<any>,
+    any[]
+  >;
+  return request.mockImplementation(async (method, params, to) =>
+    respond(method, params, to),
+  );
+}
+
+/**
+ * Calls the pocket's handler for `method` as if `sender` had sent `params`,
+ * returning the response it sent.
+ */
+export async function handle(
+  pocket: Pocket,
+  method: string,
+  params: unknown,
+  sender: string,
+) {
+  const handler = (pocket as any).requestHandlers.get(method);
+  const req = { id: "r", method, params: JSON.stringify(params), timestamp: 0 };
+  return handler(req, { sender }, makeRes());
+}
@@ -0,0 +1,149 @@
+// Spent token store: the append-only default keeps batches atomic, persists
+// across instances and compacts its segments into snapshots, and forges move
+// version-1 state blobs (spent set inside the state) into the store on load.
+import "@tat-protocol/nwpc";
+import { FungibleForge } from "@tat-protocol/forge";
+import type { ForgeConfig } from "@tat-protocol/forge";
+import { AppendOnlySpentTokenStore } from "@tat-protocol/storage";
+import { MemStore, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+// Fails the write of `failOn`, as a full disk would.
+class FailingStore extends MemStore {
+  failOn?: string;
+  async setItem(k: string, v: string) {
+    if (k === this.failOn) throw new Error("disk full");
+    await super.setItem(k, v);
+  }
+}
+
+describe("AppendOnlySpentTokenStore", () => {
+  it("persists batches across instances", async () => {
+    const storage = new MemStore();
+    const store = new AppendOnlySpentTokenStore(storage, "s");
+    await store.addMany(["h1", "h2"]);
+    await store.add("h3");
+    await store.add("h1");
+
+    const reopened = new AppendOnlySpentTokenStore(storage, "s");
+    expect(await reopened.has("h2")).toBe(true);
+    expect(await reopened.has("h4")).toBe(false);
+    expect(await reopened.size()).toBe(3);
+    // Re-adding h1 wrote nothing; each batch is one segment.
+    expect(storage.m.get("s:head")).toBe("2");
+  });
+
+  it("drops a batch whose commit did not complete", async () => {
+    const storage = new FailingStore();
+    const store = new AppendOnlySpentTokenStore(storage, "s");
+    await store.add("h1");
+    storage.failOn = "s:head";
+    await expect(store.addMany(["h2", "h3"])).rejects.toThrow();
+
+    storage.failOn = undefined;
+    const reopened = new AppendOnlySpentTokenStore(storage, "s");
+    expect(await reopened.has("h2")).toBe(false);
+    expect(await reopened.has("h3")).toBe(false);
+    await reopened.add("h4");
+    expect(await new AppendOnlySpentTokenStore(storage, "s").has("h4")).toBe(
+      true,
+    );
+  });
+
+  it("compacts segments into a snapshot that bounds reloads", async () => {
+    const storage = new MemStore();
+    const store = new AppendOnlySpentTokenStore(storage, "s", 2);
+    await store.add("h1");
+    await store.add("h2");
+    await store.add("h3");
+    expect([...storage.m.keys()].sort()).toEqual([
+      "s:2",
+      "s:base",
+      "s:head",
+      "s:snapshot:2",
+    ]);
+    await store.add("h4");
+    expect(storage.m.has("s:snapshot:2")).toBe(false);
+    expect(storage.m.get("s:base")).toBe("4");
+
+    const reopened = new AppendOnlySpentTokenStore(storage, "s", 2);
+    expect(await reopened.size()).toBe(4);
+    expect(await reopened.has("h1")).toBe(true);
+    const read = jest.spyOn(storage, "getItem");
+    await new AppendOnlySpentTokenStore(storage, "s", 2).size();
+    expect(read).toHaveBeenCalledTimes(3);
+  });
+
+  it("loads the same set when a compaction is interrupted", async () => {
+    const storage = new FailingStore();
+    const store = new AppendOnlySpentTokenStore(storage, "s", 2);
+    await store.add("h1");
+    storage.failOn = "s:base";
+    await store.add("h2");
+    expect(storage.m.has("s:base")).toBe(false);
+
+    storage.failOn = undefined;
+    const reopened = new AppendOnlySpentTokenStore(storage, "s", 2);
+    expect(await reopened.size()).toBe(2);
+    await reopened.add("h3");
+    expect(await new AppendOnlySpentTokenStore(storage, "s", 2).size()).toBe(3);
+  });
+});
+
+describe("forge spent token store", () => {
+  function makeForge(extra: Partial<ForgeConfig> = {}) {
+    return createForge(FungibleForge, extra);
+  }
+
+  it("marks all transfer inputs spent in one batch", async () => {
+    const store = new AppendOnlySpentTokenStore(new MemStore());
+    const addMany = jest.spyOn(store, "addMany");
+    const forge = makeForge({ spentTokenStore: store });
+    const a = (await (forge as any).mintValue(4, {})).jwt;
+    const b = (await (forge as any).mintValue(6, {})).jwt;
+
+    const res = makeRes();
+    await forge.transferToken(
+      req({ ins: [a, b], outs: [JSON.stringify({ to: BOB, amount: 10 })] }),
+      { sender: ALICE } as any,
+      res,
+    );
+    expect(res.calls[0].type).toBe("send");
+    expect(addMany).toHaveBeenCalledTimes(1);
+    expect(addMany.mock.calls[0][0]).toHaveLength(2);
+    expect(await store.size()).toBe(2);
+
+    const verify = makeRes();
+    const spentHash = addMany.mock.calls[0][0][0];
+    await forge.handleVerify(
+      req({ token_hashes: [spentHash, "f".repeat(64)] }),
+      { sender: ALICE } as any,
+      verify,
+    );
+    expect(verify.calls[0].args[0].spent).toEqual({
+      [spentHash]: true,
+      ["f".repeat(64)]: false,
+    });
+  });
+
+  it("migrates a version-1 state blob into the store", async () => {
+    const store = new AppendOnlySpentTokenStore(new MemStore());
+    const forge = makeForge({ spentTokenStore: store });
+    const save = jest.spyOn(forge, "_saveState").mockResolvedValue();
+    jest.spyOn(forge, "loadState").mockResolvedValue({
+      version: 1,
+      spentTokens: new Set(["old1", "old2"]),
+      circulatingSupply: 7,
+    } as any);
+
+    await forge._loadState();
+    expect(await store.has("old1")).toBe(true);
+    expect(await store.has("old2")).toBe(true);
+    expect((forge.state as any).spentTokens).toBeUndefined();
+    expect(forge.state.version).toBe(2);
+    expect(forge.state.circulatingSupply).toBe(7);
+    expect(save).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+// Transparency log: RFC 6962 Merkle proofs, and the forge logging mints and
+// spends behind signed roots that auditors can check.
+import "@tat-protocol/nwpc";
+import { FungibleForge, TransparencyLog } from "@tat-protocol/forge";
+import {
+  logEntryLeaf,
+  logRootDigest,
+  merkleConsistencyProof,
+  merkleInclusionProof,
+  merkleLeafHash,
+  merkleRoot,
+  verifyMerkleConsistency,
+  verifyMerkleInclusion,
+  verifySignature,
+} from "@tat-protocol/utils";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { MemStore, OWNER, createForge, makeRes, req } from "./forge-test-utils";
+
+const ALICE = "a".repeat(64);
+const BOB = "b".repeat(64);
+
+function makeForge() {
+  return createForge(FungibleForge);
+}
+
+async function call(handler: Function, forge: FungibleForge, params: unknown) {
+  const res = makeRes();
+  await handler.call(forge, req(params), { sender: ALICE }, res);
+  return res.calls[0];
+}
+
+describe("Merkle proofs", () => {
+  const leaves = Array.from({ length: 13 }, (_, i) =>
+    merkleLeafHash(`leaf-${i}`),
+  );
+
+  it("verifies inclusion of every leaf in every tree size", () => {
+    for (let size = 1; size <= leaves.length; size++) {
+      const tree = leaves.slice(0, size);
+      const root = merkleRoot(tree);
+      for (let i = 0; i < size; i++) {
+        const proof = merkleInclusionProof(tree, i);
+        expect(verifyMerkleInclusion(tree[i], i, size, proof, root)).toBe(true);
+        expect(verifyMerkleInclusion(tree[i], i, size, proof, leaves[0])).toBe(
+          size === 1 && i === 0,
+        );
+      }
+    }
+  });
+
+  it("verifies consistency between every pair of tree sizes", () => {
+    for (let n = 1; n <= leaves.length; n++) {
+      for (let m = 1; m <= n; m++) {
+        const proof = merkleConsistencyProof(leaves.slice(0, n), m);
+        const oldRoot = merkleRoot(leaves.slice(0, m));
+        const newRoot = merkleRoot(leaves.slice(0, n));
+        expect(verifyMerkleConsistency(m, n, oldRoot, newRoot, proof)).toBe(
+          true,
+        );
+      }
+    }
+    // A rewritten entry breaks consistency with the earlier root.
+    const rewritten = [...leaves];
+    rewritten[2] = merkleLeafHash("forged");
+    const proof = merkleConsistencyProof(rewritten, 5);
+    expect(
+      verifyMerkleConsistency(
+        5,
+        rewritten.length,
+        merkleRoot(leaves.slice(0, 5)),
+        merkleRoot(rewritten),
+        proof,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("forge transparency log", () => {
+  it("logs mints and spends and proves them against a signed root", async () => {
+    const forge = makeForge();
+    const minted = await (forge as any).mintValue(50, {});
+    const tokenHash = minted.token.header.token_hash;
+    const early = (await call(forge.handleLogRoot, forge, {})).args[0];
+    expect(early.size).toBe(1);
+
+    const res = makeRes();
+    await forge.transferToken(
+      req({
+        ins: [minted.jwt],
+        outs: [JSON.stringify({ to: BOB, amount: 50 })],
+      }),
+      { sender: ALICE } as any,
+      res,
+    );
+    const head = (await call(forge.handleLogRoot, forge, {})).args[0];
+    expect(head.size).toBe(2);
+    expect(
+      verifySignature(
+        logRootDigest(head.size, head.root, head.timestamp),
+        hexToBytes(head.signature),
+        OWNER,
+      ),
+    ).toBe(true);
+
+    const inclusion = (
+      await call(forge.handleLogInclusion, forge, { tokenHash })
+    ).args[0];
+    expect(inclusion.entry).toEqual({ type: "spent", tokenHash });
+    expect(
+      verifyMerkleInclusion(
+        merkleLeafHash(logEntryLeaf(inclusion.entry)),
+        inclusion.index,
+        head.size,
+        inclusion.proof,
+        head.root,
+      ),
+    ).toBe(true);
+    const mint = (
+      await call(forge.handleLogInclusion, forge, { tokenHash, type: "mint" })
+    ).args[0];
+    expect(mint.entry.amount).toBe(50);
+
+    const consistency = (
+      await call(forge.handleLogConsistency, forge, { from: early.size })
+    ).args[0];
+    expect(
+      verifyMerkleConsistency(
+        early.size,
+        head.size,
+        early.root,
+        head.root,
+        consistency.proof,
+      ),
+    ).toBe(true);
+
+    const missing = await call(forge.handleLogInclusion, forge, {
+      tokenHash: "f".repeat(64),
+    });
+    expect(missing.type).toBe("error");
+  });
+
+  it("persists entries and ignores duplicates", async () => {
+    const storage = new MemStore();
+    const log = new TransparencyLog(storage, "log");
+    await log.append([
+      { type: "mint", tokenHash: "h1", amount: 5 },
+      { type: "spent", tokenHash: "h1" },
+    ]);
+    await log.append([{ type: "spent", tokenHash: "h1" }]);
+
+    const reopened = new TransparencyLog(storage, "log");
+    expect(await reopened.size()).toBe(2);
+    expect(await reopened.indexOf("spent", "h1")).toBe(1);
+    expect(await reopened.root()).toBe(await log.root());
+    expect(await reopened.getEntries(0, 1)).toEqual([
+      { type: "mint", tokenHash: "h1", amount: 5 },
+    ]);
+  });
+});